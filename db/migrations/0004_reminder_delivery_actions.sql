@@ -0,0 +1,4 @@
+alter table if exists public.reminder_deliveries
+  add column if not exists action text null,
+  add column if not exists action_at_utc timestamptz null,
+  add column if not exists snoozed_until_utc timestamptz null;
@@ -0,0 +1,3 @@
+alter table if exists public.reminders
+  add column if not exists rrule text null,
+  add column if not exists rrule_start_date date null;
@@ -0,0 +1,5 @@
+alter table if exists public.reminders
+  add column if not exists ignore_quiet_hours boolean not null default false;
+
+alter table if exists public.reminder_deliveries
+  add column if not exists postponed_until_utc timestamptz null;
@@ -0,0 +1,5 @@
+alter table if exists public.reminders
+  add column if not exists nag_interval_minutes integer null,
+  add column if not exists nag_max_repeats integer null,
+  add column if not exists nag_occurrence_utc timestamptz null,
+  add column if not exists nag_count integer not null default 0;
@@ -0,0 +1,2 @@
+alter table if exists public.reminders
+  add column if not exists catch_up_policy text null;
@@ -0,0 +1,2 @@
+alter table if exists public.reminders
+  add column if not exists condition_json jsonb null;
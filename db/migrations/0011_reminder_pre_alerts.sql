@@ -0,0 +1,2 @@
+alter table if exists public.reminders
+  add column if not exists pre_alert_offsets_minutes integer[] null;
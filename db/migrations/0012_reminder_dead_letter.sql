@@ -0,0 +1,6 @@
+alter table if exists public.users
+  add column if not exists is_active boolean not null default true,
+  add column if not exists inactive_reason text null,
+  add column if not exists inactive_since_utc timestamptz null;
+alter table if exists public.reminders
+  add column if not exists paused_reason text null;
@@ -0,0 +1,11 @@
+create table if not exists public.reminder_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_reminder_presets_user
+  on public.reminder_presets(user_id, created_at);
@@ -0,0 +1,11 @@
+alter table if exists public.users
+  add column if not exists latitude double precision null,
+  add column if not exists longitude double precision null,
+  add column if not exists location_label text null,
+  add column if not exists prayer_method text not null default 'tehran';
+alter table if exists public.reminders
+  add column if not exists anchor_event text null,
+  add column if not exists anchor_offset_minutes integer not null default 0,
+  add column if not exists anchor_latitude double precision null,
+  add column if not exists anchor_longitude double precision null,
+  add column if not exists anchor_method text null;
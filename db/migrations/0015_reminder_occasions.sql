@@ -0,0 +1,4 @@
+alter table if exists public.reminders
+  add column if not exists occasion_kind text null,
+  add column if not exists occasion_person text null,
+  add column if not exists occasion_year integer null;
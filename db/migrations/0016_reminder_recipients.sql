@@ -0,0 +1,27 @@
+alter table if exists public.reminders
+  add column if not exists share_code text null;
+
+create unique index if not exists uniq_reminders_share_code
+  on public.reminders(share_code)
+  where share_code is not null;
+
+create table if not exists public.reminder_recipients (
+  id uuid primary key default gen_random_uuid(),
+  reminder_id uuid not null references public.reminders(id) on delete cascade,
+  chat_id bigint not null,
+  chat_type text not null default 'private',
+  user_id uuid null references public.users(id) on delete cascade,
+  display_name text null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists uniq_reminder_recipients_chat
+  on public.reminder_recipients(reminder_id, chat_id);
+
+create index if not exists idx_reminder_recipients_user
+  on public.reminder_recipients(user_id);
+
+-- A recipient's copies are removed with them; with a null recipient_id they would read as the owner's deliveries.
+alter table if exists public.reminder_deliveries
+  add column if not exists recipient_id uuid null references public.reminder_recipients(id) on delete cascade,
+  add column if not exists action_by text null;
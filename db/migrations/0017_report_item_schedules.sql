@@ -0,0 +1,5 @@
+alter table if exists public.report_items
+  add column if not exists schedule_weekdays int[] null,
+  add column if not exists schedule_every_days int null,
+  add column if not exists active_from date null,
+  add column if not exists active_until date null;
@@ -0,0 +1,6 @@
+alter table if exists public.report_items
+  add column if not exists target_value numeric null,
+  add column if not exists target_bonus_xp int null;
+
+alter table if exists public.report_values
+  add column if not exists target_bonus_applied int not null default 0;
@@ -0,0 +1,2 @@
+alter table if exists public.report_items
+  add column if not exists aliases text[] null;
@@ -0,0 +1,7 @@
+-- Reusable tokens back buttons that a whole group may press, such as acknowledging a shared reminder.
+alter table if exists public.callback_tokens
+  add column if not exists reusable boolean not null default false;
+
+-- The Telegram user who added a group to a shared reminder; with the group's admins, only they can remove it.
+alter table if exists public.reminder_recipients
+  add column if not exists added_by_telegram_id bigint null;
@@ -828,3 +828,115 @@ alter table if exists public.reminders_attachments
   add column if not exists needs_manual_fix boolean not null default false;
 
 create index if not exists idx_reminders_attachments_file_id on public.reminders_attachments(file_id);
+alter table if exists public.reminder_deliveries
+  add column if not exists action text null,
+  add column if not exists action_at_utc timestamptz null,
+  add column if not exists snoozed_until_utc timestamptz null;
+alter table if exists public.reminders
+  add column if not exists rrule text null,
+  add column if not exists rrule_start_date date null;
+alter table if exists public.reminders
+  add column if not exists calendar_system text not null default 'gregorian';
+alter table if exists public.reminders
+  add column if not exists ignore_quiet_hours boolean not null default false;
+
+alter table if exists public.reminder_deliveries
+  add column if not exists postponed_until_utc timestamptz null;
+alter table if exists public.reminders
+  add column if not exists nag_interval_minutes integer null,
+  add column if not exists nag_max_repeats integer null,
+  add column if not exists nag_occurrence_utc timestamptz null,
+  add column if not exists nag_count integer not null default 0;
+alter table if exists public.reminders
+  add column if not exists catch_up_policy text null;
+alter table if exists public.reminders
+  add column if not exists condition_json jsonb null;
+alter table if exists public.reminders
+  add column if not exists pre_alert_offsets_minutes integer[] null;
+alter table if exists public.users
+  add column if not exists is_active boolean not null default true,
+  add column if not exists inactive_reason text null,
+  add column if not exists inactive_since_utc timestamptz null;
+alter table if exists public.reminders
+  add column if not exists paused_reason text null;
+
+create table if not exists public.reminder_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  name text not null,
+  payload jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_reminder_presets_user
+  on public.reminder_presets(user_id, created_at);
+
+alter table if exists public.users
+  add column if not exists latitude double precision null,
+  add column if not exists longitude double precision null,
+  add column if not exists location_label text null,
+  add column if not exists prayer_method text not null default 'tehran';
+alter table if exists public.reminders
+  add column if not exists anchor_event text null,
+  add column if not exists anchor_offset_minutes integer not null default 0,
+  add column if not exists anchor_latitude double precision null,
+  add column if not exists anchor_longitude double precision null,
+  add column if not exists anchor_method text null;
+
+alter table if exists public.reminders
+  add column if not exists occasion_kind text null,
+  add column if not exists occasion_person text null,
+  add column if not exists occasion_year integer null;
+
+alter table if exists public.reminders
+  add column if not exists share_code text null;
+
+create unique index if not exists uniq_reminders_share_code
+  on public.reminders(share_code)
+  where share_code is not null;
+
+create table if not exists public.reminder_recipients (
+  id uuid primary key default gen_random_uuid(),
+  reminder_id uuid not null references public.reminders(id) on delete cascade,
+  chat_id bigint not null,
+  chat_type text not null default 'private',
+  user_id uuid null references public.users(id) on delete cascade,
+  display_name text null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists uniq_reminder_recipients_chat
+  on public.reminder_recipients(reminder_id, chat_id);
+
+create index if not exists idx_reminder_recipients_user
+  on public.reminder_recipients(user_id);
+
+-- A recipient's copies are removed with them; with a null recipient_id they would read as the owner's deliveries.
+alter table if exists public.reminder_deliveries
+  add column if not exists recipient_id uuid null references public.reminder_recipients(id) on delete cascade,
+  add column if not exists action_by text null;
+
+alter table if exists public.report_items
+  add column if not exists schedule_weekdays int[] null,
+  add column if not exists schedule_every_days int null,
+  add column if not exists active_from date null,
+  add column if not exists active_until date null;
+
+alter table if exists public.report_items
+  add column if not exists target_value numeric null,
+  add column if not exists target_bonus_xp int null;
+
+alter table if exists public.report_values
+  add column if not exists target_bonus_applied int not null default 0;
+
+alter table if exists public.report_items
+  add column if not exists aliases text[] null;
+
+-- Reusable tokens back buttons that a whole group may press, such as acknowledging a shared reminder.
+alter table if exists public.callback_tokens
+  add column if not exists reusable boolean not null default false;
+
+-- The Telegram user who added a group to a shared reminder; with the group's admins, only they can remove it.
+alter table if exists public.reminder_recipients
+  add column if not exists added_by_telegram_id bigint null;
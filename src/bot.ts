@@ -1,10 +1,10 @@
 /* eslint-disable no-console */
-import { Bot, InlineKeyboard, GrammyError } from 'grammy';
+import { Bot, InlineKeyboard, GrammyError, InputFile, Keyboard } from 'grammy';
 import type { BotError, Context } from 'grammy';
 
 import { config } from './config';
 
-import { ensureUser } from './services/users';
+import { ensureUser, updateUserLocation, updateUserTimezone } from './services/users';
 import { getOrCreateUserSettings, setUserLanguageCode, setUserOnboarded, updateUserSettingsJson } from './services/userSettings';
 
 import {
@@ -57,8 +57,28 @@ import {
   saveValue,
   lockReportDay,
   unlockReportDay,
-  listRecentReportDays
+  listRecentReportDays,
+  extractSelectedKeys,
+  FORMULA_INPUT_TYPES,
+  getItemChoices,
+  getItemFormula,
+  filterScheduledItems,
+  getItemTargetProgress,
+  hasItemSchedule,
+  isChoiceItemType,
+  RATING_MAX,
+  RATING_MIN,
+  TARGET_ITEM_TYPES,
+  type ItemTargetProgress,
+  type ReportItemChoice
 } from './services/dailyReport';
+import {
+  listItemNames,
+  MAX_ITEM_ALIAS_LENGTH,
+  MAX_ITEM_ALIASES,
+  normalizeItemName,
+  parseQuickEntry
+} from './services/reportQuickEntry';
 import { getTodayDateString } from './services/dailyLogs';
 import {
   createNote,
@@ -90,18 +110,37 @@ import {
   createReminderDraft,
   createReminderAttachment,
   deleteReminder,
+  deleteReminders,
   getReminderById,
+  getReminderOccasion,
+  isReminderOccasionKind,
   listReminderAttachmentCounts,
   listReminderAttachments,
   listRemindersForUser,
+  listRemindersPage,
+  isAnchoredScheduleType,
+  listScheduleAnchors,
+  loadUser,
+  REMINDER_OCCASION_KINDS,
+  setRemindersEnabled,
   toggleReminderEnabled,
   updateReminder
 } from './services/reminders';
-import type { ReminderScheduleType } from './services/reminders';
+import type {
+  ReminderCalendarSystem,
+  ReminderListSort,
+  ReminderListStatusFilter,
+  ReminderOccasion,
+  ReminderOccasionKind,
+  ReminderSchedule,
+  ReminderScheduleType
+} from './services/reminders';
+import { applyReminderDeliveryAction, buildReminderActionKeyboard, isReminderDeliveryAction, REMINDER_PAUSED_BLOCKED } from './services/cron.service';
 
 import {
   copyArchiveGroupToUser,
   getArchiveItemByEntity,
+  listArchiveItemsByEntities,
   markArchiveItemStatus,
   resolveArchiveChatId,
   sendArchiveItemToChannel,
@@ -112,20 +151,84 @@ import {
 
 import { makeActionButton } from './ui/inlineButtons';
 import { renderScreen, ensureUserAndSettings as renderEnsureUserAndSettings, updateCachedUserContext } from './ui/renderScreen';
+import { formatProgressBar } from './ui/text';
 import { aiEnabledForUser, sendMainMenu } from './ui/mainMenu';
 import { labels } from './ui/labels';
 import { emoji, isEmojiEnabled, runWithEmojiSetting } from './ui/emoji';
 import { getUserBooleanSetting, setUserSetting } from './services/settings';
+import { getQuietHoursFromSettings, isValidQuietHours, setUserQuietHours, type QuietHours } from './services/quietHours';
+import { parseReminderText, type ParsedReminderText } from './services/reminderParser';
+import {
+  CATCH_UP_POLICIES,
+  CATCH_UP_STALE_PRESETS_MINUTES,
+  getCatchUpSettingsFromSettings,
+  isCatchUpPolicy,
+  setUserCatchUpSettings,
+  type CatchUpPolicy
+} from './services/catchUp';
+import { listConditionItems, parseReminderCondition, type ReminderCondition } from './services/reminderConditions';
+import { formatPreAlertLead, listUpcomingPreAlerts, normalizePreAlertOffsets, PRE_ALERT_PRESETS_MINUTES } from './services/preAlerts';
+import { getUserReliabilitySummary, listReminderDeliveries, type ReminderDeliveryEntry } from './services/reminderHistory';
+import { listPausedReminders, reactivateUser, resumePausedReminders } from './services/pausedReminders';
+import {
+  buildReminderSnapshot,
+  createReminderFromSnapshot,
+  createReminderPreset,
+  deleteReminderPreset,
+  getReminderPreset,
+  listReminderPresets,
+  MAX_REMINDER_PRESETS,
+  parseReminderSnapshot,
+  type ReminderSnapshot
+} from './services/reminderPresets';
+import {
+  CITY_PRESETS,
+  findCityPreset,
+  getAnchoredReminderTimes,
+  getPrayerTimesForDate,
+  getUserLocation,
+  PRAYER_METHOD_KEYS,
+  syncAnchoredReminders,
+  type UserLocation
+} from './services/prayerTimes';
+import { listUpcomingOccasions, UPCOMING_OCCASIONS_DAYS } from './services/occasions';
+import {
+  addReminderRecipient,
+  ensureReminderShareCode,
+  findReminderByShareCode,
+  getReminderRecipientByChat,
+  leaveSharedReminder,
+  listReminderRecipientStatuses,
+  MAX_REMINDER_RECIPIENTS,
+  parseReminderSharePayload,
+  recordRecipientAck,
+  REMINDER_SHARE_PAYLOAD_PREFIX,
+  removeReminderRecipient,
+  type ReminderRecipientStatus
+} from './services/reminderRecipients';
+import { isPrayerMethod, type PrayerTimeName } from './utils/prayerTimes';
+import {
+  applyReminderTimezoneMoves,
+  detectTimezoneFromLocation,
+  formatUtcOffset,
+  isValidTimezone,
+  planReminderTimezoneMoves,
+  searchTimezones,
+  TIMEZONE_PRESETS
+} from './services/timezones';
 import { renderSettingsScreen } from './ui/settingsScreen';
 
 import { formatInstantToLocal, formatLocalTime, localDateTimeToUtcIso } from './utils/time';
-import { gregorianToJalali, isValidJalaliDate, jalaliToGregorian } from './utils/jalali';
+import { getJalaliMonthLength, gregorianToJalali, isValidJalaliDate, jalaliToGregorian } from './utils/jalali';
+import { formatRRule, parseRRule, type RRule, type RRuleFrequency } from './utils/rrule';
+import { listFormulaRefs, parseFormula } from './utils/formula';
 import { logError } from './utils/logger';
-import { sendAttachments, type StoredAttachment } from './services/telegram-media';
+import { downloadTelegramFile, sendAttachments, type StoredAttachment } from './services/telegram-media';
+import { buildIcsImportCandidates, buildRemindersIcs, parseIcsEvents, type IcsImportCandidate } from './services/ics';
 import { resolveLocale, t, withLocale, type Locale } from './i18n';
 import { initLogReporter } from './services/log_reporter';
 
-import type { NoteAttachmentRow, NoteRow, ReportItemRow, ReportDayRow, RewardRow, RoutineRow, RoutineTaskRow } from './types/supabase';
+import type { NoteAttachmentRow, NoteRow, ReportItemRow, ReportDayRow, ReminderRecipientRow, ReminderRow, RewardRow, RoutineRow, RoutineTaskRow } from './types/supabase';
 
 export const bot = new Bot<Context>(config.telegram.botToken);
 const logReporter = initLogReporter();
@@ -148,16 +251,34 @@ type TemplateItemFlow = {
   mode: 'create' | 'edit';
   templateId: string;
   itemId?: string;
-  step: 'label' | 'key' | 'type' | 'category' | 'category_custom' | 'xp_mode' | 'xp_value' | 'xp_max' | 'summary';
+  step:
+    | 'label'
+    | 'key'
+    | 'type'
+    | 'options'
+    | 'formula'
+    | 'category'
+    | 'category_custom'
+    | 'xp_mode'
+    | 'xp_value'
+    | 'xp_max'
+    | 'target'
+    | 'target_bonus'
+    | 'aliases'
+    | 'schedule_every'
+    | 'schedule_from'
+    | 'schedule_until'
+    | 'summary';
   draft: {
     label?: string;
     itemKey?: string;
     itemType?: string;
     category?: string | null;
-    xpMode?: 'none' | 'fixed' | 'per_minute' | 'per_number' | 'time' | null;
+    xpMode?: 'none' | 'fixed' | 'per_minute' | 'per_number' | 'per_option' | 'time' | null;
     xpValue?: number | null;
     xpMaxPerDay?: number | null;
     optionsJson?: Record<string, unknown> | null;
+    targetValue?: number | null;
   };
 };
 
@@ -211,6 +332,11 @@ type AwaitingValueState = { reportDayId: string; itemId: string; origin?: 'next'
 
 type NumericDraftState = { reportDayId: string; itemId: string; value: number; unit?: 'minutes' | 'seconds' };
 
+type ChoiceDraftState = { reportDayId: string; itemId: string; selected: string[] };
+
+// Quick entry waits for a message; once one is parsed, entries holds the values awaiting confirmation.
+type QuickEntryState = { reportDayId: string; entries?: { itemId: string; valueJson: Record<string, unknown> }[] };
+
 type TimeDraftState = {
   reportDayId: string;
   itemId: string;
@@ -236,6 +362,8 @@ type ReminderDraft = {
   byWeekday?: number;
   byMonthday?: number;
   byMonth?: number;
+  calendarSystem?: ReminderCalendarSystem;
+  rrule?: RRule;
   attachments?: ReminderAttachmentDraft[];
   descriptionAttachments?: ArchiveAttachmentDraft[];
   dateMode?: 'gregorian' | 'jalali';
@@ -243,6 +371,10 @@ type ReminderDraft = {
   month?: number;
   day?: number;
   dateSource?: 'today' | 'tomorrow' | 'weekend' | 'custom';
+  anchorEvent?: PrayerTimeName;
+  anchorOffsetMinutes?: number;
+  // Left undefined until the condition step has been answered; null means "always remind".
+  condition?: ReminderCondition | null;
 };
 
 type ReminderFlow =
@@ -257,6 +389,7 @@ type ReminderFlow =
         | 'caption_all'
         | 'caption_category'
         | 'schedule_type'
+        | 'calendar_system'
         | 'date_select'
         | 'custom_date'
         | 'time'
@@ -269,8 +402,26 @@ type ReminderFlow =
         | 'monthly_time'
         | 'yearly_month'
         | 'yearly_day'
-        | 'yearly_time';
+        | 'yearly_time'
+        | 'rrule_freq'
+        | 'rrule_interval'
+        | 'rrule_weekdays'
+        | 'rrule_month'
+        | 'rrule_monthly_mode'
+        | 'rrule_monthday'
+        | 'rrule_position'
+        | 'rrule_position_weekday'
+        | 'rrule_end'
+        | 'rrule_until'
+        | 'rrule_count'
+        | 'rrule_time'
+        | 'anchor_event'
+        | 'anchor_offset'
+        | 'quick_text'
+        | 'quick_confirm'
+        | 'condition';
       draft: ReminderDraft;
+      quick?: boolean;
       captionCategories?: ReminderCaptionCategory[];
       currentCategory?: ReminderCaptionCategory;
     }
@@ -285,6 +436,7 @@ type ReminderFlow =
         | 'caption_all'
         | 'caption_category'
         | 'schedule_type'
+        | 'calendar_system'
         | 'date_select'
         | 'custom_date'
         | 'time'
@@ -297,7 +449,21 @@ type ReminderFlow =
         | 'monthly_time'
         | 'yearly_month'
         | 'yearly_day'
-        | 'yearly_time';
+        | 'yearly_time'
+        | 'rrule_freq'
+        | 'rrule_interval'
+        | 'rrule_weekdays'
+        | 'rrule_month'
+        | 'rrule_monthly_mode'
+        | 'rrule_monthday'
+        | 'rrule_position'
+        | 'rrule_position_weekday'
+        | 'rrule_end'
+        | 'rrule_until'
+        | 'rrule_count'
+        | 'rrule_time'
+        | 'anchor_event'
+        | 'anchor_offset';
       draft: ReminderDraft;
       captionCategories?: ReminderCaptionCategory[];
       currentCategory?: ReminderCaptionCategory;
@@ -359,12 +525,49 @@ type ReminderUploadSession = {
   prompted?: boolean;
 };
 
+type ReminderListView = {
+  status: ReminderListStatusFilter;
+  scheduleType: ReminderScheduleType | null;
+  sort: ReminderListSort;
+  page: number;
+  selecting: boolean;
+  selected: string[];
+};
+
+type PresetApplyStep = 'title' | 'time' | 'datetime';
+
+type PresetApplyFlow = {
+  presetId: string;
+  presetName: string;
+  step: PresetApplyStep;
+  title?: string | null;
+  atTime?: string;
+  onceAtUtc?: string;
+};
+
+type OccasionFlow = {
+  kind: ReminderOccasionKind;
+  calendar: ReminderCalendarSystem;
+  step: 'person' | 'date';
+  person?: string;
+};
+
 type ReminderlessState = {
   awaitingValue?: AwaitingValueState;
 
   settingsRoutine?: { step: 'label' | 'xp'; label?: string };
+  quietHoursInput?: boolean;
+  timezoneInput?: 'search' | 'location';
+  locationInput?: boolean;
+  icsImport?: { awaiting: boolean; candidates?: IcsImportCandidate[] };
+  reminderList?: ReminderListView;
+  presetInput?: { reminderId: string };
+  presetApply?: PresetApplyFlow;
+  occasionInput?: OccasionFlow;
 
   numericDraft?: NumericDraftState;
+  choiceDraft?: ChoiceDraftState;
+  quickEntry?: QuickEntryState;
 
   timeDraft?: TimeDraftState;
   reminderFlow?: ReminderFlow;
@@ -402,6 +605,12 @@ const clearTemplateItemFlow = (telegramId: string): void => {
   userStates.set(telegramId, st);
 };
 
+const clearQuickEntry = (telegramId: string): void => {
+  const st = userStates.get(telegramId);
+  if (!st?.quickEntry) return;
+  userStates.set(telegramId, { ...st, quickEntry: undefined });
+};
+
 const setTemplateItemFlow = (telegramId: string, flow: TemplateItemFlow): void => {
   const st = { ...(userStates.get(telegramId) || {}) };
   st.templateItemFlow = flow;
@@ -552,6 +761,8 @@ const setTemplateFlowStepFromBuilder = (telegramId: string, builderStep: string)
   const map: Record<string, TemplateItemFlow['step']> = {
     'builder.enterLabel': 'label',
     'builder.chooseType': 'type',
+    'builder.enterOptions': 'options',
+    'builder.enterFormula': 'formula',
     'builder.chooseCategory': 'category',
     'builder.configureXP': 'xp_mode',
     'builder.configureXPValue': 'xp_value',
@@ -569,8 +780,12 @@ const resolvePreviousBuilderStep = (builder: BuilderNavigationState, flow?: Temp
   switch (builder.step) {
     case 'builder.chooseType':
       return 'builder.enterLabel';
-    case 'builder.chooseCategory':
+    case 'builder.enterOptions':
+    case 'builder.enterFormula':
       return 'builder.chooseType';
+    case 'builder.chooseCategory':
+      if (flow?.draft.itemType === 'computed') return 'builder.enterFormula';
+      return isChoiceItemType(flow?.draft.itemType) ? 'builder.enterOptions' : 'builder.chooseType';
     case 'builder.configureXP':
       return 'builder.chooseCategory';
     case 'builder.configureXPValue':
@@ -579,7 +794,7 @@ const resolvePreviousBuilderStep = (builder: BuilderNavigationState, flow?: Temp
       return 'builder.configureXPValue';
     case 'builder.summary': {
       const xpMode = flow?.draft.xpMode ?? 'none';
-      if (xpMode === 'per_minute' || xpMode === 'per_number') return 'builder.configureXPMax';
+      if (xpMode === 'per_minute' || xpMode === 'per_number' || xpMode === 'per_option') return 'builder.configureXPMax';
       if (xpMode !== 'none') return 'builder.configureXPValue';
       return 'builder.configureXP';
     }
@@ -596,6 +811,12 @@ const renderBuilderStep = async (ctx: Context, templateId: string, step: string,
     case 'builder.chooseType':
       await promptTypeSelection(ctx, { templateId, itemId: flow?.itemId, backToItem: flow?.mode === 'edit' });
       return;
+    case 'builder.enterOptions':
+      await promptChoiceOptionsInput(ctx, { templateId, itemId: flow?.itemId, backToItem: flow?.mode === 'edit' });
+      return;
+    case 'builder.enterFormula':
+      await promptFormulaInput(ctx, { templateId, itemId: flow?.itemId, backToItem: flow?.mode === 'edit' });
+      return;
     case 'builder.chooseCategory':
       await promptCategorySelection(ctx, { templateId, itemId: flow?.itemId, backToItem: flow?.mode === 'edit' });
       return;
@@ -921,11 +1142,32 @@ const displayItemTypeLabel = (itemType: string): string => {
       return t('screens.form_builder.type_duration_label');
     case 'text':
       return t('screens.form_builder.type_text_label');
+    case 'choice':
+      return t('screens.form_builder.type_choice_label');
+    case 'multi_choice':
+      return t('screens.form_builder.type_multi_choice_label');
+    case 'rating':
+      return t('screens.form_builder.type_rating_label');
+    case 'checklist':
+      return t('screens.form_builder.type_checklist_label');
+    case 'computed':
+      return t('screens.form_builder.type_computed_label');
     default:
       return itemType;
   }
 };
 
+const formatTargetAmount = (item: ReportItemRow, amount: number): string =>
+  item.item_type === 'duration_minutes' ? formatDurationValue(amount) : String(Math.round(amount * 100) / 100);
+
+const formatTargetProgress = (item: ReportItemRow, progress: ItemTargetProgress): string =>
+  t(progress.reached ? 'screens.daily_report.target_reached' : 'screens.daily_report.target_progress', {
+    bar: formatProgressBar(progress.current, progress.target),
+    current: formatTargetAmount(item, progress.current),
+    target: formatTargetAmount(item, progress.target),
+    percent: Math.floor((Math.min(progress.current, progress.target) / progress.target) * 100)
+  });
+
 const formatItemLabel = (item: ReportItemRow): string => {
   const base = item.label ?? '';
   if (isRoutineTaskItem(item)) {
@@ -976,10 +1218,11 @@ const STANDARD_CATEGORIES: { name: string; emoji: string; labelKey: string }[] =
   { name: 'other', emoji: '🏷', labelKey: 'screens.templates.category_other' }
 ];
 
-const allowedXpModesForItemType = (itemType?: string): ('none' | 'fixed' | 'per_minute' | 'per_number')[] => {
+const allowedXpModesForItemType = (itemType?: string): ('none' | 'fixed' | 'per_minute' | 'per_number' | 'per_option')[] => {
   if (itemType === 'boolean') return ['none', 'fixed'];
   if (itemType === 'time_hhmm' || itemType === 'duration_minutes') return ['none', 'fixed', 'per_minute'];
-  if (itemType === 'number') return ['none', 'fixed', 'per_number'];
+  if (itemType === 'number' || itemType === 'rating') return ['none', 'fixed', 'per_number'];
+  if (isChoiceItemType(itemType)) return ['none', 'fixed', 'per_option'];
   return ['none', 'fixed', 'per_minute', 'per_number'];
 };
 
@@ -990,13 +1233,25 @@ const allowedRoutineTaskXpModes = (itemType?: string): ('none' | 'fixed' | 'per_
   return ['fixed'];
 };
 
-const normalizeXpModeForItemType = (itemType: string | undefined, xpMode: string | null | undefined): 'none' | 'fixed' | 'per_minute' | 'per_number' | null => {
+const normalizeXpModeForItemType = (
+  itemType: string | undefined,
+  xpMode: string | null | undefined
+): 'none' | 'fixed' | 'per_minute' | 'per_number' | 'per_option' | null => {
   const resolved = xpMode === 'time' ? 'per_minute' : xpMode;
   const allowed = allowedXpModesForItemType(itemType);
-  if (resolved && allowed.includes(resolved as 'none' | 'fixed' | 'per_minute' | 'per_number')) return resolved as 'none' | 'fixed' | 'per_minute' | 'per_number';
+  if (resolved && allowed.includes(resolved as 'none' | 'fixed' | 'per_minute' | 'per_number' | 'per_option')) {
+    return resolved as 'none' | 'fixed' | 'per_minute' | 'per_number' | 'per_option';
+  }
   return 'none';
 };
 
+// Changing the XP setup rewrites options_json; the option list of a choice item and the formula of a
+// computed item have to survive that.
+const keepItemOptions = (optionsJson: Record<string, unknown> | null | undefined): Record<string, unknown> => {
+  const { choices, formula } = optionsJson ?? {};
+  return { ...(Array.isArray(choices) ? { choices } : {}), ...(typeof formula === 'string' ? { formula } : {}) };
+};
+
 const getPerNumberConfig = (
   draft: Pick<TemplateItemFlow['draft'], 'optionsJson' | 'xpValue'>
 ): { perNumber: number; xpPerUnit: number } => {
@@ -1014,6 +1269,7 @@ const buildXpSummary = (draft: TemplateItemFlow['draft']): string => {
   const capText = draft.xpMaxPerDay && draft.xpMaxPerDay > 0 ? t('screens.form_builder.xp_cap', { cap: draft.xpMaxPerDay }) : '';
   if (!mode || mode === 'none') return t('screens.daily_report.ask_xp_mode_none');
   if (mode === 'fixed') return t('screens.form_builder.xp_summary_fixed', { xp: draft.xpValue ?? 0 });
+  if (mode === 'per_option') return t('screens.form_builder.xp_summary_option', { xp: draft.xpValue ?? 0, cap: capText });
   if (mode === 'per_minute') {
     return t('screens.form_builder.xp_summary_time', {
       xp: draft.xpValue ?? 0,
@@ -1035,6 +1291,12 @@ const buildFieldSummaryLines = (draft: TemplateItemFlow['draft']): string[] => {
     t('screens.form_builder.summary_category', { category: draft.category ?? t('screens.templates.category_other') }),
     t('screens.form_builder.summary_xp', { xp: buildXpSummary(draft) })
   ];
+  const choices = getItemChoices({ options_json: draft.optionsJson ?? {} });
+  if (choices.length) {
+    lines.splice(2, 0, t('screens.form_builder.summary_options', { options: choices.map(formatChoiceOption).join(', ') }));
+  }
+  const formula = getItemFormula({ options_json: draft.optionsJson ?? {} });
+  if (formula) lines.splice(2, 0, t('screens.form_builder.summary_formula', { formula }));
   return lines;
 };
 
@@ -1051,13 +1313,16 @@ const itemToDraft = (item: ReportItemRow): TemplateItemFlow['draft'] => ({
 
 const deriveXpStorage = (
   draft: TemplateItemFlow['draft']
-): { xpMode: 'fixed' | 'per_minute' | 'per_number' | null; xpValue: number | null; xpMax: number | null; optionsJson: Record<string, unknown> } => {
+): { xpMode: 'fixed' | 'per_minute' | 'per_number' | 'per_option' | null; xpValue: number | null; xpMax: number | null; optionsJson: Record<string, unknown> } => {
   const normalizedXpMode = normalizeXpModeForItemType(draft.itemType, draft.xpMode ?? null);
   if (!normalizedXpMode || normalizedXpMode === 'none') {
-    return { xpMode: null, xpValue: null, xpMax: null, optionsJson: {} };
+    return { xpMode: null, xpValue: null, xpMax: null, optionsJson: keepItemOptions(draft.optionsJson) };
   }
   if (normalizedXpMode === 'fixed') {
-    return { xpMode: 'fixed', xpValue: draft.xpValue ?? 0, xpMax: null, optionsJson: {} };
+    return { xpMode: 'fixed', xpValue: draft.xpValue ?? 0, xpMax: null, optionsJson: keepItemOptions(draft.optionsJson) };
+  }
+  if (normalizedXpMode === 'per_option') {
+    return { xpMode: 'per_option', xpValue: draft.xpValue ?? 0, xpMax: draft.xpMaxPerDay ?? null, optionsJson: keepItemOptions(draft.optionsJson) };
   }
   if (normalizedXpMode === 'per_minute') {
     return {
@@ -1087,6 +1352,12 @@ const valueIsTrue = (value: unknown): boolean => {
   return false;
 };
 
+const buildNumberValueJson = (item: ReportItemRow, n: number): Record<string, unknown> => {
+  const isPerMinute = ['per_minute', 'time'].includes(item.xp_mode ?? '');
+  const isPerNumber = (item.xp_mode ?? '') === 'per_number';
+  return { value: n, number: n, ...(isPerMinute ? { minutes: n } : {}), ...(isPerNumber ? { units: n } : {}) };
+};
+
 const parseNonNegativeNumber = (input: string): number | null => {
   const trimmed = input.trim();
   const n = Number(trimmed);
@@ -1143,6 +1414,73 @@ const formatDurationValue = (minutes: number, seconds?: number): string => {
   return parts.join(' ');
 };
 
+const MAX_CHOICE_OPTIONS = 12;
+
+const formatChoiceOption = (choice: ReportItemChoice): string => (choice.xp != null ? `${choice.label} (${choice.xp} XP)` : choice.label);
+
+/**
+ * Parses the option list typed in the form builder: one option per line (or comma-separated on a single
+ * line), each optionally followed by `= XP` for per-option XP. Returns null when nothing usable was sent.
+ */
+const parseChoiceOptions = (input: string): ReportItemChoice[] | null => {
+  const lines = input.includes('\n') ? input.split('\n') : input.split(/[,،]/);
+  const choices: ReportItemChoice[] = [];
+  for (const line of lines) {
+    const match = line.trim().match(/^(.*?)(?:\s*=\s*(\d+))?$/);
+    const label = match?.[1]?.trim() ?? '';
+    if (!label || choices.some((c) => c.label.toLowerCase() === label.toLowerCase())) continue;
+    const base = slugifyItemKey(label) || `option_${choices.length + 1}`;
+    let key = base;
+    for (let n = 2; choices.some((c) => c.key === key); n += 1) key = `${base}_${n}`;
+    choices.push({ key, label, xp: match?.[2] ? Number(match[2]) : null });
+  }
+  if (!choices.length || choices.length > MAX_CHOICE_OPTIONS) return null;
+  return choices;
+};
+
+/** Matches typed option names (comma or line separated) against an item's options, by label or key. */
+const matchChoiceKeys = (choices: ReportItemChoice[], input: string): { keys: string[]; unmatched: string[] } => {
+  const keys: string[] = [];
+  const unmatched: string[] = [];
+  for (const token of input.split(/[,،\n]+/).map((part) => part.trim()).filter(Boolean)) {
+    const normalized = token.toLowerCase();
+    const choice = choices.find((c) => c.label.toLowerCase() === normalized || c.key === normalized);
+    if (!choice) unmatched.push(token);
+    else if (!keys.includes(choice.key)) keys.push(choice.key);
+  }
+  return { keys, unmatched };
+};
+
+/**
+ * Checks a formula typed in the form builder against the template's items. Only numeric-like items can be
+ * referenced, and a computed item may not depend on itself, directly or through other computed items.
+ */
+const validateItemFormula = (
+  formula: string,
+  items: ReportItemRow[],
+  itemKey: string | undefined
+): { ok: true } | { ok: false; reason: 'syntax' | 'unknown' | 'cycle'; keys?: string[] } => {
+  const node = parseFormula(formula);
+  if (!node) return { ok: false, reason: 'syntax' };
+  const usable = new Map(items.filter((i) => FORMULA_INPUT_TYPES.includes(i.item_type) && !isRoutineItem(i)).map((i) => [i.item_key, i]));
+  const refs = listFormulaRefs(node);
+  const unknown = refs.filter((key) => !usable.has(key) && key !== itemKey);
+  if (unknown.length) return { ok: false, reason: 'unknown', keys: unknown };
+
+  const pending = [...refs];
+  const seen = new Set<string>();
+  while (pending.length) {
+    const key = pending.pop() as string;
+    if (key === itemKey) return { ok: false, reason: 'cycle' };
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const ref = usable.get(key);
+    const inner = ref?.item_type === 'computed' ? parseFormula(getItemFormula(ref)) : null;
+    if (inner) pending.push(...listFormulaRefs(inner));
+  }
+  return { ok: true };
+};
+
 const formatDisplayValue = (item: ReportItemRow, valueJson: Record<string, unknown> | null): string => {
   if (!valueJson) return '-';
   if ((valueJson as { skipped?: boolean }).skipped) return t('screens.daily_report.value_skipped');
@@ -1163,6 +1501,25 @@ const formatDisplayValue = (item: ReportItemRow, valueJson: Record<string, unkno
     }
     case 'number':
       return value != null ? String(value) : '-';
+    case 'rating':
+      return value != null ? `${value}/${RATING_MAX}` : '-';
+    case 'choice':
+    case 'multi_choice': {
+      const choices = getItemChoices(item);
+      const optionLabels = extractSelectedKeys(valueJson).map((key) => choices.find((c) => c.key === key)?.label ?? key);
+      return optionLabels.length ? optionLabels.join(', ') : '-';
+    }
+    case 'checklist': {
+      const choices = getItemChoices(item);
+      const selected = extractSelectedKeys(valueJson);
+      return t('screens.daily_report.checklist_value', { done: choices.filter((c) => selected.includes(c.key)).length, total: choices.length });
+    }
+    case 'computed': {
+      const kind = (valueJson as { kind?: string }).kind;
+      if (kind === 'duration') return formatDurationValue(Number((valueJson as { minutes?: number }).minutes ?? 0));
+      if (kind === 'time') return (valueJson as { display?: string }).display ?? '-';
+      return value != null ? String(value) : '-';
+    }
     default:
       return value != null ? String(value) : '-';
   }
@@ -1357,12 +1714,14 @@ const buildDailyReportKeyboard = async (
   }
 
   const nextBtn = hasPending ? await makeActionButton(ctx, { label: t('buttons.dr_fill_next'), action: 'dr.next', data: { reportDayId: reportDay.id } }) : null;
+  const quickEntryBtn = await makeActionButton(ctx, { label: t('buttons.dr_quick_entry'), action: 'dr.quick_entry', data: { reportDayId: reportDay.id } });
   const templatesBtn = await makeActionButton(ctx, { label: t('buttons.dr_templates'), action: 'dr.templates', data: { reportDayId: reportDay.id } });
   const historyBtn = await makeActionButton(ctx, { label: t('buttons.dr_history'), action: 'dr.history', data: { reportDayId: reportDay.id } });
   const lockBtn = await makeActionButton(ctx, { label: t('buttons.dr_lock'), action: 'dr.lock', data: { reportDayId: reportDay.id } });
 
   const kb = new InlineKeyboard().text(statusBtn.text, statusBtn.callback_data).row();
-  if (nextBtn) kb.text(nextBtn.text, nextBtn.callback_data).row();
+  if (nextBtn) kb.text(nextBtn.text, nextBtn.callback_data);
+  kb.text(quickEntryBtn.text, quickEntryBtn.callback_data).row();
   kb.text(templatesBtn.text, templatesBtn.callback_data)
     .row()
     .text(historyBtn.text, historyBtn.callback_data)
@@ -1390,7 +1749,7 @@ const ensureReportContext = async (ctx: Context): Promise<{ userId: string; repo
   const baseItems = template.id === defaultTemplate.id ? await ensureDefaultItems(user.id) : await listAllItems(template.id);
   const routines = await listRoutines(user.id);
   const merged = await syncRoutineItemsForTemplate(template.id, user.id, routines, baseItems);
-  const items = merged.filter((item) => item.enabled);
+  const items = filterScheduledItems(merged.filter((item) => item.enabled), local.date, user.timezone ?? config.defaultTimezone);
   const reportDay = await getOrCreateReportDay({ userId: user.id, templateId: template.id, localDate: local.date });
 
   reportContextCache.set(cacheKey, { reportDay, items });
@@ -1416,7 +1775,7 @@ const ensureSpecificReportContext = async (
   const baseItems = template.id === defaultTemplate.id ? await ensureDefaultItems(user.id) : await listAllItems(template.id);
   const routines = await listRoutines(user.id);
   const merged = await syncRoutineItemsForTemplate(template.id, user.id, routines, baseItems);
-  const items = merged.filter((item) => item.enabled);
+  const items = filterScheduledItems(merged.filter((item) => item.enabled), localDate, user.timezone ?? config.defaultTimezone);
 
   const reportDay = await getOrCreateReportDay({ userId: user.id, templateId: template.id, localDate });
 
@@ -1481,6 +1840,11 @@ const renderDashboard = async (ctx: Context): Promise<void> => {
       t('screens.dashboard.today_items', { completed, total }),
       t('screens.dashboard.streak', { streak })
     ];
+    const targetLines = statuses.flatMap((s) => {
+      const progress = getItemTargetProgress(s.item, s.value?.value_json ?? null);
+      return progress ? [`${formatItemLabel(s.item)}: ${formatTargetProgress(s.item, progress)}`] : [];
+    });
+    if (targetLines.length) bodyLines.push('', t('screens.dashboard.targets_header'), ...targetLines);
 
     const dailyReportBtn = await makeActionButton(ctx, { label: t('buttons.nav_daily_report'), action: 'nav.daily_report' });
     const reportcarBtn = await makeActionButton(ctx, { label: t('buttons.nav_reportcar'), action: 'nav.reportcar' });
@@ -3158,18 +3522,66 @@ const renderFreeText = async (ctx: Context): Promise<void> => {
   await renderNotesToday(ctx);
 };
 
-const renderReminders = async (ctx: Context): Promise<void> => {
+const REMINDER_LIST_PAGE_SIZE = 8;
+const REMINDER_LIST_STATUS_FILTERS: ReminderListStatusFilter[] = ['all', 'active', 'paused', 'ringed'];
+const REMINDER_LIST_SORTS: ReminderListSort[] = ['next_run', 'created', 'title'];
+const REMINDER_LIST_SCHEDULE_TYPES: ReminderScheduleType[] = ['once', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'rrule', 'prayer', 'solar'];
+
+const DEFAULT_REMINDER_LIST_VIEW: ReminderListView = {
+  status: 'all',
+  scheduleType: null,
+  sort: 'next_run',
+  page: 0,
+  selecting: false,
+  selected: []
+};
+
+const getReminderListView = (ctx: Context): ReminderListView => {
+  if (!ctx.from) return DEFAULT_REMINDER_LIST_VIEW;
+  return userStates.get(String(ctx.from.id))?.reminderList ?? DEFAULT_REMINDER_LIST_VIEW;
+};
+
+const setReminderListView = (ctx: Context, patch: Partial<ReminderListView>): ReminderListView => {
+  const view = { ...getReminderListView(ctx), ...patch };
+  if (!ctx.from) return view;
+  const stateKey = String(ctx.from.id);
+  userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), reminderList: view });
+  return view;
+};
+
+const describeReminderListView = (view: ReminderListView): string =>
+  labels.reminders.listFilterLine({
+    status: t(`screens.reminders.list_status_${view.status}`),
+    type: view.scheduleType ? labels.reminders.scheduleTypeLabel(view.scheduleType) : t('screens.reminders.list_type_all'),
+    sort: t(`screens.reminders.list_sort_${view.sort}`)
+  });
+
+const renderReminders = async (ctx: Context, flash?: string): Promise<void> => {
   const { user } = await ensureUserAndSettings(ctx);
 
-  const reminders = await listRemindersForUser(user.id);
+  let view = getReminderListView(ctx);
+  let { reminders, total } = await listRemindersPage(user.id, { ...view, pageSize: REMINDER_LIST_PAGE_SIZE });
+  const pageCount = Math.max(1, Math.ceil(total / REMINDER_LIST_PAGE_SIZE));
+  // Deletes and filter changes can leave the saved page past the end.
+  if (view.page >= pageCount) {
+    view = setReminderListView(ctx, { page: pageCount - 1 });
+    ({ reminders, total } = await listRemindersPage(user.id, { ...view, pageSize: REMINDER_LIST_PAGE_SIZE }));
+  }
   const attachmentCounts = await listReminderAttachmentCounts({ reminderIds: reminders.map((reminder) => reminder.id) });
+  const isFiltered = view.status !== 'all' || view.scheduleType !== null;
 
   const lines: string[] = [];
+  if (flash) lines.push(flash, '');
 
-  if (reminders.length === 0) {
+  if (total === 0 && !isFiltered) {
     lines.push(labels.reminders.empty());
   } else {
-    lines.push(labels.reminders.listHeader(), '');
+    lines.push(labels.reminders.listHeader(), describeReminderListView(view));
+    if (total === 0) {
+      lines.push('', t('screens.reminders.list_no_matches'));
+    } else {
+      lines.push(t('screens.reminders.list_page', { page: String(view.page + 1), pages: String(pageCount), total: String(total) }), '');
+    }
     for (const r of reminders) {
       const status = isReminderActive(r) ? labels.reminders.statusOnLabel() : labels.reminders.statusOffLabel();
       const local = r.next_run_at ? formatInstantToLocal(r.next_run_at, user.timezone ?? config.defaultTimezone) : null;
@@ -3187,14 +3599,43 @@ const renderReminders = async (ctx: Context): Promise<void> => {
     }
   }
 
-  lines.push('', labels.reminders.actionsHint());
+  lines.push('', view.selecting ? labels.reminders.selectHint({ count: String(view.selected.length) }) : labels.reminders.actionsHint());
 
   const kb = new InlineKeyboard();
 
-  const newBtn = await makeActionButton(ctx, { label: labels.remindersButtons.new(), action: 'reminders.new' });
-  kb.text(newBtn.text, newBtn.callback_data).row();
+  if (!view.selecting) {
+    const newBtn = await makeActionButton(ctx, { label: labels.remindersButtons.new(), action: 'reminders.new' });
+    const quickBtn = await makeActionButton(ctx, { label: labels.remindersButtons.quickAdd(), action: 'reminders.quick_new' });
+    kb.text(newBtn.text, newBtn.callback_data).text(quickBtn.text, quickBtn.callback_data).row();
+    const exportBtn = await makeActionButton(ctx, { label: labels.remindersButtons.icsExport(), action: 'reminders.ics_export' });
+    const importBtn = await makeActionButton(ctx, { label: labels.remindersButtons.icsImport(), action: 'reminders.ics_import' });
+    kb.text(exportBtn.text, exportBtn.callback_data).text(importBtn.text, importBtn.callback_data).row();
+    const reliabilityBtn = await makeActionButton(ctx, { label: labels.remindersButtons.reliability(), action: 'reminders.reliability' });
+    const occasionsBtn = await makeActionButton(ctx, { label: labels.remindersButtons.occasions(), action: 'reminders.occasions' });
+    kb.text(reliabilityBtn.text, reliabilityBtn.callback_data).text(occasionsBtn.text, occasionsBtn.callback_data).row();
+  }
+
+  if (total > 0 || isFiltered) {
+    const filterBtn = await makeActionButton(ctx, { label: labels.remindersButtons.listFilters(), action: 'reminders.list_filters' });
+    const selectBtn = await makeActionButton(ctx, {
+      label: view.selecting ? labels.remindersButtons.selectDone() : labels.remindersButtons.select(),
+      action: 'reminders.select_mode',
+      data: { on: !view.selecting }
+    });
+    kb.text(filterBtn.text, filterBtn.callback_data).text(selectBtn.text, selectBtn.callback_data).row();
+  }
 
   for (const r of reminders) {
+    if (view.selecting) {
+      const title = r.title && r.title.trim().length > 0 ? r.title : labels.reminders.untitled();
+      const pickBtn = await makeActionButton(ctx, {
+        label: labels.remindersButtons.selectItem({ title, selected: view.selected.includes(r.id) }),
+        action: 'reminders.select_toggle',
+        data: { reminderId: r.id }
+      });
+      kb.text(pickBtn.text, pickBtn.callback_data).row();
+      continue;
+    }
     const editBtn = await makeActionButton(ctx, { label: labels.remindersButtons.edit(), action: 'reminders.edit_open', data: { reminderId: r.id } });
     const toggleBtn = await makeActionButton(ctx, {
       label: isReminderActive(r) ? labels.remindersButtons.toggleOff() : labels.remindersButtons.toggleOn(),
@@ -3209,6 +3650,36 @@ const renderReminders = async (ctx: Context): Promise<void> => {
     kb.text(editBtn.text, editBtn.callback_data).text(toggleBtn.text, toggleBtn.callback_data).text(deleteBtn.text, deleteBtn.callback_data).row();
   }
 
+  if (view.page > 0 || view.page < pageCount - 1) {
+    const prevBtn =
+      view.page > 0 ? await makeActionButton(ctx, { label: labels.notesButtons.prev(), action: 'reminders.list_page', data: { page: view.page - 1 } }) : null;
+    const nextBtn =
+      view.page < pageCount - 1
+        ? await makeActionButton(ctx, { label: labels.notesButtons.next(), action: 'reminders.list_page', data: { page: view.page + 1 } })
+        : null;
+    if (prevBtn) kb.text(prevBtn.text, prevBtn.callback_data);
+    if (nextBtn) kb.text(nextBtn.text, nextBtn.callback_data);
+    kb.row();
+  }
+
+  if (view.selecting) {
+    const pageBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.selectPage(),
+      action: 'reminders.select_page',
+      data: { reminderIds: reminders.map((reminder) => reminder.id) }
+    });
+    const clearBtn = await makeActionButton(ctx, { label: labels.remindersButtons.selectClear(), action: 'reminders.select_clear' });
+    kb.text(pageBtn.text, pageBtn.callback_data).text(clearBtn.text, clearBtn.callback_data).row();
+    if (view.selected.length > 0) {
+      const count = String(view.selected.length);
+      const pauseBtn = await makeActionButton(ctx, { label: labels.remindersButtons.bulkPause({ count }), action: 'reminders.bulk', data: { op: 'pause' } });
+      const resumeBtn = await makeActionButton(ctx, { label: labels.remindersButtons.bulkResume({ count }), action: 'reminders.bulk', data: { op: 'resume' } });
+      const deleteBtn = await makeActionButton(ctx, { label: labels.remindersButtons.bulkDelete({ count }), action: 'reminders.bulk_delete' });
+      kb.text(pauseBtn.text, pauseBtn.callback_data).text(resumeBtn.text, resumeBtn.callback_data).row();
+      kb.text(deleteBtn.text, deleteBtn.callback_data).row();
+    }
+  }
+
   const back = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.dashboard' });
   kb.text(back.text, back.callback_data);
 
@@ -3219,8 +3690,162 @@ const renderReminders = async (ctx: Context): Promise<void> => {
   });
 };
 
-const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: string): Promise<void> => {
+const renderReminderListFilters = async (ctx: Context): Promise<void> => {
+  const view = getReminderListView(ctx);
+  const kb = new InlineKeyboard();
+
+  for (const [index, status] of REMINDER_LIST_STATUS_FILTERS.entries()) {
+    const btn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.listOption({ label: t(`screens.reminders.list_status_${status}`), selected: view.status === status }),
+      action: 'reminders.list_set',
+      data: { status }
+    });
+    kb.text(btn.text, btn.callback_data);
+    if (index % 2 === 1) kb.row();
+  }
+  kb.row();
+
+  const anyTypeBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.listOption({ label: t('screens.reminders.list_type_all'), selected: view.scheduleType === null }),
+    action: 'reminders.list_set',
+    data: { scheduleType: 'all' }
+  });
+  kb.text(anyTypeBtn.text, anyTypeBtn.callback_data);
+  for (const [index, scheduleType] of REMINDER_LIST_SCHEDULE_TYPES.entries()) {
+    const btn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.listOption({ label: labels.reminders.scheduleTypeLabel(scheduleType), selected: view.scheduleType === scheduleType }),
+      action: 'reminders.list_set',
+      data: { scheduleType }
+    });
+    kb.text(btn.text, btn.callback_data);
+    if (index % 2 === 0) kb.row();
+  }
+  kb.row();
+
+  for (const sort of REMINDER_LIST_SORTS) {
+    const btn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.listOption({ label: t(`screens.reminders.list_sort_${sort}`), selected: view.sort === sort }),
+      action: 'reminders.list_set',
+      data: { sort }
+    });
+    kb.text(btn.text, btn.callback_data);
+  }
+  kb.row();
+
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.reminders' });
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    title: labels.reminders.listFiltersTitle(),
+    bodyLines: [t('screens.reminders.list_filters_prompt'), '', describeReminderListView(view)],
+    inlineKeyboard: kb
+  });
+};
+
+const markRemindersArchiveDeleted = async (ctx: Context, reminderIds: string[]): Promise<void> => {
+  const archiveItems = await listArchiveItemsByEntities({ kind: 'reminder', entityIds: reminderIds });
+  if (archiveItems.length === 0) return;
+  const statusLine = buildReminderDeleteStatusLine(ctx);
+  for (const archiveItem of archiveItems) {
+    try {
+      await markArchiveItemStatus(ctx.api, { item: archiveItem, status: 'deleted', statusNote: statusLine, statusLine });
+    } catch (error) {
+      console.warn({ scope: 'reminders', event: 'bulk_archive_status_failed', archiveItemId: archiveItem.id, error });
+    }
+  }
+};
+
+const ICS_MAX_FILE_BYTES = 512 * 1024;
+const ICS_PREVIEW_LIMIT = 20;
+
+const isIcsDocument = (document: { file_name?: string; mime_type?: string }): boolean =>
+  document.mime_type === 'text/calendar' || Boolean(document.file_name?.toLowerCase().endsWith('.ics'));
+
+const sendRemindersIcs = async (ctx: Context): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const reminders = (await listRemindersForUser(user.id)).filter((reminder) => isReminderActive(reminder));
+  if (reminders.length === 0) {
+    await renderScreen(ctx, { title: labels.reminders.title(), bodyLines: [labels.reminders.icsExportEmpty()] });
+    return;
+  }
+  const ics = buildRemindersIcs(reminders);
+  await ctx.replyWithDocument(new InputFile(Buffer.from(ics, 'utf8'), 'reminders.ics'), {
+    caption: labels.reminders.icsExportCaption({ count: String(reminders.length) })
+  });
+};
+
+const renderIcsImportPrompt = async (ctx: Context): Promise<void> => {
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.ics_cancel' });
+  await renderScreen(ctx, {
+    title: labels.reminders.icsImportTitle(),
+    bodyLines: [labels.reminders.icsImportPrompt()],
+    inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data)
+  });
+};
+
+const renderIcsImportPreview = async (ctx: Context, candidates: IcsImportCandidate[]): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const fresh = candidates.filter((candidate) => !candidate.duplicate);
+  const lines: string[] = [labels.reminders.icsImportSummary({ total: String(candidates.length), fresh: String(fresh.length) }), ''];
+  for (const candidate of candidates.slice(0, ICS_PREVIEW_LIMIT)) {
+    const local = formatInstantToLocal(candidate.nextRunAt.toISOString(), timezone);
+    const rule = candidate.schedule.scheduleType === 'rrule' ? parseRRule(candidate.schedule.rrule) : null;
+    lines.push(
+      labels.reminders.icsImportLine({
+        title: candidate.title,
+        time: `${local.date} ${local.time}`,
+        schedule: rule ? describeReminderRRule(rule) : t('screens.reminders.schedule_once'),
+        duplicate: candidate.duplicate ? t('screens.reminders.ics_import_duplicate') : ''
+      })
+    );
+  }
+  if (candidates.length > ICS_PREVIEW_LIMIT) {
+    lines.push(t('screens.reminders.ics_import_more', { count: String(candidates.length - ICS_PREVIEW_LIMIT) }));
+  }
+
+  const kb = new InlineKeyboard();
+  if (fresh.length > 0) {
+    const confirmBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.icsImportConfirm({ count: String(fresh.length) }),
+      action: 'reminders.ics_import_confirm'
+    });
+    kb.text(confirmBtn.text, confirmBtn.callback_data).row();
+  }
+  const cancelBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.ics_cancel' });
+  kb.text(cancelBtn.text, cancelBtn.callback_data);
+
+  await renderScreen(ctx, { title: labels.reminders.icsImportTitle(), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const handleIcsDocument = async (ctx: Context, fileId: string): Promise<void> => {
+  if (!ctx.from) return;
+  const stateKey = String(ctx.from.id);
   const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+
+  let content: string;
+  try {
+    content = (await downloadTelegramFile(ctx.api, fileId, ICS_MAX_FILE_BYTES)).toString('utf8');
+  } catch (error) {
+    console.warn({ scope: 'reminders', event: 'ics_download_failed', error });
+    await renderScreen(ctx, { title: labels.reminders.icsImportTitle(), bodyLines: [labels.reminders.icsImportFailed()] });
+    return;
+  }
+
+  const events = parseIcsEvents(content, timezone);
+  const candidates = buildIcsImportCandidates(events, { timezone, existing: await listRemindersForUser(user.id) });
+  if (candidates.length === 0) {
+    userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), icsImport: undefined });
+    await renderScreen(ctx, { title: labels.reminders.icsImportTitle(), bodyLines: [labels.reminders.icsImportEmpty()] });
+    return;
+  }
+  userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), icsImport: { awaiting: false, candidates } });
+  await renderIcsImportPreview(ctx, candidates);
+};
+
+const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: string): Promise<void> => {
+  const { user, settings } = await ensureUserAndSettings(ctx);
   const reminder = await getReminderById(reminderId);
   if (!reminder || reminder.user_id !== user.id) {
     await renderReminders(ctx);
@@ -3231,7 +3856,29 @@ const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: s
   const local = reminder.next_run_at ? formatInstantToLocal(reminder.next_run_at, timezone) : null;
   const statusLabel = isReminderActive(reminder) ? labels.reminders.statusOn() : labels.reminders.statusOff();
   const attachments = await listReminderAttachments({ reminderId: reminder.id });
-  const scheduleLabel = labels.reminders.scheduleTypeLabel(reminder.schedule_type);
+  const reminderRule = reminder.schedule_type === 'rrule' ? parseRRule(reminder.rrule) : null;
+  const conditionLabel = await formatReminderCondition(parseReminderCondition(reminder.condition_json));
+  const preAlertLines = listUpcomingPreAlerts(reminder, new Date()).map((preAlert) => {
+    const at = formatInstantToLocal(preAlert.atUtc.toISOString(), timezone);
+    return labels.reminders.detailsPreAlertItem({
+      lead: formatPreAlertLead(preAlert.offsetMinutes),
+      time: `${formatReminderLocalDate(at.date, reminder.calendar_system as ReminderCalendarSystem)} ${at.time}`
+    });
+  });
+  const calendarSystem = reminder.calendar_system as ReminderCalendarSystem;
+  const baseScheduleLabel = reminderRule
+    ? describeReminderRRule(reminderRule)
+    : reminder.anchor_event
+      ? formatAnchoredSchedule(reminder.anchor_event as PrayerTimeName, reminder.anchor_offset_minutes)
+      : labels.reminders.scheduleTypeLabel(reminder.schedule_type);
+  const scheduleLabel =
+    calendarSystem === 'jalali'
+      ? t('screens.reminders.schedule_with_calendar', { schedule: baseScheduleLabel, calendar: t('screens.reminders.custom_date_mode_jalali') })
+      : baseScheduleLabel;
+
+  const anchoredTimes = reminder.anchor_event ? getAnchoredReminderTimes(reminder) : null;
+  const occasion = getReminderOccasion(reminder);
+  const formatAnchoredTime = (value: Date | null): string => (value ? formatInstantToLocal(value.toISOString(), timezone).time : '-');
 
   const rawDescription = reminder.description?.trim() ?? '';
   const hasArchivedDescription = Boolean(reminder.archive_item_id || reminder.desc_group_key);
@@ -3247,8 +3894,22 @@ const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: s
       labels.reminders.detailsTitleLine({ title }),
       labels.reminders.detailsDetailLine({ detail }),
       labels.reminders.detailsScheduleLine({ schedule: scheduleLabel }),
-      labels.reminders.detailsScheduledLine({ scheduled: local ? `${local.date} ${local.time}` : labels.reminders.noTime() }),
+      occasion ? labels.reminders.detailsOccasionLine({ occasion: formatReminderOccasion(occasion) }) : undefined,
+      labels.reminders.detailsScheduledLine({
+        scheduled: local ? `${formatReminderLocalDate(local.date, calendarSystem)} ${local.time}` : labels.reminders.noTime()
+      }),
+      anchoredTimes
+        ? labels.reminders.detailsAnchorTimesLine({ today: formatAnchoredTime(anchoredTimes.today), tomorrow: formatAnchoredTime(anchoredTimes.tomorrow) })
+        : undefined,
       labels.reminders.detailsStatusLine({ status: statusLabel, enabled: isReminderActive(reminder) }),
+      reminder.status === 'dead'
+        ? labels.reminders.detailsDeadLine({ count: String(reminder.send_attempt_count ?? 0), error: reminder.last_error ?? t('screens.reminders.paused_unknown_error') })
+        : undefined,
+      reminder.paused_reason === REMINDER_PAUSED_BLOCKED ? labels.reminders.detailsPausedBlockedLine() : undefined,
+      labels.reminders.detailsNaggingLine({ nagging: formatReminderNagging(reminder) }),
+      labels.reminders.detailsConditionLine({ condition: conditionLabel }),
+      labels.reminders.detailsPreAlertsLine({ pre_alerts: preAlertLines.length ? '' : t('screens.reminders.pre_alerts_none') }),
+      ...preAlertLines,
       labels.reminders.detailsAttachmentsLine({ count: String(attachments.length) })
     ].filter(Boolean) as string[];
   };
@@ -3278,6 +3939,27 @@ const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: s
     action: 'reminders.toggle',
     data: { reminderId }
   });
+  const quietBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.ignoreQuietHours(reminder.ignore_quiet_hours),
+    action: 'reminders.quiet_toggle',
+    data: { reminderId }
+  });
+  const nagBtn = await makeActionButton(ctx, { label: labels.remindersButtons.nagging(), action: 'reminders.nag', data: { reminderId } });
+  const catchUpBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.catchUp({
+      value: isCatchUpPolicy(reminder.catch_up_policy)
+        ? formatCatchUpPolicy(reminder.catch_up_policy)
+        : t('screens.reminders.catch_up_default', { policy: formatCatchUpPolicy(getCatchUpSettingsFromSettings(settings).policy) })
+    }),
+    action: 'reminders.catch_up_cycle',
+    data: { reminderId }
+  });
+  const conditionBtn = await makeActionButton(ctx, { label: labels.remindersButtons.condition(), action: 'reminders.condition', data: { reminderId } });
+  const preAlertsBtn = await makeActionButton(ctx, { label: labels.remindersButtons.preAlerts(), action: 'reminders.pre_alerts', data: { reminderId } });
+  const historyBtn = await makeActionButton(ctx, { label: labels.remindersButtons.history(), action: 'reminders.history', data: { reminderId } });
+  const shareBtn = await makeActionButton(ctx, { label: labels.remindersButtons.share(), action: 'reminders.share', data: { reminderId } });
+  const duplicateBtn = await makeActionButton(ctx, { label: labels.remindersButtons.duplicate(), action: 'reminders.duplicate', data: { reminderId } });
+  const presetSaveBtn = await makeActionButton(ctx, { label: labels.remindersButtons.presetSave(), action: 'reminders.preset_save', data: { reminderId } });
   const deleteBtn = await makeActionButton(ctx, { label: labels.remindersButtons.delete(), action: 'reminders.delete', data: { reminderId } });
   const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.reminders' });
 
@@ -3286,6 +3968,13 @@ const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: s
   kb.text(editScheduleBtn.text, editScheduleBtn.callback_data).row();
   kb.text(attachBtn.text, attachBtn.callback_data).row();
   kb.text(toggleBtn.text, toggleBtn.callback_data).row();
+  kb.text(quietBtn.text, quietBtn.callback_data).row();
+  kb.text(nagBtn.text, nagBtn.callback_data).row();
+  kb.text(catchUpBtn.text, catchUpBtn.callback_data).row();
+  kb.text(conditionBtn.text, conditionBtn.callback_data).row();
+  kb.text(preAlertsBtn.text, preAlertsBtn.callback_data).row();
+  kb.text(historyBtn.text, historyBtn.callback_data).text(shareBtn.text, shareBtn.callback_data).row();
+  kb.text(duplicateBtn.text, duplicateBtn.callback_data).text(presetSaveBtn.text, presetSaveBtn.callback_data).row();
   kb.text(deleteBtn.text, deleteBtn.callback_data).row();
   kb.text(backBtn.text, backBtn.callback_data);
 
@@ -3296,2750 +3985,5252 @@ const renderReminderDetails = async (ctx: Context, reminderId: string, flash?: s
   });
 };
 
-const renderReminderTitlePrompt = async (ctx: Context, mode: ReminderFlow['mode'], reminderId?: string): Promise<void> => {
-  const kb = new InlineKeyboard();
-  if (mode === 'create') {
-    const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'reminders.skip_title' });
-    kb.text(skipBtn.text, skipBtn.callback_data).row();
-  }
-  const backAction = mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: reminderId ? { reminderId } : undefined });
-  kb.text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.newEnterTitle()], inlineKeyboard: kb });
+const REMINDER_NAG_PRESETS: Array<{ intervalMinutes: number; maxRepeats: number }> = [
+  { intervalMinutes: 5, maxRepeats: 3 },
+  { intervalMinutes: 10, maxRepeats: 3 },
+  { intervalMinutes: 10, maxRepeats: 6 },
+  { intervalMinutes: 15, maxRepeats: 4 },
+  { intervalMinutes: 30, maxRepeats: 4 }
+];
+
+const formatReminderNagging = (reminder: ReminderRow): string => {
+  const intervalMinutes = reminder.nag_interval_minutes ?? 0;
+  const maxRepeats = reminder.nag_max_repeats ?? 0;
+  if (intervalMinutes <= 0 || maxRepeats <= 0) return t('screens.reminders.nag_off');
+  return t('screens.reminders.nag_value', { minutes: String(intervalMinutes), repeats: String(maxRepeats) });
 };
 
-const renderReminderDescriptionPrompt = async (
-  ctx: Context,
-  mode: ReminderFlow['mode'],
-  reminderId?: string
-): Promise<void> => {
+const renderReminderNagging = async (ctx: Context, reminder: ReminderRow): Promise<void> => {
   const kb = new InlineKeyboard();
-  if (mode === 'create') {
-    const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'reminders.skip_description', data: reminderId ? { reminderId } : undefined });
-    kb.text(skipBtn.text, skipBtn.callback_data).row();
+  for (const preset of REMINDER_NAG_PRESETS) {
+    const btn = await makeActionButton(ctx, {
+      label: t('screens.reminders.nag_value', { minutes: String(preset.intervalMinutes), repeats: String(preset.maxRepeats) }),
+      action: 'reminders.nag_set',
+      data: { reminderId: reminder.id, ...preset }
+    });
+    kb.text(btn.text, btn.callback_data).row();
   }
-  const doneBtn = await makeActionButton(ctx, { label: labels.remindersButtons.descriptionDone(), action: 'reminders.description_done', data: reminderId ? { reminderId } : undefined });
-  const attachBtn = await makeActionButton(ctx, { label: labels.remindersButtons.attach(), action: 'reminders.attach', data: reminderId ? { reminderId } : undefined });
-  const backAction = mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: reminderId ? { reminderId } : undefined });
-  kb.text(doneBtn.text, doneBtn.callback_data).row();
-  kb.text(attachBtn.text, attachBtn.callback_data).row();
-  kb.text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.descriptionPrompt()], inlineKeyboard: kb });
+  const offBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.naggingOff(),
+    action: 'reminders.nag_set',
+    data: { reminderId: reminder.id, intervalMinutes: 0, maxRepeats: 0 }
+  });
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.edit_open', data: { reminderId: reminder.id } });
+  kb.text(offBtn.text, offBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    title: labels.reminders.naggingTitle(),
+    bodyLines: [labels.reminders.naggingPrompt(), '', labels.reminders.detailsNaggingLine({ nagging: formatReminderNagging(reminder) })],
+    inlineKeyboard: kb
+  });
 };
 
-const renderReminderScheduleTypePrompt = async (
-  ctx: Context,
-  mode: ReminderFlow['mode'],
-  reminderId?: string
-): Promise<void> => {
+const renderReminderPreAlerts = async (ctx: Context, reminder: ReminderRow): Promise<void> => {
+  const selected = normalizePreAlertOffsets(reminder.pre_alert_offsets_minutes);
   const kb = new InlineKeyboard();
-  const types: Array<{ key: ReminderScheduleType; label: string }> = [
-    { key: 'once', label: labels.reminders.scheduleOnce() },
-    { key: 'hourly', label: labels.reminders.scheduleHourly() },
-    { key: 'daily', label: labels.reminders.scheduleDaily() },
-    { key: 'weekly', label: labels.reminders.scheduleWeekly() },
-    { key: 'monthly', label: labels.reminders.scheduleMonthly() },
-    { key: 'yearly', label: labels.reminders.scheduleYearly() }
-  ];
-  for (const entry of types) {
-    const btn = await makeActionButton(ctx, { label: entry.label, action: 'reminders.schedule_type', data: { scheduleType: entry.key, mode, reminderId } });
+  for (const minutes of PRE_ALERT_PRESETS_MINUTES) {
+    const btn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.preAlertOption({ lead: formatPreAlertLead(minutes), selected: selected.includes(minutes) }),
+      action: 'reminders.pre_alert_toggle',
+      data: { reminderId: reminder.id, minutes }
+    });
     kb.text(btn.text, btn.callback_data).row();
   }
-  const backAction = mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: reminderId ? { reminderId } : undefined });
-  kb.text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.scheduleTypePrompt()], inlineKeyboard: kb });
-};
+  const clearBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.preAlertsClear(),
+    action: 'reminders.pre_alert_toggle',
+    data: { reminderId: reminder.id, minutes: 0 }
+  });
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.edit_open', data: { reminderId: reminder.id } });
+  kb.text(clearBtn.text, clearBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
 
-const renderReminderAttachmentPrompt = async (
-  ctx: Context,
-  params: { mode: ReminderFlow['mode']; reminderId?: string }
-): Promise<void> => {
-  const doneBtn = await makeActionButton(ctx, { label: labels.notesButtons.attachDone(), action: 'reminders.attach_done', data: params.reminderId ? { reminderId: params.reminderId } : undefined });
-  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
-  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
-  const kb = new InlineKeyboard().text(doneBtn.text, doneBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.attachmentsPrompt()], inlineKeyboard: kb });
+  await renderScreen(ctx, {
+    title: labels.reminders.preAlertsTitle(),
+    bodyLines: [
+      labels.reminders.preAlertsPrompt(),
+      '',
+      labels.reminders.detailsPreAlertsLine({
+        pre_alerts: selected.length ? selected.map((minutes) => formatPreAlertLead(minutes)).join(', ') : t('screens.reminders.pre_alerts_none')
+      })
+    ],
+    inlineKeyboard: kb
+  });
 };
 
-const renderReminderIntervalPrompt = async (ctx: Context): Promise<void> => {
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.intervalPrompt()] });
+const formatDeliveryEntry = (entry: ReminderDeliveryEntry, timezone: string, calendarSystem: ReminderCalendarSystem): string[] => {
+  const toLocal = (iso: string): string => {
+    const local = formatInstantToLocal(iso, timezone);
+    return `${formatReminderLocalDate(local.date, calendarSystem)} ${local.time}`;
+  };
+  let outcome: string;
+  if (entry.ok) outcome = t('screens.reminders.history_outcome_sent');
+  else if (entry.error) outcome = t('screens.reminders.history_outcome_failed');
+  else if (entry.action === 'quiet_hours') {
+    outcome = entry.postponedUntilUtc
+      ? t('screens.reminders.history_outcome_postponed', { time: toLocal(entry.postponedUntilUtc) })
+      : t('screens.reminders.history_outcome_quiet');
+  } else if (entry.action === 'missed') outcome = t('screens.reminders.history_outcome_missed');
+  else if (entry.action === 'condition_met') outcome = t('screens.reminders.history_outcome_condition');
+  else outcome = t('screens.reminders.history_outcome_pending');
+
+  const lines = [
+    labels.reminders.historyLine({
+      ok: entry.ok,
+      time: toLocal(entry.sentAtUtc),
+      kind: t(`screens.reminders.history_kind_${entry.kind}`),
+      outcome
+    })
+  ];
+  if (entry.error) lines.push(t('screens.reminders.history_error', { error: entry.error }));
+  if (entry.ok && entry.action && entry.action !== 'pre_alert') {
+    const actionLabel = entry.snoozedUntilUtc
+      ? t('screens.reminders.history_action_snoozed', { time: toLocal(entry.snoozedUntilUtc) })
+      : t(`screens.reminders.history_action_${entry.action}`);
+    lines.push(t('screens.reminders.history_action', { action: actionLabel, time: entry.actionAtUtc ? toLocal(entry.actionAtUtc) : '' }));
+  }
+  return lines;
 };
 
-const renderReminderDailyTimePrompt = async (ctx: Context): Promise<void> => {
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.dailyTimePrompt()] });
+const renderReminderHistory = async (ctx: Context, reminder: ReminderRow): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const deliveries = await listReminderDeliveries(reminder.id);
+  const title = reminder.title && reminder.title.trim().length > 0 ? reminder.title : labels.reminders.untitled();
+  const lines: string[] = [labels.reminders.detailsTitleLine({ title }), ''];
+  if (deliveries.length === 0) {
+    lines.push(t('screens.reminders.history_empty'));
+  }
+  for (const entry of deliveries) {
+    lines.push(...formatDeliveryEntry(entry, timezone, reminder.calendar_system as ReminderCalendarSystem));
+  }
+  if (reminder.last_error && (reminder.send_attempt_count ?? 0) > 0) {
+    lines.push('', labels.reminders.historyRetrying({ count: String(reminder.send_attempt_count), error: reminder.last_error }));
+  }
+
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.edit_open', data: { reminderId: reminder.id } });
+  await renderScreen(ctx, {
+    title: labels.reminders.historyTitle(),
+    bodyLines: lines,
+    inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data)
+  });
 };
 
-const renderReminderWeeklyDayPrompt = async (
-  ctx: Context,
-  params: { mode: ReminderFlow['mode']; reminderId?: string }
-): Promise<void> => {
+const renderReminderReliability = async (ctx: Context): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const summary = await getUserReliabilitySummary(user.id);
+  const rate = summary.total > 0 ? Math.round((summary.delivered / summary.total) * 100) : null;
+  const lines = [
+    t('screens.reminders.reliability_window', { days: String(summary.days) }),
+    '',
+    rate === null
+      ? t('screens.reminders.reliability_no_data')
+      : t('screens.reminders.reliability_rate', { rate: String(rate), delivered: String(summary.delivered), total: String(summary.total) }),
+    t('screens.reminders.reliability_failed', { count: String(summary.failed) }),
+    t('screens.reminders.reliability_skipped', { count: String(summary.skipped) }),
+    t('screens.reminders.reliability_postponed', { count: String(summary.postponed) }),
+    t('screens.reminders.reliability_pre_alerts', { count: String(summary.preAlerts) }),
+    t('screens.reminders.reliability_snoozed', { count: String(summary.snoozed) }),
+    t('screens.reminders.reliability_acknowledged', { count: String(summary.acknowledged) })
+  ];
+  if (summary.topErrors.length > 0) {
+    lines.push('', t('screens.reminders.reliability_top_errors'));
+    for (const entry of summary.topErrors) {
+      lines.push(t('screens.reminders.reliability_error_item', { error: entry.error, count: String(entry.count) }));
+    }
+  }
+
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.reminders' });
+  await renderScreen(ctx, {
+    title: labels.reminders.reliabilityTitle(),
+    bodyLines: lines,
+    inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data)
+  });
+};
+
+const renderReminderPresetNamePrompt = async (ctx: Context, reminder: ReminderRow, errorLine?: string): Promise<void> => {
   const kb = new InlineKeyboard();
-  for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
-    const label = getWeekdayLabel(idx);
-    const btn = await makeActionButton(ctx, { label, action: 'reminders.weekly_day_set', data: { day: idx, mode: params.mode, reminderId: params.reminderId } });
-    kb.text(btn.text, btn.callback_data).row();
+  if (reminder.title?.trim()) {
+    const useTitleBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.presetUseTitle({ title: reminder.title.trim() }),
+      action: 'reminders.preset_save_title',
+      data: { reminderId: reminder.id }
+    });
+    kb.text(useTitleBtn.text, useTitleBtn.callback_data).row();
   }
-  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
-  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.preset_save_cancel', data: { reminderId: reminder.id } });
   kb.text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.weeklyDayPrompt()], inlineKeyboard: kb });
+  await renderScreen(ctx, {
+    title: labels.reminders.presetsTitle(),
+    bodyLines: [errorLine, t('screens.reminders.preset_name_prompt')].filter(Boolean) as string[],
+    inlineKeyboard: kb
+  });
 };
 
-const renderReminderMonthlyDayPrompt = async (ctx: Context): Promise<void> => {
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.monthlyDayPrompt()] });
+const saveReminderAsPreset = async (ctx: Context, reminder: ReminderRow, rawName: string): Promise<void> => {
+  const name = rawName.trim().slice(0, 64);
+  if (!name) {
+    await renderReminderPresetNamePrompt(ctx, reminder);
+    return;
+  }
+  const existing = await listReminderPresets(reminder.user_id);
+  if (existing.length >= MAX_REMINDER_PRESETS) {
+    await renderReminderDetails(ctx, reminder.id, labels.reminders.presetLimit({ max: String(MAX_REMINDER_PRESETS) }));
+    return;
+  }
+  await createReminderPreset({ userId: reminder.user_id, name, snapshot: await buildReminderSnapshot(reminder) });
+  await renderReminderDetails(ctx, reminder.id, labels.reminders.presetSaved({ name }));
 };
 
-const renderReminderYearlyMonthPrompt = async (ctx: Context): Promise<void> => {
+const renderReminderPresets = async (ctx: Context, flash?: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const presets = await listReminderPresets(user.id);
   const kb = new InlineKeyboard();
-  for (let month = 1; month <= 12; month += 1) {
-    const btn = await makeActionButton(ctx, { label: month.toString(), action: 'reminders.yearly_month_set', data: { month } });
-    kb.text(btn.text, btn.callback_data);
-    if (month % 4 === 0) kb.row();
+  for (const preset of presets) {
+    const applyBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.presetApply({ name: preset.name }),
+      action: 'reminders.preset_apply',
+      data: { presetId: preset.id }
+    });
+    const deleteBtn = await makeActionButton(ctx, { label: labels.remindersButtons.delete(), action: 'reminders.preset_delete', data: { presetId: preset.id } });
+    kb.text(applyBtn.text, applyBtn.callback_data).text(deleteBtn.text, deleteBtn.callback_data).row();
   }
-  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.yearlyMonthPrompt()], inlineKeyboard: kb });
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.new' });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.presetsTitle(),
+    bodyLines: [flash, presets.length ? t('screens.reminders.presets_hint') : t('screens.reminders.presets_empty')].filter(Boolean) as string[],
+    inlineKeyboard: kb
+  });
 };
 
-const getReminderIdFromFlow = (flow: ReminderFlow): string | undefined => {
-  return 'reminderId' in flow ? flow.reminderId : undefined;
+/**
+ * Applying a preset only asks for what usually changes between copies: the title, then the time of day for
+ * time-based schedules or the date and time for one-off ones. Every other field is taken from the preset.
+ */
+const getPresetApplySteps = (snapshot: ReminderSnapshot): PresetApplyStep[] => {
+  if (snapshot.schedule_type === 'once') return ['title', 'datetime'];
+  if (snapshot.schedule_type === 'hourly' || !snapshot.at_time) return ['title'];
+  return ['title', 'time'];
 };
 
-const persistReminderSchedule = async (ctx: Context, flow: ReminderFlow): Promise<void> => {
+const renderPresetApplyStep = async (ctx: Context, flow: PresetApplyFlow, snapshot: ReminderSnapshot, errorLine?: string): Promise<void> => {
   const { user } = await ensureUserAndSettings(ctx);
   const timezone = user.timezone ?? config.defaultTimezone;
-  const scheduleType = flow.draft.scheduleType ?? 'once';
-  let onceAt: Date | null = null;
-  if (scheduleType === 'once') {
-    if (!flow.draft.localDate || !flow.draft.localTime) {
-      await renderReminders(ctx);
-      return;
+  const kb = new InlineKeyboard();
+  let prompt: string;
+  let keepValue: string | null = null;
+  if (flow.step === 'title') {
+    prompt = t('screens.reminders.preset_apply_title_prompt');
+    keepValue = snapshot.title?.trim() || null;
+  } else if (flow.step === 'time') {
+    prompt = t('screens.reminders.preset_apply_time_prompt');
+    keepValue = snapshot.at_time?.slice(0, 5) ?? null;
+  } else {
+    prompt = t('screens.reminders.preset_apply_datetime_prompt');
+    if (snapshot.once_at && new Date(snapshot.once_at).getTime() > Date.now()) {
+      const local = formatInstantToLocal(snapshot.once_at, timezone);
+      keepValue = `${local.date} ${local.time}`;
     }
-    onceAt = new Date(localDateTimeToUtcIso(flow.draft.localDate, flow.draft.localTime, timezone));
+  }
+  if (keepValue) {
+    const keepBtn = await makeActionButton(ctx, { label: labels.remindersButtons.presetKeep({ value: keepValue }), action: 'reminders.preset_keep' });
+    kb.text(keepBtn.text, keepBtn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.presets' });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.presetApplyTitle({ name: flow.presetName }),
+    bodyLines: [errorLine, prompt].filter(Boolean) as string[],
+    inlineKeyboard: kb
+  });
+};
+
+const advancePresetApply = async (ctx: Context, stateKey: string, flow: PresetApplyFlow, patch: Partial<PresetApplyFlow>): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const preset = await getReminderPreset(flow.presetId);
+  const snapshot = preset && preset.user_id === user.id ? parseReminderSnapshot(preset.payload) : null;
+  if (!snapshot) {
+    userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetApply: undefined });
+    await renderReminderPresets(ctx);
+    return;
+  }
+  const steps = getPresetApplySteps(snapshot);
+  const nextStep = steps[steps.indexOf(flow.step) + 1];
+  const nextFlow: PresetApplyFlow = { ...flow, ...patch };
+  if (nextStep) {
+    userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetApply: { ...nextFlow, step: nextStep } });
+    await renderPresetApplyStep(ctx, { ...nextFlow, step: nextStep }, snapshot);
+    return;
   }
 
-  const schedule = {
-    scheduleType,
+  userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetApply: undefined });
+  const reminder = await createReminderFromSnapshot(user.id, snapshot, {
+    title: nextFlow.title,
+    atTime: nextFlow.atTime,
+    onceAt: nextFlow.onceAtUtc ? new Date(nextFlow.onceAtUtc) : undefined
+  });
+  await renderReminderDetails(
+    ctx,
+    reminder.id,
+    reminder.next_run_at ? labels.reminders.presetApplied({ name: flow.presetName }) : labels.reminders.presetAppliedInactive({ name: flow.presetName })
+  );
+};
+
+const OCCASION_AT_TIME = '09:00';
+
+const formatReminderOccasion = (occasion: ReminderOccasion): string =>
+  occasion.year === null
+    ? t(`screens.reminders.occasion_summary_${occasion.kind}_no_year`, { name: occasion.person })
+    : t(`screens.reminders.occasion_summary_${occasion.kind}`, { name: occasion.person, year: String(occasion.year) });
+
+const formatOccasionDaysLeft = (daysLeft: number): string => {
+  if (daysLeft === 0) return t('screens.reminders.occasion_today');
+  if (daysLeft === 1) return t('screens.reminders.occasion_tomorrow');
+  return t('screens.reminders.occasion_in_days', { days: String(daysLeft) });
+};
+
+const renderUpcomingOccasions = async (ctx: Context, flash?: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const occasions = await listUpcomingOccasions(user.id, user.timezone ?? config.defaultTimezone);
+  const lines = occasions.map((entry) =>
+    labels.reminders.occasionLine({
+      date: formatReminderLocalDate(entry.localDate, entry.reminder.calendar_system as ReminderCalendarSystem),
+      days: formatOccasionDaysLeft(entry.daysLeft),
+      occasion: labels.reminders.occasionText({ kind: entry.occasion.kind, name: entry.occasion.person, years: entry.years, upcoming: entry.daysLeft > 0 })
+    })
+  );
+
+  const kb = new InlineKeyboard();
+  for (const entry of occasions) {
+    const openBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.occasionOpen({ name: entry.occasion.person }),
+      action: 'reminders.edit_open',
+      data: { reminderId: entry.reminder.id }
+    });
+    kb.text(openBtn.text, openBtn.callback_data).row();
+  }
+  for (const kind of REMINDER_OCCASION_KINDS) {
+    const newBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.occasionNew({ kind: t(`screens.reminders.occasion_new_${kind}`) }),
+      action: 'reminders.occasion_new',
+      data: { kind }
+    });
+    kb.text(newBtn.text, newBtn.callback_data);
+  }
+  kb.row();
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.reminders' });
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    title: labels.reminders.occasionsTitle(),
+    bodyLines: [
+      flash,
+      t('screens.reminders.occasions_window', { days: String(UPCOMING_OCCASIONS_DAYS) }),
+      '',
+      ...(lines.length ? lines : [t('screens.reminders.occasions_empty')])
+    ].filter((line) => typeof line === 'string') as string[],
+    inlineKeyboard: kb
+  });
+};
+
+const renderOccasionStep = async (ctx: Context, flow: OccasionFlow, errorLine?: string): Promise<void> => {
+  const kb = new InlineKeyboard();
+  let prompt: string;
+  if (flow.step === 'person') {
+    prompt = labels.reminders.occasionPersonPrompt({ kind: t(`screens.reminders.occasion_kind_${flow.kind}`) });
+  } else {
+    prompt = labels.reminders.occasionDatePrompt({
+      calendar: t(`screens.reminders.custom_date_mode_${flow.calendar}`),
+      example: flow.calendar === 'jalali' ? '1375-12-30' : '1996-02-29'
+    });
+    const calendars: ReminderCalendarSystem[] = ['gregorian', 'jalali'];
+    for (const calendar of calendars) {
+      const calendarBtn = await makeActionButton(ctx, {
+        label: labels.remindersButtons.occasionCalendar({ label: t(`screens.reminders.custom_date_mode_${calendar}`), selected: flow.calendar === calendar }),
+        action: 'reminders.occasion_calendar',
+        data: { calendar }
+      });
+      kb.text(calendarBtn.text, calendarBtn.callback_data);
+    }
+    kb.row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.occasions' });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.occasionsTitle(),
+    bodyLines: [errorLine, prompt].filter(Boolean) as string[],
+    inlineKeyboard: kb
+  });
+};
+
+/**
+ * Reads an occasion date as [YYYY-]MM-DD in the chosen calendar. Without a year, Feb 29 and Esfand 30 are
+ * accepted since they exist in leap years; with one, the date must exist in that year.
+ */
+const parseOccasionDate = (input: string, calendar: ReminderCalendarSystem): { year: number | null; month: number; day: number } | null => {
+  const normalized = input.trim().replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+  const match = normalized.match(/^(?:(\d{4})[-/])?(\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+  const year = match[1] ? Number(match[1]) : null;
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (month < 1 || month > 12 || day < 1) return null;
+  const maxDay =
+    calendar === 'jalali'
+      ? year === null
+        ? month <= 6 ? 31 : 30
+        : getJalaliMonthLength(year, month)
+      : new Date(Date.UTC(year ?? 2000, month, 0)).getUTCDate();
+  return day <= maxDay ? { year, month, day } : null;
+};
+
+const saveOccasion = async (ctx: Context, stateKey: string, flow: OccasionFlow, raw: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const parsed = parseOccasionDate(raw, flow.calendar);
+  if (!parsed || !flow.person) {
+    await renderOccasionStep(ctx, flow, labels.reminders.occasionDateInvalid());
+    return;
+  }
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const today = formatInstantToLocal(new Date().toISOString(), timezone).date;
+  const [gy, gm, gd] = today.split('-').map(Number);
+  const currentYear = flow.calendar === 'jalali' ? gregorianToJalali(gy, gm, gd).year : gy;
+  if (parsed.year !== null && parsed.year > currentYear) {
+    await renderOccasionStep(ctx, flow, labels.reminders.occasionYearFuture());
+    return;
+  }
+
+  const occasion: ReminderOccasion = { kind: flow.kind, person: flow.person, year: parsed.year };
+  const schedule: ReminderSchedule = {
+    scheduleType: 'yearly',
     timezone,
-    onceAt,
-    intervalMinutes: flow.draft.intervalMinutes ?? null,
-    atTime: flow.draft.atTime ?? flow.draft.localTime ?? null,
-    byWeekday: flow.draft.byWeekday ?? null,
-    byMonthday: flow.draft.byMonthday ?? null,
-    byMonth: flow.draft.byMonth ?? null
+    calendarSystem: flow.calendar,
+    atTime: OCCASION_AT_TIME,
+    byMonth: parsed.month,
+    byMonthday: parsed.day
   };
+  userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), occasionInput: undefined });
+  const reminder = await createReminder({
+    userId: user.id,
+    title: formatReminderOccasion({ ...occasion, year: null }),
+    schedule,
+    nextRunAt: computeNextRunAt(schedule, new Date()),
+    occasion
+  });
+  await renderReminderDetails(ctx, reminder.id, labels.reminders.occasionCreated());
+};
 
-  const nextRunAt = computeNextRunAt(schedule, new Date());
-  const shouldEnable = Boolean(nextRunAt);
-  const status = shouldEnable ? 'active' : 'inactive';
+const formatTelegramName = (from: { username?: string; first_name: string; last_name?: string }): string =>
+  from.username ? `@${from.username}` : [from.first_name, from.last_name].filter(Boolean).join(' ');
 
-  if (flow.mode === 'create') {
-    const reminderId = getReminderIdFromFlow(flow);
-    const title = flow.draft.title && flow.draft.title.trim().length > 0 ? flow.draft.title : labels.reminders.untitled();
-    if (reminderId) {
-      await updateReminder(reminderId, {
-        title,
-        description: flow.draft.description ?? null,
-        schedule,
-        nextRunAt,
-        isActive: shouldEnable,
-        enabled: shouldEnable,
-        status
-      });
-      clearReminderFlow(String(ctx.from?.id ?? ''));
-      const local = nextRunAt ? formatInstantToLocal(nextRunAt.toISOString(), timezone) : null;
-      await renderScreen(ctx, {
-        title: labels.reminders.newTitle(),
-        bodyLines: [labels.reminders.newCreated({ local_date: local?.date ?? '-', local_time: local?.time ?? '-' })]
-      });
-      await renderReminders(ctx);
+const formatRecipientStatus = (status: ReminderRecipientStatus, timezone: string): string => {
+  const formatAt = (iso: string): string => {
+    const local = formatInstantToLocal(iso, timezone);
+    return `${local.date} ${local.time}`;
+  };
+  if (!status.lastSentAtUtc) return t('screens.reminders.share_status_waiting');
+  if (status.ok === false) return t('screens.reminders.share_status_failed', { error: status.error ?? '-' });
+  if (status.action === 'ack' && status.actionAtUtc) {
+    // In a group anyone can answer, so the owner is told who did.
+    return status.recipient.chat_type !== 'private' && status.actionBy
+      ? t('screens.reminders.share_status_acked_by', { time: formatAt(status.actionAtUtc), name: status.actionBy })
+      : t('screens.reminders.share_status_acked', { time: formatAt(status.actionAtUtc) });
+  }
+  return t('screens.reminders.share_status_sent', { time: formatAt(status.lastSentAtUtc) });
+};
+
+const renderReminderSharing = async (ctx: Context, reminderId: string, flash?: string, rotate = false): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const reminder = await getReminderById(reminderId);
+  if (!reminder || reminder.user_id !== user.id) {
+    await renderReminders(ctx);
+    return;
+  }
+  const code = await ensureReminderShareCode(reminder, rotate);
+  const payload = `${REMINDER_SHARE_PAYLOAD_PREFIX}${code}`;
+  const statuses = await listReminderRecipientStatuses(reminder.id);
+  const timezone = user.timezone ?? config.defaultTimezone;
+
+  const lines = [
+    flash,
+    t('screens.reminders.share_intro', { max: String(MAX_REMINDER_RECIPIENTS) }),
+    '',
+    labels.reminders.sharePersonLink({ link: `https://t.me/${ctx.me.username}?start=${payload}` }),
+    labels.reminders.shareGroupLink({ link: `https://t.me/${ctx.me.username}?startgroup=${payload}` }),
+    '',
+    labels.reminders.shareRecipientsHeader({ count: String(statuses.length) }),
+    ...(statuses.length
+      ? statuses.map((status) =>
+          labels.reminders.shareRecipientLine({
+            name: status.recipient.display_name ?? t('screens.reminders.share_unnamed'),
+            status: formatRecipientStatus(status, timezone)
+          })
+        )
+      : [t('screens.reminders.share_no_recipients')])
+  ].filter((line) => typeof line === 'string') as string[];
+
+  const kb = new InlineKeyboard();
+  for (const status of statuses) {
+    const removeBtn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.shareRemove({ name: status.recipient.display_name ?? t('screens.reminders.share_unnamed') }),
+      action: 'reminders.share_remove',
+      data: { reminderId: reminder.id, recipientId: status.recipient.id }
+    });
+    kb.text(removeBtn.text, removeBtn.callback_data).row();
+  }
+  const resetBtn = await makeActionButton(ctx, { label: labels.remindersButtons.shareReset(), action: 'reminders.share_reset', data: { reminderId: reminder.id } });
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.edit_open', data: { reminderId: reminder.id } });
+  kb.text(resetBtn.text, resetBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { title: labels.reminders.shareTitle(), bodyLines: lines, inlineKeyboard: kb });
+};
+
+/**
+ * Handles a `/start share_<code>` deep link. In a private chat the sender joins the reminder; in a group
+ * (the ?startgroup= link) the group itself becomes a recipient.
+ */
+const joinSharedReminder = async (ctx: Context, code: string): Promise<void> => {
+  if (!ctx.from || !ctx.chat) return;
+  const { user } = await ensureUserAndSettings(ctx);
+  const reminder = await findReminderByShareCode(code);
+  const isGroup = ctx.chat.type !== 'private';
+  const reply = async (text: string, inlineKeyboard?: InlineKeyboard): Promise<void> => {
+    if (isGroup) {
+      await ctx.reply(text, inlineKeyboard ? { reply_markup: inlineKeyboard } : undefined);
       return;
     }
-    const reminder = await createReminder({
-      userId: user.id,
-      title,
-      description: flow.draft.description ?? null,
-      descGroupKey: flow.draft.descGroupKey ?? null,
-      schedule,
-      nextRunAt,
-      enabled: shouldEnable,
-      isActive: shouldEnable,
-      status
-    });
-    clearReminderFlow(String(ctx.from?.id ?? ''));
-    const local = nextRunAt ? formatInstantToLocal(nextRunAt.toISOString(), timezone) : null;
-    await renderScreen(ctx, {
-      title: labels.reminders.newTitle(),
-      bodyLines: [labels.reminders.newCreated({ local_date: local?.date ?? '-', local_time: local?.time ?? '-' })]
-    });
-    await renderReminders(ctx);
+    await renderScreen(ctx, { title: labels.reminders.shareTitle(), bodyLines: [text], inlineKeyboard });
+  };
+
+  if (!reminder) {
+    await reply(labels.reminders.shareInvalid());
+    return;
+  }
+  if (!isGroup && reminder.user_id === user.id) {
+    await reply(labels.reminders.shareOwnReminder());
     return;
   }
 
-  if (flow.mode === 'edit') {
-    const current = await getReminderById(flow.reminderId);
-    const enabled = current?.enabled ?? true;
-    const isActive = Boolean(enabled) && Boolean(nextRunAt);
-    await updateReminder(flow.reminderId, { schedule, nextRunAt, enabled, isActive, status: isActive ? 'active' : 'inactive' });
-    clearReminderFlow(String(ctx.from?.id ?? ''));
-    await renderReminderDetails(ctx, flow.reminderId, labels.reminders.editSaved());
+  const added = await addReminderRecipient({
+    reminderId: reminder.id,
+    chatId: ctx.chat.id,
+    chatType: ctx.chat.type,
+    userId: isGroup ? null : user.id,
+    displayName: ctx.chat.type === 'private' ? formatTelegramName(ctx.from) : ctx.chat.title ?? null,
+    addedByTelegramId: isGroup ? ctx.from.id : null
+  });
+  if (!added) {
+    await reply(labels.reminders.shareLimit({ max: String(MAX_REMINDER_RECIPIENTS) }));
+    return;
   }
+
+  const owner = await loadUser(reminder.user_id);
+  const title = reminder.title?.trim() || labels.reminders.untitled();
+  const ownerName = owner?.username ? `@${owner.username}` : labels.reminders.sharedByUnknown();
+  const leaveBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.shareLeave(),
+    action: 'reminders.share_leave',
+    data: { reminderId: reminder.id },
+    reusable: isGroup
+  });
+  await reply(
+    added.joined ? labels.reminders.shareJoined({ title, owner: ownerName }) : labels.reminders.shareAlreadyJoined({ title }),
+    new InlineKeyboard().text(leaveBtn.text, leaveBtn.callback_data)
+  );
 };
 
-const renderReminderDateSelect = async (
+// In a group only the member who added it, or an admin, may take the whole group off a shared reminder.
+const canLeaveSharedReminder = async (ctx: Context, recipient: ReminderRecipientRow): Promise<boolean> => {
+  if (!ctx.from || ctx.chat?.type === 'private') return true;
+  if (recipient.added_by_telegram_id !== null && Number(recipient.added_by_telegram_id) === ctx.from.id) return true;
+  try {
+    const member = await ctx.getChatMember(ctx.from.id);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch {
+    return false;
+  }
+};
+
+const formatReminderCondition = async (condition: ReminderCondition | null): Promise<string> => {
+  if (!condition) return t('screens.reminders.condition_none');
+  if (condition.type === 'completed_below') {
+    return t('screens.reminders.condition_completed_below', { count: String(condition.count) });
+  }
+  const item = await getItemById(condition.item_id);
+  return t('screens.reminders.condition_item_not_filled', { item: item?.label ?? t('screens.reminders.condition_item_missing') });
+};
+
+// reminderId is set when editing an existing reminder; otherwise the answer goes into the create flow's draft.
+const renderReminderConditionPicker = async (
   ctx: Context,
-  params: { mode: ReminderFlow['mode']; reminderId?: string }
+  params: { reminderId?: string; current: ReminderCondition | null }
 ): Promise<void> => {
-  const { user, settings } = await ensureUserAndSettings(ctx);
-  const weekendDay = getWeekendDay(settings.settings_json as Record<string, unknown>);
-  const weekendLabel = getWeekdayLabel(weekendDay);
-
-  const todayBtn = await makeActionButton(ctx, { label: labels.remindersButtons.today(), action: 'reminders.date_select', data: { ...params, choice: 'today' } });
-  const tomorrowBtn = await makeActionButton(ctx, { label: labels.remindersButtons.tomorrow(), action: 'reminders.date_select', data: { ...params, choice: 'tomorrow' } });
-  const weekendBtn = await makeActionButton(ctx, { label: labels.remindersButtons.weekend(), action: 'reminders.date_select', data: { ...params, choice: 'weekend' } });
-  const customBtn = await makeActionButton(ctx, { label: labels.remindersButtons.customDate(), action: 'reminders.date_select', data: { ...params, choice: 'custom' } });
-  const weekendDayBtn = await makeActionButton(ctx, {
-    label: labels.remindersButtons.weekendDay({ day: weekendLabel }),
-    action: 'reminders.weekend_day',
-    data: params
+  const data = params.reminderId ? { reminderId: params.reminderId } : {};
+  const itemBtn = await makeActionButton(ctx, { label: labels.remindersButtons.conditionItem(), action: 'reminders.condition_item', data });
+  const countBtn = await makeActionButton(ctx, { label: labels.remindersButtons.conditionCount(), action: 'reminders.condition_count', data });
+  const noneBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.conditionNone(),
+    action: 'reminders.condition_set',
+    data: { ...data, type: 'none' }
+  });
+  const backBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.back(),
+    action: params.reminderId ? 'reminders.edit_open' : 'nav.reminders',
+    data: params.reminderId ? { reminderId: params.reminderId } : undefined
   });
-
   const kb = new InlineKeyboard()
-    .text(todayBtn.text, todayBtn.callback_data)
-    .text(tomorrowBtn.text, tomorrowBtn.callback_data)
+    .text(itemBtn.text, itemBtn.callback_data)
     .row()
-    .text(weekendBtn.text, weekendBtn.callback_data)
-    .text(customBtn.text, customBtn.callback_data)
+    .text(countBtn.text, countBtn.callback_data)
     .row()
-    .text(weekendDayBtn.text, weekendDayBtn.callback_data);
-
-  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
-  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
-  kb.row().text(backBtn.text, backBtn.callback_data);
+    .text(noneBtn.text, noneBtn.callback_data)
+    .row()
+    .text(backBtn.text, backBtn.callback_data);
 
   await renderScreen(ctx, {
-    title: labels.reminders.newTitle(),
-    bodyLines: [labels.reminders.newChooseDate()],
+    title: labels.reminders.conditionTitle(),
+    bodyLines: [
+      labels.reminders.conditionPrompt(),
+      '',
+      labels.reminders.detailsConditionLine({ condition: await formatReminderCondition(params.current) })
+    ],
     inlineKeyboard: kb
   });
 };
 
-const renderReminderCustomDatePicker = async (
-  ctx: Context,
-  params: { mode: ReminderFlow['mode']; reminderId?: string; draft: ReminderDraft }
-): Promise<void> => {
-  const draft = clampCustomDateDraft(params.draft);
-  const dateMode = draft.dateMode ?? 'gregorian';
-  const year = draft.year ?? 0;
-  const month = draft.month ?? 0;
-  const day = draft.day ?? 0;
-  const formatted = dateMode === 'jalali' ? `J${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}` : `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-
-  const lines = [
-    labels.reminders.customDateTitle({ mode: dateMode === 'jalali' ? t('screens.reminders.custom_date_mode_jalali') : t('screens.reminders.custom_date_mode_gregorian') }),
-    labels.reminders.customDateCurrent({ date: formatted }),
-    labels.reminders.customDateHint()
-  ];
-
+const renderReminderConditionItems = async (ctx: Context, params: { userId: string; reminderId?: string }): Promise<void> => {
+  const { items } = await listConditionItems(params.userId);
+  const data = params.reminderId ? { reminderId: params.reminderId } : {};
   const kb = new InlineKeyboard();
-  const yearMinusBtn = await makeActionButton(ctx, {
-    label: '−1Y',
-    action: 'reminders.date_adjust',
-    data: { ...params, field: 'year', delta: -1 }
-  });
-  const yearPlusBtn = await makeActionButton(ctx, {
-    label: '+1Y',
-    action: 'reminders.date_adjust',
-    data: { ...params, field: 'year', delta: 1 }
-  });
-  const monthMinusBtn = await makeActionButton(ctx, {
-    label: '−1M',
-    action: 'reminders.date_adjust',
-    data: { ...params, field: 'month', delta: -1 }
-  });
-  const monthPlusBtn = await makeActionButton(ctx, {
-    label: '+1M',
-    action: 'reminders.date_adjust',
-    data: { ...params, field: 'month', delta: 1 }
-  });
-  const dayMinusBtn = await makeActionButton(ctx, {
-    label: '−1D',
-    action: 'reminders.date_adjust',
-    data: { ...params, field: 'day', delta: -1 }
-  });
-  const dayPlusBtn = await makeActionButton(ctx, {
-    label: '+1D',
-    action: 'reminders.date_adjust',
-    data: { ...params, field: 'day', delta: 1 }
-  });
-  kb.text(yearMinusBtn.text, yearMinusBtn.callback_data).text(yearPlusBtn.text, yearPlusBtn.callback_data).row();
-  kb.text(monthMinusBtn.text, monthMinusBtn.callback_data).text(monthPlusBtn.text, monthPlusBtn.callback_data).row();
-  kb.text(dayMinusBtn.text, dayMinusBtn.callback_data).text(dayPlusBtn.text, dayPlusBtn.callback_data).row();
-
-  const toggleBtn = await makeActionButton(ctx, {
-    label: dateMode === 'jalali' ? labels.remindersButtons.useGregorian() : labels.remindersButtons.useJalali(),
-    action: 'reminders.date_toggle',
-    data: params
-  });
-  const manualBtn = await makeActionButton(ctx, { label: labels.remindersButtons.typeDate(), action: 'reminders.date_manual', data: params });
-  const confirmBtn = await makeActionButton(ctx, { label: labels.remindersButtons.dateConfirm(), action: 'reminders.date_confirm', data: params });
-  kb.text(toggleBtn.text, toggleBtn.callback_data).row();
-  kb.text(manualBtn.text, manualBtn.callback_data).row();
-  kb.text(confirmBtn.text, confirmBtn.callback_data).row();
-
-  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: params.reminderId ? { reminderId: params.reminderId } : undefined });
+  for (const item of items) {
+    const btn = await makeActionButton(ctx, {
+      label: item.label,
+      action: 'reminders.condition_set',
+      data: { ...data, type: 'item_not_filled', itemId: item.id }
+    });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.condition', data });
   kb.text(backBtn.text, backBtn.callback_data);
 
   await renderScreen(ctx, {
-    title: labels.reminders.newTitle(),
-    bodyLines: lines,
+    title: labels.reminders.conditionTitle(),
+    bodyLines: [items.length > 0 ? labels.reminders.conditionItemPrompt() : labels.reminders.conditionNoItems()],
     inlineKeyboard: kb
   });
 };
 
-const renderReminderTimePicker = async (
-  ctx: Context,
-  params: { mode: ReminderFlow['mode']; reminderId?: string; draft: ReminderDraft }
-): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const timezone = user.timezone ?? config.defaultTimezone;
-  const draft = ensureReminderTimeDraft(params.draft, timezone);
-  const timeLabel = minutesToHhmm(draft.timeMinutes ?? getDefaultReminderTimeMinutes(timezone));
-
-  const lines = [labels.reminders.timeTitle(), labels.reminders.timeCurrent({ time: timeLabel })];
-
+const renderReminderConditionCount = async (ctx: Context, params: { userId: string; reminderId?: string }): Promise<void> => {
+  const { items } = await listConditionItems(params.userId);
+  const data = params.reminderId ? { reminderId: params.reminderId } : {};
   const kb = new InlineKeyboard();
-  const minusHourBtn = await makeActionButton(ctx, { label: '−1h', action: 'reminders.time_adjust', data: { ...params, delta: -60 } });
-  const plusHourBtn = await makeActionButton(ctx, { label: '+1h', action: 'reminders.time_adjust', data: { ...params, delta: 60 } });
-  const minus15Btn = await makeActionButton(ctx, { label: '−15m', action: 'reminders.time_adjust', data: { ...params, delta: -15 } });
-  const plus15Btn = await makeActionButton(ctx, { label: '+15m', action: 'reminders.time_adjust', data: { ...params, delta: 15 } });
-  kb.text(minusHourBtn.text, minusHourBtn.callback_data).text(plusHourBtn.text, plusHourBtn.callback_data).row();
-  kb.text(minus15Btn.text, minus15Btn.callback_data).text(plus15Btn.text, plus15Btn.callback_data).row();
-
-  const presets = ['08:00', '12:00', '18:00', '21:00'];
-  for (const preset of presets) {
-    const btn = await makeActionButton(ctx, { label: preset, action: 'reminders.time_preset', data: { ...params, preset } });
+  for (let count = 1; count <= items.length; count += 1) {
+    const btn = await makeActionButton(ctx, {
+      label: String(count),
+      action: 'reminders.condition_set',
+      data: { ...data, type: 'completed_below', count }
+    });
     kb.text(btn.text, btn.callback_data);
+    if (count % 5 === 0) kb.row();
   }
-  kb.row();
-
-  const manualBtn = await makeActionButton(ctx, { label: labels.remindersButtons.typeTime(), action: 'reminders.time_manual', data: params });
-  const confirmBtn = await makeActionButton(ctx, { label: labels.remindersButtons.timeConfirm(), action: 'reminders.time_confirm', data: params });
-  kb.text(manualBtn.text, manualBtn.callback_data).row();
-  kb.text(confirmBtn.text, confirmBtn.callback_data).row();
-
-  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
-  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: params.reminderId ? { reminderId: params.reminderId } : undefined });
-  kb.text(backBtn.text, backBtn.callback_data);
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.condition', data });
+  kb.row().text(backBtn.text, backBtn.callback_data);
 
   await renderScreen(ctx, {
-    title: labels.reminders.newTitle(),
-    bodyLines: lines,
+    title: labels.reminders.conditionTitle(),
+    bodyLines: [
+      items.length > 0 ? labels.reminders.conditionCountPrompt({ total: String(items.length) }) : labels.reminders.conditionNoItems()
+    ],
     inlineKeyboard: kb
   });
 };
 
-const renderCalendarEvents = async (ctx: Context): Promise<void> => {
-  const back = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.dashboard' });
-  await renderScreen(ctx, { titleKey: t('screens.calendar.title'), bodyLines: [t('screens.calendar.coming_soon')], inlineKeyboard: new InlineKeyboard().text(back.text, back.callback_data) });
+const renderReminderTitlePrompt = async (ctx: Context, mode: ReminderFlow['mode'], reminderId?: string): Promise<void> => {
+  const kb = new InlineKeyboard();
+  if (mode === 'create') {
+    const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'reminders.skip_title' });
+    kb.text(skipBtn.text, skipBtn.callback_data).row();
+    const { user } = await ensureUserAndSettings(ctx);
+    const presets = await listReminderPresets(user.id);
+    if (presets.length > 0) {
+      const presetsBtn = await makeActionButton(ctx, { label: labels.remindersButtons.fromPreset({ count: String(presets.length) }), action: 'reminders.presets' });
+      kb.text(presetsBtn.text, presetsBtn.callback_data).row();
+    }
+  }
+  const backAction = mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: reminderId ? { reminderId } : undefined });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.newEnterTitle()], inlineKeyboard: kb });
 };
 
-const renderAI = async (ctx: Context): Promise<void> => {
-  const back = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.dashboard' });
-  await renderScreen(ctx, { titleKey: t('screens.ai.title'), bodyLines: [t('screens.ai.coming_soon')], inlineKeyboard: new InlineKeyboard().text(back.text, back.callback_data) });
+const renderReminderDescriptionPrompt = async (
+  ctx: Context,
+  mode: ReminderFlow['mode'],
+  reminderId?: string
+): Promise<void> => {
+  const kb = new InlineKeyboard();
+  if (mode === 'create') {
+    const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'reminders.skip_description', data: reminderId ? { reminderId } : undefined });
+    kb.text(skipBtn.text, skipBtn.callback_data).row();
+  }
+  const doneBtn = await makeActionButton(ctx, { label: labels.remindersButtons.descriptionDone(), action: 'reminders.description_done', data: reminderId ? { reminderId } : undefined });
+  const attachBtn = await makeActionButton(ctx, { label: labels.remindersButtons.attach(), action: 'reminders.attach', data: reminderId ? { reminderId } : undefined });
+  const backAction = mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: reminderId ? { reminderId } : undefined });
+  kb.text(doneBtn.text, doneBtn.callback_data).row();
+  kb.text(attachBtn.text, attachBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.descriptionPrompt()], inlineKeyboard: kb });
 };
 
-/**
- * Parsers & pickers
- */
-const parseTimeHhmm = (input: string): { hhmm: string; minutes: number } | null => {
-  const trimmed = input.trim();
-  const parts = trimmed.split(':');
-  if (parts.length !== 2) return null;
+const renderReminderScheduleTypePrompt = async (
+  ctx: Context,
+  mode: ReminderFlow['mode'],
+  reminderId?: string
+): Promise<void> => {
+  const kb = new InlineKeyboard();
+  const types: Array<{ key: ReminderScheduleType; label: string }> = [
+    { key: 'once', label: labels.reminders.scheduleOnce() },
+    { key: 'hourly', label: labels.reminders.scheduleHourly() },
+    { key: 'daily', label: labels.reminders.scheduleDaily() },
+    { key: 'weekly', label: labels.reminders.scheduleWeekly() },
+    { key: 'monthly', label: labels.reminders.scheduleMonthly() },
+    { key: 'yearly', label: labels.reminders.scheduleYearly() },
+    { key: 'rrule', label: labels.reminders.scheduleCustom() },
+    { key: 'prayer', label: labels.reminders.schedulePrayer() },
+    { key: 'solar', label: labels.reminders.scheduleSolar() }
+  ];
+  for (const entry of types) {
+    const btn = await makeActionButton(ctx, { label: entry.label, action: 'reminders.schedule_type', data: { scheduleType: entry.key, mode, reminderId } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backAction = mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: reminderId ? { reminderId } : undefined });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.scheduleTypePrompt()], inlineKeyboard: kb });
+};
 
-  const hours = Number(parts[0]);
-  const minutes = Number(parts[1]);
+const renderReminderAttachmentPrompt = async (
+  ctx: Context,
+  params: { mode: ReminderFlow['mode']; reminderId?: string }
+): Promise<void> => {
+  const doneBtn = await makeActionButton(ctx, { label: labels.notesButtons.attachDone(), action: 'reminders.attach_done', data: params.reminderId ? { reminderId: params.reminderId } : undefined });
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
+  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
+  const kb = new InlineKeyboard().text(doneBtn.text, doneBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.attachmentsPrompt()], inlineKeyboard: kb });
+};
 
-  if (!Number.isInteger(hours) || !Number.isInteger(minutes)) return null;
-  if (hours < 0 || hours > 23) return null;
-  if (minutes < 0 || minutes > 59) return null;
+const renderReminderIntervalPrompt = async (ctx: Context): Promise<void> => {
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.intervalPrompt()] });
+};
 
-  const hh = hours.toString().padStart(2, '0');
-  const mm = minutes.toString().padStart(2, '0');
-  const total = hours * 60 + minutes;
+const renderReminderDailyTimePrompt = async (ctx: Context): Promise<void> => {
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.dailyTimePrompt()] });
+};
 
-  return { hhmm: `${hh}:${mm}`, minutes: total };
+const renderReminderWeeklyDayPrompt = async (
+  ctx: Context,
+  params: { mode: ReminderFlow['mode']; reminderId?: string }
+): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
+    const label = getWeekdayLabel(idx);
+    const btn = await makeActionButton(ctx, { label, action: 'reminders.weekly_day_set', data: { day: idx, mode: params.mode, reminderId: params.reminderId } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
+  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.weeklyDayPrompt()], inlineKeyboard: kb });
 };
 
-const isValidLocalDate = (input: string): boolean => {
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(input)) return false;
-  const [year, month, day] = input.split('-').map(Number);
-  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return false;
-  if (month < 1 || month > 12) return false;
-  if (day < 1 || day > 31) return false;
-  const probe = new Date(Date.UTC(year, month - 1, day));
-  return probe.getUTCFullYear() === year && probe.getUTCMonth() === month - 1 && probe.getUTCDate() === day;
+const renderReminderMonthlyDayPrompt = async (ctx: Context): Promise<void> => {
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.monthlyDayPrompt()] });
 };
 
-const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+const renderReminderCalendarSystemPrompt = async (ctx: Context): Promise<void> => {
+  const gregorianBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.useGregorian(),
+    action: 'reminders.calendar_system_set',
+    data: { calendarSystem: 'gregorian' }
+  });
+  const jalaliBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.useJalali(),
+    action: 'reminders.calendar_system_set',
+    data: { calendarSystem: 'jalali' }
+  });
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.schedule_back' });
+  const kb = new InlineKeyboard()
+    .text(gregorianBtn.text, gregorianBtn.callback_data)
+    .text(jalaliBtn.text, jalaliBtn.callback_data)
+    .row()
+    .text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.calendarSystemPrompt()], inlineKeyboard: kb });
+};
 
-const getWeekendDay = (settingsJson?: Record<string, unknown>): number => {
-  const raw = (settingsJson as { weekend_day?: number | string } | undefined)?.weekend_day;
-  if (typeof raw === 'number' && Number.isInteger(raw) && raw >= 0 && raw <= 6) return raw;
-  if (typeof raw === 'string') {
-    const idx = WEEKDAY_KEYS.indexOf(raw.toLowerCase() as (typeof WEEKDAY_KEYS)[number]);
-    if (idx >= 0) return idx;
+const renderReminderYearlyMonthPrompt = async (ctx: Context): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (let month = 1; month <= 12; month += 1) {
+    const btn = await makeActionButton(ctx, { label: month.toString(), action: 'reminders.yearly_month_set', data: { month } });
+    kb.text(btn.text, btn.callback_data);
+    if (month % 4 === 0) kb.row();
   }
-  return 5;
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.yearlyMonthPrompt()], inlineKeyboard: kb });
 };
 
-const getWeekdayLabel = (dayIndex: number): string => {
-  const key = WEEKDAY_KEYS[dayIndex] ?? 'fri';
-  return t(`screens.reminders.weekday_${key}`);
-};
+const RRULE_POSITIONS = [1, 2, 3, 4, -1] as const;
 
-const getLocalWeekdayIndex = (date: Date, timezone: string): number => {
-  const label = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(date);
-  const map: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
-  return map[label] ?? 0;
+const getRRulePositionLabel = (position: number): string =>
+  position < 0 ? t('screens.reminders.rrule_pos_last') : t(`screens.reminders.rrule_pos_${position}`);
+
+const describeReminderRRule = (rule: RRule): string => {
+  const freqKey = rule.freq.toLowerCase();
+  const parts = [
+    rule.interval > 1
+      ? t(`screens.reminders.rrule_every_n_${freqKey}`, { n: String(rule.interval) })
+      : t(`screens.reminders.rrule_every_${freqKey}`)
+  ];
+  if (rule.byMonth?.length) {
+    parts.push(t('screens.reminders.rrule_in_month', { month: rule.byMonth.join(', ') }));
+  }
+  const positioned = rule.byDay?.filter((entry) => entry.ordinal !== undefined) ?? [];
+  if (positioned.length) {
+    for (const entry of positioned) {
+      parts.push(t('screens.reminders.rrule_on_position', { position: getRRulePositionLabel(entry.ordinal ?? -1), weekday: getWeekdayLabel(entry.weekday) }));
+    }
+  } else if (rule.byDay?.length && rule.bySetPos?.length === 1) {
+    const weekday = rule.byDay.map((entry) => getWeekdayLabel(entry.weekday)).join(', ');
+    parts.push(t('screens.reminders.rrule_on_position', { position: getRRulePositionLabel(rule.bySetPos[0]), weekday }));
+  } else if (rule.byDay?.length) {
+    parts.push(t('screens.reminders.rrule_on_days', { days: rule.byDay.map((entry) => getWeekdayLabel(entry.weekday)).join(', ') }));
+  }
+  for (const day of rule.byMonthDay ?? []) {
+    parts.push(day === -1 ? t('screens.reminders.rrule_on_last_day') : t('screens.reminders.rrule_on_monthday', { day: String(day) }));
+  }
+  if (rule.untilDate) parts.push(t('screens.reminders.rrule_until', { date: rule.untilDate }));
+  if (rule.count) parts.push(t('screens.reminders.rrule_count', { count: String(rule.count) }));
+  return parts.join(', ');
 };
 
-const addDaysToLocalDate = (localDate: string, days: number, timezone: string): string => {
-  const utcIso = localDateTimeToUtcIso(localDate, '00:00', timezone);
-  const next = new Date(new Date(utcIso).getTime() + days * 24 * 60 * 60 * 1000);
-  return formatInstantToLocal(next.toISOString(), timezone).date;
+const buildRRuleBackButton = async (ctx: Context): Promise<{ text: string; callback_data: string }> => {
+  return await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.schedule_back' });
 };
 
-const getNextWeekendLocalDate = (timezone: string, weekendDay: number): string => {
-  const now = new Date();
-  const localNow = formatInstantToLocal(now.toISOString(), timezone);
-  const currentDow = getLocalWeekdayIndex(now, timezone);
-  const delta = (weekendDay - currentDow + 7) % 7;
-  return addDaysToLocalDate(localNow.date, delta, timezone);
+const renderReminderRRuleFreqPrompt = async (ctx: Context): Promise<void> => {
+  const kb = new InlineKeyboard();
+  const freqs: Array<{ freq: RRuleFrequency; label: string }> = [
+    { freq: 'DAILY', label: labels.reminders.scheduleDaily() },
+    { freq: 'WEEKLY', label: labels.reminders.scheduleWeekly() },
+    { freq: 'MONTHLY', label: labels.reminders.scheduleMonthly() },
+    { freq: 'YEARLY', label: labels.reminders.scheduleYearly() }
+  ];
+  for (const entry of freqs) {
+    const btn = await makeActionButton(ctx, { label: entry.label, action: 'reminders.rrule_freq', data: { freq: entry.freq } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backBtn = await buildRRuleBackButton(ctx);
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rruleFreqPrompt()], inlineKeyboard: kb });
 };
 
-const minutesToHhmm = (minutes: number): string => {
-  const total = ((minutes % 1440) + 1440) % 1440;
-  const hh = Math.floor(total / 60)
-    .toString()
-    .padStart(2, '0');
-  const mm = Math.floor(total % 60)
-    .toString()
-    .padStart(2, '0');
-  return `${hh}:${mm}`;
+const renderReminderRRuleIntervalPrompt = async (ctx: Context, rule: RRule): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (let interval = 1; interval <= 6; interval += 1) {
+    const btn = await makeActionButton(ctx, { label: String(interval), action: 'reminders.rrule_interval', data: { interval } });
+    kb.text(btn.text, btn.callback_data);
+    if (interval % 3 === 0) kb.row();
+  }
+  const backBtn = await buildRRuleBackButton(ctx);
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.rruleSummaryLine({ summary: describeReminderRRule(rule) }), labels.reminders.rruleIntervalPrompt()],
+    inlineKeyboard: kb
+  });
 };
 
-const normalizeTimeMinutes = (minutes: number): number => {
-  const total = minutes % 1440;
-  return total < 0 ? total + 1440 : total;
+const renderReminderRRuleWeekdaysPrompt = async (ctx: Context, rule: RRule, flash?: string): Promise<void> => {
+  const kb = new InlineKeyboard();
+  const selected = new Set((rule.byDay ?? []).map((entry) => entry.weekday));
+  for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
+    const btn = await makeActionButton(ctx, {
+      label: `${selected.has(idx) ? '✅ ' : ''}${getWeekdayLabel(idx)}`,
+      action: 'reminders.rrule_weekday_toggle',
+      data: { day: idx }
+    });
+    kb.text(btn.text, btn.callback_data);
+    if (idx % 2 === 1) kb.row();
+  }
+  kb.row();
+  const nextBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleNext(), action: 'reminders.rrule_weekdays_done' });
+  const backBtn = await buildRRuleBackButton(ctx);
+  kb.text(nextBtn.text, nextBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [flash, labels.reminders.rruleSummaryLine({ summary: describeReminderRRule(rule) }), labels.reminders.rruleWeekdaysPrompt()].filter(Boolean) as string[],
+    inlineKeyboard: kb
+  });
 };
 
-const getDefaultReminderTimeMinutes = (timezone: string): number => {
-  const local = formatLocalTime(timezone);
-  const parsed = parseTimeHhmm(local.time);
-  if (!parsed) return 9 * 60;
-  const rounded = Math.ceil(parsed.minutes / 15) * 15;
-  return normalizeTimeMinutes(rounded);
+const renderReminderRRuleMonthPrompt = async (ctx: Context): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (let month = 1; month <= 12; month += 1) {
+    const btn = await makeActionButton(ctx, { label: month.toString(), action: 'reminders.rrule_month', data: { month } });
+    kb.text(btn.text, btn.callback_data);
+    if (month % 4 === 0) kb.row();
+  }
+  const backBtn = await buildRRuleBackButton(ctx);
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.yearlyMonthPrompt()], inlineKeyboard: kb });
 };
 
-const ensureReminderTimeDraft = (draft: ReminderDraft, timezone: string): ReminderDraft => {
-  if (typeof draft.timeMinutes === 'number') return draft;
-  if (draft.localTime) {
-    const parsed = parseTimeHhmm(draft.localTime);
-    if (parsed) return { ...draft, timeMinutes: parsed.minutes };
-  }
-  const minutes = getDefaultReminderTimeMinutes(timezone);
-  return { ...draft, timeMinutes: minutes, localTime: minutesToHhmm(minutes) };
+const renderReminderRRuleMonthlyModePrompt = async (ctx: Context, rule: RRule): Promise<void> => {
+  const dayBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleModeDay(), action: 'reminders.rrule_monthly_mode', data: { mode: 'day' } });
+  const positionBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleModePosition(), action: 'reminders.rrule_monthly_mode', data: { mode: 'position' } });
+  const backBtn = await buildRRuleBackButton(ctx);
+  const kb = new InlineKeyboard()
+    .text(dayBtn.text, dayBtn.callback_data)
+    .row()
+    .text(positionBtn.text, positionBtn.callback_data)
+    .row()
+    .text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.rruleSummaryLine({ summary: describeReminderRRule(rule) }), labels.reminders.rruleMonthlyModePrompt()],
+    inlineKeyboard: kb
+  });
 };
 
-const buildCustomDateDraft = (localDate: string, mode: 'gregorian' | 'jalali'): ReminderDraft => {
-  const [year, month, day] = localDate.split('-').map(Number);
-  if (mode === 'jalali') {
-    const jalali = gregorianToJalali(year, month, day);
-    return { dateMode: 'jalali', year: jalali.year, month: jalali.month, day: jalali.day };
-  }
-  return { dateMode: 'gregorian', year, month, day };
+const renderReminderRRuleMonthdayPrompt = async (ctx: Context): Promise<void> => {
+  const lastBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleLastDay(), action: 'reminders.rrule_monthday', data: { day: -1 } });
+  const backBtn = await buildRRuleBackButton(ctx);
+  const kb = new InlineKeyboard().text(lastBtn.text, lastBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rruleMonthdayPrompt()], inlineKeyboard: kb });
 };
 
-const clampCustomDateDraft = (draft: ReminderDraft): ReminderDraft => {
-  if (!draft.year || !draft.month || !draft.day || !draft.dateMode) return draft;
-  if (draft.dateMode === 'gregorian') {
-    const daysInMonth = new Date(Date.UTC(draft.year, draft.month, 0)).getUTCDate();
-    const nextDay = Math.min(Math.max(1, draft.day), daysInMonth);
-    return { ...draft, day: nextDay };
+const renderReminderRRulePositionPrompt = async (ctx: Context): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (const position of RRULE_POSITIONS) {
+    const btn = await makeActionButton(ctx, { label: getRRulePositionLabel(position), action: 'reminders.rrule_position', data: { position } });
+    kb.text(btn.text, btn.callback_data).row();
   }
-  const maxDay = draft.month <= 6 ? 31 : draft.month <= 11 ? 30 : isValidJalaliDate(draft.year, 12, 30) ? 30 : 29;
-  const nextDay = Math.min(Math.max(1, draft.day), maxDay);
-  return { ...draft, day: nextDay };
+  const backBtn = await buildRRuleBackButton(ctx);
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rrulePositionPrompt()], inlineKeyboard: kb });
 };
 
-const timeDraftToDisplay = (draft: {
-  hour12: number;
-  minuteTens: number;
-  minuteOnes: number;
-  ampm: 'AM' | 'PM';
-}): { hhmm24: string; label: string } => {
-  const hour12 = Math.min(12, Math.max(1, draft.hour12));
-  const mt = Math.min(5, Math.max(0, draft.minuteTens));
-  const mo = Math.min(9, Math.max(0, draft.minuteOnes));
-  const minutes = mt * 10 + mo;
-
-  const hour24 = draft.ampm === 'AM' ? hour12 % 12 : (hour12 % 12) + 12;
-
-  const HH = hour24.toString().padStart(2, '0');
-  const MM = minutes.toString().padStart(2, '0');
+const renderReminderRRulePositionWeekdayPrompt = async (ctx: Context): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
+    const btn = await makeActionButton(ctx, { label: getWeekdayLabel(idx), action: 'reminders.rrule_position_weekday', data: { day: idx } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backBtn = await buildRRuleBackButton(ctx);
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.weeklyDayPrompt()], inlineKeyboard: kb });
+};
 
-  const hhmm24 = `${HH}:${MM}`;
-  const hh12 = hour12.toString().padStart(2, '0');
-  const label = `${hh12}:${MM} ${draft.ampm}`;
-  return { hhmm24, label };
+const renderReminderRRuleEndPrompt = async (ctx: Context, rule: RRule): Promise<void> => {
+  const neverBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleEndNever(), action: 'reminders.rrule_end', data: { end: 'never' } });
+  const untilBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleEndUntil(), action: 'reminders.rrule_end', data: { end: 'until' } });
+  const countBtn = await makeActionButton(ctx, { label: labels.remindersButtons.rruleEndCount(), action: 'reminders.rrule_end', data: { end: 'count' } });
+  const backBtn = await buildRRuleBackButton(ctx);
+  const kb = new InlineKeyboard()
+    .text(neverBtn.text, neverBtn.callback_data)
+    .row()
+    .text(untilBtn.text, untilBtn.callback_data)
+    .row()
+    .text(countBtn.text, countBtn.callback_data)
+    .row()
+    .text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.rruleSummaryLine({ summary: describeReminderRRule(rule) }), labels.reminders.rruleEndPrompt()],
+    inlineKeyboard: kb
+  });
 };
 
-const renderTimePicker = async (
-  ctx: Context,
-  reportDayId: string,
-  item: ReportItemRow,
-  draft: { hour12: number; minuteTens: number; minuteOnes: number; ampm: 'AM' | 'PM' },
-  opts?: { title?: string; currentLabel?: string; hint?: string }
-): Promise<void> => {
-  const { label: timeLabel } = timeDraftToDisplay(draft);
+const renderReminderRRuleTimePrompt = async (ctx: Context, rule: RRule): Promise<void> => {
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.rruleSummaryLine({ summary: describeReminderRRule(rule) }), labels.reminders.dailyTimePrompt()]
+  });
+};
 
-  const lines = [
-    opts?.title ?? t('screens.daily_report.time_title', { label: item.label }),
-    opts?.currentLabel ?? t('screens.daily_report.time_current', { value: timeLabel }),
-    opts?.hint ?? t('screens.daily_report.time_hint')
-  ];
+// After the interval is known, the next question depends on the frequency.
+const continueReminderRRuleFlow = async (ctx: Context, stateKey: string, flow: ReminderFlow, rule: RRule): Promise<void> => {
+  if (rule.freq === 'WEEKLY') {
+    setReminderFlow(stateKey, { ...flow, step: 'rrule_weekdays', draft: { ...flow.draft, rrule: rule } });
+    await renderReminderRRuleWeekdaysPrompt(ctx, rule);
+    return;
+  }
+  if (rule.freq === 'MONTHLY') {
+    setReminderFlow(stateKey, { ...flow, step: 'rrule_monthly_mode', draft: { ...flow.draft, rrule: rule } });
+    await renderReminderRRuleMonthlyModePrompt(ctx, rule);
+    return;
+  }
+  if (rule.freq === 'YEARLY') {
+    setReminderFlow(stateKey, { ...flow, step: 'rrule_month', draft: { ...flow.draft, rrule: rule } });
+    await renderReminderRRuleMonthPrompt(ctx);
+    return;
+  }
+  setReminderFlow(stateKey, { ...flow, step: 'rrule_end', draft: { ...flow.draft, rrule: rule } });
+  await renderReminderRRuleEndPrompt(ctx, rule);
+};
 
-  const kb = new InlineKeyboard();
+const getReminderIdFromFlow = (flow: ReminderFlow): string | undefined => {
+  return 'reminderId' in flow ? flow.reminderId : undefined;
+};
 
-  const hourRows = [
-    [1, 2, 3, 4],
-    [5, 6, 7, 8],
-    [9, 10, 11, 12]
-  ];
+const REMINDER_ANCHOR_OFFSET_PRESETS = [-30, -15, -10, -5, 0, 5, 10, 15, 30];
+const MAX_ANCHOR_OFFSET_MINUTES = 180;
 
-  for (const row of hourRows) {
-    for (const h of row) {
-      const btn = await makeActionButton(ctx, { label: h.toString(), action: 'dr.time_set_hour', data: { reportDayId, itemId: item.id, hour12: h } });
-      kb.text(btn.text, btn.callback_data);
-    }
-    kb.row();
-  }
+const formatPrayerName = (name: PrayerTimeName): string => t(`screens.reminders.prayer_${name}`);
 
-  for (let mt = 0; mt <= 5; mt++) {
-    const btn = await makeActionButton(ctx, { label: `${mt}0`, action: 'dr.time_set_mtens', data: { reportDayId, itemId: item.id, minuteTens: mt } });
-    kb.text(btn.text, btn.callback_data);
-  }
-  kb.row();
+const formatPrayerMethod = (method: string): string => t(`screens.settings.prayer_method_${isPrayerMethod(method) ? method : 'tehran'}`);
 
-  for (let mo = 0; mo <= 9; mo++) {
-    const btn = await makeActionButton(ctx, { label: mo.toString(), action: 'dr.time_set_mones', data: { reportDayId, itemId: item.id, minuteOnes: mo } });
-    kb.text(btn.text, btn.callback_data);
-  }
-  kb.row();
+const formatUserLocation = (location: UserLocation): string => {
+  const city = findCityPreset(location.label);
+  if (city) return t(`screens.settings.city_${city.key}`);
+  return location.label ?? `${location.latitude.toFixed(3)}, ${location.longitude.toFixed(3)}`;
+};
 
-  const amBtn = await makeActionButton(ctx, { label: t('buttons.am'), action: 'dr.time_set_ampm', data: { reportDayId, itemId: item.id, ampm: 'AM' } });
-  const pmBtn = await makeActionButton(ctx, { label: t('buttons.pm'), action: 'dr.time_set_ampm', data: { reportDayId, itemId: item.id, ampm: 'PM' } });
-  kb.text(amBtn.text, amBtn.callback_data).text(pmBtn.text, pmBtn.callback_data);
-  kb.row();
+const formatAnchorOffset = (offsetMinutes: number): string => {
+  if (offsetMinutes === 0) return t('screens.reminders.anchor_offset_at');
+  return t(offsetMinutes < 0 ? 'screens.reminders.anchor_offset_before' : 'screens.reminders.anchor_offset_after', {
+    minutes: String(Math.abs(offsetMinutes))
+  });
+};
 
-  const saveBtn = await makeActionButton(ctx, { label: t('screens.daily_report.time_save'), action: 'dr.time_save', data: { reportDayId, itemId: item.id } });
-  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId } });
+const formatAnchoredSchedule = (anchor: PrayerTimeName, offsetMinutes: number): string =>
+  t('screens.reminders.anchor_schedule', { offset: formatAnchorOffset(offsetMinutes), anchor: formatPrayerName(anchor) });
 
-  kb.text(saveBtn.text, saveBtn.callback_data).row();
-  kb.text(skipBtn.text, skipBtn.callback_data).text(backBtn.text, backBtn.callback_data);
+// The coordinates are copied onto the reminder when it is saved; syncAnchoredReminders keeps them in step later.
+const buildAnchoredScheduleFields = (draft: ReminderDraft, location: UserLocation | null) => ({
+  anchorEvent: draft.anchorEvent ?? null,
+  anchorOffsetMinutes: draft.anchorOffsetMinutes ?? 0,
+  latitude: location?.latitude ?? null,
+  longitude: location?.longitude ?? null,
+  prayerMethod: location?.method ?? null
+});
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
+const renderReminderLocationRequired = async (ctx: Context, params: { mode: ReminderFlow['mode']; reminderId?: string }): Promise<void> => {
+  const settingsBtn = await makeActionButton(ctx, { label: labels.remindersButtons.setLocation(), action: 'settings.location' });
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
+  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.locationRequired()],
+    inlineKeyboard: new InlineKeyboard().text(settingsBtn.text, settingsBtn.callback_data).row().text(backBtn.text, backBtn.callback_data)
+  });
 };
 
-const renderNumericInput = async (ctx: Context, reportDayId: string, item: ReportItemRow, draft: NumericDraftState): Promise<void> => {
-  const unit = draft.unit ?? 'minutes';
-  const formattedValue =
-    item.item_type === 'duration_minutes'
-      ? formatDurationValue(convertToMinutes(draft.value, unit).minutes, unit === 'seconds' ? draft.value : undefined)
-      : draft.value;
-  const lines = [
-    t('screens.daily_report.numeric_title', { label: item.label }),
-    t('screens.daily_report.numeric_current', { value: formattedValue }),
-    t('screens.daily_report.numeric_hint')
-  ];
-  if (item.item_type === 'duration_minutes') {
-    const unitLabel = unit === 'seconds' ? t('screens.daily_report.unit_seconds') : t('screens.daily_report.unit_minutes');
-    lines.splice(2, 0, t('screens.daily_report.numeric_units', { unit: unitLabel }));
+const renderReminderAnchorPrompt = async (
+  ctx: Context,
+  params: { mode: ReminderFlow['mode']; reminderId?: string; scheduleType: 'prayer' | 'solar' }
+): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const location = getUserLocation(user);
+  if (!location) {
+    await renderReminderLocationRequired(ctx, params);
+    return;
   }
-
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const times = getPrayerTimesForDate(location, formatLocalTime(timezone).date);
   const kb = new InlineKeyboard();
-
-  if (item.item_type === 'duration_minutes') {
-    const minutesBtn = await makeActionButton(ctx, {
-      label: `${unit === 'minutes' ? '✅ ' : ''}${t('screens.daily_report.unit_minutes')}`,
-      action: 'dr.num_unit',
-      data: { reportDayId, itemId: item.id, unit: 'minutes' }
-    });
-    const secondsBtn = await makeActionButton(ctx, {
-      label: `${unit === 'seconds' ? '✅ ' : ''}${t('screens.daily_report.unit_seconds')}`,
-      action: 'dr.num_unit',
-      data: { reportDayId, itemId: item.id, unit: 'seconds' }
+  for (const anchor of listScheduleAnchors(params.scheduleType)) {
+    const at = times[anchor];
+    const btn = await makeActionButton(ctx, {
+      label: labels.remindersButtons.prayerAnchor({
+        name: formatPrayerName(anchor),
+        time: at ? formatInstantToLocal(at.toISOString(), timezone).time : '-'
+      }),
+      action: 'reminders.anchor_set',
+      data: { anchor }
     });
-    kb.text(minutesBtn.text, minutesBtn.callback_data).text(secondsBtn.text, secondsBtn.callback_data).row();
+    kb.text(btn.text, btn.callback_data).row();
   }
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
+  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [
+      params.scheduleType === 'solar' ? labels.reminders.solarAnchorPrompt() : labels.reminders.prayerAnchorPrompt(),
+      params.scheduleType === 'solar'
+        ? t('screens.reminders.solar_location_line', { location: formatUserLocation(location) })
+        : t('screens.reminders.prayer_location_line', { location: formatUserLocation(location), method: formatPrayerMethod(location.method) })
+    ],
+    inlineKeyboard: kb
+  });
+};
 
-  const deltasRowPositive = [50, 10, 5, 2, 1];
-  for (const delta of deltasRowPositive) {
+const renderReminderAnchorOffsetPrompt = async (ctx: Context, anchor: PrayerTimeName): Promise<void> => {
+  const kb = new InlineKeyboard();
+  for (const [index, minutes] of REMINDER_ANCHOR_OFFSET_PRESETS.entries()) {
     const btn = await makeActionButton(ctx, {
-      label: `+${delta}`,
-      action: 'dr.num_delta',
-      data: { reportDayId, itemId: item.id, delta }
+      label: labels.remindersButtons.anchorOffset({ offset: formatAnchorOffset(minutes) }),
+      action: 'reminders.anchor_offset_set',
+      data: { minutes }
     });
     kb.text(btn.text, btn.callback_data);
+    if (index % 3 === 2) kb.row();
   }
-  kb.row();
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.schedule_back' });
+  kb.row().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.anchorOffsetPrompt({ anchor: formatPrayerName(anchor), max: String(MAX_ANCHOR_OFFSET_MINUTES) })],
+    inlineKeyboard: kb
+  });
+};
 
-  const deltasRowNegative = [-1, -2, -5, -10, -50];
-  for (const delta of deltasRowNegative) {
-    const btn = await makeActionButton(ctx, { label: `${delta}`, action: 'dr.num_delta', data: { reportDayId, itemId: item.id, delta } });
-    kb.text(btn.text, btn.callback_data);
-  }
-  kb.row();
+const persistReminderSchedule = async (ctx: Context, flow: ReminderFlow): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const scheduleType = flow.draft.scheduleType ?? 'once';
+  let onceAt: Date | null = null;
+  if (scheduleType === 'once') {
+    if (!flow.draft.localDate || !flow.draft.localTime) {
+      await renderReminders(ctx);
+      return;
+    }
+    onceAt = new Date(localDateTimeToUtcIso(flow.draft.localDate, flow.draft.localTime, timezone));
+  }
 
-  const saveBtn = await makeActionButton(ctx, { label: t('screens.daily_report.numeric_save'), action: 'dr.num_save', data: { reportDayId, itemId: item.id } });
-  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId } });
+  const schedule = {
+    scheduleType,
+    timezone,
+    onceAt,
+    intervalMinutes: flow.draft.intervalMinutes ?? null,
+    atTime: flow.draft.atTime ?? flow.draft.localTime ?? null,
+    byWeekday: flow.draft.byWeekday ?? null,
+    byMonthday: flow.draft.byMonthday ?? null,
+    byMonth: flow.draft.byMonth ?? null,
+    calendarSystem: scheduleType === 'monthly' || scheduleType === 'yearly' ? flow.draft.calendarSystem ?? 'gregorian' : 'gregorian',
+    rrule: scheduleType === 'rrule' && flow.draft.rrule ? formatRRule(flow.draft.rrule) : null,
+    rruleStartDate: scheduleType === 'rrule' ? formatLocalTime(timezone).date : null,
+    ...(isAnchoredScheduleType(scheduleType) ? buildAnchoredScheduleFields(flow.draft, getUserLocation(user)) : {})
+  };
 
-  kb.text(saveBtn.text, saveBtn.callback_data).row();
-  kb.text(skipBtn.text, skipBtn.callback_data).text(backBtn.text, backBtn.callback_data);
+  if (flow.mode === 'create' && !flow.quick && typeof flow.draft.condition === 'undefined') {
+    setReminderFlow(String(ctx.from?.id ?? ''), { ...flow, step: 'condition' });
+    await renderReminderConditionPicker(ctx, { current: null });
+    return;
+  }
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
+  const nextRunAt = computeNextRunAt(schedule, new Date());
+  const shouldEnable = Boolean(nextRunAt);
+  const status = shouldEnable ? 'active' : 'inactive';
+
+  if (flow.mode === 'create') {
+    const reminderId = getReminderIdFromFlow(flow);
+    const title = flow.draft.title && flow.draft.title.trim().length > 0 ? flow.draft.title : labels.reminders.untitled();
+    if (reminderId) {
+      await updateReminder(reminderId, {
+        title,
+        description: flow.draft.description ?? null,
+        schedule,
+        nextRunAt,
+        isActive: shouldEnable,
+        enabled: shouldEnable,
+        status,
+        condition: flow.draft.condition ?? null
+      });
+      clearReminderFlow(String(ctx.from?.id ?? ''));
+      const local = nextRunAt ? formatInstantToLocal(nextRunAt.toISOString(), timezone) : null;
+      await renderScreen(ctx, {
+        title: labels.reminders.newTitle(),
+        bodyLines: [
+        labels.reminders.newCreated({
+          local_date: local ? formatReminderLocalDate(local.date, schedule.calendarSystem) : '-',
+          local_time: local?.time ?? '-'
+        })
+      ]
+      });
+      await renderReminders(ctx);
+      return;
+    }
+    const reminder = await createReminder({
+      userId: user.id,
+      title,
+      description: flow.draft.description ?? null,
+      descGroupKey: flow.draft.descGroupKey ?? null,
+      schedule,
+      nextRunAt,
+      enabled: shouldEnable,
+      isActive: shouldEnable,
+      status,
+      condition: flow.draft.condition ?? null
+    });
+    clearReminderFlow(String(ctx.from?.id ?? ''));
+    const local = nextRunAt ? formatInstantToLocal(nextRunAt.toISOString(), timezone) : null;
+    await renderScreen(ctx, {
+      title: labels.reminders.newTitle(),
+      bodyLines: [
+        labels.reminders.newCreated({
+          local_date: local ? formatReminderLocalDate(local.date, schedule.calendarSystem) : '-',
+          local_time: local?.time ?? '-'
+        })
+      ]
+    });
+    await renderReminders(ctx);
+    return;
+  }
+
+  if (flow.mode === 'edit') {
+    const current = await getReminderById(flow.reminderId);
+    const enabled = current?.enabled ?? true;
+    const isActive = Boolean(enabled) && Boolean(nextRunAt);
+    await updateReminder(flow.reminderId, { schedule, nextRunAt, enabled, isActive, status: isActive ? 'active' : 'inactive' });
+    clearReminderFlow(String(ctx.from?.id ?? ''));
+    await renderReminderDetails(ctx, flow.reminderId, labels.reminders.editSaved());
+  }
 };
 
-const renderBooleanInput = async (ctx: Context, reportDayId: string, item: ReportItemRow): Promise<void> => {
-  const labelLine = item.label ? String(item.label) : null;
-  const lines = [labelLine, t('screens.daily_report.boolean_question')].filter(Boolean) as string[];
-  const kb = new InlineKeyboard();
+const renderReminderDateSelect = async (
+  ctx: Context,
+  params: { mode: ReminderFlow['mode']; reminderId?: string }
+): Promise<void> => {
+  const { user, settings } = await ensureUserAndSettings(ctx);
+  const weekendDay = getWeekendDay(settings.settings_json as Record<string, unknown>);
+  const weekendLabel = getWeekdayLabel(weekendDay);
 
-  const yesBtn = await makeActionButton(ctx, { label: t('screens.daily_report.boolean_yes'), action: 'dr.boolean', data: { reportDayId, itemId: item.id, value: true } });
-  const noBtn = await makeActionButton(ctx, { label: t('screens.daily_report.boolean_no'), action: 'dr.boolean', data: { reportDayId, itemId: item.id, value: false } });
-  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
-  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'dr.menu', data: { reportDayId } });
+  const todayBtn = await makeActionButton(ctx, { label: labels.remindersButtons.today(), action: 'reminders.date_select', data: { ...params, choice: 'today' } });
+  const tomorrowBtn = await makeActionButton(ctx, { label: labels.remindersButtons.tomorrow(), action: 'reminders.date_select', data: { ...params, choice: 'tomorrow' } });
+  const weekendBtn = await makeActionButton(ctx, { label: labels.remindersButtons.weekend(), action: 'reminders.date_select', data: { ...params, choice: 'weekend' } });
+  const customBtn = await makeActionButton(ctx, { label: labels.remindersButtons.customDate(), action: 'reminders.date_select', data: { ...params, choice: 'custom' } });
+  const weekendDayBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.weekendDay({ day: weekendLabel }),
+    action: 'reminders.weekend_day',
+    data: params
+  });
 
-  kb.text(yesBtn.text, yesBtn.callback_data).text(noBtn.text, noBtn.callback_data).row();
-  kb.text(skipBtn.text, skipBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data);
+  const kb = new InlineKeyboard()
+    .text(todayBtn.text, todayBtn.callback_data)
+    .text(tomorrowBtn.text, tomorrowBtn.callback_data)
+    .row()
+    .text(weekendBtn.text, weekendBtn.callback_data)
+    .text(customBtn.text, customBtn.callback_data)
+    .row()
+    .text(weekendDayBtn.text, weekendDayBtn.callback_data);
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'reminders.schedule_back';
+  const backData = params.mode === 'edit' ? { reminderId: params.reminderId } : undefined;
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: backData });
+  kb.row().text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [labels.reminders.newChooseDate()],
+    inlineKeyboard: kb
+  });
 };
 
-const renderRoutineDailyTasks = async (
+const renderReminderCustomDatePicker = async (
   ctx: Context,
-  params: { reportDay: ReportDayRow; routineItem: ReportItemRow; items: ReportItemRow[]; origin?: 'next' | 'status'; statusFilter?: 'all' | 'not_filled' | 'filled' }
+  params: { mode: ReminderFlow['mode']; reminderId?: string; draft: ReminderDraft }
 ): Promise<void> => {
-  const opts = (params.routineItem.options_json ?? {}) as { routine_id?: string };
-  const routineId = opts.routine_id;
-  const taskItems = params.items.filter((it) => isRoutineTaskItem(it) && ((it.options_json ?? {}) as { routine_id?: string }).routine_id === routineId);
-  const statuses = taskItems.length ? await listCompletionStatus(params.reportDay.id, taskItems) : [];
-  const lines: string[] = [
-    t('screens.daily_report.routine_tasks_title', { title: params.routineItem.label ?? '' }),
-    t('screens.daily_report.routine_tasks_hint'),
-    ''
+  const draft = clampCustomDateDraft(params.draft);
+  const dateMode = draft.dateMode ?? 'gregorian';
+  const year = draft.year ?? 0;
+  const month = draft.month ?? 0;
+  const day = draft.day ?? 0;
+  const formatted = dateMode === 'jalali' ? `J${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}` : `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+  const lines = [
+    labels.reminders.customDateTitle({ mode: dateMode === 'jalali' ? t('screens.reminders.custom_date_mode_jalali') : t('screens.reminders.custom_date_mode_gregorian') }),
+    labels.reminders.customDateCurrent({ date: formatted }),
+    labels.reminders.customDateHint()
   ];
-  if (statuses.length === 0) {
-    lines.push(t('screens.routine_tasks.list_empty'));
-  } else {
-    statuses.forEach((s, idx) => {
-      const icon = s.filled ? '✅' : s.skipped ? '⏭' : '⬜️';
-      const valueText = s.filled ? formatDisplayValue(s.item, s.value?.value_json ?? null) : '-';
-      lines.push(`${icon} ${idx + 1}) ${formatItemLabel(s.item)} — ${valueText}`);
-    });
-  }
+
   const kb = new InlineKeyboard();
-  for (const status of statuses) {
-    const action = params.reportDay.locked ? 'noop' : 'dr.item';
-    const btn = await makeActionButton(ctx, {
-      label: formatItemLabel(status.item),
-      action,
-      data: {
-        reportDayId: params.reportDay.id,
-        itemId: status.item.id,
-        origin: params.origin,
-        statusFilter: params.statusFilter
-      }
-    });
-    kb.text(btn.text, btn.callback_data).row();
-  }
-  const backBtn = await makeActionButton(ctx, {
-    label: t('buttons.back'),
-    action: 'dr.routine_detail',
-    data: { reportDayId: params.reportDay.id, routineId, itemId: params.routineItem.id, origin: params.origin, statusFilter: params.statusFilter }
+  const yearMinusBtn = await makeActionButton(ctx, {
+    label: '−1Y',
+    action: 'reminders.date_adjust',
+    data: { ...params, field: 'year', delta: -1 }
+  });
+  const yearPlusBtn = await makeActionButton(ctx, {
+    label: '+1Y',
+    action: 'reminders.date_adjust',
+    data: { ...params, field: 'year', delta: 1 }
+  });
+  const monthMinusBtn = await makeActionButton(ctx, {
+    label: '−1M',
+    action: 'reminders.date_adjust',
+    data: { ...params, field: 'month', delta: -1 }
+  });
+  const monthPlusBtn = await makeActionButton(ctx, {
+    label: '+1M',
+    action: 'reminders.date_adjust',
+    data: { ...params, field: 'month', delta: 1 }
+  });
+  const dayMinusBtn = await makeActionButton(ctx, {
+    label: '−1D',
+    action: 'reminders.date_adjust',
+    data: { ...params, field: 'day', delta: -1 }
+  });
+  const dayPlusBtn = await makeActionButton(ctx, {
+    label: '+1D',
+    action: 'reminders.date_adjust',
+    data: { ...params, field: 'day', delta: 1 }
   });
+  kb.text(yearMinusBtn.text, yearMinusBtn.callback_data).text(yearPlusBtn.text, yearPlusBtn.callback_data).row();
+  kb.text(monthMinusBtn.text, monthMinusBtn.callback_data).text(monthPlusBtn.text, monthPlusBtn.callback_data).row();
+  kb.text(dayMinusBtn.text, dayMinusBtn.callback_data).text(dayPlusBtn.text, dayPlusBtn.callback_data).row();
+
+  const toggleBtn = await makeActionButton(ctx, {
+    label: dateMode === 'jalali' ? labels.remindersButtons.useGregorian() : labels.remindersButtons.useJalali(),
+    action: 'reminders.date_toggle',
+    data: params
+  });
+  const manualBtn = await makeActionButton(ctx, { label: labels.remindersButtons.typeDate(), action: 'reminders.date_manual', data: params });
+  const confirmBtn = await makeActionButton(ctx, { label: labels.remindersButtons.dateConfirm(), action: 'reminders.date_confirm', data: params });
+  kb.text(toggleBtn.text, toggleBtn.callback_data).row();
+  kb.text(manualBtn.text, manualBtn.callback_data).row();
+  kb.text(confirmBtn.text, confirmBtn.callback_data).row();
+
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: params.reminderId ? { reminderId: params.reminderId } : undefined });
   kb.text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
+
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: lines,
+    inlineKeyboard: kb
+  });
 };
 
-const renderRoutineDailyEntry = async (
+const renderReminderTimePicker = async (
   ctx: Context,
-  reportDay: ReportDayRow,
-  routineItem: ReportItemRow,
-  items: ReportItemRow[],
-  origin?: 'next' | 'status',
-  statusFilter?: 'all' | 'not_filled' | 'filled'
+  params: { mode: ReminderFlow['mode']; reminderId?: string; draft: ReminderDraft }
 ): Promise<void> => {
-  const opts = (routineItem.options_json ?? {}) as { routine_id?: string };
-  const routineId = opts.routine_id;
-  const taskItems = items.filter((it) => isRoutineTaskItem(it) && ((it.options_json ?? {}) as { routine_id?: string }).routine_id === routineId);
-  const statuses = taskItems.length ? await listCompletionStatus(reportDay.id, taskItems) : [];
-  const doneCount = statuses.filter((s) => s.filled && !s.skipped).length;
-  const [routineStatus] = await listCompletionStatus(reportDay.id, [routineItem]);
-  const state = routineValueState(routineStatus?.value?.value_json ?? null);
-  const lines: string[] = [t('screens.routines.detail_title', { title: routineItem.label ?? '' })];
-  if (state === 'pending') lines.push(t('screens.daily_report.routine_prompt_question'));
-  lines.push(t('screens.daily_report.routine_task_progress', { completed: doneCount, total: statuses.length }));
-  if (state === 'done') lines.push(t('screens.daily_report.routine_status_done'));
-  if (state === 'partial') lines.push(t('screens.daily_report.routine_status_partial'));
-  if (state === 'skipped') lines.push(t('screens.daily_report.routine_status_skipped'));
-  if (state === 'pending') lines.push(t('screens.daily_report.routine_status_pending'));
-
-  const kb = new InlineKeyboard();
-  if (!reportDay.locked && routineId) {
-    if (state === 'done') {
-      const undoBtn = await makeActionButton(ctx, {
-        label: t('buttons.routine_undo'),
-        action: 'dr.routine_undo',
-        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
-      });
-      const detailsBtn = await makeActionButton(ctx, {
-        label: t('buttons.routine_open_tasks'),
-        action: 'dr.routine_open_tasks',
-        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
-      });
-      kb.text(undoBtn.text, undoBtn.callback_data).row().text(detailsBtn.text, detailsBtn.callback_data).row();
-    } else {
-      const doneBtn = await makeActionButton(ctx, {
-        label: t('buttons.routine_mark_done'),
-        action: 'dr.routine_done',
-        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
-      });
-      const partialBtn = await makeActionButton(ctx, {
-        label: t('buttons.routine_mark_partial'),
-        action: 'dr.routine_partial',
-        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
-      });
-      const skipBtn = await makeActionButton(ctx, {
-        label: t('buttons.routine_skip'),
-        action: 'dr.routine_skip',
-        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
-      });
-      kb.text(doneBtn.text, doneBtn.callback_data).row().text(partialBtn.text, partialBtn.callback_data).row().text(skipBtn.text, skipBtn.callback_data).row();
-    }
+  const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const draft = ensureReminderTimeDraft(params.draft, timezone);
+  const timeLabel = minutesToHhmm(draft.timeMinutes ?? getDefaultReminderTimeMinutes(timezone));
+
+  const lines = [labels.reminders.timeTitle(), labels.reminders.timeCurrent({ time: timeLabel })];
+
+  const kb = new InlineKeyboard();
+  const minusHourBtn = await makeActionButton(ctx, { label: '−1h', action: 'reminders.time_adjust', data: { ...params, delta: -60 } });
+  const plusHourBtn = await makeActionButton(ctx, { label: '+1h', action: 'reminders.time_adjust', data: { ...params, delta: 60 } });
+  const minus15Btn = await makeActionButton(ctx, { label: '−15m', action: 'reminders.time_adjust', data: { ...params, delta: -15 } });
+  const plus15Btn = await makeActionButton(ctx, { label: '+15m', action: 'reminders.time_adjust', data: { ...params, delta: 15 } });
+  kb.text(minusHourBtn.text, minusHourBtn.callback_data).text(plusHourBtn.text, plusHourBtn.callback_data).row();
+  kb.text(minus15Btn.text, minus15Btn.callback_data).text(plus15Btn.text, plus15Btn.callback_data).row();
+
+  const presets = ['08:00', '12:00', '18:00', '21:00'];
+  for (const preset of presets) {
+    const btn = await makeActionButton(ctx, { label: preset, action: 'reminders.time_preset', data: { ...params, preset } });
+    kb.text(btn.text, btn.callback_data);
   }
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
+  kb.row();
+
+  const manualBtn = await makeActionButton(ctx, { label: labels.remindersButtons.typeTime(), action: 'reminders.time_manual', data: params });
+  const confirmBtn = await makeActionButton(ctx, { label: labels.remindersButtons.timeConfirm(), action: 'reminders.time_confirm', data: params });
+  kb.text(manualBtn.text, manualBtn.callback_data).row();
+  kb.text(confirmBtn.text, confirmBtn.callback_data).row();
+
+  const backAction = params.mode === 'edit' ? 'reminders.edit_open' : 'nav.reminders';
+  const backBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: backAction, data: params.reminderId ? { reminderId: params.reminderId } : undefined });
   kb.text(backBtn.text, backBtn.callback_data);
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: lines,
+    inlineKeyboard: kb
+  });
 };
 
-const promptForItem = async (
-  ctx: Context,
-  reportDay: ReportDayRow,
-  item: ReportItemRow,
-  opts?: { origin?: 'next' | 'status'; statusFilter?: 'all' | 'not_filled' | 'filled' }
-) => {
-  const telegramId = String(ctx.from?.id ?? '');
-  const existing = userStates.get(telegramId) ?? {};
-  const awaitingValue: AwaitingValueState = {
-    reportDayId: reportDay.id,
-    itemId: item.id,
-    origin: opts?.origin,
-    statusFilter: opts?.statusFilter
-  };
+const isQuickReminderFlow = (flow: ReminderFlow): flow is Extract<ReminderFlow, { mode: 'create' }> =>
+  flow.mode === 'create' && Boolean(flow.quick);
 
-  if (reportDay.locked) {
-    await renderScreen(ctx, {
-      titleKey: t('screens.daily_report.title'),
-      bodyLines: isLockedMessageLines(reportDay),
-      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
-    });
-    return;
-  }
+const buildQuickReminderDraft = (parsed: ParsedReminderText): ReminderDraft => {
+  const time = parsed.localTime ? parseTimeHhmm(parsed.localTime) : null;
+  return {
+    title: parsed.title,
+    scheduleType: parsed.scheduleType,
+    localDate: parsed.localDate,
+    localTime: time?.hhmm,
+    timeMinutes: time?.minutes,
+    intervalMinutes: parsed.intervalMinutes,
+    byWeekday: parsed.byWeekday,
+    byMonthday: parsed.byMonthday,
+    dateSource: parsed.localDate ? 'custom' : undefined
+  };
+};
 
-  if (item.item_type === 'time_hhmm') {
-    const initialDraft: TimeDraftState = {
-      reportDayId: reportDay.id,
-      itemId: item.id,
-      hour12: 10,
-      minuteTens: 0,
-      minuteOnes: 0,
-      ampm: 'PM',
-      mode: 'single',
-      phase: 'end'
-    };
-    userStates.set(telegramId, { ...existing, awaitingValue, timeDraft: initialDraft });
-    await renderTimePicker(ctx, reportDay.id, item, initialDraft);
-    return;
-  }
+const renderReminderQuickPrompt = async (ctx: Context, flash?: string): Promise<void> => {
+  const back = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.reminders' });
+  await renderScreen(ctx, {
+    title: labels.reminders.newTitle(),
+    bodyLines: [flash, labels.reminders.quickPrompt()].filter(Boolean) as string[],
+    inlineKeyboard: new InlineKeyboard().text(back.text, back.callback_data)
+  });
+};
 
-  if (isRoutineParentItem(item)) {
-    const cached = [...reportContextCache.values()].find((v) => v.reportDay.id === reportDay.id);
-    const context = cached ?? (await ensureSpecificReportContext(ctx, reportDay.local_date));
-    userStates.set(telegramId, { ...existing, awaitingValue });
-    await renderRoutineDailyEntry(ctx, context.reportDay, item, context.items, opts?.origin, opts?.statusFilter);
-    return;
-  }
+const renderReminderQuickConfirm = async (ctx: Context, draft: ReminderDraft): Promise<void> => {
+  const scheduleType = draft.scheduleType ?? 'once';
+  const time = draft.localTime ?? '-';
+  let when = `${draft.localDate ? formatReminderLocalDate(draft.localDate) : '-'} ${time}`;
+  if (scheduleType === 'hourly') when = t('screens.reminders.quick_every_minutes', { minutes: String(draft.intervalMinutes ?? 60) });
+  if (scheduleType === 'daily') when = time;
+  if (scheduleType === 'weekly') when = `${getWeekdayLabel(draft.byWeekday ?? 0)} ${time}`;
+  if (scheduleType === 'monthly') when = t('screens.reminders.quick_monthday', { day: String(draft.byMonthday ?? 1), time });
 
-  const optionsJson = (item.options_json ?? {}) as { useStartEnd?: boolean };
-  if (item.item_type === 'duration_minutes' && optionsJson.useStartEnd) {
-    const initialDraft: TimeDraftState = {
-      reportDayId: reportDay.id,
-      itemId: item.id,
-      hour12: 10,
-      minuteTens: 0,
-      minuteOnes: 0,
-      ampm: 'AM',
-      mode: 'start_end',
-      phase: 'start'
-    };
-    userStates.set(telegramId, { ...existing, awaitingValue, timeDraft: initialDraft });
-    await renderTimePicker(ctx, reportDay.id, item, initialDraft, {
-      title: t('screens.daily_report.duration_start_title'),
-      currentLabel: t('screens.daily_report.duration_start_current', { value: timeDraftToDisplay(initialDraft).label }),
-      hint: t('screens.daily_report.duration_start_hint', { label: item.label })
-    });
-    return;
-  }
+  const title = draft.title && draft.title.trim().length > 0 ? draft.title : labels.reminders.untitled();
+  const lines = [
+    labels.reminders.quickConfirmPrompt(),
+    '',
+    labels.reminders.detailsTitleLine({ title }),
+    labels.reminders.detailsScheduleLine({ schedule: labels.reminders.scheduleTypeLabel(scheduleType) }),
+    labels.reminders.detailsScheduledLine({ scheduled: when })
+  ];
 
-  if (item.item_type === 'number' || item.item_type === 'duration_minutes') {
-    const draftValue = 0;
-    const numericDraft: NumericDraftState = {
-      reportDayId: reportDay.id,
-      itemId: item.id,
-      value: draftValue,
-      unit: item.item_type === 'duration_minutes' ? 'minutes' : undefined
-    };
-    userStates.set(telegramId, { ...existing, awaitingValue, numericDraft });
-    await renderNumericInput(ctx, reportDay.id, item, numericDraft);
-    return;
+  const kb = new InlineKeyboard();
+  const saveBtn = await makeActionButton(ctx, { label: labels.remindersButtons.quickSave(), action: 'reminders.quick_save' });
+  kb.text(saveBtn.text, saveBtn.callback_data).row();
+  if (scheduleType === 'once') {
+    const dateBtn = await makeActionButton(ctx, { label: labels.remindersButtons.editDate(), action: 'reminders.quick_date' });
+    kb.text(dateBtn.text, dateBtn.callback_data);
   }
-
-  if (item.item_type === 'boolean') {
-    userStates.set(telegramId, { ...existing, awaitingValue });
-    await renderBooleanInput(ctx, reportDay.id, item);
-    return;
+  if (scheduleType !== 'hourly') {
+    const timeBtn = await makeActionButton(ctx, { label: labels.remindersButtons.editTime(), action: 'reminders.quick_time' });
+    kb.text(timeBtn.text, timeBtn.callback_data);
   }
+  kb.row();
+  const retypeBtn = await makeActionButton(ctx, { label: labels.remindersButtons.quickRetype(), action: 'reminders.quick_new' });
+  const cancelBtn = await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'nav.reminders' });
+  kb.text(retypeBtn.text, retypeBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
 
-  userStates.set(telegramId, { ...existing, awaitingValue });
-
-  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId: reportDay.id, itemId: item.id } });
-  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
-
-  const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
+  await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: lines, inlineKeyboard: kb });
+};
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: [t('screens.daily_report.set_value_for', { label: item.label }), t('screens.daily_report.send_value_as_text')], inlineKeyboard: kb });
+const renderCalendarEvents = async (ctx: Context): Promise<void> => {
+  const back = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.dashboard' });
+  await renderScreen(ctx, { titleKey: t('screens.calendar.title'), bodyLines: [t('screens.calendar.coming_soon')], inlineKeyboard: new InlineKeyboard().text(back.text, back.callback_data) });
 };
 
-const continueFlowAfterAction = async (
-  ctx: Context,
-  reportDay: ReportDayRow,
-  origin?: 'next' | 'status',
-  statusFilter?: 'all' | 'not_filled' | 'filled'
-): Promise<void> => {
-  if (origin === 'next') {
-    const context = await ensureContextByReportDayId(ctx, reportDay.id);
-    const statuses = await listCompletionStatus(reportDay.id, filterRoutineDisplayItems(context.items));
-    const next = statuses.find((s) => !s.filled && !s.skipped);
-    if (next) {
-      await promptForItem(ctx, context.reportDay, next.item, { origin: 'next' });
-      return;
-    }
-    await renderDailyReportRoot(ctx, reportDay.local_date);
-    return;
-  }
-  if (origin === 'status') {
-    const telegramId = String(ctx.from?.id ?? '');
-    const filter = statusFilter ?? userStates.get(telegramId)?.statusFilter?.filter ?? 'all';
-    await renderDailyStatusWithFilter(ctx, reportDay.id, filter);
-    return;
-  }
-  await renderDailyReportRoot(ctx, reportDay.local_date);
+const renderAI = async (ctx: Context): Promise<void> => {
+  const back = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.dashboard' });
+  await renderScreen(ctx, { titleKey: t('screens.ai.title'), bodyLines: [t('screens.ai.coming_soon')], inlineKeyboard: new InlineKeyboard().text(back.text, back.callback_data) });
 };
 
-const renderDailyReportRoot = async (ctx: Context, localDate?: string): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const local = formatLocalTime(user.timezone ?? config.defaultTimezone);
+/**
+ * Parsers & pickers
+ */
+const parseTimeHhmm = (input: string): { hhmm: string; minutes: number } | null => {
+  const trimmed = input.trim();
+  const parts = trimmed.split(':');
+  if (parts.length !== 2) return null;
 
-  const targetDate = localDate ?? local.date;
-  const { reportDay, items } = await ensureSpecificReportContext(ctx, targetDate);
-  const displayItems = filterRoutineDisplayItems(items);
-  const statuses = await listCompletionStatus(reportDay.id, displayItems);
-  const completed = statuses.filter((s) => s.filled).length;
-  const total = statuses.length;
+  const hours = Number(parts[0]);
+  const minutes = Number(parts[1]);
 
-  const template = (await getTemplateById(reportDay.template_id)) ?? (await ensureDefaultTemplate(reportDay.user_id));
-  const templateName = template?.title ?? t('screens.templates.default_title');
+  if (!Number.isInteger(hours) || !Number.isInteger(minutes)) return null;
+  if (hours < 0 || hours > 23) return null;
+  if (minutes < 0 || minutes > 59) return null;
 
-  const bodyLines: string[] = [
-    t('screens.daily_report.root_header', { date: reportDay.local_date }),
-    t('screens.daily_report.template_line', { template: templateName }),
-    t('screens.daily_report.completion_line', { completed, total }),
-    ''
-  ];
+  const hh = hours.toString().padStart(2, '0');
+  const mm = minutes.toString().padStart(2, '0');
+  const total = hours * 60 + minutes;
 
-  if (reportDay.locked) {
-    bodyLines.push(t('screens.daily_report.today_locked_note'), '');
-  }
+  return { hhmm: `${hh}:${mm}`, minutes: total };
+};
 
-  // After 00:00 Tehran time, show "Fill Yesterday" button only if yesterday has unfilled/unskipped items.
-  // We treat server time via user timezone formatting; parse HH from "HH:MM".
-  const hourNow = Number((local.time || '00:00').split(':')[0] ?? 0);
-  const showYesterdayCheck = hourNow >= 0; // always true, but kept for clarity
+const isValidLocalDate = (input: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input)) return false;
+  const [year, month, day] = input.split('-').map(Number);
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return false;
+  if (month < 1 || month > 12) return false;
+  if (day < 1 || day > 31) return false;
+  const probe = new Date(Date.UTC(year, month - 1, day));
+  return probe.getUTCFullYear() === year && probe.getUTCMonth() === month - 1 && probe.getUTCDate() === day;
+};
 
-  const kb = await buildDailyReportKeyboard(ctx, reportDay, { items: displayItems, statuses });
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
 
-  if (showYesterdayCheck) {
-    // Compute yesterday date (YYYY-MM-DD). We do simple date arithmetic in UTC and accept that formatLocalTime is the main source.
-    const [y, m, d] = targetDate.split('-').map((x) => Number(x));
-    if (Number.isInteger(y) && Number.isInteger(m) && Number.isInteger(d)) {
-      const dt = new Date(Date.UTC(y, m - 1, d));
-      dt.setUTCDate(dt.getUTCDate() - 1);
-      const y2 = dt.getUTCFullYear();
-      const m2 = String(dt.getUTCMonth() + 1).padStart(2, '0');
-      const d2 = String(dt.getUTCDate()).padStart(2, '0');
-      const yesterday = `${y2}-${m2}-${d2}`;
-
-      try {
-        const yd = await getReportDayByDate({ userId: user.id, templateId: template.id, localDate: yesterday });
-        if (yd) {
-          const ydItems = filterRoutineDisplayItems(await ensureDefaultItems(user.id));
-          const ydStatuses = await listCompletionStatus(yd.id, ydItems);
-          const hasPending = ydStatuses.some((s) => !s.filled && !s.skipped);
-          if (hasPending) {
-            const yBtn = await makeActionButton(ctx, { label: t('buttons.dr_fill_yesterday'), action: 'dr.open_date', data: { localDate: yesterday } });
-            kb.row().text(yBtn.text, yBtn.callback_data);
-          }
-        }
-      } catch (e) {
-        console.warn({ scope: 'daily_report', event: 'yesterday_check_failed', e });
-      }
-    }
+const getWeekendDay = (settingsJson?: Record<string, unknown>): number => {
+  const raw = (settingsJson as { weekend_day?: number | string } | undefined)?.weekend_day;
+  if (typeof raw === 'number' && Number.isInteger(raw) && raw >= 0 && raw <= 6) return raw;
+  if (typeof raw === 'string') {
+    const idx = WEEKDAY_KEYS.indexOf(raw.toLowerCase() as (typeof WEEKDAY_KEYS)[number]);
+    if (idx >= 0) return idx;
   }
+  return 5;
+};
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines, inlineKeyboard: kb });
+const getWeekdayLabel = (dayIndex: number): string => {
+  const key = WEEKDAY_KEYS[dayIndex] ?? 'fri';
+  return t(`screens.reminders.weekday_${key}`);
 };
 
-const renderDailyStatusWithFilter = async (ctx: Context, reportDayId: string, filter: 'all' | 'not_filled' | 'filled' = 'all'): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
+const getLocalWeekdayIndex = (date: Date, timezone: string): number => {
+  const label = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(date);
+  const map: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+  return map[label] ?? 0;
+};
 
-  const cached = [...reportContextCache.values()].find((v) => v.reportDay.id === reportDayId);
-  const reportDay = cached?.reportDay ?? (await getReportDayById(reportDayId)) ?? (await getOrCreateReportDay({ userId: user.id, templateId: (await ensureDefaultTemplate(user.id)).id, localDate: formatLocalTime(user.timezone ?? config.defaultTimezone).date }));
+const addDaysToLocalDate = (localDate: string, days: number, timezone: string): string => {
+  const utcIso = localDateTimeToUtcIso(localDate, '00:00', timezone);
+  const next = new Date(new Date(utcIso).getTime() + days * 24 * 60 * 60 * 1000);
+  return formatInstantToLocal(next.toISOString(), timezone).date;
+};
 
-  const telegramId = String(ctx.from?.id ?? '');
-  if (telegramId) {
-    const st = { ...(userStates.get(telegramId) || {}) };
-    st.statusFilter = { reportDayId: reportDay.id, filter };
-    userStates.set(telegramId, st);
-  }
+const getNextWeekendLocalDate = (timezone: string, weekendDay: number): string => {
+  const now = new Date();
+  const localNow = formatInstantToLocal(now.toISOString(), timezone);
+  const currentDow = getLocalWeekdayIndex(now, timezone);
+  const delta = (weekendDay - currentDow + 7) % 7;
+  return addDaysToLocalDate(localNow.date, delta, timezone);
+};
 
-  const context = cached ?? (await ensureSpecificReportContext(ctx, reportDay.local_date));
-  const items = filterRoutineDisplayItems(context.items);
-  const statuses = await listCompletionStatus(reportDay.id, items);
-  const decorated = statuses.map((s) => ({ ...s, routineState: isRoutineParentItem(s.item) ? routineValueState(s.value?.value_json ?? null) : null }));
+const minutesToHhmm = (minutes: number): string => {
+  const total = ((minutes % 1440) + 1440) % 1440;
+  const hh = Math.floor(total / 60)
+    .toString()
+    .padStart(2, '0');
+  const mm = Math.floor(total % 60)
+    .toString()
+    .padStart(2, '0');
+  return `${hh}:${mm}`;
+};
 
-  let filtered = decorated;
-  if (filter === 'not_filled')
-    filtered = decorated.filter((s) =>
-      isRoutineParentItem(s.item) ? s.routineState !== 'done' : !s.filled && !s.skipped
-    );
-  if (filter === 'filled')
-    filtered = decorated.filter((s) =>
-      isRoutineParentItem(s.item) ? s.routineState === 'done' : s.filled
-    );
+const normalizeTimeMinutes = (minutes: number): number => {
+  const total = minutes % 1440;
+  return total < 0 ? total + 1440 : total;
+};
 
-  const lines: string[] = [t('screens.daily_report.root_header', { date: reportDay.local_date }), t('screens.daily_report.status_header')];
+const getDefaultReminderTimeMinutes = (timezone: string): number => {
+  const local = formatLocalTime(timezone);
+  const parsed = parseTimeHhmm(local.time);
+  if (!parsed) return 9 * 60;
+  const rounded = Math.ceil(parsed.minutes / 15) * 15;
+  return normalizeTimeMinutes(rounded);
+};
 
-  if (filtered.length === 0) {
-    lines.push(filter === 'filled' ? t('screens.daily_report.none_filled') : t('screens.daily_report.none_pending'));
-  } else {
-    filtered.forEach((s, idx) => {
-      const icon = isRoutineParentItem(s.item)
-        ? s.routineState === 'done'
-          ? '✅'
-          : s.routineState === 'partial'
-            ? '🌓'
-            : s.routineState === 'skipped'
-              ? '⏭'
-              : '⬜️'
-        : s.filled
-          ? '✅'
-          : s.skipped
-            ? '⏭'
-            : '⬜️';
-      const statusLabel = isRoutineParentItem(s.item)
-        ? s.routineState === 'done'
-          ? t('screens.daily_report.routine_status_done')
-          : s.routineState === 'partial'
-            ? t('screens.daily_report.routine_status_partial')
-            : s.routineState === 'skipped'
-              ? t('screens.daily_report.routine_status_skipped')
-              : t('screens.daily_report.routine_status_pending')
-        : formatItemLabel(s.item);
-      lines.push(`${icon} ${idx + 1}) ${isRoutineParentItem(s.item) ? `${formatItemLabel(s.item)} — ${statusLabel}` : statusLabel}`);
-    });
+const ensureReminderTimeDraft = (draft: ReminderDraft, timezone: string): ReminderDraft => {
+  if (typeof draft.timeMinutes === 'number') return draft;
+  if (draft.localTime) {
+    const parsed = parseTimeHhmm(draft.localTime);
+    if (parsed) return { ...draft, timeMinutes: parsed.minutes };
   }
+  const minutes = getDefaultReminderTimeMinutes(timezone);
+  return { ...draft, timeMinutes: minutes, localTime: minutesToHhmm(minutes) };
+};
 
-  const kb = new InlineKeyboard();
-
-  const allBtn = await makeActionButton(ctx, { label: t('screens.daily_report.filter_all'), action: 'dr.status', data: { reportDayId: reportDay.id, filter: 'all' } });
-  const notFilledBtn = await makeActionButton(ctx, { label: t('screens.daily_report.filter_not_filled'), action: 'dr.status', data: { reportDayId: reportDay.id, filter: 'not_filled' } });
-  const filledBtn = await makeActionButton(ctx, { label: t('screens.daily_report.filter_filled'), action: 'dr.status', data: { reportDayId: reportDay.id, filter: 'filled' } });
+const buildCustomDateDraft = (localDate: string, mode: 'gregorian' | 'jalali'): ReminderDraft => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  if (mode === 'jalali') {
+    const jalali = gregorianToJalali(year, month, day);
+    return { dateMode: 'jalali', year: jalali.year, month: jalali.month, day: jalali.day };
+  }
+  return { dateMode: 'gregorian', year, month, day };
+};
 
-  kb.text(allBtn.text, allBtn.callback_data).text(notFilledBtn.text, notFilledBtn.callback_data).text(filledBtn.text, filledBtn.callback_data).row();
+const formatReminderLocalDate = (localDate: string, calendarSystem?: ReminderCalendarSystem | null): string => {
+  if (calendarSystem !== 'jalali') return localDate;
+  const [year, month, day] = localDate.split('-').map(Number);
+  const jalali = gregorianToJalali(year, month, day);
+  return `J${jalali.year}-${String(jalali.month).padStart(2, '0')}-${String(jalali.day).padStart(2, '0')}`;
+};
 
-  // Only allow edit actions if NOT locked.
-  for (const status of filtered) {
-    const icon = isRoutineParentItem(status.item)
-      ? status.routineState === 'done'
-        ? '✅'
-        : status.routineState === 'partial'
-          ? '🌓'
-          : status.routineState === 'skipped'
-            ? '⏭'
-            : '⬜️'
-      : status.filled
-        ? '✅'
-        : status.skipped
-          ? '⏭'
-          : '⬜️';
-    const label = `${icon} ${formatItemLabel(status.item)}`;
-    const action = reportDay.locked ? 'noop' : 'dr.item';
-    const btn = await makeActionButton(ctx, { label, action, data: { reportDayId: reportDay.id, itemId: status.item.id, filter } });
-    kb.text(btn.text, btn.callback_data).row();
+const clampCustomDateDraft = (draft: ReminderDraft): ReminderDraft => {
+  if (!draft.year || !draft.month || !draft.day || !draft.dateMode) return draft;
+  if (draft.dateMode === 'gregorian') {
+    const daysInMonth = new Date(Date.UTC(draft.year, draft.month, 0)).getUTCDate();
+    const nextDay = Math.min(Math.max(1, draft.day), daysInMonth);
+    return { ...draft, day: nextDay };
   }
+  const maxDay = getJalaliMonthLength(draft.year, draft.month);
+  const nextDay = Math.min(Math.max(1, draft.day), maxDay);
+  return { ...draft, day: nextDay };
+};
 
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
-  kb.text(backBtn.text, backBtn.callback_data);
+const timeDraftToDisplay = (draft: {
+  hour12: number;
+  minuteTens: number;
+  minuteOnes: number;
+  ampm: 'AM' | 'PM';
+}): { hhmm24: string; label: string } => {
+  const hour12 = Math.min(12, Math.max(1, draft.hour12));
+  const mt = Math.min(5, Math.max(0, draft.minuteTens));
+  const mo = Math.min(9, Math.max(0, draft.minuteOnes));
+  const minutes = mt * 10 + mo;
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
-};
+  const hour24 = draft.ampm === 'AM' ? hour12 % 12 : (hour12 % 12) + 12;
 
-const slugifyItemKey = (input: string): string =>
-  input
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9_\s]/g, '')
-    .replace(/\s+/g, '_')
-    .replace(/_+/g, '_')
-    .replace(/^_+|_+$/g, '');
+  const HH = hour24.toString().padStart(2, '0');
+  const MM = minutes.toString().padStart(2, '0');
 
-const generateUniqueItemKey = async (templateId: string, label: string): Promise<string> => {
-  const base = slugifyItemKey(label) || 'item';
-  const existing = await listAllItems(templateId);
-  const existingKeys = new Set(existing.map((i) => i.item_key));
-  let candidate = base;
-  let counter = 2;
-  while (existingKeys.has(candidate)) {
-    candidate = `${base}_${counter}`;
-    counter += 1;
-  }
-  return candidate;
+  const hhmm24 = `${HH}:${MM}`;
+  const hh12 = hour12.toString().padStart(2, '0');
+  const label = `${hh12}:${MM} ${draft.ampm}`;
+  return { hhmm24, label };
 };
 
-const buildTypeKeyboard = async (ctx: Context, params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown> }) => {
-  const kb = new InlineKeyboard();
-  const types: { key: string; label: string }[] = [
-    { key: 'boolean', label: t('screens.form_builder.type_boolean_label') },
-    { key: 'number', label: t('screens.form_builder.type_number_label') },
-    { key: 'time_hhmm', label: t('screens.form_builder.type_time_label') },
-    { key: 'duration_minutes', label: t('screens.form_builder.type_duration_label') },
-    { key: 'text', label: t('screens.form_builder.type_text_label') }
+const renderTimePicker = async (
+  ctx: Context,
+  reportDayId: string,
+  item: ReportItemRow,
+  draft: { hour12: number; minuteTens: number; minuteOnes: number; ampm: 'AM' | 'PM' },
+  opts?: { title?: string; currentLabel?: string; hint?: string }
+): Promise<void> => {
+  const { label: timeLabel } = timeDraftToDisplay(draft);
+
+  const lines = [
+    opts?.title ?? t('screens.daily_report.time_title', { label: item.label }),
+    opts?.currentLabel ?? t('screens.daily_report.time_current', { value: timeLabel }),
+    opts?.hint ?? t('screens.daily_report.time_hint')
   ];
-  for (const type of types) {
-    const btn = await makeActionButton(ctx, { label: type.label, action: 'dr.template_item_select_type', data: { templateId: params.templateId, itemId: params.itemId, itemType: type.key } });
-    kb.text(btn.text, btn.callback_data).row();
-  }
-  const backAction = params.backAction ?? 'dr.template_edit';
-  const backBtn = await makeBuilderBackButton(ctx, {
-    templateId: params.templateId,
-    fallbackAction: backAction,
-    fallbackData: params.backData ?? { templateId: params.templateId }
-  });
-  kb.text(backBtn.text, backBtn.callback_data);
-  return kb;
-};
 
-const buildCategoryKeyboard = async (ctx: Context, params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown> }) => {
   const kb = new InlineKeyboard();
-  for (const category of STANDARD_CATEGORIES) {
-    const btn = await makeActionButton(ctx, {
-      label: `${category.emoji} ${t(category.labelKey)}`,
-      action: 'dr.template_item_select_category',
-      data: { templateId: params.templateId, itemId: params.itemId, category: category.name }
-    });
-    kb.text(btn.text, btn.callback_data).row();
-  }
 
-  const customBtn = await makeActionButton(ctx, {
-    label: t('buttons.category_custom'),
-    action: 'dr.template_item_custom_category',
-    data: { templateId: params.templateId, itemId: params.itemId }
-  });
-  kb.text(customBtn.text, customBtn.callback_data).row();
+  const hourRows = [
+    [1, 2, 3, 4],
+    [5, 6, 7, 8],
+    [9, 10, 11, 12]
+  ];
 
-  const backAction = params.backAction ?? 'dr.template_edit';
-  const backBtn = await makeBuilderBackButton(ctx, {
-    templateId: params.templateId,
-    fallbackAction: backAction,
-    fallbackData: params.backData ?? { templateId: params.templateId }
-  });
-  kb.text(backBtn.text, backBtn.callback_data);
-  return kb;
+  for (const row of hourRows) {
+    for (const h of row) {
+      const btn = await makeActionButton(ctx, { label: h.toString(), action: 'dr.time_set_hour', data: { reportDayId, itemId: item.id, hour12: h } });
+      kb.text(btn.text, btn.callback_data);
+    }
+    kb.row();
+  }
+
+  for (let mt = 0; mt <= 5; mt++) {
+    const btn = await makeActionButton(ctx, { label: `${mt}0`, action: 'dr.time_set_mtens', data: { reportDayId, itemId: item.id, minuteTens: mt } });
+    kb.text(btn.text, btn.callback_data);
+  }
+  kb.row();
+
+  for (let mo = 0; mo <= 9; mo++) {
+    const btn = await makeActionButton(ctx, { label: mo.toString(), action: 'dr.time_set_mones', data: { reportDayId, itemId: item.id, minuteOnes: mo } });
+    kb.text(btn.text, btn.callback_data);
+  }
+  kb.row();
+
+  const amBtn = await makeActionButton(ctx, { label: t('buttons.am'), action: 'dr.time_set_ampm', data: { reportDayId, itemId: item.id, ampm: 'AM' } });
+  const pmBtn = await makeActionButton(ctx, { label: t('buttons.pm'), action: 'dr.time_set_ampm', data: { reportDayId, itemId: item.id, ampm: 'PM' } });
+  kb.text(amBtn.text, amBtn.callback_data).text(pmBtn.text, pmBtn.callback_data);
+  kb.row();
+
+  const saveBtn = await makeActionButton(ctx, { label: t('screens.daily_report.time_save'), action: 'dr.time_save', data: { reportDayId, itemId: item.id } });
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId } });
+
+  kb.text(saveBtn.text, saveBtn.callback_data).row();
+  kb.text(skipBtn.text, skipBtn.callback_data).text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const buildXpModeKeyboard = async (
-  ctx: Context,
-  params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown>; itemType?: string }
-) => {
-  const allowed = allowedXpModesForItemType(params.itemType);
-  const modes = [
-    { key: 'fixed', label: t('screens.templates.xp_mode_fixed') },
-    { key: 'per_minute', label: t('screens.templates.xp_mode_time') },
-    { key: 'per_number', label: t('screens.templates.xp_mode_number') },
-    { key: 'none', label: t('screens.daily_report.ask_xp_mode_none') ?? 'No XP' }
-  ].filter((m) => allowed.includes(m.key as 'none' | 'fixed' | 'per_minute' | 'per_number'));
+const renderNumericInput = async (ctx: Context, reportDayId: string, item: ReportItemRow, draft: NumericDraftState): Promise<void> => {
+  const unit = draft.unit ?? 'minutes';
+  const formattedValue =
+    item.item_type === 'duration_minutes'
+      ? formatDurationValue(convertToMinutes(draft.value, unit).minutes, unit === 'seconds' ? draft.value : undefined)
+      : draft.value;
+  const lines = [
+    t('screens.daily_report.numeric_title', { label: item.label }),
+    t('screens.daily_report.numeric_current', { value: formattedValue }),
+    t('screens.daily_report.numeric_hint')
+  ];
+  if (item.item_type === 'duration_minutes') {
+    const unitLabel = unit === 'seconds' ? t('screens.daily_report.unit_seconds') : t('screens.daily_report.unit_minutes');
+    lines.splice(2, 0, t('screens.daily_report.numeric_units', { unit: unitLabel }));
+  }
+
   const kb = new InlineKeyboard();
-  for (const mode of modes) {
+
+  if (item.item_type === 'duration_minutes') {
+    const minutesBtn = await makeActionButton(ctx, {
+      label: `${unit === 'minutes' ? '✅ ' : ''}${t('screens.daily_report.unit_minutes')}`,
+      action: 'dr.num_unit',
+      data: { reportDayId, itemId: item.id, unit: 'minutes' }
+    });
+    const secondsBtn = await makeActionButton(ctx, {
+      label: `${unit === 'seconds' ? '✅ ' : ''}${t('screens.daily_report.unit_seconds')}`,
+      action: 'dr.num_unit',
+      data: { reportDayId, itemId: item.id, unit: 'seconds' }
+    });
+    kb.text(minutesBtn.text, minutesBtn.callback_data).text(secondsBtn.text, secondsBtn.callback_data).row();
+  }
+
+  const deltasRowPositive = [50, 10, 5, 2, 1];
+  for (const delta of deltasRowPositive) {
     const btn = await makeActionButton(ctx, {
-      label: mode.label,
-      action: 'dr.template_item_select_xp_mode',
-      data: { templateId: params.templateId, itemId: params.itemId, xpMode: mode.key }
+      label: `+${delta}`,
+      action: 'dr.num_delta',
+      data: { reportDayId, itemId: item.id, delta }
     });
-    kb.text(btn.text, btn.callback_data).row();
+    kb.text(btn.text, btn.callback_data);
   }
-  const backAction = params.backAction ?? 'dr.template_edit';
-  const backBtn = await makeBuilderBackButton(ctx, {
-    templateId: params.templateId,
-    fallbackAction: backAction,
-    fallbackData: params.backData ?? { templateId: params.templateId }
-  });
-  kb.text(backBtn.text, backBtn.callback_data);
-  return kb;
-};
+  kb.row();
 
-const promptLabelInput = async (ctx: Context, params: { templateId: string; backToItemId?: string }) => {
-  const backAction = params.backToItemId ? 'dr.template_item_menu' : 'dr.template_edit';
-  const backData = params.backToItemId ? { templateId: params.templateId, itemId: params.backToItemId } : { templateId: params.templateId };
-  setBuilderStepForFlow(ctx, params.templateId, 'builder.enterLabel');
-  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.daily_report.ask_label'), t('screens.templates.label_hint')],
-    inlineKeyboard: kb
-  });
-};
+  const deltasRowNegative = [-1, -2, -5, -10, -50];
+  for (const delta of deltasRowNegative) {
+    const btn = await makeActionButton(ctx, { label: `${delta}`, action: 'dr.num_delta', data: { reportDayId, itemId: item.id, delta } });
+    kb.text(btn.text, btn.callback_data);
+  }
+  kb.row();
 
-const promptKeyInput = async (ctx: Context, params: { templateId: string; itemId: string }) => {
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.template_item_menu', data: { templateId: params.templateId, itemId: params.itemId } });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.daily_report.ask_key')],
-    inlineKeyboard: kb
-  });
-};
+  const saveBtn = await makeActionButton(ctx, { label: t('screens.daily_report.numeric_save'), action: 'dr.num_save', data: { reportDayId, itemId: item.id } });
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId } });
 
-const promptTypeSelection = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
-  setBuilderStepForFlow(ctx, params.templateId, 'builder.chooseType');
-  const kb = await buildTypeKeyboard(ctx, {
-    templateId: params.templateId,
-    itemId: params.itemId,
-    backAction: params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit',
-    backData: params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId }
-  });
-  const helpBtn = await makeActionButton(ctx, {
-    label: t('buttons.help'),
-    action: 'dr.template_help',
-    data: { templateId: params.templateId, topic: 'type', itemId: params.itemId, backToItem: params.backToItem === true }
-  });
-  kb.row().text(helpBtn.text, helpBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.daily_report.ask_type'), t('screens.templates.type_hint')],
-    inlineKeyboard: kb
-  });
-};
+  kb.text(saveBtn.text, saveBtn.callback_data).row();
+  kb.text(skipBtn.text, skipBtn.callback_data).text(backBtn.text, backBtn.callback_data);
 
-const promptCategorySelection = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
-  setBuilderStepForFlow(ctx, params.templateId, 'builder.chooseCategory');
-  const kb = await buildCategoryKeyboard(ctx, {
-    templateId: params.templateId,
-    itemId: params.itemId,
-    backAction: params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit',
-    backData: params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId }
-  });
-  const helpBtn = await makeActionButton(ctx, {
-    label: t('buttons.help'),
-    action: 'dr.template_help',
-    data: { templateId: params.templateId, topic: 'category', itemId: params.itemId, backToItem: params.backToItem === true }
-  });
-  kb.row().text(helpBtn.text, helpBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.daily_report.ask_category'), t('screens.templates.category_hint')],
-    inlineKeyboard: kb
-  });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const promptXpModeSelection = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean; itemType?: string }) => {
-  setBuilderStepForFlow(ctx, params.templateId, 'builder.configureXP');
-  const kb = await buildXpModeKeyboard(ctx, {
-    templateId: params.templateId,
-    itemId: params.itemId,
-    backAction: params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit',
-    backData: params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId },
-    itemType: params.itemType
-  });
-  const helpBtn = await makeActionButton(ctx, {
-    label: t('buttons.help'),
-    action: 'dr.template_help',
-    data: { templateId: params.templateId, topic: 'xp_mode', itemId: params.itemId, backToItem: params.backToItem === true }
-  });
-  kb.row().text(helpBtn.text, helpBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.templates.xp_mode_title'), t('screens.templates.xp_mode_hint')],
-    inlineKeyboard: kb
-  });
-};
+const renderBooleanInput = async (ctx: Context, reportDayId: string, item: ReportItemRow): Promise<void> => {
+  const labelLine = item.label ? String(item.label) : null;
+  const lines = [labelLine, t('screens.daily_report.boolean_question')].filter(Boolean) as string[];
+  const kb = new InlineKeyboard();
 
-const promptXpValueInput = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
-  setBuilderStepForFlow(ctx, params.templateId, 'builder.configureXPValue');
-  const backAction = params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit';
-  const backData = params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId };
-  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
-  const helpBtn = await makeActionButton(ctx, {
-    label: t('buttons.help'),
-    action: 'dr.template_help',
-    data: { templateId: params.templateId, topic: 'xp_value', itemId: params.itemId, backToItem: params.backToItem === true }
-  });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data).row().text(helpBtn.text, helpBtn.callback_data);
-  const telegramId = String(ctx.from?.id ?? '');
-  const stateXpMode = userStates.get(telegramId)?.templateItemFlow?.draft.xpMode ?? 'fixed';
-  const hintKey =
-    stateXpMode === 'per_minute'
-      ? 'screens.templates.xp_value_hint_time'
-      : stateXpMode === 'per_number'
-        ? 'screens.templates.xp_value_hint_number'
-        : 'screens.templates.xp_value_hint_fixed';
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.daily_report.ask_xp_value'), t(hintKey)],
-    inlineKeyboard: kb
-  });
+  const yesBtn = await makeActionButton(ctx, { label: t('screens.daily_report.boolean_yes'), action: 'dr.boolean', data: { reportDayId, itemId: item.id, value: true } });
+  const noBtn = await makeActionButton(ctx, { label: t('screens.daily_report.boolean_no'), action: 'dr.boolean', data: { reportDayId, itemId: item.id, value: false } });
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
+  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'dr.menu', data: { reportDayId } });
+
+  kb.text(yesBtn.text, yesBtn.callback_data).text(noBtn.text, noBtn.callback_data).row();
+  kb.text(skipBtn.text, skipBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const promptXpMaxInput = async (ctx: Context, params: { templateId: string; itemId?: string }) => {
-  setBuilderStepForFlow(ctx, params.templateId, 'builder.configureXPMax');
-  const backBtn = await makeBuilderBackButton(ctx, {
-    templateId: params.templateId,
-    fallbackAction: 'dr.template_item_menu',
-    fallbackData: { templateId: params.templateId, itemId: params.itemId }
-  });
-  const helpBtn = await makeActionButton(ctx, {
-    label: t('buttons.help'),
-    action: 'dr.template_help',
-    data: { templateId: params.templateId, topic: 'xp_max', itemId: params.itemId, backToItem: true }
-  });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data).row().text(helpBtn.text, helpBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.daily_report.ask_xp_max_per_day'), t('screens.templates.xp_max_hint')],
-    inlineKeyboard: kb
-  });
-};
-
-const promptCustomCategoryInput = async (ctx: Context, params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown> }) => {
-  const backAction = params.backAction ?? (params.itemId ? 'dr.template_item_menu' : 'dr.template_edit');
-  const backData = params.backData ?? (params.itemId ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId });
-  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.daily_report.template_builder_title'),
-    bodyLines: [t('screens.templates.custom_category_prompt'), t('screens.templates.category_hint')],
-    inlineKeyboard: kb
+const renderRoutineDailyTasks = async (
+  ctx: Context,
+  params: { reportDay: ReportDayRow; routineItem: ReportItemRow; items: ReportItemRow[]; origin?: 'next' | 'status'; statusFilter?: 'all' | 'not_filled' | 'filled' }
+): Promise<void> => {
+  const opts = (params.routineItem.options_json ?? {}) as { routine_id?: string };
+  const routineId = opts.routine_id;
+  const taskItems = params.items.filter((it) => isRoutineTaskItem(it) && ((it.options_json ?? {}) as { routine_id?: string }).routine_id === routineId);
+  const statuses = taskItems.length ? await listCompletionStatus(params.reportDay.id, taskItems) : [];
+  const lines: string[] = [
+    t('screens.daily_report.routine_tasks_title', { title: params.routineItem.label ?? '' }),
+    t('screens.daily_report.routine_tasks_hint'),
+    ''
+  ];
+  if (statuses.length === 0) {
+    lines.push(t('screens.routine_tasks.list_empty'));
+  } else {
+    statuses.forEach((s, idx) => {
+      const icon = s.filled ? '✅' : s.skipped ? '⏭' : '⬜️';
+      const valueText = s.filled ? formatDisplayValue(s.item, s.value?.value_json ?? null) : '-';
+      lines.push(`${icon} ${idx + 1}) ${formatItemLabel(s.item)} — ${valueText}`);
+    });
+  }
+  const kb = new InlineKeyboard();
+  for (const status of statuses) {
+    const action = params.reportDay.locked ? 'noop' : 'dr.item';
+    const btn = await makeActionButton(ctx, {
+      label: formatItemLabel(status.item),
+      action,
+      data: {
+        reportDayId: params.reportDay.id,
+        itemId: status.item.id,
+        origin: params.origin,
+        statusFilter: params.statusFilter
+      }
+    });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, {
+    label: t('buttons.back'),
+    action: 'dr.routine_detail',
+    data: { reportDayId: params.reportDay.id, routineId, itemId: params.routineItem.id, origin: params.origin, statusFilter: params.statusFilter }
   });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const renderStepSummary = async (
+const renderRoutineDailyEntry = async (
   ctx: Context,
-  params: { templateId: string; stage: 'category' | 'xp'; flow: TemplateItemFlow; backToItem?: boolean }
+  reportDay: ReportDayRow,
+  routineItem: ReportItemRow,
+  items: ReportItemRow[],
+  origin?: 'next' | 'status',
+  statusFilter?: 'all' | 'not_filled' | 'filled'
 ): Promise<void> => {
-  const titleKey = params.stage === 'category' ? 'screens.templates.summary_title_category' : 'screens.templates.summary_title_xp';
-  const telegramId = String(ctx.from?.id ?? '');
-  const returnStep =
-    params.stage === 'category'
-      ? 'builder.chooseCategory'
-      : params.flow.draft.xpMode === 'per_minute' || params.flow.draft.xpMode === 'per_number'
-        ? 'builder.configureXPMax'
-        : params.flow.draft.xpMode === 'none'
-          ? 'builder.configureXP'
-          : 'builder.configureXPValue';
-  updateBuilderStep(telegramId, params.templateId, 'builder.summary', returnStep);
-  setTemplateItemFlow(telegramId, { ...params.flow, step: 'summary' });
+  const opts = (routineItem.options_json ?? {}) as { routine_id?: string };
+  const routineId = opts.routine_id;
+  const taskItems = items.filter((it) => isRoutineTaskItem(it) && ((it.options_json ?? {}) as { routine_id?: string }).routine_id === routineId);
+  const statuses = taskItems.length ? await listCompletionStatus(reportDay.id, taskItems) : [];
+  const doneCount = statuses.filter((s) => s.filled && !s.skipped).length;
+  const [routineStatus] = await listCompletionStatus(reportDay.id, [routineItem]);
+  const state = routineValueState(routineStatus?.value?.value_json ?? null);
+  const lines: string[] = [t('screens.routines.detail_title', { title: routineItem.label ?? '' })];
+  if (state === 'pending') lines.push(t('screens.daily_report.routine_prompt_question'));
+  lines.push(t('screens.daily_report.routine_task_progress', { completed: doneCount, total: statuses.length }));
+  if (state === 'done') lines.push(t('screens.daily_report.routine_status_done'));
+  if (state === 'partial') lines.push(t('screens.daily_report.routine_status_partial'));
+  if (state === 'skipped') lines.push(t('screens.daily_report.routine_status_skipped'));
+  if (state === 'pending') lines.push(t('screens.daily_report.routine_status_pending'));
 
-  const confirmBtn = await makeActionButton(ctx, {
-    label: t('buttons.summary_confirm'),
-    action: 'builder.summary_continue',
-    data: { templateId: params.templateId, stage: params.stage, backToItem: params.backToItem === true }
-  });
-  const editBtn = await makeActionButton(ctx, {
-    label: t('buttons.summary_edit'),
-    action: 'builder.summary_edit',
-    data: { templateId: params.templateId, stage: params.stage, backToItem: params.backToItem === true }
-  });
-  const kb = new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).row().text(editBtn.text, editBtn.callback_data);
+  const kb = new InlineKeyboard();
+  if (!reportDay.locked && routineId) {
+    if (state === 'done') {
+      const undoBtn = await makeActionButton(ctx, {
+        label: t('buttons.routine_undo'),
+        action: 'dr.routine_undo',
+        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
+      });
+      const detailsBtn = await makeActionButton(ctx, {
+        label: t('buttons.routine_open_tasks'),
+        action: 'dr.routine_open_tasks',
+        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
+      });
+      kb.text(undoBtn.text, undoBtn.callback_data).row().text(detailsBtn.text, detailsBtn.callback_data).row();
+    } else {
+      const doneBtn = await makeActionButton(ctx, {
+        label: t('buttons.routine_mark_done'),
+        action: 'dr.routine_done',
+        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
+      });
+      const partialBtn = await makeActionButton(ctx, {
+        label: t('buttons.routine_mark_partial'),
+        action: 'dr.routine_partial',
+        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
+      });
+      const skipBtn = await makeActionButton(ctx, {
+        label: t('buttons.routine_skip'),
+        action: 'dr.routine_skip',
+        data: { reportDayId: reportDay.id, routineId, itemId: routineItem.id, origin, statusFilter }
+      });
+      kb.text(doneBtn.text, doneBtn.callback_data).row().text(partialBtn.text, partialBtn.callback_data).row().text(skipBtn.text, skipBtn.callback_data).row();
+    }
+  }
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
+  kb.text(backBtn.text, backBtn.callback_data);
 
-  await renderScreen(ctx, {
-    titleKey,
-    bodyLines: buildFieldSummaryLines(params.flow.draft),
-    inlineKeyboard: kb
-  });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const renderTemplateHelp = async (
-  ctx: Context,
-  params: { templateId: string; topic: 'type' | 'category' | 'xp_mode' | 'xp_value' | 'xp_max'; backToItem?: boolean; itemId?: string }
-) => {
-  const keyMap: Record<string, string> = {
-    type: 'screens.templates.help_type',
-    category: 'screens.templates.help_category',
-    xp_mode: 'screens.templates.help_xp',
-    xp_value: 'screens.templates.help_xp_value',
-    xp_max: 'screens.templates.help_xp_max'
-  };
-  const backAction = params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit';
-  const backData = params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId };
-  const telegramId = String(ctx.from?.id ?? '');
-  const currentBuilder = userStates.get(telegramId)?.builder;
-  if (currentBuilder?.active && currentBuilder.templateId === params.templateId) {
-    const currentStep = currentBuilder.step?.startsWith('builder.help') ? currentBuilder.returnStep : currentBuilder?.step;
-    updateBuilderStep(telegramId, params.templateId, `builder.help.${params.topic}`, currentStep);
+const renderChoiceInput = async (ctx: Context, reportDayId: string, item: ReportItemRow): Promise<void> => {
+  const lines = [item.label, t('screens.daily_report.choice_question')].filter(Boolean) as string[];
+  const kb = new InlineKeyboard();
+  for (const choice of getItemChoices(item)) {
+    const btn = await makeActionButton(ctx, { label: choice.label, action: 'dr.choice', data: { reportDayId, itemId: item.id, key: choice.key } });
+    kb.text(btn.text, btn.callback_data).row();
   }
-  const backBtn = await (builderIsActiveForTemplate(telegramId, params.templateId)
-    ? makeActionButton(ctx, { label: t('buttons.back'), action: 'builder.back', data: { templateId: params.templateId } })
-    : makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData }));
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, {
-    titleKey: t('screens.form_builder.help.title'),
-    bodyLines: [t(keyMap[params.topic] ?? '')],
-    inlineKeyboard: kb
-  });
-};
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
+  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'dr.menu', data: { reportDayId } });
+  kb.text(skipBtn.text, skipBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data);
 
-const buildRoutineTypeKeyboard = async (ctx: Context, routineId?: string) => {
-  const kb = new InlineKeyboard();
-  const booleanBtn = await makeActionButton(ctx, {
-    label: t('screens.routines.type_boolean'),
-    action: 'routines.select_type',
-    data: { routineId, routineType: 'boolean' }
-  });
-  const durationBtn = await makeActionButton(ctx, {
-    label: t('screens.routines.type_duration'),
-    action: 'routines.select_type',
-    data: { routineId, routineType: 'duration_minutes' }
-  });
-  const numberBtn = await makeActionButton(ctx, {
-    label: t('screens.routines.type_number'),
-    action: 'routines.select_type',
-    data: { routineId, routineType: 'number' }
-  });
-  kb.text(booleanBtn.text, booleanBtn.callback_data).row().text(durationBtn.text, durationBtn.callback_data).row().text(numberBtn.text, numberBtn.callback_data);
-  return kb;
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const buildRoutineXpModeKeyboard = async (ctx: Context, routineId?: string) => {
+const renderMultiChoiceInput = async (ctx: Context, reportDayId: string, item: ReportItemRow, draft: ChoiceDraftState): Promise<void> => {
+  const choices = getItemChoices(item);
+  const lines = [
+    item.label,
+    t(item.item_type === 'checklist' ? 'screens.daily_report.checklist_question' : 'screens.daily_report.multi_choice_question'),
+    t('screens.daily_report.choice_selected', { count: draft.selected.length, total: choices.length })
+  ].filter(Boolean) as string[];
   const kb = new InlineKeyboard();
-  const modes = [
-    { key: 'fixed', label: t('screens.routines.xp_mode_fixed') },
-    { key: 'per_minute', label: t('screens.routines.xp_mode_time') },
-    { key: 'per_number', label: t('screens.routines.xp_mode_number') },
-    { key: 'none', label: t('screens.routines.xp_mode_none') }
-  ];
-  for (const mode of modes) {
-    const btn = await makeActionButton(ctx, { label: mode.label, action: 'routines.select_xp_mode', data: { routineId, xpMode: mode.key } });
+  for (const choice of choices) {
+    const btn = await makeActionButton(ctx, {
+      label: `${draft.selected.includes(choice.key) ? '✅' : '⬜️'} ${choice.label}`,
+      action: 'dr.choice_toggle',
+      data: { reportDayId, itemId: item.id, key: choice.key }
+    });
     kb.text(btn.text, btn.callback_data).row();
   }
-  return kb;
-};
+  const saveBtn = await makeActionButton(ctx, { label: t('screens.daily_report.choice_save'), action: 'dr.choice_save', data: { reportDayId, itemId: item.id } });
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId } });
+  kb.text(saveBtn.text, saveBtn.callback_data).row();
+  kb.text(skipBtn.text, skipBtn.callback_data).text(backBtn.text, backBtn.callback_data);
 
-const promptRoutineTitle = async (ctx: Context, params: { routineId?: string }) => {
-  const backAction = params.routineId ? 'routines.view' : 'routines.root';
-  const backData = params.routineId ? { routineId: params.routineId } : {};
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [t('screens.routines.add_title')], inlineKeyboard: kb });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const promptRoutineDescription = async (ctx: Context, params: { routineId?: string }) => {
-  const backAction = params.routineId ? 'routines.view' : 'routines.root';
-  const backData = params.routineId ? { routineId: params.routineId } : {};
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [t('screens.routines.add_description')], inlineKeyboard: kb });
-};
+const renderRatingInput = async (ctx: Context, reportDayId: string, item: ReportItemRow): Promise<void> => {
+  const lines = [item.label, t('screens.daily_report.rating_question', { min: RATING_MIN, max: RATING_MAX })].filter(Boolean) as string[];
+  const kb = new InlineKeyboard();
+  for (let value = RATING_MIN; value <= RATING_MAX; value += 1) {
+    const btn = await makeActionButton(ctx, { label: String(value), action: 'dr.rating', data: { reportDayId, itemId: item.id, value } });
+    kb.text(btn.text, btn.callback_data);
+    if ((value - RATING_MIN + 1) % 5 === 0) kb.row();
+  }
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId, itemId: item.id } });
+  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'dr.menu', data: { reportDayId } });
+  kb.row().text(skipBtn.text, skipBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data);
 
-const promptRoutineXpValue = async (ctx: Context, params: { routineId?: string; xpMode: 'fixed' | 'per_minute' | 'per_number' }) => {
-  const backAction = params.routineId ? 'routines.view' : 'routines.root';
-  const backData = params.routineId ? { routineId: params.routineId } : {};
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  const body =
-    params.xpMode === 'fixed'
-      ? t('screens.routines.ask_fixed_xp')
-      : params.xpMode === 'per_number'
-        ? t('screens.routines.ask_number_xp')
-        : t('screens.routines.ask_time_xp');
-  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [body], inlineKeyboard: kb });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
 };
 
-const promptRoutineXpMax = async (ctx: Context, params: { routineId?: string }) => {
-  const backAction = params.routineId ? 'routines.view' : 'routines.root';
-  const backData = params.routineId ? { routineId: params.routineId } : {};
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
-  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [t('screens.routines.ask_time_xp_max')], inlineKeyboard: kb });
+/** Saves a value picked from an inline keyboard and moves on the same way a typed value does. */
+const saveButtonValue = async (ctx: Context, params: { reportDayId: string; item: ReportItemRow; reportDay: ReportDayRow; valueJson: Record<string, unknown> }): Promise<void> => {
+  const telegramId = String(ctx.from?.id ?? '');
+  const awaiting = userStates.get(telegramId)?.awaitingValue;
+
+  await saveValue({ reportDayId: params.reportDayId, item: params.item, valueJson: params.valueJson, userId: params.reportDay.user_id });
+  const userSettings = (await ensureUserAndSettings(ctx)).user.settings_json as Record<string, unknown>;
+  await logForUser({
+    userId: params.reportDay.user_id,
+    ctx,
+    eventName: 'db_write',
+    payload: { action: 'save_value', item_id: params.item.id },
+    enabled: telemetryEnabledForUser(userSettings)
+  });
+
+  const updated = { ...(userStates.get(telegramId) || {}) };
+  delete updated.awaitingValue;
+  delete updated.choiceDraft;
+  userStates.set(telegramId, updated);
+
+  await continueFlowAfterAction(ctx, params.reportDay, awaiting?.origin, awaiting?.statusFilter);
 };
 
-const promptRoutineConfirm = async (ctx: Context, flow: RoutineFlow) => {
-  const typeLabel = flow.draft.routineType === 'duration_minutes' ? t('screens.routines.type_duration') : t('screens.routines.type_boolean');
-  const summary = [
-    t('screens.routines.confirm_title', { title: flow.draft.title ?? '' }),
-    flow.draft.description || t('screens.routines.no_description'),
-    typeLabel,
-    flow.draft.xpMode === 'fixed'
-      ? t('screens.routines.xp_fixed', { xp: flow.draft.xpValue ?? 0 })
-      : flow.draft.xpMode === 'per_minute'
-        ? t('screens.routines.xp_per_minute', {
-            xp: flow.draft.xpValue ?? 0,
-            max: flow.draft.xpMaxPerDay && flow.draft.xpMaxPerDay > 0 ? t('screens.routines.xp_max_suffix', { xp: flow.draft.xpMaxPerDay }) : ''
-          })
-        : flow.draft.xpMode === 'per_number'
-          ? t('screens.routines.xp_per_number', {
-              xp: flow.draft.xpValue ?? 0,
-              max: flow.draft.xpMaxPerDay && flow.draft.xpMaxPerDay > 0 ? t('screens.routines.xp_max_suffix', { xp: flow.draft.xpMaxPerDay }) : ''
-            })
-          : t('screens.routines.xp_none')
-  ];
-
-  const saveBtn = await makeActionButton(ctx, { label: t('buttons.tpl_yes'), action: 'routines.save', data: { routineId: flow.routineId } });
-  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.tpl_no'), action: flow.routineId ? 'routines.view' : 'routines.root', data: flow.routineId ? { routineId: flow.routineId } : {} });
-  const kb = new InlineKeyboard().text(saveBtn.text, saveBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
-  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: summary, inlineKeyboard: kb });
-};
-
-const renderTemplatesScreen = async (ctx: Context, flashLine?: string): Promise<void> => {
-  const { user, settings } = await ensureUserAndSettings(ctx);
-  await ensureDefaultTemplate(user.id);
-  const templates = await listUserTemplates(user.id);
-  const settingsJson = (settings.settings_json ?? {}) as { active_template_id?: string | null };
-  const fallbackTemplateId = templates[0]?.id ?? null;
-  const activeTemplateId = settingsJson.active_template_id ?? fallbackTemplateId;
-  const resolvedActiveId = templates.some((tpl) => tpl.id === activeTemplateId) ? activeTemplateId : fallbackTemplateId;
+const promptForItem = async (
+  ctx: Context,
+  reportDay: ReportDayRow,
+  item: ReportItemRow,
+  opts?: { origin?: 'next' | 'status'; statusFilter?: 'all' | 'not_filled' | 'filled' }
+) => {
+  const telegramId = String(ctx.from?.id ?? '');
+  const existing = userStates.get(telegramId) ?? {};
+  const awaitingValue: AwaitingValueState = {
+    reportDayId: reportDay.id,
+    itemId: item.id,
+    origin: opts?.origin,
+    statusFilter: opts?.statusFilter
+  };
 
-  const lines: string[] = [t('screens.daily_report.templates_title')];
-  if (flashLine) lines.push(flashLine);
-  if (templates.length === 0) {
-    lines.push(t('screens.daily_report.templates_empty'));
-  } else {
-    templates.forEach((tpl) => {
-      const isActive = tpl.id === resolvedActiveId;
-      const prefix = isActive ? '⭐' : '•';
-      const title = tpl.title ?? t('screens.templates.default_title');
-      lines.push(`${prefix} ${title} (${tpl.itemCount ?? 0} items)`);
+  if (reportDay.locked) {
+    await renderScreen(ctx, {
+      titleKey: t('screens.daily_report.title'),
+      bodyLines: isLockedMessageLines(reportDay),
+      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
     });
+    return;
   }
 
-  const kb = new InlineKeyboard();
-
-  for (const tpl of templates) {
-    const setActiveBtn = await makeActionButton(ctx, { label: t('buttons.tpl_set_active'), action: 'dr.template_set_active', data: { templateId: tpl.id } });
-    const editBtn = await makeActionButton(ctx, { label: t('buttons.tpl_edit_form'), action: 'dr.template_edit', data: { templateId: tpl.id } });
-    const moreBtn = await makeActionButton(ctx, { label: t('buttons.tpl_more'), action: 'dr.template_actions', data: { templateId: tpl.id } });
-    kb.text(setActiveBtn.text, setActiveBtn.callback_data).text(editBtn.text, editBtn.callback_data).text(moreBtn.text, moreBtn.callback_data).row();
+  if (item.item_type === 'computed') {
+    const statuses = await listCompletionStatus(reportDay.id, [item]);
+    const current = statuses[0]?.value?.value_json as Record<string, unknown> | null | undefined;
+    const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
+    await renderScreen(ctx, {
+      titleKey: t('screens.daily_report.title'),
+      bodyLines: [
+        item.label,
+        t('screens.daily_report.computed_formula', { formula: getItemFormula(item) ?? '-' }),
+        t('screens.daily_report.computed_value', { value: formatDisplayValue(item, current ?? null) }),
+        t('screens.daily_report.computed_readonly')
+      ],
+      inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data)
+    });
+    return;
   }
 
-  const newBtn = await makeActionButton(ctx, { label: t('buttons.dr_template_new'), action: 'dr.template_new' });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
-
-  kb.text(newBtn.text, newBtn.callback_data).row();
-  kb.text(backBtn.text, backBtn.callback_data);
-
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.templates_title'), bodyLines: lines, inlineKeyboard: kb });
-};
-
-const renderTemplateActions = async (ctx: Context, templateId: string): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const tpl = await getTemplateById(templateId);
-  if (!tpl || tpl.user_id !== user.id) {
-    await renderTemplatesScreen(ctx);
+  if (item.item_type === 'time_hhmm') {
+    const initialDraft: TimeDraftState = {
+      reportDayId: reportDay.id,
+      itemId: item.id,
+      hour12: 10,
+      minuteTens: 0,
+      minuteOnes: 0,
+      ampm: 'PM',
+      mode: 'single',
+      phase: 'end'
+    };
+    userStates.set(telegramId, { ...existing, awaitingValue, timeDraft: initialDraft });
+    await renderTimePicker(ctx, reportDay.id, item, initialDraft);
     return;
   }
 
-  const items = await listAllItems(templateId);
-  const lines: string[] = [
-    t('screens.daily_report.template_action_title'),
-    tpl.title ?? t('screens.templates.default_title'),
-    t('screens.daily_report.template_details_items_line', { count: items.length })
-  ];
-
-  const kb = new InlineKeyboard();
-  const renameBtn = await makeActionButton(ctx, { label: t('buttons.templates_rename'), action: 'dr.template_rename_prompt', data: { templateId } });
-  const dupBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_duplicate'), action: 'dr.template_duplicate', data: { templateId } });
-  const delBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_delete'), action: 'dr.template_delete_confirm', data: { templateId } });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_back'), action: 'dr.templates' });
-
-  kb.text(renameBtn.text, renameBtn.callback_data).row();
-  kb.text(dupBtn.text, dupBtn.callback_data).row();
-  kb.text(delBtn.text, delBtn.callback_data).row();
-  kb.text(backBtn.text, backBtn.callback_data);
-
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.templates_title'), bodyLines: lines, inlineKeyboard: kb });
-};
-
-const renderTemplateEdit = async (ctx: Context, templateId: string, flashLine?: string): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const tpl = await getTemplateById(templateId);
-  if (!tpl || tpl.user_id !== user.id) {
-    await renderTemplatesScreen(ctx);
+  if (isRoutineParentItem(item)) {
+    const cached = [...reportContextCache.values()].find((v) => v.reportDay.id === reportDay.id);
+    const context = cached ?? (await ensureSpecificReportContext(ctx, reportDay.local_date));
+    userStates.set(telegramId, { ...existing, awaitingValue });
+    await renderRoutineDailyEntry(ctx, context.reportDay, item, context.items, opts?.origin, opts?.statusFilter);
     return;
   }
-  const telegramId = String(ctx.from?.id ?? '');
-  clearTemplateItemFlow(telegramId);
-  clearBuilderState(telegramId);
-
-  const items = await listAllItems(templateId);
-  const visibleItems = items.filter((item) => !isRoutineItem(item));
 
-  const lines: string[] = [
-    t('screens.daily_report.template_builder_title'),
-    t('screens.daily_report.template_items_header', { title: tpl.title ?? t('screens.templates.default_title') }),
-    t('screens.daily_report.template_items_count', { count: visibleItems.length })
-  ];
-  if (flashLine) lines.push(flashLine);
-  if (visibleItems.length === 0) {
-    lines.push(t('screens.daily_report.template_items_empty'));
-  } else {
-    visibleItems.forEach((item, idx) => {
-      const statusIcon = item.enabled ? '✅' : '🚫';
-      const xpSummary = buildXpSummary(itemToDraft(item));
-      lines.push(`[${idx + 1}] ${statusIcon} ${item.label} (${displayItemTypeLabel(item.item_type)}, ${xpSummary})`);
+  const optionsJson = (item.options_json ?? {}) as { useStartEnd?: boolean };
+  if (item.item_type === 'duration_minutes' && optionsJson.useStartEnd) {
+    const initialDraft: TimeDraftState = {
+      reportDayId: reportDay.id,
+      itemId: item.id,
+      hour12: 10,
+      minuteTens: 0,
+      minuteOnes: 0,
+      ampm: 'AM',
+      mode: 'start_end',
+      phase: 'start'
+    };
+    userStates.set(telegramId, { ...existing, awaitingValue, timeDraft: initialDraft });
+    await renderTimePicker(ctx, reportDay.id, item, initialDraft, {
+      title: t('screens.daily_report.duration_start_title'),
+      currentLabel: t('screens.daily_report.duration_start_current', { value: timeDraftToDisplay(initialDraft).label }),
+      hint: t('screens.daily_report.duration_start_hint', { label: item.label })
     });
+    return;
   }
 
-  const kb = new InlineKeyboard();
-
-  for (const [idx, item] of visibleItems.entries()) {
-    const btn = await makeActionButton(ctx, {
-      label: t('buttons.template_item_open', { index: idx + 1, label: item.label }),
-      action: 'dr.template_item_menu',
-      data: { templateId, itemId: item.id }
-    });
-    kb.text(btn.text, btn.callback_data).row();
+  if (item.item_type === 'number' || item.item_type === 'duration_minutes') {
+    const draftValue = 0;
+    const numericDraft: NumericDraftState = {
+      reportDayId: reportDay.id,
+      itemId: item.id,
+      value: draftValue,
+      unit: item.item_type === 'duration_minutes' ? 'minutes' : undefined
+    };
+    userStates.set(telegramId, { ...existing, awaitingValue, numericDraft });
+    await renderNumericInput(ctx, reportDay.id, item, numericDraft);
+    return;
   }
 
-  const addBtn = await makeActionButton(ctx, { label: t('buttons.tpl_add_item'), action: 'dr.template_item_add', data: { templateId } });
-  const renameBtn = await makeActionButton(ctx, { label: t('buttons.templates_rename'), action: 'dr.template_rename_prompt', data: { templateId } });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.templates' });
-  kb.text(addBtn.text, addBtn.callback_data).row();
-  kb.text(renameBtn.text, renameBtn.callback_data).row();
-  kb.text(backBtn.text, backBtn.callback_data);
+  if (item.item_type === 'boolean') {
+    userStates.set(telegramId, { ...existing, awaitingValue });
+    await renderBooleanInput(ctx, reportDay.id, item);
+    return;
+  }
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.template_builder_title'), bodyLines: lines, inlineKeyboard: kb });
-};
+  if (item.item_type === 'rating') {
+    userStates.set(telegramId, { ...existing, awaitingValue });
+    await renderRatingInput(ctx, reportDay.id, item);
+    return;
+  }
 
-const renderTemplateItemMenu = async (ctx: Context, templateId: string, itemId: string, flashLine?: string): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const tpl = await getTemplateById(templateId);
-  const item = await getItemById(itemId);
-  if (!tpl || tpl.user_id !== user.id || !item || item.template_id !== tpl.id) {
-    await renderTemplatesScreen(ctx);
+  if (item.item_type === 'choice') {
+    userStates.set(telegramId, { ...existing, awaitingValue });
+    await renderChoiceInput(ctx, reportDay.id, item);
     return;
   }
-  if (isRoutineItem(item)) {
-    await renderTemplateEdit(ctx, templateId);
+
+  if (item.item_type === 'multi_choice' || item.item_type === 'checklist') {
+    // Start from what was saved before, so reopening a checklist keeps the ticks.
+    const statuses = await listCompletionStatus(reportDay.id, [item]);
+    const saved = statuses[0]?.filled ? extractSelectedKeys((statuses[0].value?.value_json as Record<string, unknown> | null) ?? null) : [];
+    const choiceDraft: ChoiceDraftState = { reportDayId: reportDay.id, itemId: item.id, selected: saved };
+    userStates.set(telegramId, { ...existing, awaitingValue, choiceDraft });
+    await renderMultiChoiceInput(ctx, reportDay.id, item, choiceDraft);
     return;
   }
 
-  const xpSummary = buildXpSummary(itemToDraft(item));
-  const lines: string[] = [
-    t('screens.daily_report.item_menu_title'),
-    t('screens.daily_report.item_menu_summary', {
-      label: item.label,
-      type: displayItemTypeLabel(item.item_type),
-      category: item.category ?? '-',
-      xp: xpSummary,
-      enabled: item.enabled ? t('common.active') : t('common.inactive')
-    })
-  ];
-  if (flashLine) lines.push(flashLine);
+  userStates.set(telegramId, { ...existing, awaitingValue });
 
-  const kb = new InlineKeyboard();
-  const editLabelBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_label'), action: 'dr.template_item_edit_label', data: { templateId, itemId } });
-  const editKeyBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_key'), action: 'dr.template_item_edit_key', data: { templateId, itemId } });
-  const editTypeBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_type'), action: 'dr.template_item_edit_type', data: { templateId, itemId } });
-  const editCategoryBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_category'), action: 'dr.template_item_edit_category', data: { templateId, itemId } });
-  const editXpBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_xp'), action: 'dr.template_item_edit_xp', data: { templateId, itemId } });
-  const toggleBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_toggle_enabled'), action: 'dr.template_item_toggle_enabled', data: { templateId, itemId } });
-  const moveUpBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_move_up'), action: 'dr.template_item_move_up', data: { templateId, itemId } });
-  const moveDownBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_move_down'), action: 'dr.template_item_move_down', data: { templateId, itemId } });
-  const delBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_delete'), action: 'dr.template_item_delete_confirm', data: { templateId, itemId } });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.template_edit', data: { templateId } });
+  const skipBtn = await makeActionButton(ctx, { label: t('buttons.skip'), action: 'dr.skip', data: { reportDayId: reportDay.id, itemId: item.id } });
+  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
 
-  kb.text(editLabelBtn.text, editLabelBtn.callback_data).text(editKeyBtn.text, editKeyBtn.callback_data).row();
-  kb.text(editTypeBtn.text, editTypeBtn.callback_data).text(editCategoryBtn.text, editCategoryBtn.callback_data).row();
-  kb.text(editXpBtn.text, editXpBtn.callback_data).row();
-  kb.text(toggleBtn.text, toggleBtn.callback_data).row();
-  kb.text(moveUpBtn.text, moveUpBtn.callback_data).text(moveDownBtn.text, moveDownBtn.callback_data).row();
-  kb.text(delBtn.text, delBtn.callback_data).row();
-  kb.text(backBtn.text, backBtn.callback_data);
+  const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines: lines, inlineKeyboard: kb });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: [t('screens.daily_report.set_value_for', { label: item.label }), t('screens.daily_report.send_value_as_text')], inlineKeyboard: kb });
 };
 
-const renderTemplateItemDeleteConfirm = async (ctx: Context, templateId: string, itemId: string): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const tpl = await getTemplateById(templateId);
-  const item = await getItemById(itemId);
-  if (!tpl || tpl.user_id !== user.id || !item || item.template_id !== tpl.id) {
-    await renderTemplatesScreen(ctx);
+const continueFlowAfterAction = async (
+  ctx: Context,
+  reportDay: ReportDayRow,
+  origin?: 'next' | 'status',
+  statusFilter?: 'all' | 'not_filled' | 'filled'
+): Promise<void> => {
+  if (origin === 'next') {
+    const context = await ensureContextByReportDayId(ctx, reportDay.id);
+    const statuses = await listCompletionStatus(reportDay.id, filterRoutineDisplayItems(context.items));
+    const next = statuses.find((s) => !s.filled && !s.skipped && s.item.item_type !== 'computed');
+    if (next) {
+      await promptForItem(ctx, context.reportDay, next.item, { origin: 'next' });
+      return;
+    }
+    await renderDailyReportRoot(ctx, reportDay.local_date);
     return;
   }
-
-  const lines: string[] = [t('screens.daily_report.item_delete_confirm')];
-  const yesBtn = await makeActionButton(ctx, { label: t('buttons.tpl_yes'), action: 'dr.template_item_delete', data: { templateId, itemId } });
-  const noBtn = await makeActionButton(ctx, { label: t('buttons.tpl_no'), action: 'dr.template_item_menu', data: { templateId, itemId } });
-  const kb = new InlineKeyboard().text(yesBtn.text, yesBtn.callback_data).row().text(noBtn.text, noBtn.callback_data);
-
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines: lines, inlineKeyboard: kb });
-};
-
-const renderTemplateDeleteConfirm = async (ctx: Context, templateId: string): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const tpl = await getTemplateById(templateId);
-  if (!tpl || tpl.user_id !== user.id) {
-    await renderTemplatesScreen(ctx);
+  if (origin === 'status') {
+    const telegramId = String(ctx.from?.id ?? '');
+    const filter = statusFilter ?? userStates.get(telegramId)?.statusFilter?.filter ?? 'all';
+    await renderDailyStatusWithFilter(ctx, reportDay.id, filter);
     return;
   }
-
-  const lines: string[] = [t('screens.daily_report.template_delete_confirm', { title: tpl.title ?? t('screens.templates.default_title') })];
-
-  const confirmBtn = await makeActionButton(ctx, { label: t('buttons.dr_template_delete'), action: 'dr.template_delete', data: { templateId } });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_back'), action: 'dr.template_actions', data: { templateId } });
-
-  const kb = new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
-
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.templates_title'), bodyLines: lines, inlineKeyboard: kb });
+  await renderDailyReportRoot(ctx, reportDay.local_date);
 };
 
-const finalizeNewTemplateItem = async (ctx: Context, telegramId: string, flow: TemplateItemFlow): Promise<void> => {
-  try {
-    const items = await listAllItems(flow.templateId);
-    const maxSort = items.reduce((max, item) => Math.max(max, item.sort_order ?? 0), 0);
-    const sortOrder = (maxSort || items.length * 10) + 10;
-    const label = flow.draft.label ?? t('screens.daily_report.template_new_title');
-    const itemKey = flow.draft.itemKey ?? (await generateUniqueItemKey(flow.templateId, label));
-    const itemType = flow.draft.itemType ?? 'text';
-    const category = flow.draft.category && flow.draft.category !== 'none' ? flow.draft.category : null;
-    const xpStorage = deriveXpStorage({ ...flow.draft, itemType });
+const renderDailyReportRoot = async (ctx: Context, localDate?: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  // Leaving for the report root ends a pending quick entry, so later messages are not read as values.
+  const telegramId = String(ctx.from?.id ?? '');
+  const existingState = userStates.get(telegramId);
+  if (existingState?.quickEntry) userStates.set(telegramId, { ...existingState, quickEntry: undefined });
+  const local = formatLocalTime(user.timezone ?? config.defaultTimezone);
 
-    await upsertItem({
-      templateId: flow.templateId,
-      label,
-      itemKey,
-      itemType,
-      category,
-      xpMode: xpStorage.xpMode,
-      xpValue: xpStorage.xpValue,
-      xpMaxPerDay: xpStorage.xpMax,
-      optionsJson: xpStorage.optionsJson,
-      sortOrder
-    });
-    clearTemplateItemFlow(telegramId);
-    clearBuilderState(telegramId);
-    clearReportContextCache();
-    await renderTemplateEdit(ctx, flow.templateId, t('screens.daily_report.item_saved'));
-  } catch (error) {
-    console.error({ scope: 'daily_report', event: 'template_item_finalize_failed', error, flow });
-    clearTemplateItemFlow(telegramId);
-    clearBuilderState(telegramId);
-    await renderTemplateEdit(ctx, flow.templateId);
-  }
-};
+  const targetDate = localDate ?? local.date;
+  const { reportDay, items } = await ensureSpecificReportContext(ctx, targetDate);
+  const displayItems = filterRoutineDisplayItems(items);
+  const statuses = await listCompletionStatus(reportDay.id, displayItems);
+  const completed = statuses.filter((s) => s.filled).length;
+  const total = statuses.length;
 
-const renderHistory = async (ctx: Context, range: '7d' | '30d' = '7d'): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const days = await listRecentReportDays({ userId: user.id, range });
+  const template = (await getTemplateById(reportDay.template_id)) ?? (await ensureDefaultTemplate(reportDay.user_id));
+  const templateName = template?.title ?? t('screens.templates.default_title');
 
-  const lines: string[] = [
-    t('screens.daily_report.history_title'),
-    t('screens.daily_report.history_range', { range: range === '7d' ? t('buttons.dr_history_7d') : t('buttons.dr_history_30d') }),
+  const bodyLines: string[] = [
+    t('screens.daily_report.root_header', { date: reportDay.local_date }),
+    t('screens.daily_report.template_line', { template: templateName }),
+    t('screens.daily_report.completion_line', { completed, total }),
     ''
   ];
 
-  if (!days.length) {
-    lines.push(t('screens.daily_report.history_no_results'));
-  } else {
-    lines.push(t('screens.daily_report.history_open_hint'), '');
-    for (const entry of days) {
-      const lockedSuffix = entry.day.locked ? t('screens.daily_report.history_locked_suffix') : '';
-      lines.push(
-        t('screens.daily_report.history_list_line', {
-          date: entry.day.local_date,
-          completed: entry.completed,
-          total: entry.total,
-          skipped: entry.skipped
-        }) + lockedSuffix
-      );
-    }
+  if (reportDay.locked) {
+    bodyLines.push(t('screens.daily_report.today_locked_note'), '');
   }
 
-  const kb = new InlineKeyboard();
-  const range7Btn = await makeActionButton(ctx, { label: t('buttons.dr_history_7d'), action: 'dr.history_7d' });
-  const range30Btn = await makeActionButton(ctx, { label: t('buttons.dr_history_30d'), action: 'dr.history_30d' });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
+  // After 00:00 Tehran time, show "Fill Yesterday" button only if yesterday has unfilled/unskipped items.
+  // We treat server time via user timezone formatting; parse HH from "HH:MM".
+  const hourNow = Number((local.time || '00:00').split(':')[0] ?? 0);
+  const showYesterdayCheck = hourNow >= 0; // always true, but kept for clarity
 
-  kb.text(range7Btn.text, range7Btn.callback_data).text(range30Btn.text, range30Btn.callback_data).row();
-  for (const entry of days) {
-    const openBtn = await makeActionButton(ctx, {
-      label: t('buttons.dr_history_open_day', { date: entry.day.local_date }),
-      action: 'dr.history_open_day',
-      data: { reportDayId: entry.day.id }
-    });
-    kb.text(openBtn.text, openBtn.callback_data).row();
-  }
-  kb.text(backBtn.text, backBtn.callback_data);
+  const kb = await buildDailyReportKeyboard(ctx, reportDay, { items: displayItems, statuses });
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.history_title'), bodyLines: lines, inlineKeyboard: kb });
-};
+  if (showYesterdayCheck) {
+    // Compute yesterday date (YYYY-MM-DD). We do simple date arithmetic in UTC and accept that formatLocalTime is the main source.
+    const [y, m, d] = targetDate.split('-').map((x) => Number(x));
+    if (Number.isInteger(y) && Number.isInteger(m) && Number.isInteger(d)) {
+      const dt = new Date(Date.UTC(y, m - 1, d));
+      dt.setUTCDate(dt.getUTCDate() - 1);
+      const y2 = dt.getUTCFullYear();
+      const m2 = String(dt.getUTCMonth() + 1).padStart(2, '0');
+      const d2 = String(dt.getUTCDate()).padStart(2, '0');
+      const yesterday = `${y2}-${m2}-${d2}`;
 
-const renderHistoryDay = async (ctx: Context, reportDayId: string): Promise<void> => {
-  const reportDay = await getReportDayById(reportDayId);
-  if (!reportDay) {
-    await renderHistory(ctx);
-    return;
+      try {
+        const yd = await getReportDayByDate({ userId: user.id, templateId: template.id, localDate: yesterday });
+        if (yd) {
+          const ydItems = filterScheduledItems(filterRoutineDisplayItems(await ensureDefaultItems(user.id)), yesterday, user.timezone ?? config.defaultTimezone);
+          const ydStatuses = await listCompletionStatus(yd.id, ydItems);
+          const hasPending = ydStatuses.some((s) => !s.filled && !s.skipped);
+          if (hasPending) {
+            const yBtn = await makeActionButton(ctx, { label: t('buttons.dr_fill_yesterday'), action: 'dr.open_date', data: { localDate: yesterday } });
+            kb.row().text(yBtn.text, yBtn.callback_data);
+          }
+        }
+      } catch (e) {
+        console.warn({ scope: 'daily_report', event: 'yesterday_check_failed', e });
+      }
+    }
   }
-  const items = await listAllItems(reportDay.template_id);
-  const enabledItems = items.filter((i) => i.enabled);
-  const displayItems = enabledItems.filter((item) => !isRoutineTaskItem(item));
-  const statuses = await listCompletionStatus(reportDay.id, displayItems);
-  const template = await getTemplateById(reportDay.template_id);
-
-  const lines: string[] = [
-    t('screens.daily_report.history_detail_title', { date: reportDay.local_date, template: template?.title ?? t('screens.templates.default_title') }),
-    t('screens.daily_report.history_detail_hint'),
-    ''
-  ];
-
-  statuses.forEach((s, idx) => {
-    const icon = s.filled ? '✅' : s.skipped ? '⏭' : '⬜️';
-    const valueText = s.filled ? formatDisplayValue(s.item, s.value?.value_json ?? null) : t('screens.daily_report.value_skipped');
-    lines.push(`${icon} ${idx + 1}) ${formatItemLabel(s.item)} — ${valueText}`);
-  });
-
-  const kb = new InlineKeyboard();
-  const backToHistoryBtn = await makeActionButton(ctx, { label: t('buttons.dr_history_back'), action: 'dr.history' });
-  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
-  kb.text(backToHistoryBtn.text, backToHistoryBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
-
-  // cache warmed
-  reportContextCache.set(`${reportDay.user_id}:${reportDay.local_date}`, { reportDay, items: enabledItems });
 
-  await renderScreen(ctx, { titleKey: t('screens.daily_report.history_title'), bodyLines: lines, inlineKeyboard: kb });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines, inlineKeyboard: kb });
 };
 
-const handleSaveValue = async (ctx: Context, text: string): Promise<void> => {
-  if (!ctx.from) return;
-  const stateKey = String(ctx.from.id);
-  const state = userStates.get(stateKey);
-  if (!state?.awaitingValue) return;
+const renderDailyStatusWithFilter = async (ctx: Context, reportDayId: string, filter: 'all' | 'not_filled' | 'filled' = 'all'): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
 
-  const { reportDayId, itemId, origin, statusFilter } = state.awaitingValue;
   const cached = [...reportContextCache.values()].find((v) => v.reportDay.id === reportDayId);
+  const reportDay = cached?.reportDay ?? (await getReportDayById(reportDayId)) ?? (await getOrCreateReportDay({ userId: user.id, templateId: (await ensureDefaultTemplate(user.id)).id, localDate: formatLocalTime(user.timezone ?? config.defaultTimezone).date }));
 
-  let context = cached ?? null;
-  if (!context) {
-    const existingDay = await getReportDayById(reportDayId);
-    const localDate = existingDay?.local_date ?? formatLocalTime(config.defaultTimezone).date;
-    context = await ensureSpecificReportContext(ctx, localDate);
-  }
-  const reportDay = context.reportDay;
-  const items = context.items;
-
-  if (reportDay.id !== reportDayId) {
-    userStates.delete(stateKey);
-    await renderScreen(ctx, {
-      titleKey: t('screens.daily_report.title'),
-      bodyLines: [t('screens.daily_report.session_expired')],
-      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
-    });
-    return;
+  const telegramId = String(ctx.from?.id ?? '');
+  if (telegramId) {
+    const st = { ...(userStates.get(telegramId) || {}) };
+    st.statusFilter = { reportDayId: reportDay.id, filter };
+    userStates.set(telegramId, st);
   }
 
-  if (reportDay.locked) {
-    userStates.delete(stateKey);
-    await renderScreen(ctx, {
-      titleKey: t('screens.daily_report.title'),
-      bodyLines: isLockedMessageLines(reportDay),
-      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
-    });
-    return;
-  }
+  const context = cached ?? (await ensureSpecificReportContext(ctx, reportDay.local_date));
+  const items = filterRoutineDisplayItems(context.items);
+  const statuses = await listCompletionStatus(reportDay.id, items);
+  const decorated = statuses.map((s) => ({ ...s, routineState: isRoutineParentItem(s.item) ? routineValueState(s.value?.value_json ?? null) : null }));
 
-  const item = items.find((i) => i.id === itemId);
-  if (!item) {
-    userStates.delete(stateKey);
-    await renderScreen(ctx, {
-      titleKey: t('screens.daily_report.title'),
-      bodyLines: [t('screens.daily_report.item_not_found')],
-      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
-    });
-    return;
-  }
+  let filtered = decorated;
+  if (filter === 'not_filled')
+    filtered = decorated.filter((s) =>
+      isRoutineParentItem(s.item) ? s.routineState !== 'done' : !s.filled && !s.skipped
+    );
+  if (filter === 'filled')
+    filtered = decorated.filter((s) =>
+      isRoutineParentItem(s.item) ? s.routineState === 'done' : s.filled
+    );
 
-  let valueJson: Record<string, unknown> | null = null;
+  const lines: string[] = [t('screens.daily_report.root_header', { date: reportDay.local_date }), t('screens.daily_report.status_header')];
 
-  switch (item.item_type) {
-    case 'time_hhmm': {
-      const parsed = parseTimeHhmm(text);
-      if (!parsed) {
-        await renderScreen(ctx, {
-          titleKey: t('screens.daily_report.title'),
-          bodyLines: [t('screens.daily_report.invalid_time')],
-          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
-        });
-        return;
-      }
-      valueJson = { value: parsed.hhmm, minutes: parsed.minutes };
-      break;
-    }
-    case 'duration_minutes': {
-      const n = parseNonNegativeNumber(text);
-      if (n === null) {
-        await renderScreen(ctx, {
-          titleKey: t('screens.daily_report.title'),
-          bodyLines: [t('screens.daily_report.invalid_duration')],
-          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
-        });
-        return;
-      }
-      const unit = state.numericDraft?.unit ?? 'minutes';
-      const { minutes, seconds } = convertToMinutes(n, unit);
-      valueJson = { value: minutes, minutes, ...(unit === 'seconds' ? { seconds: Math.max(0, Math.round(n)) } : {}) };
-      break;
-    }
-    case 'number': {
-      const n = parseNonNegativeNumber(text);
-      if (n === null) {
-        await renderScreen(ctx, {
-          titleKey: t('screens.daily_report.title'),
-          bodyLines: [t('screens.daily_report.invalid_number')],
-          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
-        });
-        return;
-      }
-      const isPerMinute = ['per_minute', 'time'].includes(item.xp_mode ?? '');
-      const isPerNumber = (item.xp_mode ?? '') === 'per_number';
-      valueJson = { value: n, number: n, ...(isPerMinute ? { minutes: n } : {}), ...(isPerNumber ? { units: n } : {}) };
-      break;
-    }
-    case 'boolean': {
-      valueJson = { value: valueIsTrue(text) };
-      break;
-    }
-    default:
-      valueJson = { value: text };
+  if (filtered.length === 0) {
+    lines.push(filter === 'filled' ? t('screens.daily_report.none_filled') : t('screens.daily_report.none_pending'));
+  } else {
+    filtered.forEach((s, idx) => {
+      const icon = isRoutineParentItem(s.item)
+        ? s.routineState === 'done'
+          ? '✅'
+          : s.routineState === 'partial'
+            ? '🌓'
+            : s.routineState === 'skipped'
+              ? '⏭'
+              : '⬜️'
+        : s.filled
+          ? '✅'
+          : s.skipped
+            ? '⏭'
+            : '⬜️';
+      const statusLabel = isRoutineParentItem(s.item)
+        ? s.routineState === 'done'
+          ? t('screens.daily_report.routine_status_done')
+          : s.routineState === 'partial'
+            ? t('screens.daily_report.routine_status_partial')
+            : s.routineState === 'skipped'
+              ? t('screens.daily_report.routine_status_skipped')
+              : t('screens.daily_report.routine_status_pending')
+        : formatItemLabel(s.item);
+      lines.push(`${icon} ${idx + 1}) ${isRoutineParentItem(s.item) ? `${formatItemLabel(s.item)} — ${statusLabel}` : statusLabel}`);
+      const progress = getItemTargetProgress(s.item, s.value?.value_json ?? null);
+      if (progress) lines.push(`    ${formatTargetProgress(s.item, progress)}`);
+    });
   }
 
-  try {
-    await saveValue({ reportDayId, item, valueJson, userId: reportDay.user_id });
-  } catch (error) {
-    console.error({ scope: 'daily_report', event: 'save_value_failed', error, reportDayId, itemId: item.id, valueJson });
-    await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: [t('screens.daily_report.save_failed')], inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay) });
-    return;
+  const kb = new InlineKeyboard();
+
+  const allBtn = await makeActionButton(ctx, { label: t('screens.daily_report.filter_all'), action: 'dr.status', data: { reportDayId: reportDay.id, filter: 'all' } });
+  const notFilledBtn = await makeActionButton(ctx, { label: t('screens.daily_report.filter_not_filled'), action: 'dr.status', data: { reportDayId: reportDay.id, filter: 'not_filled' } });
+  const filledBtn = await makeActionButton(ctx, { label: t('screens.daily_report.filter_filled'), action: 'dr.status', data: { reportDayId: reportDay.id, filter: 'filled' } });
+
+  kb.text(allBtn.text, allBtn.callback_data).text(notFilledBtn.text, notFilledBtn.callback_data).text(filledBtn.text, filledBtn.callback_data).row();
+
+  // Only allow edit actions if NOT locked.
+  for (const status of filtered) {
+    const icon = isRoutineParentItem(status.item)
+      ? status.routineState === 'done'
+        ? '✅'
+        : status.routineState === 'partial'
+          ? '🌓'
+          : status.routineState === 'skipped'
+            ? '⏭'
+            : '⬜️'
+      : status.filled
+        ? '✅'
+        : status.skipped
+          ? '⏭'
+          : '⬜️';
+    const label = `${icon} ${formatItemLabel(status.item)}`;
+    const action = reportDay.locked ? 'noop' : 'dr.item';
+    const btn = await makeActionButton(ctx, { label, action, data: { reportDayId: reportDay.id, itemId: status.item.id, filter } });
+    kb.text(btn.text, btn.callback_data).row();
   }
 
-  const userSettings = (await ensureUserAndSettings(ctx)).user.settings_json as Record<string, unknown>;
-  await logForUser({ userId: reportDay.user_id, ctx, eventName: 'db_write', payload: { action: 'save_value', item_id: item.id }, enabled: telemetryEnabledForUser(userSettings) });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
+  kb.text(backBtn.text, backBtn.callback_data);
 
-  // Clear state for that field
-  const nextState = { ...(userStates.get(stateKey) ?? {}) };
-  delete nextState.awaitingValue;
-  delete nextState.numericDraft;
-  delete nextState.timeDraft;
-  userStates.set(stateKey, nextState);
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: kb });
+};
 
-  await continueFlowAfterAction(ctx, reportDay, origin, statusFilter);
+const slugifyItemKey = (input: string): string =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_\s]/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+const generateUniqueItemKey = async (templateId: string, label: string): Promise<string> => {
+  const base = slugifyItemKey(label) || 'item';
+  const existing = await listAllItems(templateId);
+  const existingKeys = new Set(existing.map((i) => i.item_key));
+  let candidate = base;
+  let counter = 2;
+  while (existingKeys.has(candidate)) {
+    candidate = `${base}_${counter}`;
+    counter += 1;
+  }
+  return candidate;
 };
 
-const renderSettingsRoot = async (ctx: Context): Promise<void> => {
-  const { user } = await ensureUserAndSettings(ctx);
-  const emojiEnabled = await getUserBooleanSetting(user.id, EMOJI_SETTING_KEY, config.ui.emojiEnabled);
-  const changeLanguageBtn = await makeActionButton(ctx, { label: t('buttons.change_language'), action: 'settings.language' });
-  const speedBtn = await makeActionButton(ctx, { label: t('buttons.settings_speed_test'), action: 'settings.speed_test' });
-  await renderSettingsScreen(ctx, {
-    emojiEnabled,
-    extraButtons: [changeLanguageBtn, speedBtn]
+const buildTypeKeyboard = async (ctx: Context, params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown> }) => {
+  const kb = new InlineKeyboard();
+  const types: { key: string; label: string }[] = [
+    { key: 'boolean', label: t('screens.form_builder.type_boolean_label') },
+    { key: 'number', label: t('screens.form_builder.type_number_label') },
+    { key: 'time_hhmm', label: t('screens.form_builder.type_time_label') },
+    { key: 'duration_minutes', label: t('screens.form_builder.type_duration_label') },
+    { key: 'text', label: t('screens.form_builder.type_text_label') },
+    { key: 'choice', label: t('screens.form_builder.type_choice_label') },
+    { key: 'multi_choice', label: t('screens.form_builder.type_multi_choice_label') },
+    { key: 'rating', label: t('screens.form_builder.type_rating_label') },
+    { key: 'checklist', label: t('screens.form_builder.type_checklist_label') },
+    { key: 'computed', label: t('screens.form_builder.type_computed_label') }
+  ];
+  for (const type of types) {
+    const btn = await makeActionButton(ctx, { label: type.label, action: 'dr.template_item_select_type', data: { templateId: params.templateId, itemId: params.itemId, itemType: type.key } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backAction = params.backAction ?? 'dr.template_edit';
+  const backBtn = await makeBuilderBackButton(ctx, {
+    templateId: params.templateId,
+    fallbackAction: backAction,
+    fallbackData: params.backData ?? { templateId: params.templateId }
   });
+  kb.text(backBtn.text, backBtn.callback_data);
+  return kb;
 };
 
-/* ===== Commands ===== */
-
-bot.command('start', async (ctx: Context) => {
-  const { settings, locale } = await ensureUserAndSettings(ctx);
-  const storedLanguage = readStoredLanguageCode(settings.settings_json as Record<string, unknown>);
-  if (!storedLanguage) {
-    await renderLanguageSelection(ctx, { origin: 'onboarding', currentLocale: locale });
-    return;
+const buildCategoryKeyboard = async (ctx: Context, params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown> }) => {
+  const kb = new InlineKeyboard();
+  for (const category of STANDARD_CATEGORIES) {
+    const btn = await makeActionButton(ctx, {
+      label: `${category.emoji} ${t(category.labelKey)}`,
+      action: 'dr.template_item_select_category',
+      data: { templateId: params.templateId, itemId: params.itemId, category: category.name }
+    });
+    kb.text(btn.text, btn.callback_data).row();
   }
-  await renderDashboard(ctx);
-});
 
-bot.command('home', async (ctx: Context) => {
-  await renderDashboard(ctx);
-});
+  const customBtn = await makeActionButton(ctx, {
+    label: t('buttons.category_custom'),
+    action: 'dr.template_item_custom_category',
+    data: { templateId: params.templateId, itemId: params.itemId }
+  });
+  kb.text(customBtn.text, customBtn.callback_data).row();
 
-bot.command('debug_inline', async (ctx: Context) => {
-  const keyboard = new InlineKeyboard().text(t('buttons.debug_inline'), 'dbg:test');
-  await ctx.reply(t('screens.debug_inline.title'), { reply_markup: keyboard });
-});
+  const backAction = params.backAction ?? 'dr.template_edit';
+  const backBtn = await makeBuilderBackButton(ctx, {
+    templateId: params.templateId,
+    fallbackAction: backAction,
+    fallbackData: params.backData ?? { templateId: params.templateId }
+  });
+  kb.text(backBtn.text, backBtn.callback_data);
+  return kb;
+};
 
-bot.callbackQuery('dbg:test', async (ctx) => {
-  await safeAnswerCallback(ctx, { text: t('screens.debug_inline.success') });
-});
+const buildXpModeKeyboard = async (
+  ctx: Context,
+  params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown>; itemType?: string }
+) => {
+  const allowed = allowedXpModesForItemType(params.itemType);
+  const modes = [
+    { key: 'fixed', label: t('screens.templates.xp_mode_fixed') },
+    { key: 'per_minute', label: t('screens.templates.xp_mode_time') },
+    { key: 'per_number', label: t(params.itemType === 'rating' ? 'screens.templates.xp_mode_rating' : 'screens.templates.xp_mode_number') },
+    { key: 'per_option', label: t('screens.templates.xp_mode_option') },
+    { key: 'none', label: t('screens.daily_report.ask_xp_mode_none') ?? 'No XP' }
+  ].filter((m) => allowed.includes(m.key as 'none' | 'fixed' | 'per_minute' | 'per_number' | 'per_option'));
+  const kb = new InlineKeyboard();
+  for (const mode of modes) {
+    const btn = await makeActionButton(ctx, {
+      label: mode.label,
+      action: 'dr.template_item_select_xp_mode',
+      data: { templateId: params.templateId, itemId: params.itemId, xpMode: mode.key }
+    });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backAction = params.backAction ?? 'dr.template_edit';
+  const backBtn = await makeBuilderBackButton(ctx, {
+    templateId: params.templateId,
+    fallbackAction: backAction,
+    fallbackData: params.backData ?? { templateId: params.templateId }
+  });
+  kb.text(backBtn.text, backBtn.callback_data);
+  return kb;
+};
 
-const navButtons: Array<{ key: string; handler: (ctx: Context) => Promise<void> | void; label?: (locale: Locale) => string }> = [
-  { key: 'buttons.nav_dashboard', handler: renderDashboard },
-  { key: 'buttons.nav_daily_report', handler: async (ctx: Context) => renderDailyReportRoot(ctx) },
-  { key: 'buttons.notes', handler: renderNotesToday, label: () => labels.nav.notes() },
-  { key: 'buttons.nav_reportcar', handler: renderReportcar },
-  { key: 'buttons.nav_tasks', handler: renderTasks },
-  { key: 'buttons.nav_todo', handler: renderTodo },
-  { key: 'buttons.nav_planning', handler: renderPlanning },
-  { key: 'buttons.nav_my_day', handler: renderMyDay },
-  { key: 'buttons.nav_free_text', handler: renderNotesToday, label: () => labels.nav.freeText() },
-  { key: 'buttons.nav_reminders', handler: renderReminders, label: () => labels.nav.reminders() },
-  { key: 'buttons.nav_rewards', handler: renderRewardCenter },
-  { key: 'buttons.nav_reports', handler: renderReportsMenu },
-  { key: 'buttons.nav_calendar', handler: renderCalendarEvents },
-  { key: 'buttons.nav_settings', handler: renderSettingsRoot },
-  { key: 'buttons.nav_ai', handler: renderAI }
-];
-navButtons.forEach(({ key, handler, label }) => {
-  const resolveLabel = (locale: Locale) => (label ? label(locale) : t(key, undefined, locale));
-  bot.hears([resolveLabel('en'), resolveLabel('fa')], handler);
-});
+const promptLabelInput = async (ctx: Context, params: { templateId: string; backToItemId?: string }) => {
+  const backAction = params.backToItemId ? 'dr.template_item_menu' : 'dr.template_edit';
+  const backData = params.backToItemId ? { templateId: params.templateId, itemId: params.backToItemId } : { templateId: params.templateId };
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.enterLabel');
+  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.daily_report.ask_label'), t('screens.templates.label_hint')],
+    inlineKeyboard: kb
+  });
+};
 
-/**
- * Tokenized callback handler
- */
-bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
-  await safeAnswerCallback(ctx);
+const promptKeyInput = async (ctx: Context, params: { templateId: string; itemId: string }) => {
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.template_item_menu', data: { templateId: params.templateId, itemId: params.itemId } });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.daily_report.ask_key')],
+    inlineKeyboard: kb
+  });
+};
 
-  const traceId = getTraceId(ctx);
+const promptTypeSelection = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.chooseType');
+  const kb = await buildTypeKeyboard(ctx, {
+    templateId: params.templateId,
+    itemId: params.itemId,
+    backAction: params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit',
+    backData: params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId }
+  });
+  const helpBtn = await makeActionButton(ctx, {
+    label: t('buttons.help'),
+    action: 'dr.template_help',
+    data: { templateId: params.templateId, topic: 'type', itemId: params.itemId, backToItem: params.backToItem === true }
+  });
+  kb.row().text(helpBtn.text, helpBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.daily_report.ask_type'), t('screens.templates.type_hint')],
+    inlineKeyboard: kb
+  });
+};
 
-  try {
-    const { user } = await ensureUserAndSettings(ctx);
-    const enabled = telemetryEnabledForUser(user.settings_json as Record<string, unknown>);
+const promptChoiceOptionsInput = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.enterOptions');
+  const backAction = params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit';
+  const backData = params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId };
+  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  const draft = userStates.get(String(ctx.from?.id ?? ''))?.templateItemFlow?.draft;
+  const current = getItemChoices({ options_json: draft?.optionsJson ?? {} });
+  const lines = [
+    t(draft?.itemType === 'checklist' ? 'screens.templates.ask_checklist_options' : 'screens.templates.ask_choice_options'),
+    t('screens.templates.choice_options_hint', { max: MAX_CHOICE_OPTIONS })
+  ];
+  if (current.length) lines.push('', t('screens.templates.choice_options_current', { options: current.map(formatChoiceOption).join(', ') }));
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.template_builder_title'), bodyLines: lines, inlineKeyboard: kb });
+};
 
-    await logTelemetryEvent({ userId: user.id, traceId, eventName: 'callback_token_pressed', payload: { data: ctx.callbackQuery.data }, enabled });
+const promptFormulaInput = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.enterFormula');
+  const backAction = params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit';
+  const backData = params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId };
+  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  const draft = userStates.get(String(ctx.from?.id ?? ''))?.templateItemFlow?.draft;
+  const items = await listAllItems(params.templateId);
+  const usable = items.filter((i) => FORMULA_INPUT_TYPES.includes(i.item_type) && !isRoutineItem(i) && i.id !== params.itemId);
+  const lines = [t('screens.templates.ask_formula'), t('screens.templates.formula_hint'), ''];
+  lines.push(
+    usable.length
+      ? t('screens.templates.formula_keys', { keys: usable.map((i) => `${i.item_key} (${i.label})`).join('\n') })
+      : t('screens.templates.formula_no_keys')
+  );
+  const current = getItemFormula({ options_json: draft?.optionsJson ?? {} });
+  if (current) lines.push('', t('screens.form_builder.summary_formula', { formula: current }));
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.template_builder_title'), bodyLines: lines, inlineKeyboard: kb });
+};
 
-    const token = ctx.callbackQuery.data;
-    const payload = await consumeCallbackToken(token);
+const promptCategorySelection = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.chooseCategory');
+  const kb = await buildCategoryKeyboard(ctx, {
+    templateId: params.templateId,
+    itemId: params.itemId,
+    backAction: params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit',
+    backData: params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId }
+  });
+  const helpBtn = await makeActionButton(ctx, {
+    label: t('buttons.help'),
+    action: 'dr.template_help',
+    data: { templateId: params.templateId, topic: 'category', itemId: params.itemId, backToItem: params.backToItem === true }
+  });
+  kb.row().text(helpBtn.text, helpBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.daily_report.ask_category'), t('screens.templates.category_hint')],
+    inlineKeyboard: kb
+  });
+};
 
-    await logTelemetryEvent({ userId: user.id, traceId, eventName: 'callback_token_consumed', payload: { token, valid: Boolean(payload) }, enabled });
+const promptXpModeSelection = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean; itemType?: string }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.configureXP');
+  const kb = await buildXpModeKeyboard(ctx, {
+    templateId: params.templateId,
+    itemId: params.itemId,
+    backAction: params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit',
+    backData: params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId },
+    itemType: params.itemType
+  });
+  const helpBtn = await makeActionButton(ctx, {
+    label: t('buttons.help'),
+    action: 'dr.template_help',
+    data: { templateId: params.templateId, topic: 'xp_mode', itemId: params.itemId, backToItem: params.backToItem === true }
+  });
+  kb.row().text(helpBtn.text, helpBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.templates.xp_mode_title'), t('screens.templates.xp_mode_hint')],
+    inlineKeyboard: kb
+  });
+};
 
-    const action = typeof payload === 'object' && payload ? (payload as { action?: string }).action : null;
+const promptXpValueInput = async (ctx: Context, params: { templateId: string; itemId?: string; backToItem?: boolean }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.configureXPValue');
+  const backAction = params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit';
+  const backData = params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId };
+  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
+  const helpBtn = await makeActionButton(ctx, {
+    label: t('buttons.help'),
+    action: 'dr.template_help',
+    data: { templateId: params.templateId, topic: 'xp_value', itemId: params.itemId, backToItem: params.backToItem === true }
+  });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data).row().text(helpBtn.text, helpBtn.callback_data);
+  const telegramId = String(ctx.from?.id ?? '');
+  const stateXpMode = userStates.get(telegramId)?.templateItemFlow?.draft.xpMode ?? 'fixed';
+  const hintKey =
+    stateXpMode === 'per_minute'
+      ? 'screens.templates.xp_value_hint_time'
+      : stateXpMode === 'per_number'
+        ? 'screens.templates.xp_value_hint_number'
+        : stateXpMode === 'per_option'
+          ? 'screens.templates.xp_value_hint_option'
+          : 'screens.templates.xp_value_hint_fixed';
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.daily_report.ask_xp_value'), t(hintKey)],
+    inlineKeyboard: kb
+  });
+};
 
-    if (!action) {
-      await ctx.answerCallbackQuery({ text: t('errors.action_expired'), show_alert: true });
-      return;
-    }
+const promptXpMaxInput = async (ctx: Context, params: { templateId: string; itemId?: string }) => {
+  setBuilderStepForFlow(ctx, params.templateId, 'builder.configureXPMax');
+  const backBtn = await makeBuilderBackButton(ctx, {
+    templateId: params.templateId,
+    fallbackAction: 'dr.template_item_menu',
+    fallbackData: { templateId: params.templateId, itemId: params.itemId }
+  });
+  const helpBtn = await makeActionButton(ctx, {
+    label: t('buttons.help'),
+    action: 'dr.template_help',
+    data: { templateId: params.templateId, topic: 'xp_max', itemId: params.itemId, backToItem: true }
+  });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data).row().text(helpBtn.text, helpBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.daily_report.ask_xp_max_per_day'), t('screens.templates.xp_max_hint')],
+    inlineKeyboard: kb
+  });
+};
 
-    switch (action) {
-      case 'noop':
+const promptCustomCategoryInput = async (ctx: Context, params: { templateId: string; itemId?: string; backAction?: string; backData?: Record<string, unknown> }) => {
+  const backAction = params.backAction ?? (params.itemId ? 'dr.template_item_menu' : 'dr.template_edit');
+  const backData = params.backData ?? (params.itemId ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId });
+  const backBtn = await makeBuilderBackButton(ctx, { templateId: params.templateId, fallbackAction: backAction, fallbackData: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.daily_report.template_builder_title'),
+    bodyLines: [t('screens.templates.custom_category_prompt'), t('screens.templates.category_hint')],
+    inlineKeyboard: kb
+  });
+};
+
+const renderStepSummary = async (
+  ctx: Context,
+  params: { templateId: string; stage: 'category' | 'xp'; flow: TemplateItemFlow; backToItem?: boolean }
+): Promise<void> => {
+  const titleKey = params.stage === 'category' ? 'screens.templates.summary_title_category' : 'screens.templates.summary_title_xp';
+  const telegramId = String(ctx.from?.id ?? '');
+  const returnStep =
+    params.stage === 'category'
+      ? 'builder.chooseCategory'
+      : params.flow.draft.xpMode === 'per_minute' || params.flow.draft.xpMode === 'per_number' || params.flow.draft.xpMode === 'per_option'
+        ? 'builder.configureXPMax'
+        : params.flow.draft.xpMode === 'none'
+          ? 'builder.configureXP'
+          : 'builder.configureXPValue';
+  updateBuilderStep(telegramId, params.templateId, 'builder.summary', returnStep);
+  setTemplateItemFlow(telegramId, { ...params.flow, step: 'summary' });
+
+  const confirmBtn = await makeActionButton(ctx, {
+    label: t('buttons.summary_confirm'),
+    action: 'builder.summary_continue',
+    data: { templateId: params.templateId, stage: params.stage, backToItem: params.backToItem === true }
+  });
+  const editBtn = await makeActionButton(ctx, {
+    label: t('buttons.summary_edit'),
+    action: 'builder.summary_edit',
+    data: { templateId: params.templateId, stage: params.stage, backToItem: params.backToItem === true }
+  });
+  const kb = new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).row().text(editBtn.text, editBtn.callback_data);
+
+  await renderScreen(ctx, {
+    titleKey,
+    bodyLines: buildFieldSummaryLines(params.flow.draft),
+    inlineKeyboard: kb
+  });
+};
+
+const renderTemplateHelp = async (
+  ctx: Context,
+  params: { templateId: string; topic: 'type' | 'category' | 'xp_mode' | 'xp_value' | 'xp_max'; backToItem?: boolean; itemId?: string }
+) => {
+  const keyMap: Record<string, string> = {
+    type: 'screens.templates.help_type',
+    category: 'screens.templates.help_category',
+    xp_mode: 'screens.templates.help_xp',
+    xp_value: 'screens.templates.help_xp_value',
+    xp_max: 'screens.templates.help_xp_max'
+  };
+  const backAction = params.backToItem ? 'dr.template_item_menu' : 'dr.template_edit';
+  const backData = params.backToItem ? { templateId: params.templateId, itemId: params.itemId } : { templateId: params.templateId };
+  const telegramId = String(ctx.from?.id ?? '');
+  const currentBuilder = userStates.get(telegramId)?.builder;
+  if (currentBuilder?.active && currentBuilder.templateId === params.templateId) {
+    const currentStep = currentBuilder.step?.startsWith('builder.help') ? currentBuilder.returnStep : currentBuilder?.step;
+    updateBuilderStep(telegramId, params.templateId, `builder.help.${params.topic}`, currentStep);
+  }
+  const backBtn = await (builderIsActiveForTemplate(telegramId, params.templateId)
+    ? makeActionButton(ctx, { label: t('buttons.back'), action: 'builder.back', data: { templateId: params.templateId } })
+    : makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData }));
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.form_builder.help.title'),
+    bodyLines: [t(keyMap[params.topic] ?? '')],
+    inlineKeyboard: kb
+  });
+};
+
+const buildRoutineTypeKeyboard = async (ctx: Context, routineId?: string) => {
+  const kb = new InlineKeyboard();
+  const booleanBtn = await makeActionButton(ctx, {
+    label: t('screens.routines.type_boolean'),
+    action: 'routines.select_type',
+    data: { routineId, routineType: 'boolean' }
+  });
+  const durationBtn = await makeActionButton(ctx, {
+    label: t('screens.routines.type_duration'),
+    action: 'routines.select_type',
+    data: { routineId, routineType: 'duration_minutes' }
+  });
+  const numberBtn = await makeActionButton(ctx, {
+    label: t('screens.routines.type_number'),
+    action: 'routines.select_type',
+    data: { routineId, routineType: 'number' }
+  });
+  kb.text(booleanBtn.text, booleanBtn.callback_data).row().text(durationBtn.text, durationBtn.callback_data).row().text(numberBtn.text, numberBtn.callback_data);
+  return kb;
+};
+
+const buildRoutineXpModeKeyboard = async (ctx: Context, routineId?: string) => {
+  const kb = new InlineKeyboard();
+  const modes = [
+    { key: 'fixed', label: t('screens.routines.xp_mode_fixed') },
+    { key: 'per_minute', label: t('screens.routines.xp_mode_time') },
+    { key: 'per_number', label: t('screens.routines.xp_mode_number') },
+    { key: 'none', label: t('screens.routines.xp_mode_none') }
+  ];
+  for (const mode of modes) {
+    const btn = await makeActionButton(ctx, { label: mode.label, action: 'routines.select_xp_mode', data: { routineId, xpMode: mode.key } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  return kb;
+};
+
+const promptRoutineTitle = async (ctx: Context, params: { routineId?: string }) => {
+  const backAction = params.routineId ? 'routines.view' : 'routines.root';
+  const backData = params.routineId ? { routineId: params.routineId } : {};
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [t('screens.routines.add_title')], inlineKeyboard: kb });
+};
+
+const promptRoutineDescription = async (ctx: Context, params: { routineId?: string }) => {
+  const backAction = params.routineId ? 'routines.view' : 'routines.root';
+  const backData = params.routineId ? { routineId: params.routineId } : {};
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [t('screens.routines.add_description')], inlineKeyboard: kb });
+};
+
+const promptRoutineXpValue = async (ctx: Context, params: { routineId?: string; xpMode: 'fixed' | 'per_minute' | 'per_number' }) => {
+  const backAction = params.routineId ? 'routines.view' : 'routines.root';
+  const backData = params.routineId ? { routineId: params.routineId } : {};
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  const body =
+    params.xpMode === 'fixed'
+      ? t('screens.routines.ask_fixed_xp')
+      : params.xpMode === 'per_number'
+        ? t('screens.routines.ask_number_xp')
+        : t('screens.routines.ask_time_xp');
+  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [body], inlineKeyboard: kb });
+};
+
+const promptRoutineXpMax = async (ctx: Context, params: { routineId?: string }) => {
+  const backAction = params.routineId ? 'routines.view' : 'routines.root';
+  const backData = params.routineId ? { routineId: params.routineId } : {};
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: backAction, data: backData });
+  const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: [t('screens.routines.ask_time_xp_max')], inlineKeyboard: kb });
+};
+
+const promptRoutineConfirm = async (ctx: Context, flow: RoutineFlow) => {
+  const typeLabel = flow.draft.routineType === 'duration_minutes' ? t('screens.routines.type_duration') : t('screens.routines.type_boolean');
+  const summary = [
+    t('screens.routines.confirm_title', { title: flow.draft.title ?? '' }),
+    flow.draft.description || t('screens.routines.no_description'),
+    typeLabel,
+    flow.draft.xpMode === 'fixed'
+      ? t('screens.routines.xp_fixed', { xp: flow.draft.xpValue ?? 0 })
+      : flow.draft.xpMode === 'per_minute'
+        ? t('screens.routines.xp_per_minute', {
+            xp: flow.draft.xpValue ?? 0,
+            max: flow.draft.xpMaxPerDay && flow.draft.xpMaxPerDay > 0 ? t('screens.routines.xp_max_suffix', { xp: flow.draft.xpMaxPerDay }) : ''
+          })
+        : flow.draft.xpMode === 'per_number'
+          ? t('screens.routines.xp_per_number', {
+              xp: flow.draft.xpValue ?? 0,
+              max: flow.draft.xpMaxPerDay && flow.draft.xpMaxPerDay > 0 ? t('screens.routines.xp_max_suffix', { xp: flow.draft.xpMaxPerDay }) : ''
+            })
+          : t('screens.routines.xp_none')
+  ];
+
+  const saveBtn = await makeActionButton(ctx, { label: t('buttons.tpl_yes'), action: 'routines.save', data: { routineId: flow.routineId } });
+  const cancelBtn = await makeActionButton(ctx, { label: t('buttons.tpl_no'), action: flow.routineId ? 'routines.view' : 'routines.root', data: flow.routineId ? { routineId: flow.routineId } : {} });
+  const kb = new InlineKeyboard().text(saveBtn.text, saveBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
+  await renderScreen(ctx, { titleKey: t('screens.routines.title'), bodyLines: summary, inlineKeyboard: kb });
+};
+
+const renderTemplatesScreen = async (ctx: Context, flashLine?: string): Promise<void> => {
+  const { user, settings } = await ensureUserAndSettings(ctx);
+  await ensureDefaultTemplate(user.id);
+  const templates = await listUserTemplates(user.id);
+  const settingsJson = (settings.settings_json ?? {}) as { active_template_id?: string | null };
+  const fallbackTemplateId = templates[0]?.id ?? null;
+  const activeTemplateId = settingsJson.active_template_id ?? fallbackTemplateId;
+  const resolvedActiveId = templates.some((tpl) => tpl.id === activeTemplateId) ? activeTemplateId : fallbackTemplateId;
+
+  const lines: string[] = [t('screens.daily_report.templates_title')];
+  if (flashLine) lines.push(flashLine);
+  if (templates.length === 0) {
+    lines.push(t('screens.daily_report.templates_empty'));
+  } else {
+    templates.forEach((tpl) => {
+      const isActive = tpl.id === resolvedActiveId;
+      const prefix = isActive ? '⭐' : '•';
+      const title = tpl.title ?? t('screens.templates.default_title');
+      lines.push(`${prefix} ${title} (${tpl.itemCount ?? 0} items)`);
+    });
+  }
+
+  const kb = new InlineKeyboard();
+
+  for (const tpl of templates) {
+    const setActiveBtn = await makeActionButton(ctx, { label: t('buttons.tpl_set_active'), action: 'dr.template_set_active', data: { templateId: tpl.id } });
+    const editBtn = await makeActionButton(ctx, { label: t('buttons.tpl_edit_form'), action: 'dr.template_edit', data: { templateId: tpl.id } });
+    const moreBtn = await makeActionButton(ctx, { label: t('buttons.tpl_more'), action: 'dr.template_actions', data: { templateId: tpl.id } });
+    kb.text(setActiveBtn.text, setActiveBtn.callback_data).text(editBtn.text, editBtn.callback_data).text(moreBtn.text, moreBtn.callback_data).row();
+  }
+
+  const newBtn = await makeActionButton(ctx, { label: t('buttons.dr_template_new'), action: 'dr.template_new' });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
+
+  kb.text(newBtn.text, newBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.templates_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const renderTemplateActions = async (ctx: Context, templateId: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const tpl = await getTemplateById(templateId);
+  if (!tpl || tpl.user_id !== user.id) {
+    await renderTemplatesScreen(ctx);
+    return;
+  }
+
+  const items = await listAllItems(templateId);
+  const lines: string[] = [
+    t('screens.daily_report.template_action_title'),
+    tpl.title ?? t('screens.templates.default_title'),
+    t('screens.daily_report.template_details_items_line', { count: items.length })
+  ];
+
+  const kb = new InlineKeyboard();
+  const renameBtn = await makeActionButton(ctx, { label: t('buttons.templates_rename'), action: 'dr.template_rename_prompt', data: { templateId } });
+  const dupBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_duplicate'), action: 'dr.template_duplicate', data: { templateId } });
+  const delBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_delete'), action: 'dr.template_delete_confirm', data: { templateId } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_back'), action: 'dr.templates' });
+
+  kb.text(renameBtn.text, renameBtn.callback_data).row();
+  kb.text(dupBtn.text, dupBtn.callback_data).row();
+  kb.text(delBtn.text, delBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.templates_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const renderTemplateEdit = async (ctx: Context, templateId: string, flashLine?: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const tpl = await getTemplateById(templateId);
+  if (!tpl || tpl.user_id !== user.id) {
+    await renderTemplatesScreen(ctx);
+    return;
+  }
+  const telegramId = String(ctx.from?.id ?? '');
+  clearTemplateItemFlow(telegramId);
+  clearBuilderState(telegramId);
+
+  const items = await listAllItems(templateId);
+  const visibleItems = items.filter((item) => !isRoutineItem(item));
+
+  const lines: string[] = [
+    t('screens.daily_report.template_builder_title'),
+    t('screens.daily_report.template_items_header', { title: tpl.title ?? t('screens.templates.default_title') }),
+    t('screens.daily_report.template_items_count', { count: visibleItems.length })
+  ];
+  if (flashLine) lines.push(flashLine);
+  if (visibleItems.length === 0) {
+    lines.push(t('screens.daily_report.template_items_empty'));
+  } else {
+    visibleItems.forEach((item, idx) => {
+      const statusIcon = item.enabled ? '✅' : '🚫';
+      const xpSummary = buildXpSummary(itemToDraft(item));
+      lines.push(`[${idx + 1}] ${statusIcon} ${item.label} (${displayItemTypeLabel(item.item_type)}, ${xpSummary})`);
+    });
+  }
+
+  const kb = new InlineKeyboard();
+
+  for (const [idx, item] of visibleItems.entries()) {
+    const btn = await makeActionButton(ctx, {
+      label: t('buttons.template_item_open', { index: idx + 1, label: item.label }),
+      action: 'dr.template_item_menu',
+      data: { templateId, itemId: item.id }
+    });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+
+  const addBtn = await makeActionButton(ctx, { label: t('buttons.tpl_add_item'), action: 'dr.template_item_add', data: { templateId } });
+  const renameBtn = await makeActionButton(ctx, { label: t('buttons.templates_rename'), action: 'dr.template_rename_prompt', data: { templateId } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.templates' });
+  kb.text(addBtn.text, addBtn.callback_data).row();
+  kb.text(renameBtn.text, renameBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.template_builder_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const renderTemplateItemMenu = async (ctx: Context, templateId: string, itemId: string, flashLine?: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const tpl = await getTemplateById(templateId);
+  const item = await getItemById(itemId);
+  if (!tpl || tpl.user_id !== user.id || !item || item.template_id !== tpl.id) {
+    await renderTemplatesScreen(ctx);
+    return;
+  }
+  if (isRoutineItem(item)) {
+    await renderTemplateEdit(ctx, templateId);
+    return;
+  }
+
+  const xpSummary = buildXpSummary(itemToDraft(item));
+  const lines: string[] = [
+    t('screens.daily_report.item_menu_title'),
+    t('screens.daily_report.item_menu_summary', {
+      label: item.label,
+      type: displayItemTypeLabel(item.item_type),
+      category: item.category ?? '-',
+      xp: xpSummary,
+      enabled: item.enabled ? t('common.active') : t('common.inactive')
+    })
+  ];
+  const choices = getItemChoices(item);
+  if (choices.length) lines.push(t('screens.form_builder.summary_options', { options: choices.map(formatChoiceOption).join(', ') }));
+  const formula = getItemFormula(item);
+  if (formula) lines.push(t('screens.form_builder.summary_formula', { formula }));
+  if (item.target_value != null && TARGET_ITEM_TYPES.includes(item.item_type)) {
+    lines.push(
+      t('screens.templates.target_current', {
+        target: formatTargetAmount(item, Number(item.target_value)),
+        bonus: item.target_bonus_xp ?? 0
+      })
+    );
+  }
+  if (hasItemSchedule(item)) lines.push(t('screens.templates.schedule_current', { schedule: describeItemSchedule(item) }));
+  if (item.aliases?.length) lines.push(t('screens.templates.aliases_current', { aliases: item.aliases.join(', ') }));
+  if (flashLine) lines.push(flashLine);
+
+  const kb = new InlineKeyboard();
+  const editLabelBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_label'), action: 'dr.template_item_edit_label', data: { templateId, itemId } });
+  const editKeyBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_key'), action: 'dr.template_item_edit_key', data: { templateId, itemId } });
+  const editTypeBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_type'), action: 'dr.template_item_edit_type', data: { templateId, itemId } });
+  const editCategoryBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_category'), action: 'dr.template_item_edit_category', data: { templateId, itemId } });
+  const editXpBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_xp'), action: 'dr.template_item_edit_xp', data: { templateId, itemId } });
+  const editOptionsBtn = isChoiceItemType(item.item_type)
+    ? await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_options'), action: 'dr.template_item_edit_options', data: { templateId, itemId } })
+    : item.item_type === 'computed'
+      ? await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_formula'), action: 'dr.template_item_edit_formula', data: { templateId, itemId } })
+      : null;
+  const editTargetBtn = TARGET_ITEM_TYPES.includes(item.item_type)
+    ? await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_target'), action: 'dr.template_item_edit_target', data: { templateId, itemId } })
+    : null;
+  const editAliasesBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_aliases'), action: 'dr.template_item_edit_aliases', data: { templateId, itemId } });
+  const toggleBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_toggle_enabled'), action: 'dr.template_item_toggle_enabled', data: { templateId, itemId } });
+  const scheduleBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_edit_schedule'), action: 'dr.template_item_schedule', data: { templateId, itemId } });
+  const moveUpBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_move_up'), action: 'dr.template_item_move_up', data: { templateId, itemId } });
+  const moveDownBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_move_down'), action: 'dr.template_item_move_down', data: { templateId, itemId } });
+  const delBtn = await makeActionButton(ctx, { label: t('buttons.tpl_item_delete'), action: 'dr.template_item_delete_confirm', data: { templateId, itemId } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.template_edit', data: { templateId } });
+
+  kb.text(editLabelBtn.text, editLabelBtn.callback_data).text(editKeyBtn.text, editKeyBtn.callback_data).row();
+  kb.text(editTypeBtn.text, editTypeBtn.callback_data).text(editCategoryBtn.text, editCategoryBtn.callback_data).row();
+  kb.text(editXpBtn.text, editXpBtn.callback_data);
+  if (editOptionsBtn) kb.text(editOptionsBtn.text, editOptionsBtn.callback_data);
+  if (editTargetBtn) kb.text(editTargetBtn.text, editTargetBtn.callback_data);
+  kb.text(editAliasesBtn.text, editAliasesBtn.callback_data).row();
+  kb.text(toggleBtn.text, toggleBtn.callback_data).text(scheduleBtn.text, scheduleBtn.callback_data).row();
+  kb.text(moveUpBtn.text, moveUpBtn.callback_data).text(moveDownBtn.text, moveDownBtn.callback_data).row();
+  kb.text(delBtn.text, delBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const MAX_SCHEDULE_EVERY_DAYS = 365;
+
+const describeItemSchedule = (item: ReportItemRow): string => {
+  const parts: string[] = [];
+  const weekdays = [...(item.schedule_weekdays ?? [])].sort((a, b) => a - b);
+  if (weekdays.length) parts.push(t('screens.templates.schedule_on_days', { days: weekdays.map(getWeekdayLabel).join(', ') }));
+  if ((item.schedule_every_days ?? 0) > 1) parts.push(t('screens.templates.schedule_every_days', { days: item.schedule_every_days ?? 0 }));
+  if (item.active_from) parts.push(t('screens.templates.schedule_from', { date: item.active_from }));
+  if (item.active_until) parts.push(t('screens.templates.schedule_until', { date: item.active_until }));
+  return parts.length ? parts.join('; ') : t('screens.templates.schedule_every_day');
+};
+
+const renderTemplateItemSchedule = async (ctx: Context, templateId: string, itemId: string, flashLine?: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const tpl = await getTemplateById(templateId);
+  const item = await getItemById(itemId);
+  if (!tpl || tpl.user_id !== user.id || !item || item.template_id !== tpl.id) {
+    await renderTemplatesScreen(ctx);
+    return;
+  }
+  clearTemplateItemFlow(String(ctx.from?.id ?? ''));
+
+  const lines: string[] = [
+    t('screens.templates.schedule_title', { label: item.label }),
+    t('screens.templates.schedule_current', { schedule: describeItemSchedule(item) }),
+    t('screens.templates.schedule_hint')
+  ];
+  if (flashLine) lines.push(flashLine);
+
+  const kb = new InlineKeyboard();
+  const selected = new Set(item.schedule_weekdays ?? []);
+  for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
+    const btn = await makeActionButton(ctx, {
+      label: `${selected.has(idx) ? '✅ ' : ''}${getWeekdayLabel(idx)}`,
+      action: 'dr.template_item_schedule_weekday',
+      data: { templateId, itemId, day: idx }
+    });
+    kb.text(btn.text, btn.callback_data);
+    if (idx % 2 === 1) kb.row();
+  }
+  kb.row();
+  const everyBtn = await makeActionButton(ctx, { label: t('buttons.tpl_schedule_every'), action: 'dr.template_item_schedule_prompt', data: { templateId, itemId, field: 'every' } });
+  const fromBtn = await makeActionButton(ctx, { label: t('buttons.tpl_schedule_from'), action: 'dr.template_item_schedule_prompt', data: { templateId, itemId, field: 'from' } });
+  const untilBtn = await makeActionButton(ctx, { label: t('buttons.tpl_schedule_until'), action: 'dr.template_item_schedule_prompt', data: { templateId, itemId, field: 'until' } });
+  const clearBtn = await makeActionButton(ctx, { label: t('buttons.tpl_schedule_clear'), action: 'dr.template_item_schedule_clear', data: { templateId, itemId } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.template_item_menu', data: { templateId, itemId } });
+  kb.text(everyBtn.text, everyBtn.callback_data).row();
+  kb.text(fromBtn.text, fromBtn.callback_data).text(untilBtn.text, untilBtn.callback_data).row();
+  if (hasItemSchedule(item)) kb.text(clearBtn.text, clearBtn.callback_data).row();
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const promptItemTargetInput = async (ctx: Context, params: { templateId: string; itemId: string; item: ReportItemRow; step: 'target' | 'target_bonus' }) => {
+  const backBtn = await makeActionButton(ctx, {
+    label: t('buttons.back'),
+    action: 'dr.template_item_menu',
+    data: { templateId: params.templateId, itemId: params.itemId }
+  });
+  const bodyLines =
+    params.step === 'target'
+      ? [t(params.item.item_type === 'duration_minutes' ? 'screens.templates.ask_target_minutes' : 'screens.templates.ask_target_number'), t('screens.templates.target_hint')]
+      : [t('screens.templates.ask_target_bonus')];
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines, inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data) });
+};
+
+const promptItemScheduleInput = async (ctx: Context, params: { templateId: string; itemId: string; field: 'every' | 'from' | 'until' }) => {
+  const backBtn = await makeActionButton(ctx, {
+    label: t('buttons.back'),
+    action: 'dr.template_item_schedule',
+    data: { templateId: params.templateId, itemId: params.itemId }
+  });
+  const bodyLines =
+    params.field === 'every'
+      ? [t('screens.templates.ask_schedule_every', { max: MAX_SCHEDULE_EVERY_DAYS })]
+      : [t(params.field === 'from' ? 'screens.templates.ask_schedule_from' : 'screens.templates.ask_schedule_until'), t('screens.templates.schedule_date_hint')];
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines, inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data) });
+};
+
+const renderTemplateItemDeleteConfirm = async (ctx: Context, templateId: string, itemId: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const tpl = await getTemplateById(templateId);
+  const item = await getItemById(itemId);
+  if (!tpl || tpl.user_id !== user.id || !item || item.template_id !== tpl.id) {
+    await renderTemplatesScreen(ctx);
+    return;
+  }
+
+  const lines: string[] = [t('screens.daily_report.item_delete_confirm')];
+  const yesBtn = await makeActionButton(ctx, { label: t('buttons.tpl_yes'), action: 'dr.template_item_delete', data: { templateId, itemId } });
+  const noBtn = await makeActionButton(ctx, { label: t('buttons.tpl_no'), action: 'dr.template_item_menu', data: { templateId, itemId } });
+  const kb = new InlineKeyboard().text(yesBtn.text, yesBtn.callback_data).row().text(noBtn.text, noBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const renderTemplateDeleteConfirm = async (ctx: Context, templateId: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const tpl = await getTemplateById(templateId);
+  if (!tpl || tpl.user_id !== user.id) {
+    await renderTemplatesScreen(ctx);
+    return;
+  }
+
+  const lines: string[] = [t('screens.daily_report.template_delete_confirm', { title: tpl.title ?? t('screens.templates.default_title') })];
+
+  const confirmBtn = await makeActionButton(ctx, { label: t('buttons.dr_template_delete'), action: 'dr.template_delete', data: { templateId } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.tpl_actions_back'), action: 'dr.template_actions', data: { templateId } });
+
+  const kb = new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.templates_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const finalizeNewTemplateItem = async (ctx: Context, telegramId: string, flow: TemplateItemFlow): Promise<void> => {
+  try {
+    const items = await listAllItems(flow.templateId);
+    const maxSort = items.reduce((max, item) => Math.max(max, item.sort_order ?? 0), 0);
+    const sortOrder = (maxSort || items.length * 10) + 10;
+    const label = flow.draft.label ?? t('screens.daily_report.template_new_title');
+    const itemKey = flow.draft.itemKey ?? (await generateUniqueItemKey(flow.templateId, label));
+    const itemType = flow.draft.itemType ?? 'text';
+    const category = flow.draft.category && flow.draft.category !== 'none' ? flow.draft.category : null;
+    const xpStorage = deriveXpStorage({ ...flow.draft, itemType });
+
+    await upsertItem({
+      templateId: flow.templateId,
+      label,
+      itemKey,
+      itemType,
+      category,
+      xpMode: xpStorage.xpMode,
+      xpValue: xpStorage.xpValue,
+      xpMaxPerDay: xpStorage.xpMax,
+      optionsJson: xpStorage.optionsJson,
+      sortOrder
+    });
+    clearTemplateItemFlow(telegramId);
+    clearBuilderState(telegramId);
+    clearReportContextCache();
+    await renderTemplateEdit(ctx, flow.templateId, t('screens.daily_report.item_saved'));
+  } catch (error) {
+    console.error({ scope: 'daily_report', event: 'template_item_finalize_failed', error, flow });
+    clearTemplateItemFlow(telegramId);
+    clearBuilderState(telegramId);
+    await renderTemplateEdit(ctx, flow.templateId);
+  }
+};
+
+const renderHistory = async (ctx: Context, range: '7d' | '30d' = '7d'): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const days = await listRecentReportDays({ userId: user.id, range, timezone: user.timezone ?? config.defaultTimezone });
+
+  const lines: string[] = [
+    t('screens.daily_report.history_title'),
+    t('screens.daily_report.history_range', { range: range === '7d' ? t('buttons.dr_history_7d') : t('buttons.dr_history_30d') }),
+    ''
+  ];
+
+  if (!days.length) {
+    lines.push(t('screens.daily_report.history_no_results'));
+  } else {
+    lines.push(t('screens.daily_report.history_open_hint'), '');
+    for (const entry of days) {
+      const lockedSuffix = entry.day.locked ? t('screens.daily_report.history_locked_suffix') : '';
+      lines.push(
+        t('screens.daily_report.history_list_line', {
+          date: entry.day.local_date,
+          completed: entry.completed,
+          total: entry.total,
+          skipped: entry.skipped
+        }) + lockedSuffix
+      );
+    }
+  }
+
+  const kb = new InlineKeyboard();
+  const range7Btn = await makeActionButton(ctx, { label: t('buttons.dr_history_7d'), action: 'dr.history_7d' });
+  const range30Btn = await makeActionButton(ctx, { label: t('buttons.dr_history_30d'), action: 'dr.history_30d' });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
+
+  kb.text(range7Btn.text, range7Btn.callback_data).text(range30Btn.text, range30Btn.callback_data).row();
+  for (const entry of days) {
+    const openBtn = await makeActionButton(ctx, {
+      label: t('buttons.dr_history_open_day', { date: entry.day.local_date }),
+      action: 'dr.history_open_day',
+      data: { reportDayId: entry.day.id }
+    });
+    kb.text(openBtn.text, openBtn.callback_data).row();
+  }
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.history_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const renderHistoryDay = async (ctx: Context, reportDayId: string): Promise<void> => {
+  const reportDay = await getReportDayById(reportDayId);
+  if (!reportDay) {
+    await renderHistory(ctx);
+    return;
+  }
+  const { user } = await ensureUserAndSettings(ctx);
+  const items = await listAllItems(reportDay.template_id);
+  const enabledItems = filterScheduledItems(items.filter((i) => i.enabled), reportDay.local_date, user.timezone ?? config.defaultTimezone);
+  const displayItems = enabledItems.filter((item) => !isRoutineTaskItem(item));
+  const statuses = await listCompletionStatus(reportDay.id, displayItems);
+  const template = await getTemplateById(reportDay.template_id);
+
+  const lines: string[] = [
+    t('screens.daily_report.history_detail_title', { date: reportDay.local_date, template: template?.title ?? t('screens.templates.default_title') }),
+    t('screens.daily_report.history_detail_hint'),
+    ''
+  ];
+
+  statuses.forEach((s, idx) => {
+    const icon = s.filled ? '✅' : s.skipped ? '⏭' : '⬜️';
+    const valueText = s.filled ? formatDisplayValue(s.item, s.value?.value_json ?? null) : t('screens.daily_report.value_skipped');
+    lines.push(`${icon} ${idx + 1}) ${formatItemLabel(s.item)} — ${valueText}`);
+  });
+
+  const kb = new InlineKeyboard();
+  const backToHistoryBtn = await makeActionButton(ctx, { label: t('buttons.dr_history_back'), action: 'dr.history' });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu' });
+  kb.text(backToHistoryBtn.text, backToHistoryBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+
+  // cache warmed
+  reportContextCache.set(`${reportDay.user_id}:${reportDay.local_date}`, { reportDay, items: enabledItems });
+
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.history_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const handleSaveValue = async (ctx: Context, text: string): Promise<void> => {
+  if (!ctx.from) return;
+  const stateKey = String(ctx.from.id);
+  const state = userStates.get(stateKey);
+  if (!state?.awaitingValue) return;
+
+  const { reportDayId, itemId, origin, statusFilter } = state.awaitingValue;
+  const cached = [...reportContextCache.values()].find((v) => v.reportDay.id === reportDayId);
+
+  let context = cached ?? null;
+  if (!context) {
+    const existingDay = await getReportDayById(reportDayId);
+    const localDate = existingDay?.local_date ?? formatLocalTime(config.defaultTimezone).date;
+    context = await ensureSpecificReportContext(ctx, localDate);
+  }
+  const reportDay = context.reportDay;
+  const items = context.items;
+
+  if (reportDay.id !== reportDayId) {
+    userStates.delete(stateKey);
+    await renderScreen(ctx, {
+      titleKey: t('screens.daily_report.title'),
+      bodyLines: [t('screens.daily_report.session_expired')],
+      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
+    });
+    return;
+  }
+
+  if (reportDay.locked) {
+    userStates.delete(stateKey);
+    await renderScreen(ctx, {
+      titleKey: t('screens.daily_report.title'),
+      bodyLines: isLockedMessageLines(reportDay),
+      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
+    });
+    return;
+  }
+
+  const item = items.find((i) => i.id === itemId);
+  if (!item) {
+    userStates.delete(stateKey);
+    await renderScreen(ctx, {
+      titleKey: t('screens.daily_report.title'),
+      bodyLines: [t('screens.daily_report.item_not_found')],
+      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
+    });
+    return;
+  }
+
+  let valueJson: Record<string, unknown> | null = null;
+
+  switch (item.item_type) {
+    case 'time_hhmm': {
+      const parsed = parseTimeHhmm(text);
+      if (!parsed) {
+        await renderScreen(ctx, {
+          titleKey: t('screens.daily_report.title'),
+          bodyLines: [t('screens.daily_report.invalid_time')],
+          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
+        });
+        return;
+      }
+      valueJson = { value: parsed.hhmm, minutes: parsed.minutes };
+      break;
+    }
+    case 'duration_minutes': {
+      const n = parseNonNegativeNumber(text);
+      if (n === null) {
+        await renderScreen(ctx, {
+          titleKey: t('screens.daily_report.title'),
+          bodyLines: [t('screens.daily_report.invalid_duration')],
+          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
+        });
+        return;
+      }
+      const unit = state.numericDraft?.unit ?? 'minutes';
+      const { minutes, seconds } = convertToMinutes(n, unit);
+      valueJson = { value: minutes, minutes, ...(unit === 'seconds' ? { seconds: Math.max(0, Math.round(n)) } : {}) };
+      break;
+    }
+    case 'number': {
+      const n = parseNonNegativeNumber(text);
+      if (n === null) {
+        await renderScreen(ctx, {
+          titleKey: t('screens.daily_report.title'),
+          bodyLines: [t('screens.daily_report.invalid_number')],
+          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
+        });
+        return;
+      }
+      valueJson = buildNumberValueJson(item, n);
+      break;
+    }
+    case 'boolean': {
+      valueJson = { value: valueIsTrue(text) };
+      break;
+    }
+    case 'rating': {
+      const n = Number(text.trim());
+      if (!Number.isInteger(n) || n < RATING_MIN || n > RATING_MAX) {
+        await renderScreen(ctx, {
+          titleKey: t('screens.daily_report.title'),
+          bodyLines: [t('screens.daily_report.invalid_rating', { min: RATING_MIN, max: RATING_MAX })],
+          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
+        });
+        return;
+      }
+      valueJson = { value: n };
+      break;
+    }
+    case 'choice':
+    case 'multi_choice':
+    case 'checklist': {
+      const choices = getItemChoices(item);
+      const { keys, unmatched } = matchChoiceKeys(choices, text);
+      if (!keys.length || unmatched.length || (item.item_type === 'choice' && keys.length > 1)) {
+        await renderScreen(ctx, {
+          titleKey: t('screens.daily_report.title'),
+          bodyLines: [t('screens.daily_report.invalid_choice', { options: choices.map((c) => c.label).join(', ') })],
+          inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items })
+        });
+        return;
+      }
+      valueJson = item.item_type === 'choice' ? { value: keys[0] } : { values: keys };
+      break;
+    }
+    default:
+      valueJson = { value: text };
+  }
+
+  try {
+    await saveValue({ reportDayId, item, valueJson, userId: reportDay.user_id });
+  } catch (error) {
+    console.error({ scope: 'daily_report', event: 'save_value_failed', error, reportDayId, itemId: item.id, valueJson });
+    await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: [t('screens.daily_report.save_failed')], inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay) });
+    return;
+  }
+
+  const userSettings = (await ensureUserAndSettings(ctx)).user.settings_json as Record<string, unknown>;
+  await logForUser({ userId: reportDay.user_id, ctx, eventName: 'db_write', payload: { action: 'save_value', item_id: item.id }, enabled: telemetryEnabledForUser(userSettings) });
+
+  // Clear state for that field
+  const nextState = { ...(userStates.get(stateKey) ?? {}) };
+  delete nextState.awaitingValue;
+  delete nextState.numericDraft;
+  delete nextState.choiceDraft;
+  delete nextState.timeDraft;
+  userStates.set(stateKey, nextState);
+
+  await continueFlowAfterAction(ctx, reportDay, origin, statusFilter);
+};
+
+const QUICK_ENTRY_YES = ['true', '1', 'yes', 'y', 'ok', 'on', 'done', '✅', '✔️', 'بله', 'آره', 'اره', 'انجام'];
+const QUICK_ENTRY_NO = ['false', '0', 'no', 'n', 'off', '❌', 'نه', 'خیر'];
+
+// Routine parents are filled through their own screen and computed items are never entered by hand.
+const filterQuickEntryItems = (items: ReportItemRow[]): ReportItemRow[] =>
+  filterRoutineDisplayItems(items).filter((item) => !isRoutineParentItem(item) && item.item_type !== 'computed');
+
+/**
+ * Reads one item's raw quick-entry value. Scalar types take the first word and hand the rest back as
+ * extra; choice types use the whole value. Returns null when the value does not fit the item.
+ */
+const parseQuickEntryValue = (item: ReportItemRow, raw: string): { valueJson: Record<string, unknown>; extra: string[] } | null => {
+  const [first = '', ...extra] = raw.split(/\s+/).filter(Boolean);
+  switch (item.item_type) {
+    case 'boolean': {
+      // A bare name ticks a yes/no item.
+      if (!first) return { valueJson: { value: true }, extra };
+      const word = first.toLowerCase();
+      if (QUICK_ENTRY_YES.includes(word)) return { valueJson: { value: true }, extra };
+      if (QUICK_ENTRY_NO.includes(word)) return { valueJson: { value: false }, extra };
+      return null;
+    }
+    case 'time_hhmm': {
+      const parsed = parseTimeHhmm(first);
+      return parsed ? { valueJson: { value: parsed.hhmm, minutes: parsed.minutes }, extra } : null;
+    }
+    case 'duration_minutes': {
+      const n = first ? parseNonNegativeNumber(first) : null;
+      return n === null ? null : { valueJson: { value: n, minutes: n }, extra };
+    }
+    case 'number': {
+      const n = first ? parseNonNegativeNumber(first) : null;
+      return n === null ? null : { valueJson: buildNumberValueJson(item, n), extra };
+    }
+    case 'rating': {
+      const n = Number(first);
+      return first && Number.isInteger(n) && n >= RATING_MIN && n <= RATING_MAX ? { valueJson: { value: n }, extra } : null;
+    }
+    case 'choice':
+    case 'multi_choice':
+    case 'checklist': {
+      const choices = getItemChoices(item);
+      // Options may be separated by commas or, when every option is a single word, by spaces.
+      let matched = matchChoiceKeys(choices, raw);
+      if (matched.unmatched.length) matched = matchChoiceKeys(choices, raw.split(/\s+/).join(','));
+      if (!matched.keys.length || matched.unmatched.length || (item.item_type === 'choice' && matched.keys.length > 1)) return null;
+      return { valueJson: item.item_type === 'choice' ? { value: matched.keys[0] } : { values: matched.keys }, extra: [] };
+    }
+    default:
+      return null;
+  }
+};
+
+const renderQuickEntryPrompt = async (ctx: Context, reportDayId: string, flashLine?: string): Promise<void> => {
+  const { reportDay, items } = await ensureContextByReportDayId(ctx, reportDayId);
+  const lines: string[] = [t('screens.daily_report.quick_entry_prompt'), t('screens.daily_report.quick_entry_example'), '', t('screens.daily_report.quick_entry_names')];
+  for (const item of filterQuickEntryItems(items)) {
+    lines.push(t('screens.daily_report.quick_entry_name_line', { label: item.label, names: listItemNames(item).join(', ') }));
+  }
+  if (flashLine) lines.push('', flashLine);
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.quick_entry_title'), bodyLines: lines, inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data) });
+};
+
+/** Parses a quick-entry message and shows what would change, keeping the parsed values until they are confirmed. */
+const handleQuickEntryText = async (ctx: Context, text: string): Promise<void> => {
+  if (!ctx.from) return;
+  const stateKey = String(ctx.from.id);
+  const quickEntry = userStates.get(stateKey)?.quickEntry;
+  if (!quickEntry) return;
+
+  const { reportDay, items } = await ensureContextByReportDayId(ctx, quickEntry.reportDayId);
+  if (reportDay.id !== quickEntry.reportDayId || reportDay.locked) {
+    userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), quickEntry: undefined });
+    await renderScreen(ctx, {
+      titleKey: t('screens.daily_report.title'),
+      bodyLines: reportDay.locked ? isLockedMessageLines(reportDay) : [t('screens.daily_report.session_expired')],
+      inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay)
+    });
+    return;
+  }
+
+  const { segments, unmatched } = parseQuickEntry(text, filterQuickEntryItems(items));
+  const statuses = await listCompletionStatus(reportDay.id, segments.map((segment) => segment.item));
+  const entries: NonNullable<QuickEntryState['entries']> = [];
+  const changeLines: string[] = [];
+  const invalidLines: string[] = [];
+  const extra = [...unmatched];
+  for (const segment of segments) {
+    const parsed = parseQuickEntryValue(segment.item, segment.raw);
+    if (!parsed) {
+      invalidLines.push(t('screens.daily_report.quick_entry_invalid_line', { label: segment.item.label, value: segment.raw || '—' }));
+      continue;
+    }
+    extra.push(...parsed.extra);
+    entries.push({ itemId: segment.item.id, valueJson: parsed.valueJson });
+    const status = statuses.find((entry) => entry.item.id === segment.item.id);
+    const before = status?.filled ? formatDisplayValue(segment.item, status.value?.value_json ?? null) : status?.skipped ? t('screens.daily_report.value_skipped') : '—';
+    changeLines.push(
+      t('screens.daily_report.quick_entry_change_line', { label: segment.item.label, before, after: formatDisplayValue(segment.item, parsed.valueJson) })
+    );
+  }
+  userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), quickEntry: { reportDayId: reportDay.id, entries } });
+
+  const lines: string[] = [t('screens.daily_report.root_header', { date: reportDay.local_date })];
+  lines.push(entries.length ? t('screens.daily_report.quick_entry_confirm') : t('screens.daily_report.quick_entry_nothing'));
+  lines.push(...changeLines);
+  if (invalidLines.length) lines.push('', t('screens.daily_report.quick_entry_invalid'), ...invalidLines);
+  if (extra.length) lines.push('', t('screens.daily_report.quick_entry_unmatched', { tokens: extra.join(' ') }));
+  lines.push('', t('screens.daily_report.quick_entry_retry_hint'));
+
+  const kb = new InlineKeyboard();
+  if (entries.length) {
+    const saveBtn = await makeActionButton(ctx, { label: t('buttons.dr_quick_entry_save', { count: entries.length }), action: 'dr.quick_entry_save', data: { reportDayId: reportDay.id } });
+    kb.text(saveBtn.text, saveBtn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.menu', data: { reportDayId: reportDay.id } });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, { titleKey: t('screens.daily_report.quick_entry_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const QUIET_HOURS_PRESETS: QuietHours[] = [
+  { start: '22:00', end: '07:00' },
+  { start: '23:00', end: '07:00' },
+  { start: '00:00', end: '08:00' }
+];
+
+const formatQuietHours = (quietHours: QuietHours | null): string =>
+  quietHours ? `${quietHours.start}–${quietHours.end}` : t('screens.settings.quiet_hours_off');
+
+const formatCatchUpPolicy = (policy: CatchUpPolicy): string => t(`screens.settings.catch_up_policy_${policy}`);
+
+const formatCatchUpStale = (minutes: number): string => t('screens.settings.catch_up_hours', { hours: String(Math.round(minutes / 60)) });
+
+const renderSettingsRoot = async (ctx: Context): Promise<void> => {
+  const { user, settings } = await ensureUserAndSettings(ctx);
+  const emojiEnabled = await getUserBooleanSetting(user.id, EMOJI_SETTING_KEY, config.ui.emojiEnabled);
+  const changeLanguageBtn = await makeActionButton(ctx, { label: t('buttons.change_language'), action: 'settings.language' });
+  const quietHoursBtn = await makeActionButton(ctx, {
+    label: t('buttons.settings_quiet_hours', { value: formatQuietHours(getQuietHoursFromSettings(settings)) }),
+    action: 'settings.quiet_hours'
+  });
+  const catchUpBtn = await makeActionButton(ctx, {
+    label: t('buttons.settings_catch_up', { value: formatCatchUpPolicy(getCatchUpSettingsFromSettings(settings).policy) }),
+    action: 'settings.catch_up'
+  });
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const timezoneBtn = await makeActionButton(ctx, {
+    label: t('buttons.settings_timezone', { value: `${timezone} (${formatUtcOffset(timezone)})` }),
+    action: 'settings.timezone'
+  });
+  const location = getUserLocation(user);
+  const locationBtn = await makeActionButton(ctx, {
+    label: t('buttons.settings_location', { value: location ? formatUserLocation(location) : t('screens.settings.location_not_set') }),
+    action: 'settings.location'
+  });
+  const speedBtn = await makeActionButton(ctx, { label: t('buttons.settings_speed_test'), action: 'settings.speed_test' });
+  await renderSettingsScreen(ctx, {
+    emojiEnabled,
+    extraButtons: [changeLanguageBtn, timezoneBtn, locationBtn, quietHoursBtn, catchUpBtn, speedBtn]
+  });
+};
+
+const LOCATION_TIME_NAMES: PrayerTimeName[] = ['fajr', 'sunrise', 'dhuhr', 'asr', 'sunset', 'maghrib', 'isha'];
+
+const renderLocationSettings = async (ctx: Context, flashLines: string[] = []): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const location = getUserLocation(user);
+  const lines = [
+    ...flashLines,
+    ...(flashLines.length ? [''] : []),
+    location ? t('screens.settings.location_current', { location: formatUserLocation(location) }) : t('screens.settings.location_none'),
+    t('screens.settings.location_method', { method: formatPrayerMethod(user.prayer_method) })
+  ];
+  if (location) {
+    const today = formatLocalTime(timezone).date;
+    const times = getPrayerTimesForDate(location, today);
+    lines.push('', t('screens.settings.location_today', { date: today }));
+    for (const name of LOCATION_TIME_NAMES) {
+      const at = times[name];
+      lines.push(
+        t('screens.settings.location_time_line', {
+          name: formatPrayerName(name),
+          time: at ? formatInstantToLocal(at.toISOString(), timezone).time : '-'
+        })
+      );
+    }
+  }
+  lines.push('', t('screens.settings.location_hint'));
+
+  const kb = new InlineKeyboard();
+  for (const [index, city] of CITY_PRESETS.entries()) {
+    const btn = await makeActionButton(ctx, { label: t(`screens.settings.city_${city.key}`), action: 'settings.location_city', data: { city: city.key } });
+    kb.text(btn.text, btn.callback_data);
+    if (index % 2 === 1) kb.row();
+  }
+  const shareBtn = await makeActionButton(ctx, { label: t('buttons.settings_location_share'), action: 'settings.location_share' });
+  const methodBtn = await makeActionButton(ctx, {
+    label: t('buttons.settings_prayer_method', { value: formatPrayerMethod(user.prayer_method) }),
+    action: 'settings.prayer_method'
+  });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.settings' });
+  kb.row().text(shareBtn.text, shareBtn.callback_data).row().text(methodBtn.text, methodBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, { titleKey: t('screens.settings.location_title'), bodyLines: lines, inlineKeyboard: kb });
+};
+
+const renderPrayerMethodSettings = async (ctx: Context): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const kb = new InlineKeyboard();
+  for (const method of PRAYER_METHOD_KEYS) {
+    const btn = await makeActionButton(ctx, { label: formatPrayerMethod(method), action: 'settings.prayer_method_set', data: { method } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'settings.location' });
+  kb.text(backBtn.text, backBtn.callback_data);
+  await renderScreen(ctx, {
+    titleKey: t('screens.settings.location_title'),
+    bodyLines: [t('screens.settings.location_method', { method: formatPrayerMethod(user.prayer_method) }), t('screens.settings.prayer_method_hint')],
+    inlineKeyboard: kb
+  });
+};
+
+const saveUserLocation = async (
+  ctx: Context,
+  patch: { latitude?: number; longitude?: number; locationLabel?: string | null; prayerMethod?: string }
+): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const updatedUser = await updateUserLocation(user.id, patch);
+  updateCachedUserContext(ctx, { user: updatedUser });
+  const flashLines = [t('screens.settings.location_saved')];
+  const location = getUserLocation(updatedUser);
+  if (location) {
+    const count = await syncAnchoredReminders(updatedUser.id, location);
+    if (count > 0) flashLines.push(t('screens.settings.location_reminders_updated', { count: String(count) }));
+  }
+  await renderLocationSettings(ctx, flashLines);
+};
+
+const TIMEZONE_PREVIEW_LIMIT = 15;
+
+const renderTimezoneSettings = async (ctx: Context, flashLines: string[] = []): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const timezone = user.timezone ?? config.defaultTimezone;
+  const local = formatLocalTime(timezone);
+  const kb = new InlineKeyboard();
+  for (let index = 0; index < TIMEZONE_PRESETS.length; index += 1) {
+    const preset = TIMEZONE_PRESETS[index];
+    const btn = await makeActionButton(ctx, {
+      label: `${preset === timezone ? '✅ ' : ''}${preset}`,
+      action: 'settings.timezone_pick',
+      data: { timezone: preset }
+    });
+    kb.text(btn.text, btn.callback_data);
+    if (index % 2 === 1) kb.row();
+  }
+  const searchBtn = await makeActionButton(ctx, { label: t('buttons.settings_timezone_search'), action: 'settings.timezone_search' });
+  const locationBtn = await makeActionButton(ctx, { label: t('buttons.settings_timezone_location'), action: 'settings.timezone_location' });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.settings' });
+  kb.row().text(searchBtn.text, searchBtn.callback_data).row().text(locationBtn.text, locationBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    titleKey: t('screens.settings.timezone_title'),
+    bodyLines: [
+      ...flashLines,
+      ...(flashLines.length ? [''] : []),
+      t('screens.settings.timezone_current', { timezone, offset: formatUtcOffset(timezone) }),
+      t('screens.settings.timezone_local_now', { date: local.date, time: local.time }),
+      '',
+      t('screens.settings.timezone_hint')
+    ],
+    inlineKeyboard: kb
+  });
+};
+
+const formatTimezoneMoveLines = (
+  moves: Awaited<ReturnType<typeof planReminderTimezoneMoves>>,
+  timezone: string
+): string[] => {
+  const formatRun = (value: Date | null): string => {
+    if (!value) return labels.reminders.noTime();
+    const local = formatInstantToLocal(value.toISOString(), timezone);
+    return `${local.date} ${local.time}`;
+  };
+  const moved = moves.filter((move) => (move.fromUtc?.getTime() ?? null) !== (move.toUtc?.getTime() ?? null));
+  const lines = moved.slice(0, TIMEZONE_PREVIEW_LIMIT).map((move) =>
+    t('screens.settings.timezone_move_line', {
+      title: move.reminder.title?.trim() ? move.reminder.title : labels.reminders.untitled(),
+      from: formatRun(move.fromUtc),
+      to: formatRun(move.toUtc)
+    })
+  );
+  if (moved.length > TIMEZONE_PREVIEW_LIMIT) {
+    lines.push(t('screens.settings.timezone_move_more', { count: String(moved.length - TIMEZONE_PREVIEW_LIMIT) }));
+  }
+  return lines.length ? lines : [t('screens.settings.timezone_move_none')];
+};
+
+// Times in the preview are shown in the new zone so the user sees what their reminders look like after the switch.
+const renderTimezonePreview = async (ctx: Context, timezone: string): Promise<void> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  const currentTimezone = user.timezone ?? config.defaultTimezone;
+  const moves = await planReminderTimezoneMoves(user.id, currentTimezone, timezone);
+  const local = formatLocalTime(timezone);
+  const confirmBtn = await makeActionButton(ctx, { label: t('buttons.settings_timezone_apply'), action: 'settings.timezone_apply', data: { timezone } });
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'settings.timezone' });
+
+  await renderScreen(ctx, {
+    titleKey: t('screens.settings.timezone_title'),
+    bodyLines: [
+      t('screens.settings.timezone_preview_header', { timezone, offset: formatUtcOffset(timezone) }),
+      t('screens.settings.timezone_local_now', { date: local.date, time: local.time }),
+      t('screens.settings.timezone_report_day', { date: local.date }),
+      '',
+      t('screens.settings.timezone_preview_reminders'),
+      ...formatTimezoneMoveLines(moves, timezone)
+    ],
+    inlineKeyboard: new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).row().text(backBtn.text, backBtn.callback_data)
+  });
+};
+
+const renderTimezoneSearchResults = async (ctx: Context, query: string): Promise<void> => {
+  const results = searchTimezones(query);
+  const kb = new InlineKeyboard();
+  for (const timezone of results) {
+    const btn = await makeActionButton(ctx, {
+      label: `${timezone} (${formatUtcOffset(timezone)})`,
+      action: 'settings.timezone_pick',
+      data: { timezone }
+    });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'settings.timezone' });
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    titleKey: t('screens.settings.timezone_title'),
+    bodyLines: results.length
+      ? [t('screens.settings.timezone_search_results', { query }), t('screens.settings.timezone_search_prompt')]
+      : [t('screens.settings.timezone_search_empty', { query }), t('screens.settings.timezone_search_prompt')],
+    inlineKeyboard: kb
+  });
+};
+
+const renderQuietHoursSettings = async (ctx: Context, flash?: string): Promise<void> => {
+  const { settings } = await ensureUserAndSettings(ctx);
+  const current = getQuietHoursFromSettings(settings);
+  const kb = new InlineKeyboard();
+  for (const preset of QUIET_HOURS_PRESETS) {
+    const btn = await makeActionButton(ctx, { label: formatQuietHours(preset), action: 'settings.quiet_hours_set', data: preset });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  const customBtn = await makeActionButton(ctx, { label: t('buttons.settings_quiet_hours_custom'), action: 'settings.quiet_hours_custom' });
+  kb.text(customBtn.text, customBtn.callback_data).row();
+  if (current) {
+    const offBtn = await makeActionButton(ctx, { label: t('buttons.settings_quiet_hours_off'), action: 'settings.quiet_hours_set', data: { off: true } });
+    kb.text(offBtn.text, offBtn.callback_data).row();
+  }
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.settings' });
+  kb.text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    titleKey: t('screens.settings.quiet_hours_title'),
+    bodyLines: [
+      flash,
+      t('screens.settings.quiet_hours_current', { value: formatQuietHours(current) }),
+      '',
+      t('screens.settings.quiet_hours_hint')
+    ].filter((line): line is string => line !== undefined),
+    inlineKeyboard: kb
+  });
+};
+
+const renderCatchUpSettings = async (ctx: Context, flash?: string): Promise<void> => {
+  const { settings } = await ensureUserAndSettings(ctx);
+  const current = getCatchUpSettingsFromSettings(settings);
+  const kb = new InlineKeyboard();
+  for (const policy of CATCH_UP_POLICIES) {
+    const label = `${policy === current.policy ? '✅ ' : ''}${formatCatchUpPolicy(policy)}`;
+    const btn = await makeActionButton(ctx, { label, action: 'settings.catch_up_set', data: { policy } });
+    kb.text(btn.text, btn.callback_data).row();
+  }
+  for (const minutes of CATCH_UP_STALE_PRESETS_MINUTES) {
+    const label = `${minutes === current.staleAfterMinutes ? '✅ ' : ''}${formatCatchUpStale(minutes)}`;
+    const btn = await makeActionButton(ctx, { label, action: 'settings.catch_up_set', data: { staleAfterMinutes: minutes } });
+    kb.text(btn.text, btn.callback_data);
+  }
+  const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'nav.settings' });
+  kb.row().text(backBtn.text, backBtn.callback_data);
+
+  await renderScreen(ctx, {
+    titleKey: t('screens.settings.catch_up_title'),
+    bodyLines: [
+      flash,
+      t('screens.settings.catch_up_current', {
+        policy: formatCatchUpPolicy(current.policy),
+        stale: formatCatchUpStale(current.staleAfterMinutes)
+      }),
+      '',
+      t('screens.settings.catch_up_hint')
+    ].filter((line): line is string => line !== undefined),
+    inlineKeyboard: kb
+  });
+};
+
+/* ===== Commands ===== */
+
+const PAUSED_NOTICE_LIMIT = 10;
+
+/**
+ * Shown on /start when reminders were paused because the bot could not reach the user, or stopped after
+ * repeated failures. Returns false when there is nothing to report. Reaching /start means the user is back,
+ * so an inactive user is reactivated here.
+ */
+const renderPausedRemindersNotice = async (ctx: Context): Promise<boolean> => {
+  const { user } = await ensureUserAndSettings(ctx);
+  if (!user.is_active) {
+    await reactivateUser(user.id);
+    updateCachedUserContext(ctx, { user: { ...user, is_active: true, inactive_reason: null, inactive_since_utc: null } });
+  }
+
+  const { blocked, dead } = await listPausedReminders(user.id);
+  if (blocked.length === 0 && dead.length === 0) return false;
+
+  const titleOf = (reminder: ReminderRow): string =>
+    reminder.title && reminder.title.trim().length > 0 ? reminder.title : labels.reminders.untitled();
+  const lines: string[] = [];
+  if (blocked.length > 0) {
+    lines.push(t('screens.reminders.paused_blocked_intro', { count: String(blocked.length) }));
+    for (const reminder of blocked.slice(0, PAUSED_NOTICE_LIMIT)) {
+      lines.push(t('screens.reminders.paused_item', { title: titleOf(reminder) }));
+    }
+    if (blocked.length > PAUSED_NOTICE_LIMIT) {
+      lines.push(t('screens.reminders.paused_more', { count: String(blocked.length - PAUSED_NOTICE_LIMIT) }));
+    }
+  }
+  if (dead.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(t('screens.reminders.paused_dead_intro', { count: String(dead.length) }));
+    for (const reminder of dead.slice(0, PAUSED_NOTICE_LIMIT)) {
+      lines.push(
+        t('screens.reminders.paused_dead_item', { title: titleOf(reminder), error: reminder.last_error ?? t('screens.reminders.paused_unknown_error') })
+      );
+    }
+    if (dead.length > PAUSED_NOTICE_LIMIT) {
+      lines.push(t('screens.reminders.paused_more', { count: String(dead.length - PAUSED_NOTICE_LIMIT) }));
+    }
+  }
+
+  const resumeBtn = await makeActionButton(ctx, {
+    label: labels.remindersButtons.resumePaused({ count: String(blocked.length + dead.length) }),
+    action: 'reminders.resume_paused'
+  });
+  const listBtn = await makeActionButton(ctx, { label: labels.remindersButtons.openList(), action: 'nav.reminders' });
+  const laterBtn = await makeActionButton(ctx, { label: labels.remindersButtons.notNow(), action: 'nav.dashboard' });
+  await renderScreen(ctx, {
+    title: labels.reminders.pausedTitle(),
+    bodyLines: lines,
+    inlineKeyboard: new InlineKeyboard()
+      .text(resumeBtn.text, resumeBtn.callback_data)
+      .row()
+      .text(listBtn.text, listBtn.callback_data)
+      .row()
+      .text(laterBtn.text, laterBtn.callback_data)
+  });
+  return true;
+};
+
+bot.command('start', async (ctx: Context) => {
+  const shareCode = parseReminderSharePayload(typeof ctx.match === 'string' ? ctx.match : null);
+  if (shareCode) {
+    await joinSharedReminder(ctx, shareCode);
+    return;
+  }
+  const { settings, locale } = await ensureUserAndSettings(ctx);
+  const storedLanguage = readStoredLanguageCode(settings.settings_json as Record<string, unknown>);
+  if (!storedLanguage) {
+    await renderLanguageSelection(ctx, { origin: 'onboarding', currentLocale: locale });
+    return;
+  }
+  if (await renderPausedRemindersNotice(ctx)) return;
+  await renderDashboard(ctx);
+});
+
+bot.command('export_ics', async (ctx: Context) => {
+  await sendRemindersIcs(ctx);
+});
+
+bot.command('home', async (ctx: Context) => {
+  await renderDashboard(ctx);
+});
+
+bot.command('debug_inline', async (ctx: Context) => {
+  const keyboard = new InlineKeyboard().text(t('buttons.debug_inline'), 'dbg:test');
+  await ctx.reply(t('screens.debug_inline.title'), { reply_markup: keyboard });
+});
+
+bot.callbackQuery('dbg:test', async (ctx) => {
+  await safeAnswerCallback(ctx, { text: t('screens.debug_inline.success') });
+});
+
+const navButtons: Array<{ key: string; handler: (ctx: Context) => Promise<void> | void; label?: (locale: Locale) => string }> = [
+  { key: 'buttons.nav_dashboard', handler: renderDashboard },
+  { key: 'buttons.nav_daily_report', handler: async (ctx: Context) => renderDailyReportRoot(ctx) },
+  { key: 'buttons.notes', handler: renderNotesToday, label: () => labels.nav.notes() },
+  { key: 'buttons.nav_reportcar', handler: renderReportcar },
+  { key: 'buttons.nav_tasks', handler: renderTasks },
+  { key: 'buttons.nav_todo', handler: renderTodo },
+  { key: 'buttons.nav_planning', handler: renderPlanning },
+  { key: 'buttons.nav_my_day', handler: renderMyDay },
+  { key: 'buttons.nav_free_text', handler: renderNotesToday, label: () => labels.nav.freeText() },
+  { key: 'buttons.nav_reminders', handler: (ctx: Context) => renderReminders(ctx), label: () => labels.nav.reminders() },
+  { key: 'buttons.nav_rewards', handler: renderRewardCenter },
+  { key: 'buttons.nav_reports', handler: renderReportsMenu },
+  { key: 'buttons.nav_calendar', handler: renderCalendarEvents },
+  { key: 'buttons.nav_settings', handler: renderSettingsRoot },
+  { key: 'buttons.nav_ai', handler: renderAI }
+];
+navButtons.forEach(({ key, handler, label }) => {
+  const resolveLabel = (locale: Locale) => (label ? label(locale) : t(key, undefined, locale));
+  bot.hears([resolveLabel('en'), resolveLabel('fa')], async (ctx: Context) => {
+    clearQuickEntry(String(ctx.from?.id ?? ''));
+    await handler(ctx);
+  });
+});
+
+/**
+ * Tokenized callback handler
+ */
+bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
+  await safeAnswerCallback(ctx);
+
+  const traceId = getTraceId(ctx);
+
+  try {
+    const { user } = await ensureUserAndSettings(ctx);
+    const enabled = telemetryEnabledForUser(user.settings_json as Record<string, unknown>);
+
+    await logTelemetryEvent({ userId: user.id, traceId, eventName: 'callback_token_pressed', payload: { data: ctx.callbackQuery.data }, enabled });
+
+    const token = ctx.callbackQuery.data;
+    const payload = await consumeCallbackToken(token);
+
+    await logTelemetryEvent({ userId: user.id, traceId, eventName: 'callback_token_consumed', payload: { token, valid: Boolean(payload) }, enabled });
+
+    const action = typeof payload === 'object' && payload ? (payload as { action?: string }).action : null;
+
+    if (!action) {
+      await ctx.answerCallbackQuery({ text: t('errors.action_expired'), show_alert: true });
+      return;
+    }
+
+    // Leaving the quick entry prompt for any other screen ends quick entry.
+    if (!action.startsWith('dr.quick_entry')) clearQuickEntry(String(ctx.from?.id ?? ''));
+
+    switch (action) {
+      case 'noop':
+        return;
+
+      /* --- Navigation --- */
+      case 'nav.dashboard':
+        await renderDashboard(ctx);
+        return;
+      case 'nav.daily_report':
+        await renderDailyReportRoot(ctx);
+        return;
+      case 'nav.free_text':
+        await renderNotesToday(ctx);
+        return;
+      case 'dr.back':
+        await renderDashboard(ctx);
+        return;
+      case 'nav.reportcar':
+        await renderReportcar(ctx);
+        return;
+      case 'nav.tasks':
+        await renderTasks(ctx);
+        return;
+      case 'nav.reminders':
+        await renderReminders(ctx);
+        return;
+      case 'reminders.new': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetApply: undefined, presetInput: undefined });
+        setReminderFlow(stateKey, { mode: 'create', step: 'title', draft: {} });
+        await renderReminderTitlePrompt(ctx, 'create');
+        return;
+      }
+      case 'reminders.quick_new': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        setReminderFlow(stateKey, { mode: 'create', step: 'quick_text', draft: {}, quick: true });
+        await renderReminderQuickPrompt(ctx);
+        return;
+      }
+      case 'reminders.quick_date': {
+        if (!ctx.from) break;
+        const flow = userStates.get(String(ctx.from.id))?.reminderFlow;
+        if (!flow || !isQuickReminderFlow(flow)) {
+          await renderReminders(ctx);
+          return;
+        }
+        await renderReminderDateSelect(ctx, { mode: 'create' });
+        return;
+      }
+      case 'reminders.quick_time': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow || !isQuickReminderFlow(flow)) {
+          await renderReminders(ctx);
+          return;
+        }
+        const draft = ensureReminderTimeDraft(flow.draft, user.timezone ?? config.defaultTimezone);
+        setReminderFlow(stateKey, { ...flow, step: 'time', draft });
+        await renderReminderTimePicker(ctx, { mode: 'create', draft });
+        return;
+      }
+      case 'reminders.quick_save': {
+        if (!ctx.from) break;
+        const flow = userStates.get(String(ctx.from.id))?.reminderFlow;
+        if (!flow || !isQuickReminderFlow(flow)) {
+          await renderReminders(ctx);
+          return;
+        }
+        await persistReminderSchedule(ctx, flow);
+        return;
+      }
+      case 'nav.rewards':
+        await renderRewardCenter(ctx);
+        return;
+      case 'nav.reports':
+        await renderReportsMenu(ctx);
+        return;
+      case 'nav.settings':
+        await renderSettingsRoot(ctx);
+        return;
+      case 'notes.add': {
+        if (!ctx.from) break;
+        const { user } = await ensureUserAndSettings(ctx);
+        const { date } = getTodayDateString(user.timezone ?? config.defaultTimezone);
+        setNotesFlow(String(ctx.from.id), { mode: 'create', step: 'title', draft: { noteDate: date } });
+
+        const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'notes.skip_title' });
+        const cancelBtn = await makeActionButton(ctx, { label: labels.notesButtons.cancel(), action: 'notes.cancel_add' });
+        const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
+
+        await renderScreen(ctx, {
+          title: labels.notes.title(),
+          bodyLines: [labels.notes.askTitle()],
+          inlineKeyboard: kb
+        });
+        return;
+      }
+      case 'notes.skip_title': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const state = userStates.get(stateKey);
+        if (state?.notesFlow && state.notesFlow.mode === 'create' && state.notesFlow.step === 'title') {
+          setNotesFlow(stateKey, { mode: 'create', step: 'body', draft: { ...state.notesFlow.draft, title: null } });
+        }
+        await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.askBody()] });
+        return;
+      }
+      case 'notes.cancel_add': {
+        if (ctx.from) {
+          const stateKey = String(ctx.from.id);
+          const session = userStates.get(stateKey)?.noteUploadSession;
+          if (session?.timer) {
+            clearTimeout(session.timer);
+          }
+          setNoteUploadSession(stateKey, undefined);
+          clearNotesFlow(stateKey);
+        }
+        await renderNotesToday(ctx);
+        return;
+      }
+      case 'notes.clear_today': {
+        if (!ctx.from) break;
+        const { user } = await ensureUserAndSettings(ctx);
+        const { date } = getTodayDateString(user.timezone ?? config.defaultTimezone);
+        setNotesFlow(String(ctx.from.id), { mode: 'clear_date', noteDate: date });
+        const confirmBtn = await makeActionButton(ctx, { label: labels.notesButtons.confirmClear(), action: 'notes.clear_confirm' });
+        const cancelBtn = await makeActionButton(ctx, { label: labels.notesButtons.cancel(), action: 'notes.clear_cancel' });
+        const kb = new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data);
+        await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.clearConfirm()], inlineKeyboard: kb });
+        return;
+      }
+      case 'notes.clear_confirm': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.notesFlow;
+        if (flow?.mode === 'clear_date') {
+          const { user } = await ensureUserAndSettings(ctx);
+          const notes = await listNotesByDate({ userId: user.id, noteDate: flow.noteDate });
+          for (const note of notes) {
+            await markNoteArchiveDeleted(ctx, note.id);
+            await deleteNote({ userId: user.id, id: note.id });
+          }
+        }
+        clearNotesFlow(stateKey);
+        await renderNotesToday(ctx);
+        return;
+      }
+      case 'notes.clear_cancel': {
+        if (ctx.from) clearNotesFlow(String(ctx.from.id));
+        await renderNotesToday(ctx);
+        return;
+      }
+      case 'notes.history':
+        await renderNotesHistory(ctx, 0);
+        return;
+      case 'notes.history_page': {
+        const page = Number((payload as { data?: { page?: number } }).data?.page ?? 0);
+        await renderNotesHistory(ctx, Number.isFinite(page) ? page : 0);
+        return;
+      }
+      case 'notes.history_date': {
+        const data = (payload as { data?: { date?: string; historyPage?: number } }).data;
+        const date = data?.date;
+        if (!date) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const historyPage = Number(data?.historyPage ?? 0);
+        await renderNotesDate(ctx, date, 0, Number.isFinite(historyPage) ? historyPage : 0);
+        return;
+      }
+      case 'notes.history_date_page': {
+        const data = (payload as { data?: { date?: string; page?: number; historyPage?: number } }).data;
+        const date = data?.date;
+        if (!date) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const page = Number(data?.page ?? 0);
+        const historyPage = Number(data?.historyPage ?? 0);
+        await renderNotesDate(ctx, date, Number.isFinite(page) ? page : 0, Number.isFinite(historyPage) ? historyPage : 0);
+        return;
+      }
+      case 'notes.view_note': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const page = Number(data?.page ?? 0);
+        const historyPage = Number(data?.historyPage ?? 0);
+        await renderNoteDetails(ctx, noteId, {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(page) ? page : 0,
+          historyPage: Number.isFinite(historyPage) ? historyPage : 0
+        });
+        return;
+      }
+      case 'notes.delete_note': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const { user } = await ensureUserAndSettings(ctx);
+        const note = await getNoteById({ userId: user.id, id: noteId });
+        if (note) {
+          await markNoteArchiveDeleted(ctx, noteId);
+          const archiveChatId = getNotesArchiveChatId();
+          if (archiveChatId) {
+            const title = note.title && note.title.trim().length > 0 ? note.title : labels.notes.untitled();
+            const marker = [
+              labels.archive.deletedBy({ user: buildUserStatusLine(ctx) }),
+              labels.archive.typeLine({ type: 'note' }),
+              labels.archive.titleLine({ title }),
+              labels.archive.timeLine({ time: note.note_date }),
+              labels.archive.appUserLine({ id: note.id })
+            ].join('\n');
+            try {
+              await ctx.api.sendMessage(archiveChatId, marker, { disable_notification: true });
+            } catch (error) {
+              console.error({ scope: 'notes', event: 'archive_delete_marker_failed', error, noteId, archiveChatId });
+            }
+          }
+          await deleteNote({ userId: user.id, id: noteId });
+          const page = Number(data?.page ?? 0);
+          const historyPage = Number(data?.historyPage ?? 0);
+          await renderNotesDate(ctx, note.note_date, Number.isFinite(page) ? page : 0, Number.isFinite(historyPage) ? historyPage : 0);
+        } else {
+          await renderNotesHistory(ctx);
+        }
+        return;
+      }
+      case 'notes.edit_menu': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const page = Number(data?.page ?? 0);
+        const historyPage = Number(data?.historyPage ?? 0);
+        await renderNoteEditMenu(ctx, noteId, {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(page) ? page : 0,
+          historyPage: Number.isFinite(historyPage) ? historyPage : 0
+        });
+        return;
+      }
+      case 'notes.edit_title': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const stateKey = String(ctx.from.id);
+        const viewContext = {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        };
+        setNotesFlow(stateKey, { mode: 'edit', noteId, step: 'title', viewContext });
+        const skipBtn = await makeActionButton(ctx, {
+          label: labels.notesButtons.skip(),
+          action: 'notes.edit_title_skip',
+          data: { noteId, ...viewContext }
+        });
+        const backBtn = await makeActionButton(ctx, { label: labels.notesButtons.back(), action: 'notes.edit_menu', data: { noteId, ...viewContext } });
+        const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
+        await renderScreen(ctx, { title: labels.notes.editMenuTitle(), bodyLines: [labels.notes.editTitlePrompt()], inlineKeyboard: kb });
+        return;
+      }
+      case 'notes.edit_title_skip': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const { user } = await ensureUserAndSettings(ctx);
+        await updateNote({ userId: user.id, id: noteId, title: null });
+        clearNotesFlow(String(ctx.from.id));
+        await renderNoteDetails(ctx, noteId, {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        });
+        return;
+      }
+      case 'notes.edit_body': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const stateKey = String(ctx.from.id);
+        const viewContext = {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        };
+        setNotesFlow(stateKey, { mode: 'edit', noteId, step: 'body', viewContext });
+        const backBtn = await makeActionButton(ctx, { label: labels.notesButtons.back(), action: 'notes.edit_menu', data: { noteId, ...viewContext } });
+        const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
+        await renderScreen(ctx, { title: labels.notes.editMenuTitle(), bodyLines: [labels.notes.editBodyPrompt()], inlineKeyboard: kb });
+        return;
+      }
+      case 'notes.attach_done': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesToday(ctx);
+          return;
+        }
+        await startNoteCaptionFlow(ctx, noteId, {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        });
         return;
-
-      /* --- Navigation --- */
-      case 'nav.dashboard':
-        await renderDashboard(ctx);
+      }
+      case 'notes.attach_cancel': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        const stateKey = String(ctx.from.id);
+        const session = userStates.get(stateKey)?.noteUploadSession;
+        if (session?.timer) {
+          clearTimeout(session.timer);
+        }
+        setNoteUploadSession(stateKey, undefined);
+        clearNotesFlow(stateKey);
+        if (!noteId) {
+          await renderNotesToday(ctx);
+          return;
+        }
+        await renderNoteDetails(ctx, noteId, {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        });
         return;
-      case 'nav.daily_report':
-        await renderDailyReportRoot(ctx);
+      }
+      case 'notes.attachments_save': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        await startNoteCaptionFlow(ctx, data.noteId, {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        });
         return;
-      case 'nav.free_text':
-        await renderNotesToday(ctx);
+      }
+      case 'notes.attachments_continue': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const stateKey = String(ctx.from.id);
+        const session = userStates.get(stateKey)?.noteUploadSession;
+        if (session?.timer) {
+          clearTimeout(session.timer);
+        }
+        const timer = setTimeout(async () => {
+          const latestState = userStates.get(stateKey);
+          const currentSession = latestState?.noteUploadSession;
+          if (!currentSession || currentSession.noteId !== data.noteId) return;
+          const idleFor = Date.now() - currentSession.lastReceivedAt;
+          if (idleFor < NOTE_UPLOAD_IDLE_MS) return;
+          const saveBtn = await makeActionButton(ctx, {
+            label: labels.notesButtons.saveNow(),
+            action: 'notes.attachments_save',
+            data: { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
+          });
+          const continueBtn = await makeActionButton(ctx, {
+            label: labels.notesButtons.continue(),
+            action: 'notes.attachments_continue',
+            data: { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
+          });
+          const kb = new InlineKeyboard().text(saveBtn.text, saveBtn.callback_data).row().text(continueBtn.text, continueBtn.callback_data);
+          setNoteUploadSession(stateKey, { ...currentSession, prompted: true });
+          await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.attachmentsIdlePrompt()], inlineKeyboard: kb });
+        }, NOTE_UPLOAD_IDLE_MS);
+        setNoteUploadSession(stateKey, {
+          ...(session ?? { noteId: data.noteId, pendingKinds: {}, lastReceivedAt: Date.now() }),
+          noteId: data.noteId,
+          viewContext: { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage },
+          lastReceivedAt: Date.now(),
+          prompted: false,
+          timer
+        });
+        await renderNoteAttachmentPrompt(ctx, data.noteId, {
+          noteDate: data.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        });
         return;
-      case 'dr.back':
-        await renderDashboard(ctx);
+      }
+      case 'notes.attach_more': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        const noteId = data?.noteId;
+        if (!noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const viewContext = {
+          noteDate: data?.noteDate,
+          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
+          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
+        };
+        setNotesFlow(String(ctx.from.id), { mode: 'create', step: 'attachments', noteId, viewContext });
+        await renderNoteAttachmentPrompt(ctx, noteId, viewContext);
         return;
-      case 'nav.reportcar':
-        await renderReportcar(ctx);
+      }
+      case 'notes.caption_all': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        setNotesFlow(String(ctx.from.id), {
+          mode: 'create',
+          step: 'caption_all',
+          noteId: data.noteId,
+          viewContext: { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
+        });
+        const skipBtn = await makeActionButton(ctx, {
+          label: labels.notesButtons.skip(),
+          action: 'notes.caption_skip',
+          data: { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
+        });
+        const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data);
+        await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.captionAllPrompt()], inlineKeyboard: kb });
         return;
-      case 'nav.tasks':
-        await renderTasks(ctx);
+      }
+      case 'notes.caption_by_category': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const pending = await listPendingNoteAttachments({ noteId: data.noteId });
+        const categories = buildNoteCaptionCategories(pending);
+        if (categories.length === 0) {
+          await clearPendingNoteAttachments({ noteId: data.noteId });
+          clearNotesFlow(String(ctx.from.id));
+          await finalizeNoteArchive(ctx, data.noteId, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+          return;
+        }
+        await promptNoteCaptionCategory(
+          ctx,
+          data.noteId,
+          categories[0],
+          { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage },
+          categories
+        );
         return;
-      case 'nav.reminders':
-        await renderReminders(ctx);
+      }
+      case 'notes.caption_skip': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        await clearPendingNoteAttachments({ noteId: data.noteId });
+        clearNotesFlow(String(ctx.from.id));
+        await finalizeNoteArchive(ctx, data.noteId, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
         return;
-      case 'reminders.new': {
+      }
+      case 'notes.caption_category_skip': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        setReminderFlow(stateKey, { mode: 'create', step: 'title', draft: {} });
-        await renderReminderTitlePrompt(ctx, 'create');
+        const flow = userStates.get(stateKey)?.notesFlow;
+        if (!flow || flow.mode !== 'create' || flow.step !== 'caption_category' || !flow.currentCategory) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const category = flow.currentCategory;
+        const kinds =
+          category === 'files'
+            ? (['document', 'audio'] as NoteAttachmentKind[])
+            : ([category] as NoteAttachmentKind[]);
+        await clearPendingNoteAttachmentsByKinds({ noteId: flow.noteId, kinds });
+        const remaining = (flow.captionCategories ?? []).filter((item) => item !== category);
+        if (remaining.length === 0) {
+          await clearPendingNoteAttachments({ noteId: flow.noteId });
+          clearNotesFlow(stateKey);
+          await finalizeNoteArchive(ctx, flow.noteId, flow.viewContext ?? {});
+          return;
+        }
+        await promptNoteCaptionCategory(ctx, flow.noteId, remaining[0], flow.viewContext ?? {}, remaining);
+        return;
+      }
+      case 'notes.attachments_kind': {
+        const data = (payload as { data?: { noteId?: string; kind?: NoteAttachmentKind; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId || !data.kind) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        await sendNoteAttachmentsByKind(ctx, {
+          noteId: data.noteId,
+          kind: data.kind,
+          noteDate: data.noteDate ?? '',
+          page: Number(data.page ?? 0),
+          historyPage: Number(data.historyPage ?? 0)
+        });
+        return;
+      }
+      case 'notes.attachment_open': {
+        const data = (payload as { data?: { noteId?: string; attachmentId?: string; kind?: NoteAttachmentKind; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId || !data.attachmentId || !data.kind) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const attachment = await getNoteAttachmentById({ noteId: data.noteId, attachmentId: data.attachmentId });
+        if (!attachment) {
+          await renderNoteAttachmentsList(ctx, {
+            noteId: data.noteId,
+            kind: data.kind,
+            noteDate: data.noteDate ?? '',
+            page: Number(data.page ?? 0),
+            historyPage: Number(data.historyPage ?? 0)
+          });
+          return;
+        }
+        try {
+          const targetId = ctx.chat?.id ?? ctx.from?.id;
+          if (!targetId) {
+            await renderScreen(ctx, { title: labels.notes.detailTitleLabel(), bodyLines: [labels.notes.attachmentSendFailed()] });
+            return;
+          }
+          const category = resolveNoteCaptionCategory(attachment.kind);
+          await sendNoteAttachmentsToUser(ctx, targetId, category, [attachment]);
+        } catch (error) {
+          console.error({ scope: 'notes', event: 'attachment_send_failed', error, attachmentId: attachment.id });
+          await renderScreen(ctx, { title: labels.notes.detailTitleLabel(), bodyLines: [labels.notes.attachmentSendFailed()] });
+        }
+        const page = Number(data.page ?? 0);
+        const historyPage = Number(data.historyPage ?? 0);
+        await renderNoteAttachmentsList(ctx, {
+          noteId: data.noteId,
+          kind: data.kind,
+          noteDate: data.noteDate ?? '',
+          page: Number.isFinite(page) ? page : 0,
+          historyPage: Number.isFinite(historyPage) ? historyPage : 0
+        });
         return;
       }
-      case 'nav.rewards':
-        await renderRewardCenter(ctx);
-        return;
-      case 'nav.reports':
-        await renderReportsMenu(ctx);
-        return;
-      case 'nav.settings':
-        await renderSettingsRoot(ctx);
-        return;
-      case 'notes.add': {
-        if (!ctx.from) break;
-        const { user } = await ensureUserAndSettings(ctx);
-        const { date } = getTodayDateString(user.timezone ?? config.defaultTimezone);
-        setNotesFlow(String(ctx.from.id), { mode: 'create', step: 'title', draft: { noteDate: date } });
-
-        const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'notes.skip_title' });
-        const cancelBtn = await makeActionButton(ctx, { label: labels.notesButtons.cancel(), action: 'notes.cancel_add' });
-        const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data).row().text(cancelBtn.text, cancelBtn.callback_data);
-
+      case 'notes.view_all': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const note = await getNoteById({ userId: user.id, id: data.noteId });
+        if (!note) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const local = formatInstantToLocal(note.created_at, user.timezone ?? config.defaultTimezone);
+        const title = note.title && note.title.trim().length > 0 ? note.title : labels.notes.untitled();
         await renderScreen(ctx, {
-          title: labels.notes.title(),
-          bodyLines: [labels.notes.askTitle()],
-          inlineKeyboard: kb
+          title: labels.notes.detailTitleLabel(),
+          bodyLines: [
+            labels.notes.detailDate({ date: note.note_date }),
+            labels.notes.detailTime({ time: local.time }),
+            labels.notes.detailTitle({ title })
+          ]
         });
+        const targetId = ctx.chat?.id ?? ctx.from?.id ?? Number(user.telegram_id);
+        if (!targetId) {
+          await renderNoteDetails(ctx, note.id, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+          return;
+        }
+        await sendNoteEverything(ctx, { noteId: note.id, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
         return;
       }
-      case 'notes.skip_title': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const state = userStates.get(stateKey);
-        if (state?.notesFlow && state.notesFlow.mode === 'create' && state.notesFlow.step === 'title') {
-          setNotesFlow(stateKey, { mode: 'create', step: 'body', draft: { ...state.notesFlow.draft, title: null } });
+      case 'notes.body_view': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
         }
-        await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.askBody()] });
+        const note = await getNoteById({ userId: user.id, id: data.noteId });
+        if (!note) {
+          await renderNotesHistory(ctx);
+          return;
+        }
+        const targetId = ctx.chat?.id ?? ctx.from?.id ?? Number(user.telegram_id);
+        if (!targetId) {
+          await renderNoteDetails(ctx, note.id, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+          return;
+        }
+        if (note.content_group_key) {
+          await copyArchiveGroupToUser(ctx, { userChatId: targetId, groupKey: note.content_group_key });
+        } else if (note.description ?? note.body) {
+          const fullText = note.description ?? note.body ?? '';
+          for (const chunk of splitTextForTelegram(fullText)) {
+            await ctx.api.sendMessage(targetId, chunk);
+          }
+        }
+        await renderNoteDetails(ctx, note.id, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
         return;
       }
-      case 'notes.cancel_add': {
-        if (ctx.from) {
-          const stateKey = String(ctx.from.id);
-          const session = userStates.get(stateKey)?.noteUploadSession;
-          if (session?.timer) {
-            clearTimeout(session.timer);
-          }
-          setNoteUploadSession(stateKey, undefined);
-          clearNotesFlow(stateKey);
+      case 'notes.send_all': {
+        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
+        if (!data?.noteId) {
+          await renderNotesHistory(ctx);
+          return;
         }
-        await renderNotesToday(ctx);
+        await sendNoteEverything(ctx, { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
         return;
       }
-      case 'notes.clear_today': {
-        if (!ctx.from) break;
+      case 'settings.language': {
+        const { settings, locale } = await ensureUserAndSettings(ctx);
+        await renderLanguageSelection(ctx, {
+          origin: 'settings',
+          currentLocale: readStoredLanguageCode(settings.settings_json as Record<string, unknown>) ?? locale
+        });
+        return;
+      }
+      case 'settings.emoji_toggle': {
         const { user } = await ensureUserAndSettings(ctx);
-        const { date } = getTodayDateString(user.timezone ?? config.defaultTimezone);
-        setNotesFlow(String(ctx.from.id), { mode: 'clear_date', noteDate: date });
-        const confirmBtn = await makeActionButton(ctx, { label: labels.notesButtons.confirmClear(), action: 'notes.clear_confirm' });
-        const cancelBtn = await makeActionButton(ctx, { label: labels.notesButtons.cancel(), action: 'notes.clear_cancel' });
-        const kb = new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data);
-        await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.clearConfirm()], inlineKeyboard: kb });
+        const current = await getUserBooleanSetting(user.id, EMOJI_SETTING_KEY, config.ui.emojiEnabled);
+        const next = !current;
+        await setUserSetting(user.id, EMOJI_SETTING_KEY, next ? 'true' : 'false');
+        await runWithEmojiSetting(next, async () => {
+          await renderSettingsRoot(ctx);
+        });
         return;
       }
-      case 'notes.clear_confirm': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.notesFlow;
-        if (flow?.mode === 'clear_date') {
-          const { user } = await ensureUserAndSettings(ctx);
-          const notes = await listNotesByDate({ userId: user.id, noteDate: flow.noteDate });
-          for (const note of notes) {
-            await markNoteArchiveDeleted(ctx, note.id);
-            await deleteNote({ userId: user.id, id: note.id });
-          }
+      case 'language.set': {
+        const data = (payload as { data?: { language?: Locale; origin?: LanguageScreenOrigin } }).data;
+        const language = data?.language;
+        const origin = data?.origin ?? 'onboarding';
+        if (!language) {
+          await renderDashboard(ctx);
+          return;
         }
-        clearNotesFlow(stateKey);
-        await renderNotesToday(ctx);
+        await applyLanguageSelection(ctx, language, origin);
         return;
       }
-      case 'notes.clear_cancel': {
-        if (ctx.from) clearNotesFlow(String(ctx.from.id));
-        await renderNotesToday(ctx);
+      case 'routines.root':
+        await renderRoutinesRoot(ctx);
         return;
-      }
-      case 'notes.history':
-        await renderNotesHistory(ctx, 0);
+      case 'routines.add': {
+        const telegramId = String(ctx.from?.id ?? '');
+        clearRoutineFlow(telegramId);
+        setRoutineFlow(telegramId, { mode: 'create', step: 'title', draft: { xpMode: 'none', routineType: 'boolean' } });
+        await promptRoutineTitle(ctx, {});
         return;
-      case 'notes.history_page': {
-        const page = Number((payload as { data?: { page?: number } }).data?.page ?? 0);
-        await renderNotesHistory(ctx, Number.isFinite(page) ? page : 0);
+      }
+      case 'routines.view': {
+        const routineId = (payload as { data?: { routineId?: string } }).data?.routineId;
+        if (!routineId) {
+          await renderRoutinesRoot(ctx);
+          return;
+        }
+        await renderRoutineDetails(ctx, routineId);
         return;
       }
-      case 'notes.history_date': {
-        const data = (payload as { data?: { date?: string; historyPage?: number } }).data;
-        const date = data?.date;
-        if (!date) {
-          await renderNotesHistory(ctx);
+      case 'routines.tasks': {
+        const routineId = (payload as { data?: { routineId?: string } }).data?.routineId;
+        if (!routineId) {
+          await renderRoutinesRoot(ctx);
           return;
         }
-        const historyPage = Number(data?.historyPage ?? 0);
-        await renderNotesDate(ctx, date, 0, Number.isFinite(historyPage) ? historyPage : 0);
+        await renderRoutineTasks(ctx, routineId);
         return;
       }
-      case 'notes.history_date_page': {
-        const data = (payload as { data?: { date?: string; page?: number; historyPage?: number } }).data;
-        const date = data?.date;
-        if (!date) {
-          await renderNotesHistory(ctx);
+      case 'routines.toggle': {
+        const routineId = (payload as { data?: { routineId?: string } }).data?.routineId;
+        if (!routineId) {
+          await renderRoutinesRoot(ctx);
           return;
         }
-        const page = Number(data?.page ?? 0);
-        const historyPage = Number(data?.historyPage ?? 0);
-        await renderNotesDate(ctx, date, Number.isFinite(page) ? page : 0, Number.isFinite(historyPage) ? historyPage : 0);
+        const { user } = await ensureUserAndSettings(ctx);
+        const routine = await getRoutineById(routineId);
+        if (routine && routine.user_id === user.id) {
+          await updateRoutine(routineId, { isActive: !routine.is_active });
+          clearReportContextCache();
+        }
+        await renderRoutineDetails(ctx, routineId);
         return;
       }
-      case 'notes.view_note': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+      case 'reminders.edit_open': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const page = Number(data?.page ?? 0);
-        const historyPage = Number(data?.historyPage ?? 0);
-        await renderNoteDetails(ctx, noteId, {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(page) ? page : 0,
-          historyPage: Number.isFinite(historyPage) ? historyPage : 0
-        });
+        await renderReminderDetails(ctx, reminderId);
         return;
       }
-      case 'notes.delete_note': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+      case 'reminders.desc_view': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const { user } = await ensureUserAndSettings(ctx);
-        const note = await getNoteById({ userId: user.id, id: noteId });
-        if (note) {
-          await markNoteArchiveDeleted(ctx, noteId);
-          const archiveChatId = getNotesArchiveChatId();
-          if (archiveChatId) {
-            const title = note.title && note.title.trim().length > 0 ? note.title : labels.notes.untitled();
-            const marker = [
-              labels.archive.deletedBy({ user: buildUserStatusLine(ctx) }),
-              labels.archive.typeLine({ type: 'note' }),
-              labels.archive.titleLine({ title }),
-              labels.archive.timeLine({ time: note.note_date }),
-              labels.archive.appUserLine({ id: note.id })
-            ].join('\n');
-            try {
-              await ctx.api.sendMessage(archiveChatId, marker, { disable_notification: true });
-            } catch (error) {
-              console.error({ scope: 'notes', event: 'archive_delete_marker_failed', error, noteId, archiveChatId });
-            }
-          }
-          await deleteNote({ userId: user.id, id: noteId });
-          const page = Number(data?.page ?? 0);
-          const historyPage = Number(data?.historyPage ?? 0);
-          await renderNotesDate(ctx, note.note_date, Number.isFinite(page) ? page : 0, Number.isFinite(historyPage) ? historyPage : 0);
-        } else {
-          await renderNotesHistory(ctx);
+        const reminder = await getReminderById(reminderId);
+        if (!reminder || reminder.user_id !== user.id) {
+          await renderReminders(ctx);
+          return;
+        }
+        const targetId = ctx.chat?.id ?? ctx.from?.id ?? Number(user.telegram_id);
+        if (!targetId) {
+          await renderReminderDetails(ctx, reminderId);
+          return;
+        }
+        if (reminder.description) {
+          for (const chunk of splitTextForTelegram(reminder.description)) {
+            await ctx.api.sendMessage(targetId, chunk);
+          }
         }
+        await renderReminderDetails(ctx, reminderId);
         return;
       }
-      case 'notes.edit_menu': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+      case 'reminders.edit_title': {
+        if (!ctx.from) break;
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const page = Number(data?.page ?? 0);
-        const historyPage = Number(data?.historyPage ?? 0);
-        await renderNoteEditMenu(ctx, noteId, {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(page) ? page : 0,
-          historyPage: Number.isFinite(historyPage) ? historyPage : 0
-        });
+        const stateKey = String(ctx.from.id);
+        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'title', draft: {} });
+        await renderReminderTitlePrompt(ctx, 'edit', reminderId);
         return;
       }
-      case 'notes.edit_title': {
+      case 'reminders.edit_detail': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
         const stateKey = String(ctx.from.id);
-        const viewContext = {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        };
-        setNotesFlow(stateKey, { mode: 'edit', noteId, step: 'title', viewContext });
-        const skipBtn = await makeActionButton(ctx, {
-          label: labels.notesButtons.skip(),
-          action: 'notes.edit_title_skip',
-          data: { noteId, ...viewContext }
-        });
-        const backBtn = await makeActionButton(ctx, { label: labels.notesButtons.back(), action: 'notes.edit_menu', data: { noteId, ...viewContext } });
-        const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data).row().text(backBtn.text, backBtn.callback_data);
-        await renderScreen(ctx, { title: labels.notes.editMenuTitle(), bodyLines: [labels.notes.editTitlePrompt()], inlineKeyboard: kb });
+        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'description', draft: {} });
+        await renderReminderDescriptionPrompt(ctx, 'edit', reminderId);
         return;
       }
-      case 'notes.edit_title_skip': {
+      case 'reminders.edit_date': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const { user } = await ensureUserAndSettings(ctx);
-        await updateNote({ userId: user.id, id: noteId, title: null });
-        clearNotesFlow(String(ctx.from.id));
-        await renderNoteDetails(ctx, noteId, {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        });
+        const stateKey = String(ctx.from.id);
+        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'schedule_type', draft: {} });
+        await renderReminderScheduleTypePrompt(ctx, 'edit', reminderId);
         return;
       }
-      case 'notes.edit_body': {
+      case 'reminders.edit_time': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
         const stateKey = String(ctx.from.id);
-        const viewContext = {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        };
-        setNotesFlow(stateKey, { mode: 'edit', noteId, step: 'body', viewContext });
-        const backBtn = await makeActionButton(ctx, { label: labels.notesButtons.back(), action: 'notes.edit_menu', data: { noteId, ...viewContext } });
-        const kb = new InlineKeyboard().text(backBtn.text, backBtn.callback_data);
-        await renderScreen(ctx, { title: labels.notes.editMenuTitle(), bodyLines: [labels.notes.editBodyPrompt()], inlineKeyboard: kb });
+        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'schedule_type', draft: {} });
+        await renderReminderScheduleTypePrompt(ctx, 'edit', reminderId);
         return;
       }
-      case 'notes.attach_done': {
+      case 'reminders.edit_schedule': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesToday(ctx);
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        await startNoteCaptionFlow(ctx, noteId, {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        });
+        const stateKey = String(ctx.from.id);
+        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'schedule_type', draft: {} });
+        await renderReminderScheduleTypePrompt(ctx, 'edit', reminderId);
         return;
       }
-      case 'notes.attach_cancel': {
+      case 'reminders.attach': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
         const stateKey = String(ctx.from.id);
-        const session = userStates.get(stateKey)?.noteUploadSession;
-        if (session?.timer) {
-          clearTimeout(session.timer);
+        const existing = userStates.get(stateKey)?.reminderFlow;
+        const nextDraft = existing?.draft ?? {};
+        if (reminderId) {
+          setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'attachments', draft: nextDraft });
+          await renderReminderAttachmentPrompt(ctx, { mode: 'edit', reminderId });
+        } else {
+          const existingReminderId = existing ? getReminderIdFromFlow(existing) : undefined;
+          setReminderFlow(stateKey, { mode: 'create', reminderId: existingReminderId, step: 'attachments', draft: nextDraft });
+          await renderReminderAttachmentPrompt(ctx, { mode: 'create', reminderId: existingReminderId });
         }
-        setNoteUploadSession(stateKey, undefined);
-        clearNotesFlow(stateKey);
-        if (!noteId) {
-          await renderNotesToday(ctx);
+        return;
+      }
+      case 'reminders.attach_done': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
           return;
         }
-        await renderNoteDetails(ctx, noteId, {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        });
+        await startReminderCaptionFlow(ctx, flow);
         return;
       }
-      case 'notes.attachments_save': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+      case 'reminders.attachments_save': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
           return;
         }
-        await startNoteCaptionFlow(ctx, data.noteId, {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        });
+        await startReminderCaptionFlow(ctx, flow);
         return;
       }
-      case 'notes.attachments_continue': {
+      case 'reminders.attachments_continue': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        const reminderId = flow ? getReminderIdFromFlow(flow) : undefined;
+        if (!flow || !reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const stateKey = String(ctx.from.id);
-        const session = userStates.get(stateKey)?.noteUploadSession;
+        const session = userStates.get(stateKey)?.reminderUploadSession;
         if (session?.timer) {
           clearTimeout(session.timer);
         }
         const timer = setTimeout(async () => {
           const latestState = userStates.get(stateKey);
-          const currentSession = latestState?.noteUploadSession;
-          if (!currentSession || currentSession.noteId !== data.noteId) return;
+          const currentSession = latestState?.reminderUploadSession;
+          if (!currentSession || currentSession.reminderId !== reminderId) return;
           const idleFor = Date.now() - currentSession.lastReceivedAt;
-          if (idleFor < NOTE_UPLOAD_IDLE_MS) return;
-          const saveBtn = await makeActionButton(ctx, {
-            label: labels.notesButtons.saveNow(),
-            action: 'notes.attachments_save',
-            data: { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
-          });
-          const continueBtn = await makeActionButton(ctx, {
-            label: labels.notesButtons.continue(),
-            action: 'notes.attachments_continue',
-            data: { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
-          });
+          if (idleFor < REMINDER_UPLOAD_IDLE_MS) return;
+          const saveBtn = await makeActionButton(ctx, { label: labels.notesButtons.saveNow(), action: 'reminders.attachments_save', data: { reminderId } });
+          const continueBtn = await makeActionButton(ctx, { label: labels.notesButtons.continue(), action: 'reminders.attachments_continue', data: { reminderId } });
           const kb = new InlineKeyboard().text(saveBtn.text, saveBtn.callback_data).row().text(continueBtn.text, continueBtn.callback_data);
-          setNoteUploadSession(stateKey, { ...currentSession, prompted: true });
-          await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.attachmentsIdlePrompt()], inlineKeyboard: kb });
-        }, NOTE_UPLOAD_IDLE_MS);
-        setNoteUploadSession(stateKey, {
-          ...(session ?? { noteId: data.noteId, pendingKinds: {}, lastReceivedAt: Date.now() }),
-          noteId: data.noteId,
-          viewContext: { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage },
+          setReminderUploadSession(stateKey, { ...currentSession, prompted: true });
+          await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.attachmentsIdlePrompt()], inlineKeyboard: kb });
+        }, REMINDER_UPLOAD_IDLE_MS);
+        setReminderUploadSession(stateKey, {
+          ...(session ?? { reminderId, pendingKinds: {}, lastReceivedAt: Date.now() }),
+          reminderId,
           lastReceivedAt: Date.now(),
           prompted: false,
           timer
         });
-        await renderNoteAttachmentPrompt(ctx, data.noteId, {
-          noteDate: data.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        });
+        await renderReminderAttachmentPrompt(ctx, { mode: flow.mode, reminderId });
         return;
       }
-      case 'notes.attach_more': {
+      case 'reminders.caption_all': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        const noteId = data?.noteId;
-        if (!noteId) {
-          await renderNotesHistory(ctx);
+        const data = (payload as { data?: { reminderId?: string } }).data;
+        if (!data?.reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const viewContext = {
-          noteDate: data?.noteDate,
-          page: Number.isFinite(Number(data?.page)) ? Number(data?.page) : 0,
-          historyPage: Number.isFinite(Number(data?.historyPage)) ? Number(data?.historyPage) : 0
-        };
-        setNotesFlow(String(ctx.from.id), { mode: 'create', step: 'attachments', noteId, viewContext });
-        await renderNoteAttachmentPrompt(ctx, noteId, viewContext);
-        return;
-      }
-      case 'notes.caption_all': {
-        if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
           return;
         }
-        setNotesFlow(String(ctx.from.id), {
-          mode: 'create',
-          step: 'caption_all',
-          noteId: data.noteId,
-          viewContext: { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
-        });
-        const skipBtn = await makeActionButton(ctx, {
-          label: labels.notesButtons.skip(),
-          action: 'notes.caption_skip',
-          data: { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage }
-        });
+        setReminderFlow(stateKey, { ...flow, step: 'caption_all' });
+        const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'reminders.caption_skip', data: { reminderId: data.reminderId } });
         const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data);
-        await renderScreen(ctx, { title: labels.notes.title(), bodyLines: [labels.notes.captionAllPrompt()], inlineKeyboard: kb });
+        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.notes.captionAllPrompt()], inlineKeyboard: kb });
         return;
       }
-      case 'notes.caption_by_category': {
+      case 'reminders.caption_by_category': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+        const data = (payload as { data?: { reminderId?: string } }).data;
+        if (!data?.reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        const pending = await listPendingNoteAttachments({ noteId: data.noteId });
-        const categories = buildNoteCaptionCategories(pending);
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
+          return;
+        }
+        const categories = buildReminderCaptionCategories(flow.draft.attachments ?? []);
         if (categories.length === 0) {
-          await clearPendingNoteAttachments({ noteId: data.noteId });
-          clearNotesFlow(String(ctx.from.id));
-          await finalizeNoteArchive(ctx, data.noteId, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+          await finalizeReminderArchive(ctx, data.reminderId, flow);
           return;
         }
-        await promptNoteCaptionCategory(
-          ctx,
-          data.noteId,
-          categories[0],
-          { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage },
-          categories
-        );
+        await promptReminderCaptionCategory(ctx, data.reminderId, categories[0], categories);
         return;
       }
-      case 'notes.caption_skip': {
+      case 'reminders.caption_skip': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+        const data = (payload as { data?: { reminderId?: string } }).data;
+        if (!data?.reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        await clearPendingNoteAttachments({ noteId: data.noteId });
-        clearNotesFlow(String(ctx.from.id));
-        await finalizeNoteArchive(ctx, data.noteId, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
+          return;
+        }
+        await finalizeReminderArchive(ctx, data.reminderId, flow);
         return;
       }
-      case 'notes.caption_category_skip': {
+      case 'reminders.caption_category_skip': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.notesFlow;
-        if (!flow || flow.mode !== 'create' || flow.step !== 'caption_category' || !flow.currentCategory) {
-          await renderNotesHistory(ctx);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        const reminderId = flow ? getReminderIdFromFlow(flow) : undefined;
+        if (!flow || !reminderId || flow.step !== 'caption_category' || !flow.currentCategory) {
+          await renderReminders(ctx);
           return;
         }
         const category = flow.currentCategory;
         const kinds =
           category === 'files'
-            ? (['document', 'audio'] as NoteAttachmentKind[])
-            : ([category] as NoteAttachmentKind[]);
-        await clearPendingNoteAttachmentsByKinds({ noteId: flow.noteId, kinds });
+            ? (['document', 'audio'] as ReminderAttachmentKind[])
+            : ([category] as ReminderAttachmentKind[]);
+        const updatedAttachments = applyCaptionToReminderAttachments(flow.draft.attachments ?? [], kinds, null);
         const remaining = (flow.captionCategories ?? []).filter((item) => item !== category);
+        const nextFlow: ReminderFlow = { ...flow, draft: { ...flow.draft, attachments: updatedAttachments } };
         if (remaining.length === 0) {
-          await clearPendingNoteAttachments({ noteId: flow.noteId });
-          clearNotesFlow(stateKey);
-          await finalizeNoteArchive(ctx, flow.noteId, flow.viewContext ?? {});
+          setReminderFlow(stateKey, nextFlow);
+          await finalizeReminderArchive(ctx, reminderId, nextFlow);
           return;
         }
-        await promptNoteCaptionCategory(ctx, flow.noteId, remaining[0], flow.viewContext ?? {}, remaining);
+        setReminderFlow(stateKey, { ...nextFlow, captionCategories: remaining });
+        await promptReminderCaptionCategory(ctx, reminderId, remaining[0], remaining);
         return;
       }
-      case 'notes.attachments_kind': {
-        const data = (payload as { data?: { noteId?: string; kind?: NoteAttachmentKind; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId || !data.kind) {
-          await renderNotesHistory(ctx);
+      case 'reminders.skip_title': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow || flow.mode !== 'create') {
+          await renderReminders(ctx);
           return;
         }
-        await sendNoteAttachmentsByKind(ctx, {
-          noteId: data.noteId,
-          kind: data.kind,
-          noteDate: data.noteDate ?? '',
-          page: Number(data.page ?? 0),
-          historyPage: Number(data.historyPage ?? 0)
-        });
+        const { user } = await ensureUserAndSettings(ctx);
+        const reminder = await createReminderDraft({ userId: user.id, title: null, timezone: user.timezone ?? config.defaultTimezone });
+        setReminderFlow(stateKey, { mode: 'create', reminderId: reminder.id, step: 'description', draft: { ...flow.draft, title: null } });
+        await renderReminderDescriptionPrompt(ctx, 'create', reminder.id);
         return;
       }
-      case 'notes.attachment_open': {
-        const data = (payload as { data?: { noteId?: string; attachmentId?: string; kind?: NoteAttachmentKind; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId || !data.attachmentId || !data.kind) {
-          await renderNotesHistory(ctx);
+      case 'reminders.skip_description': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
           return;
         }
-        const attachment = await getNoteAttachmentById({ noteId: data.noteId, attachmentId: data.attachmentId });
-        if (!attachment) {
-          await renderNoteAttachmentsList(ctx, {
-            noteId: data.noteId,
-            kind: data.kind,
-            noteDate: data.noteDate ?? '',
-            page: Number(data.page ?? 0),
-            historyPage: Number(data.historyPage ?? 0)
-          });
+        const reminderId = getReminderIdFromFlow(flow);
+        if (reminderId) {
+          await updateReminder(reminderId, { description: null });
+        }
+        setReminderFlow(stateKey, { ...flow, draft: { ...flow.draft, description: null } });
+        await renderReminderScheduleTypePrompt(ctx, flow.mode, reminderId);
+        return;
+      }
+      case 'reminders.description_done': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
           return;
         }
-        try {
-          const targetId = ctx.chat?.id ?? ctx.from?.id;
-          if (!targetId) {
-            await renderScreen(ctx, { title: labels.notes.detailTitleLabel(), bodyLines: [labels.notes.attachmentSendFailed()] });
-            return;
-          }
-          const category = resolveNoteCaptionCategory(attachment.kind);
-          await sendNoteAttachmentsToUser(ctx, targetId, category, [attachment]);
-        } catch (error) {
-          console.error({ scope: 'notes', event: 'attachment_send_failed', error, attachmentId: attachment.id });
-          await renderScreen(ctx, { title: labels.notes.detailTitleLabel(), bodyLines: [labels.notes.attachmentSendFailed()] });
+        const reminderId = getReminderIdFromFlow(flow);
+        if (!reminderId) {
+          await renderReminders(ctx);
+          return;
         }
-        const page = Number(data.page ?? 0);
-        const historyPage = Number(data.historyPage ?? 0);
-        await renderNoteAttachmentsList(ctx, {
-          noteId: data.noteId,
-          kind: data.kind,
-          noteDate: data.noteDate ?? '',
-          page: Number.isFinite(page) ? page : 0,
-          historyPage: Number.isFinite(historyPage) ? historyPage : 0
-        });
+        const description = flow.draft.description ?? null;
+        await updateReminder(reminderId, { description });
+        await maybeArchiveReminderDescription(ctx, reminderId, description);
+        setReminderFlow(stateKey, { ...flow, step: 'schedule_type', draft: { ...flow.draft, description } });
+        await renderReminderScheduleTypePrompt(ctx, flow.mode, reminderId);
         return;
       }
-      case 'notes.view_all': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+      case 'reminders.schedule_type': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { scheduleType?: ReminderScheduleType; mode?: ReminderFlow['mode']; reminderId?: string } }).data;
+        const scheduleType = data?.scheduleType;
+        if (!scheduleType) {
+          await renderReminders(ctx);
           return;
         }
-        const note = await getNoteById({ userId: user.id, id: data.noteId });
-        if (!note) {
-          await renderNotesHistory(ctx);
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
           return;
         }
-        const local = formatInstantToLocal(note.created_at, user.timezone ?? config.defaultTimezone);
-        const title = note.title && note.title.trim().length > 0 ? note.title : labels.notes.untitled();
-        await renderScreen(ctx, {
-          title: labels.notes.detailTitleLabel(),
-          bodyLines: [
-            labels.notes.detailDate({ date: note.note_date }),
-            labels.notes.detailTime({ time: local.time }),
-            labels.notes.detailTitle({ title })
-          ]
-        });
-        const targetId = ctx.chat?.id ?? ctx.from?.id ?? Number(user.telegram_id);
-        if (!targetId) {
-          await renderNoteDetails(ctx, note.id, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+        const nextDraft: ReminderDraft = { ...flow.draft, scheduleType };
+        if (scheduleType === 'once') {
+          setReminderFlow(stateKey, { ...flow, step: 'date_select', draft: nextDraft });
+          await renderReminderDateSelect(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow) });
           return;
         }
-        await sendNoteEverything(ctx, { noteId: note.id, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
-        return;
-      }
-      case 'notes.body_view': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+        if (scheduleType === 'hourly') {
+          setReminderFlow(stateKey, { ...flow, step: 'interval_minutes', draft: nextDraft });
+          await renderReminderIntervalPrompt(ctx);
           return;
         }
-        const note = await getNoteById({ userId: user.id, id: data.noteId });
-        if (!note) {
-          await renderNotesHistory(ctx);
+        if (scheduleType === 'daily') {
+          setReminderFlow(stateKey, { ...flow, step: 'daily_time', draft: nextDraft });
+          await renderReminderDailyTimePrompt(ctx);
           return;
         }
-        const targetId = ctx.chat?.id ?? ctx.from?.id ?? Number(user.telegram_id);
-        if (!targetId) {
-          await renderNoteDetails(ctx, note.id, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
+        if (scheduleType === 'weekly') {
+          setReminderFlow(stateKey, { ...flow, step: 'weekly_day', draft: nextDraft });
+          await renderReminderWeeklyDayPrompt(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow) });
           return;
         }
-        if (note.content_group_key) {
-          await copyArchiveGroupToUser(ctx, { userChatId: targetId, groupKey: note.content_group_key });
-        } else if (note.description ?? note.body) {
-          const fullText = note.description ?? note.body ?? '';
-          for (const chunk of splitTextForTelegram(fullText)) {
-            await ctx.api.sendMessage(targetId, chunk);
-          }
-        }
-        await renderNoteDetails(ctx, note.id, { noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
-        return;
-      }
-      case 'notes.send_all': {
-        const data = (payload as { data?: { noteId?: string; noteDate?: string; page?: number; historyPage?: number } }).data;
-        if (!data?.noteId) {
-          await renderNotesHistory(ctx);
+        if (scheduleType === 'monthly' || scheduleType === 'yearly') {
+          setReminderFlow(stateKey, { ...flow, step: 'calendar_system', draft: nextDraft });
+          await renderReminderCalendarSystemPrompt(ctx);
           return;
         }
-        await sendNoteEverything(ctx, { noteId: data.noteId, noteDate: data.noteDate, page: data.page, historyPage: data.historyPage });
-        return;
-      }
-      case 'settings.language': {
-        const { settings, locale } = await ensureUserAndSettings(ctx);
-        await renderLanguageSelection(ctx, {
-          origin: 'settings',
-          currentLocale: readStoredLanguageCode(settings.settings_json as Record<string, unknown>) ?? locale
-        });
-        return;
-      }
-      case 'settings.emoji_toggle': {
-        const { user } = await ensureUserAndSettings(ctx);
-        const current = await getUserBooleanSetting(user.id, EMOJI_SETTING_KEY, config.ui.emojiEnabled);
-        const next = !current;
-        await setUserSetting(user.id, EMOJI_SETTING_KEY, next ? 'true' : 'false');
-        await runWithEmojiSetting(next, async () => {
-          await renderSettingsRoot(ctx);
-        });
-        return;
-      }
-      case 'language.set': {
-        const data = (payload as { data?: { language?: Locale; origin?: LanguageScreenOrigin } }).data;
-        const language = data?.language;
-        const origin = data?.origin ?? 'onboarding';
-        if (!language) {
-          await renderDashboard(ctx);
+        if (scheduleType === 'rrule') {
+          setReminderFlow(stateKey, { ...flow, step: 'rrule_freq', draft: { ...nextDraft, rrule: undefined } });
+          await renderReminderRRuleFreqPrompt(ctx);
+          return;
+        }
+        if (isAnchoredScheduleType(scheduleType)) {
+          setReminderFlow(stateKey, { ...flow, step: 'anchor_event', draft: nextDraft });
+          await renderReminderAnchorPrompt(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), scheduleType });
           return;
         }
-        await applyLanguageSelection(ctx, language, origin);
-        return;
-      }
-      case 'routines.root':
-        await renderRoutinesRoot(ctx);
-        return;
-      case 'routines.add': {
-        const telegramId = String(ctx.from?.id ?? '');
-        clearRoutineFlow(telegramId);
-        setRoutineFlow(telegramId, { mode: 'create', step: 'title', draft: { xpMode: 'none', routineType: 'boolean' } });
-        await promptRoutineTitle(ctx, {});
         return;
       }
-      case 'routines.view': {
-        const routineId = (payload as { data?: { routineId?: string } }).data?.routineId;
-        if (!routineId) {
-          await renderRoutinesRoot(ctx);
+      case 'reminders.anchor_set': {
+        if (!ctx.from) break;
+        const anchor = (payload as { data?: { anchor?: PrayerTimeName } }).data?.anchor;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        const scheduleType = flow?.draft.scheduleType;
+        if (!flow || !anchor || !scheduleType || !isAnchoredScheduleType(scheduleType) || !listScheduleAnchors(scheduleType).includes(anchor)) {
+          await renderReminders(ctx);
           return;
         }
-        await renderRoutineDetails(ctx, routineId);
+        setReminderFlow(stateKey, { ...flow, step: 'anchor_offset', draft: { ...flow.draft, anchorEvent: anchor } });
+        await renderReminderAnchorOffsetPrompt(ctx, anchor);
         return;
       }
-      case 'routines.tasks': {
-        const routineId = (payload as { data?: { routineId?: string } }).data?.routineId;
-        if (!routineId) {
-          await renderRoutinesRoot(ctx);
+      case 'reminders.anchor_offset_set': {
+        if (!ctx.from) break;
+        const minutes = Number((payload as { data?: { minutes?: number } }).data?.minutes);
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow || !flow.draft.anchorEvent || !Number.isInteger(minutes)) {
+          await renderReminders(ctx);
           return;
         }
-        await renderRoutineTasks(ctx, routineId);
+        const nextDraft: ReminderDraft = { ...flow.draft, anchorOffsetMinutes: minutes };
+        setReminderFlow(stateKey, { ...flow, draft: nextDraft });
+        await persistReminderSchedule(ctx, { ...flow, draft: nextDraft });
         return;
       }
-      case 'routines.toggle': {
-        const routineId = (payload as { data?: { routineId?: string } }).data?.routineId;
-        if (!routineId) {
-          await renderRoutinesRoot(ctx);
+      case 'reminders.calendar_system_set': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { calendarSystem?: ReminderCalendarSystem } }).data;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow || !data?.calendarSystem) {
+          await renderReminders(ctx);
           return;
         }
-        const { user } = await ensureUserAndSettings(ctx);
-        const routine = await getRoutineById(routineId);
-        if (routine && routine.user_id === user.id) {
-          await updateRoutine(routineId, { isActive: !routine.is_active });
-          clearReportContextCache();
+        const nextDraft: ReminderDraft = { ...flow.draft, calendarSystem: data.calendarSystem };
+        if (flow.draft.scheduleType === 'yearly') {
+          setReminderFlow(stateKey, { ...flow, step: 'yearly_month', draft: nextDraft });
+          await renderReminderYearlyMonthPrompt(ctx);
+          return;
         }
-        await renderRoutineDetails(ctx, routineId);
+        setReminderFlow(stateKey, { ...flow, step: 'monthly_day', draft: nextDraft });
+        await renderReminderMonthlyDayPrompt(ctx);
         return;
       }
-      case 'reminders.edit_open': {
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+      case 'reminders.schedule_back': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        await renderReminderDetails(ctx, reminderId);
+        await renderReminderScheduleTypePrompt(ctx, flow.mode, getReminderIdFromFlow(flow));
         return;
       }
-      case 'reminders.desc_view': {
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+      case 'reminders.weekly_day_set': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { day?: number } }).data;
+        const day = data?.day;
+        if (day === undefined) {
           await renderReminders(ctx);
           return;
         }
-        const reminder = await getReminderById(reminderId);
-        if (!reminder || reminder.user_id !== user.id) {
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        const targetId = ctx.chat?.id ?? ctx.from?.id ?? Number(user.telegram_id);
-        if (!targetId) {
-          await renderReminderDetails(ctx, reminderId);
+        setReminderFlow(stateKey, { ...flow, step: 'weekly_time', draft: { ...flow.draft, byWeekday: day } });
+        await renderReminderDailyTimePrompt(ctx);
+        return;
+      }
+      case 'reminders.yearly_month_set': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { month?: number } }).data;
+        const month = data?.month;
+        if (!month) {
+          await renderReminders(ctx);
           return;
         }
-        if (reminder.description) {
-          for (const chunk of splitTextForTelegram(reminder.description)) {
-            await ctx.api.sendMessage(targetId, chunk);
-          }
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
+          return;
         }
-        await renderReminderDetails(ctx, reminderId);
+        setReminderFlow(stateKey, { ...flow, step: 'yearly_day', draft: { ...flow.draft, byMonth: month } });
+        await renderReminderMonthlyDayPrompt(ctx);
         return;
       }
-      case 'reminders.edit_title': {
+      case 'reminders.rrule_freq': {
         if (!ctx.from) break;
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+        const data = (payload as { data?: { freq?: RRuleFrequency } }).data;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow || !data?.freq) {
           await renderReminders(ctx);
           return;
         }
+        const rule: RRule = { freq: data.freq, interval: 1 };
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_interval', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRuleIntervalPrompt(ctx, rule);
+        return;
+      }
+      case 'reminders.rrule_interval': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { interval?: number } }).data;
         const stateKey = String(ctx.from.id);
-        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'title', draft: {} });
-        await renderReminderTitlePrompt(ctx, 'edit', reminderId);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || !data?.interval) {
+          await renderReminders(ctx);
+          return;
+        }
+        await continueReminderRRuleFlow(ctx, stateKey, flow, { ...flow.draft.rrule, interval: data.interval });
         return;
       }
-      case 'reminders.edit_detail': {
+      case 'reminders.rrule_weekday_toggle': {
         if (!ctx.from) break;
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+        const data = (payload as { data?: { day?: number } }).data;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || data?.day === undefined) {
           await renderReminders(ctx);
           return;
         }
+        const day = data.day;
+        const current = flow.draft.rrule.byDay ?? [];
+        const byDay = current.some((entry) => entry.weekday === day)
+          ? current.filter((entry) => entry.weekday !== day)
+          : [...current, { weekday: day }].sort((a, b) => a.weekday - b.weekday);
+        const rule: RRule = { ...flow.draft.rrule, byDay };
+        setReminderFlow(stateKey, { ...flow, draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRuleWeekdaysPrompt(ctx, rule);
+        return;
+      }
+      case 'reminders.rrule_weekdays_done': {
+        if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'description', draft: {} });
-        await renderReminderDescriptionPrompt(ctx, 'edit', reminderId);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule) {
+          await renderReminders(ctx);
+          return;
+        }
+        const rule = flow.draft.rrule;
+        if (!rule.byDay?.length) {
+          await renderReminderRRuleWeekdaysPrompt(ctx, rule, labels.reminders.rruleWeekdaysEmpty());
+          return;
+        }
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_end' });
+        await renderReminderRRuleEndPrompt(ctx, rule);
         return;
       }
-      case 'reminders.edit_date': {
+      case 'reminders.rrule_month': {
         if (!ctx.from) break;
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+        const data = (payload as { data?: { month?: number } }).data;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || !data?.month) {
           await renderReminders(ctx);
           return;
         }
+        const rule: RRule = { ...flow.draft.rrule, byMonth: [data.month] };
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_monthly_mode', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRuleMonthlyModePrompt(ctx, rule);
+        return;
+      }
+      case 'reminders.rrule_monthly_mode': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { mode?: 'day' | 'position' } }).data;
         const stateKey = String(ctx.from.id);
-        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'schedule_type', draft: {} });
-        await renderReminderScheduleTypePrompt(ctx, 'edit', reminderId);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || !data?.mode) {
+          await renderReminders(ctx);
+          return;
+        }
+        const rule: RRule = { ...flow.draft.rrule, byDay: undefined, byMonthDay: undefined };
+        if (data.mode === 'day') {
+          setReminderFlow(stateKey, { ...flow, step: 'rrule_monthday', draft: { ...flow.draft, rrule: rule } });
+          await renderReminderRRuleMonthdayPrompt(ctx);
+          return;
+        }
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_position', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRulePositionPrompt(ctx);
         return;
       }
-      case 'reminders.edit_time': {
+      case 'reminders.rrule_monthday': {
         if (!ctx.from) break;
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+        const data = (payload as { data?: { day?: number } }).data;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || !data?.day) {
           await renderReminders(ctx);
           return;
         }
+        const rule: RRule = { ...flow.draft.rrule, byMonthDay: [data.day] };
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_end', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRuleEndPrompt(ctx, rule);
+        return;
+      }
+      case 'reminders.rrule_position': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { position?: number } }).data;
         const stateKey = String(ctx.from.id);
-        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'schedule_type', draft: {} });
-        await renderReminderScheduleTypePrompt(ctx, 'edit', reminderId);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || !data?.position) {
+          await renderReminders(ctx);
+          return;
+        }
+        // The ordinal is kept on a placeholder weekday until the weekday itself is picked.
+        const rule: RRule = { ...flow.draft.rrule, byDay: [{ weekday: 0, ordinal: data.position }] };
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_position_weekday', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRulePositionWeekdayPrompt(ctx);
         return;
       }
-      case 'reminders.edit_schedule': {
+      case 'reminders.rrule_position_weekday': {
         if (!ctx.from) break;
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
-        if (!reminderId) {
+        const data = (payload as { data?: { day?: number } }).data;
+        const stateKey = String(ctx.from.id);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        const ordinal = flow?.draft.rrule?.byDay?.[0]?.ordinal;
+        if (!flow?.draft.rrule || data?.day === undefined || ordinal === undefined) {
           await renderReminders(ctx);
           return;
         }
+        const rule: RRule = { ...flow.draft.rrule, byDay: [{ weekday: data.day, ordinal }] };
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_end', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRuleEndPrompt(ctx, rule);
+        return;
+      }
+      case 'reminders.rrule_end': {
+        if (!ctx.from) break;
+        const data = (payload as { data?: { end?: 'never' | 'until' | 'count' } }).data;
         const stateKey = String(ctx.from.id);
-        setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'schedule_type', draft: {} });
-        await renderReminderScheduleTypePrompt(ctx, 'edit', reminderId);
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow?.draft.rrule || !data?.end) {
+          await renderReminders(ctx);
+          return;
+        }
+        const rule: RRule = { ...flow.draft.rrule, untilDate: undefined, count: undefined };
+        if (data.end === 'until') {
+          setReminderFlow(stateKey, { ...flow, step: 'rrule_until', draft: { ...flow.draft, rrule: rule } });
+          await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rruleUntilPrompt()] });
+          return;
+        }
+        if (data.end === 'count') {
+          setReminderFlow(stateKey, { ...flow, step: 'rrule_count', draft: { ...flow.draft, rrule: rule } });
+          await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rruleCountPrompt()] });
+          return;
+        }
+        setReminderFlow(stateKey, { ...flow, step: 'rrule_time', draft: { ...flow.draft, rrule: rule } });
+        await renderReminderRRuleTimePrompt(ctx, rule);
         return;
       }
-      case 'reminders.attach': {
+      case 'reminders.date_select': {
         if (!ctx.from) break;
-        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const data = (payload as { data?: { choice?: string; mode?: ReminderFlow['mode']; reminderId?: string } }).data;
+        const choice = (data?.choice ?? 'today') as ReminderDraft['dateSource'];
         const stateKey = String(ctx.from.id);
-        const existing = userStates.get(stateKey)?.reminderFlow;
-        const nextDraft = existing?.draft ?? {};
-        if (reminderId) {
-          setReminderFlow(stateKey, { mode: 'edit', reminderId, step: 'attachments', draft: nextDraft });
-          await renderReminderAttachmentPrompt(ctx, { mode: 'edit', reminderId });
+        const flow = userStates.get(stateKey)?.reminderFlow;
+        if (!flow) {
+          await renderReminders(ctx);
+          return;
+        }
+        const mode = flow.mode;
+        const reminderId = getReminderIdFromFlow(flow);
+        const { user, settings } = await ensureUserAndSettings(ctx);
+        const timezone = user.timezone ?? config.defaultTimezone;
+
+        if (choice === 'custom') {
+          const local = formatLocalTime(timezone);
+          const draft: ReminderDraft = {
+            ...buildCustomDateDraft(local.date, 'gregorian'),
+            dateSource: 'custom',
+            scheduleType: flow.draft.scheduleType ?? 'once'
+          };
+          if (isQuickReminderFlow(flow)) {
+            const quickDraft = { ...flow.draft, ...draft };
+            setReminderFlow(stateKey, { ...flow, step: 'custom_date', draft: quickDraft });
+            await renderReminderCustomDatePicker(ctx, { mode: 'create', draft: quickDraft });
+          } else if (mode === 'edit') {
+            const editReminderId = reminderId as string;
+            setReminderFlow(stateKey, { mode: 'edit', reminderId: editReminderId, step: 'custom_date', draft });
+            await renderReminderCustomDatePicker(ctx, { mode: 'edit', reminderId: editReminderId, draft });
+          } else {
+            setReminderFlow(stateKey, { mode: 'create', step: 'custom_date', draft });
+            await renderReminderCustomDatePicker(ctx, { mode: 'create', draft });
+          }
+          return;
+        }
+
+        let localDate = formatLocalTime(timezone).date;
+        if (choice === 'tomorrow') {
+          localDate = addDaysToLocalDate(localDate, 1, timezone);
+        } else if (choice === 'weekend') {
+          const weekendDay = getWeekendDay(settings.settings_json as Record<string, unknown>);
+          localDate = getNextWeekendLocalDate(timezone, weekendDay);
+        }
+
+        if (isQuickReminderFlow(flow)) {
+          const quickDraft: ReminderDraft = { ...flow.draft, localDate, dateSource: choice };
+          setReminderFlow(stateKey, { ...flow, step: 'quick_confirm', draft: quickDraft });
+          await renderReminderQuickConfirm(ctx, quickDraft);
+          return;
+        }
+
+        const baseDraft: ReminderDraft = { localDate, dateSource: choice, scheduleType: flow.draft.scheduleType ?? 'once' };
+        const draft = ensureReminderTimeDraft(baseDraft, timezone);
+        if (mode === 'edit') {
+          const editReminderId = reminderId as string;
+          setReminderFlow(stateKey, { mode: 'edit', reminderId: editReminderId, step: 'time', draft });
+          await renderReminderTimePicker(ctx, { mode: 'edit', reminderId: editReminderId, draft });
         } else {
-          const existingReminderId = existing ? getReminderIdFromFlow(existing) : undefined;
-          setReminderFlow(stateKey, { mode: 'create', reminderId: existingReminderId, step: 'attachments', draft: nextDraft });
-          await renderReminderAttachmentPrompt(ctx, { mode: 'create', reminderId: existingReminderId });
+          setReminderFlow(stateKey, { mode: 'create', step: 'time', draft });
+          await renderReminderTimePicker(ctx, { mode: 'create', draft });
+        }
+        return;
+      }
+      case 'reminders.weekend_day': {
+        const data = (payload as { data?: { mode?: ReminderFlow['mode']; reminderId?: string } }).data;
+        const mode = data?.mode ?? 'create';
+        const reminderId = data?.reminderId;
+        const kb = new InlineKeyboard();
+        for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
+          const btn = await makeActionButton(ctx, {
+            label: getWeekdayLabel(idx),
+            action: 'reminders.weekend_day_set',
+            data: { day: idx, mode, reminderId }
+          });
+          kb.text(btn.text, btn.callback_data);
+          if ((idx + 1) % 3 === 0) kb.row();
+        }
+        const backBtn =
+          mode === 'edit'
+            ? await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.edit_date', data: { reminderId } })
+            : await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.new' });
+        kb.row().text(backBtn.text, backBtn.callback_data);
+        await renderScreen(ctx, {
+          title: labels.reminders.newTitle(),
+          bodyLines: [labels.reminders.weekendDayPrompt()],
+          inlineKeyboard: kb
+        });
+        return;
+      }
+      case 'reminders.weekend_day_set': {
+        const data = (payload as { data?: { day?: number; mode?: ReminderFlow['mode']; reminderId?: string } }).data;
+        const day = data?.day;
+        if (typeof day === 'number') {
+          const { user } = await ensureUserAndSettings(ctx);
+          await updateUserSettingsJson(user.id, { weekend_day: day });
         }
+        await renderReminderDateSelect(ctx, { mode: data?.mode ?? 'create', reminderId: data?.reminderId });
         return;
       }
-      case 'reminders.attach_done': {
+      case 'reminders.date_adjust': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
@@ -6047,152 +9238,136 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
           await renderReminders(ctx);
           return;
         }
-        await startReminderCaptionFlow(ctx, flow);
-        return;
-      }
-      case 'reminders.attachments_save': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+        const data = (payload as { data?: { field?: 'year' | 'month' | 'day'; delta?: number } }).data;
+        if (!data?.field || typeof data.delta !== 'number') {
           await renderReminders(ctx);
           return;
         }
-        await startReminderCaptionFlow(ctx, flow);
+        const draft = { ...(flow.draft ?? {}) };
+        if (data.field === 'year') draft.year = (draft.year ?? 0) + data.delta;
+        if (data.field === 'month') {
+          const month = (draft.month ?? 1) + data.delta;
+          draft.month = month < 1 ? 12 : month > 12 ? 1 : month;
+        }
+        if (data.field === 'day') draft.day = Math.max(1, (draft.day ?? 1) + data.delta);
+        const nextDraft = clampCustomDateDraft(draft);
+        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'custom_date' });
+        await renderReminderCustomDatePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
         return;
       }
-      case 'reminders.attachments_continue': {
+      case 'reminders.date_toggle': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
-        const reminderId = flow ? getReminderIdFromFlow(flow) : undefined;
-        if (!flow || !reminderId) {
+        if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        const session = userStates.get(stateKey)?.reminderUploadSession;
-        if (session?.timer) {
-          clearTimeout(session.timer);
+        const draft = flow.draft;
+        const dateMode = draft.dateMode ?? 'gregorian';
+        let nextDraft: ReminderDraft = draft;
+        if (draft.year && draft.month && draft.day) {
+          if (dateMode === 'gregorian') {
+            const jalali = gregorianToJalali(draft.year, draft.month, draft.day);
+            nextDraft = { ...draft, dateMode: 'jalali', year: jalali.year, month: jalali.month, day: jalali.day };
+          } else {
+            const greg = jalaliToGregorian(draft.year, draft.month, draft.day);
+            nextDraft = { ...draft, dateMode: 'gregorian', year: greg.year, month: greg.month, day: greg.day };
+          }
         }
-        const timer = setTimeout(async () => {
-          const latestState = userStates.get(stateKey);
-          const currentSession = latestState?.reminderUploadSession;
-          if (!currentSession || currentSession.reminderId !== reminderId) return;
-          const idleFor = Date.now() - currentSession.lastReceivedAt;
-          if (idleFor < REMINDER_UPLOAD_IDLE_MS) return;
-          const saveBtn = await makeActionButton(ctx, { label: labels.notesButtons.saveNow(), action: 'reminders.attachments_save', data: { reminderId } });
-          const continueBtn = await makeActionButton(ctx, { label: labels.notesButtons.continue(), action: 'reminders.attachments_continue', data: { reminderId } });
-          const kb = new InlineKeyboard().text(saveBtn.text, saveBtn.callback_data).row().text(continueBtn.text, continueBtn.callback_data);
-          setReminderUploadSession(stateKey, { ...currentSession, prompted: true });
-          await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.attachmentsIdlePrompt()], inlineKeyboard: kb });
-        }, REMINDER_UPLOAD_IDLE_MS);
-        setReminderUploadSession(stateKey, {
-          ...(session ?? { reminderId, pendingKinds: {}, lastReceivedAt: Date.now() }),
-          reminderId,
-          lastReceivedAt: Date.now(),
-          prompted: false,
-          timer
+        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'custom_date' });
+        await renderReminderCustomDatePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
+        return;
+      }
+      case 'reminders.date_manual': {
+        await renderScreen(ctx, {
+          title: labels.reminders.newTitle(),
+          bodyLines: [labels.reminders.customDateManualPrompt()]
         });
-        await renderReminderAttachmentPrompt(ctx, { mode: flow.mode, reminderId });
         return;
       }
-      case 'reminders.caption_all': {
+      case 'reminders.date_confirm': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { reminderId?: string } }).data;
-        if (!data?.reminderId) {
-          await renderReminders(ctx);
-          return;
-        }
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
         if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        setReminderFlow(stateKey, { ...flow, step: 'caption_all' });
-        const skipBtn = await makeActionButton(ctx, { label: labels.notesButtons.skip(), action: 'reminders.caption_skip', data: { reminderId: data.reminderId } });
-        const kb = new InlineKeyboard().text(skipBtn.text, skipBtn.callback_data);
-        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.notes.captionAllPrompt()], inlineKeyboard: kb });
-        return;
-      }
-      case 'reminders.caption_by_category': {
-        if (!ctx.from) break;
-        const data = (payload as { data?: { reminderId?: string } }).data;
-        if (!data?.reminderId) {
+        const draft = flow.draft;
+        if (!draft.year || !draft.month || !draft.day || !draft.dateMode) {
           await renderReminders(ctx);
           return;
         }
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
-          await renderReminders(ctx);
-          return;
+        let localDate = '';
+        if (draft.dateMode === 'gregorian') {
+          localDate = `${draft.year}-${String(draft.month).padStart(2, '0')}-${String(draft.day).padStart(2, '0')}`;
+        } else {
+          const greg = jalaliToGregorian(draft.year, draft.month, draft.day);
+          localDate = `${greg.year}-${String(greg.month).padStart(2, '0')}-${String(greg.day).padStart(2, '0')}`;
         }
-        const categories = buildReminderCaptionCategories(flow.draft.attachments ?? []);
-        if (categories.length === 0) {
-          await finalizeReminderArchive(ctx, data.reminderId, flow);
+        const nextDraft = ensureReminderTimeDraft({ ...draft, localDate, dateSource: 'custom' }, (await ensureUserAndSettings(ctx)).user.timezone ?? config.defaultTimezone);
+        if (isQuickReminderFlow(flow)) {
+          setReminderFlow(stateKey, { ...flow, step: 'quick_confirm', draft: nextDraft });
+          await renderReminderQuickConfirm(ctx, nextDraft);
           return;
         }
-        await promptReminderCaptionCategory(ctx, data.reminderId, categories[0], categories);
+        setReminderFlow(stateKey, { ...flow, step: 'time', draft: nextDraft });
+        await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
         return;
       }
-      case 'reminders.caption_skip': {
+      case 'reminders.time_adjust': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { reminderId?: string } }).data;
-        if (!data?.reminderId) {
-          await renderReminders(ctx);
-          return;
-        }
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
         if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        await finalizeReminderArchive(ctx, data.reminderId, flow);
+        const delta = (payload as { data?: { delta?: number } }).data?.delta;
+        if (typeof delta !== 'number') {
+          await renderReminders(ctx);
+          return;
+        }
+        const draft = ensureReminderTimeDraft(flow.draft, (await ensureUserAndSettings(ctx)).user.timezone ?? config.defaultTimezone);
+        const nextMinutes = normalizeTimeMinutes((draft.timeMinutes ?? 0) + delta);
+        const nextDraft = { ...draft, timeMinutes: nextMinutes, localTime: minutesToHhmm(nextMinutes) };
+        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'time' });
+        await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
         return;
       }
-      case 'reminders.caption_category_skip': {
+      case 'reminders.time_preset': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
-        const reminderId = flow ? getReminderIdFromFlow(flow) : undefined;
-        if (!flow || !reminderId || flow.step !== 'caption_category' || !flow.currentCategory) {
+        if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        const category = flow.currentCategory;
-        const kinds =
-          category === 'files'
-            ? (['document', 'audio'] as ReminderAttachmentKind[])
-            : ([category] as ReminderAttachmentKind[]);
-        const updatedAttachments = applyCaptionToReminderAttachments(flow.draft.attachments ?? [], kinds, null);
-        const remaining = (flow.captionCategories ?? []).filter((item) => item !== category);
-        const nextFlow: ReminderFlow = { ...flow, draft: { ...flow.draft, attachments: updatedAttachments } };
-        if (remaining.length === 0) {
-          setReminderFlow(stateKey, nextFlow);
-          await finalizeReminderArchive(ctx, reminderId, nextFlow);
+        const preset = (payload as { data?: { preset?: string } }).data?.preset;
+        const parsed = preset ? parseTimeHhmm(preset) : null;
+        if (!parsed) {
+          await renderReminders(ctx);
           return;
         }
-        setReminderFlow(stateKey, { ...nextFlow, captionCategories: remaining });
-        await promptReminderCaptionCategory(ctx, reminderId, remaining[0], remaining);
+        const nextDraft = { ...flow.draft, timeMinutes: parsed.minutes, localTime: parsed.hhmm };
+        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'time' });
+        await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
         return;
       }
-      case 'reminders.skip_title': {
+      case 'reminders.time_manual': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow || flow.mode !== 'create') {
+        if (!flow) {
           await renderReminders(ctx);
           return;
         }
-        const { user } = await ensureUserAndSettings(ctx);
-        const reminder = await createReminderDraft({ userId: user.id, title: null, timezone: user.timezone ?? config.defaultTimezone });
-        setReminderFlow(stateKey, { mode: 'create', reminderId: reminder.id, step: 'description', draft: { ...flow.draft, title: null } });
-        await renderReminderDescriptionPrompt(ctx, 'create', reminder.id);
+        setReminderFlow(stateKey, { ...flow, step: 'time_manual' });
+        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.timeManualPrompt()] });
         return;
       }
-      case 'reminders.skip_description': {
+      case 'reminders.time_confirm': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
         const flow = userStates.get(stateKey)?.reminderFlow;
@@ -6200,380 +9375,537 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
           await renderReminders(ctx);
           return;
         }
-        const reminderId = getReminderIdFromFlow(flow);
-        if (reminderId) {
-          await updateReminder(reminderId, { description: null });
+        const draft = flow.draft;
+        if (isQuickReminderFlow(flow)) {
+          setReminderFlow(stateKey, { ...flow, step: 'quick_confirm' });
+          await renderReminderQuickConfirm(ctx, draft);
+          return;
         }
-        setReminderFlow(stateKey, { ...flow, draft: { ...flow.draft, description: null } });
-        await renderReminderScheduleTypePrompt(ctx, flow.mode, reminderId);
+        if (!draft.localDate || !draft.localTime) {
+          await renderReminders(ctx);
+          return;
+        }
+        await persistReminderSchedule(ctx, flow);
         return;
       }
-      case 'reminders.description_done': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
-          await renderReminders(ctx);
+      case 'reminders.delivery_action': {
+        const data = (payload as { data?: { reminderId?: string; deliveryKey?: string; kind?: string } }).data;
+        const kind = data?.kind;
+        if (!data?.reminderId || !data.deliveryKey || !isReminderDeliveryAction(kind)) {
+          await ctx.answerCallbackQuery({ text: labels.reminders.deliveryActionFailed(), show_alert: true });
           return;
         }
-        const reminderId = getReminderIdFromFlow(flow);
-        if (!reminderId) {
-          await renderReminders(ctx);
+        const reminder = await getReminderById(data.reminderId);
+        if (!reminder || reminder.user_id !== user.id || reminder.deleted_at) {
+          await ctx.answerCallbackQuery({ text: labels.reminders.deliveryActionFailed(), show_alert: true });
           return;
         }
-        const description = flow.draft.description ?? null;
-        await updateReminder(reminderId, { description });
-        await maybeArchiveReminderDescription(ctx, reminderId, description);
-        setReminderFlow(stateKey, { ...flow, step: 'schedule_type', draft: { ...flow.draft, description } });
-        await renderReminderScheduleTypePrompt(ctx, flow.mode, reminderId);
+        const timezone = user.timezone ?? config.defaultTimezone;
+        const { nextRunAt, stale } = await applyReminderDeliveryAction({ reminder, deliveryKey: data.deliveryKey, action: kind, timezone });
+        if (stale) {
+          await ctx.answerCallbackQuery({ text: labels.reminders.deliveryActionStale(), show_alert: true });
+          return;
+        }
+        const isSnooze = kind !== 'done' && kind !== 'skip' && kind !== 'ack';
+        let statusLine = kind === 'skip' ? labels.reminders.deliverySkipped() : labels.reminders.deliveryDone();
+        if (isSnooze) {
+          const local = nextRunAt ? formatInstantToLocal(nextRunAt.toISOString(), timezone) : null;
+          statusLine = labels.reminders.deliverySnoozed({ time: local ? `${local.date} ${local.time}` : labels.reminders.noTime() });
+        }
+        const messageText = ctx.callbackQuery.message?.text;
+        if (messageText) {
+          // A snoozed delivery can still be closed from the same message.
+          const replyMarkup = isSnooze ? await buildReminderActionKeyboard(reminder, data.deliveryKey, ['done', 'skip']) : undefined;
+          await ctx.editMessageText(`${messageText}\n\n${statusLine}`, { reply_markup: replyMarkup });
+        }
         return;
       }
-      case 'reminders.schedule_type': {
-        if (!ctx.from) break;
-        const data = (payload as { data?: { scheduleType?: ReminderScheduleType; mode?: ReminderFlow['mode']; reminderId?: string } }).data;
-        const scheduleType = data?.scheduleType;
-        if (!scheduleType) {
+      case 'reminders.toggle': {
+        const data = (payload as { data?: { reminderId?: string } }).data;
+        const reminderId = data?.reminderId;
+        if (!reminderId) {
           await renderReminders(ctx);
           return;
         }
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+        const { user } = await ensureUserAndSettings(ctx);
+        const reminder = await getReminderById(reminderId);
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        const nextDraft: ReminderDraft = { ...flow.draft, scheduleType };
-        if (scheduleType === 'once') {
-          setReminderFlow(stateKey, { ...flow, step: 'date_select', draft: nextDraft });
-          await renderReminderDateSelect(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow) });
-          return;
-        }
-        if (scheduleType === 'hourly') {
-          setReminderFlow(stateKey, { ...flow, step: 'interval_minutes', draft: nextDraft });
-          await renderReminderIntervalPrompt(ctx);
+        await toggleReminderEnabled(reminderId);
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.quiet_toggle': {
+        const data = (payload as { data?: { reminderId?: string } }).data;
+        const reminderId = data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
           return;
         }
-        if (scheduleType === 'daily') {
-          setReminderFlow(stateKey, { ...flow, step: 'daily_time', draft: nextDraft });
-          await renderReminderDailyTimePrompt(ctx);
+        const { user } = await ensureUserAndSettings(ctx);
+        const reminder = await getReminderById(reminderId);
+        if (!reminder || reminder.user_id !== user.id) {
+          await renderReminders(ctx);
           return;
         }
-        if (scheduleType === 'weekly') {
-          setReminderFlow(stateKey, { ...flow, step: 'weekly_day', draft: nextDraft });
-          await renderReminderWeeklyDayPrompt(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow) });
+        await updateReminder(reminderId, { ignoreQuietHours: !reminder.ignore_quiet_hours });
+        await renderReminderDetails(ctx, reminderId);
+        return;
+      }
+      case 'reminders.catch_up_cycle': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
+          await renderReminders(ctx);
           return;
         }
-        if (scheduleType === 'monthly') {
-          setReminderFlow(stateKey, { ...flow, step: 'monthly_day', draft: nextDraft });
-          await renderReminderMonthlyDayPrompt(ctx);
+        // Cycles: user default -> skip -> latest -> summary -> user default.
+        const options: Array<CatchUpPolicy | null> = [null, ...CATCH_UP_POLICIES];
+        const currentIndex = options.indexOf(isCatchUpPolicy(reminder.catch_up_policy) ? reminder.catch_up_policy : null);
+        await updateReminder(reminder.id, { catchUpPolicy: options[(currentIndex + 1) % options.length] });
+        await renderReminderDetails(ctx, reminder.id);
+        return;
+      }
+      case 'reminders.nag': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
+          await renderReminders(ctx);
           return;
         }
-        if (scheduleType === 'yearly') {
-          setReminderFlow(stateKey, { ...flow, step: 'yearly_month', draft: nextDraft });
-          await renderReminderYearlyMonthPrompt(ctx);
+        await renderReminderNagging(ctx, reminder);
+        return;
+      }
+      case 'reminders.nag_set': {
+        const data = (payload as { data?: { reminderId?: string; intervalMinutes?: number; maxRepeats?: number } }).data;
+        const reminder = data?.reminderId ? await getReminderById(data.reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
+          await renderReminders(ctx);
           return;
         }
+        const enabled = (data?.intervalMinutes ?? 0) > 0 && (data?.maxRepeats ?? 0) > 0;
+        await updateReminder(reminder.id, {
+          nagIntervalMinutes: enabled ? data?.intervalMinutes ?? null : null,
+          nagMaxRepeats: enabled ? data?.maxRepeats ?? null : null
+        });
+        await renderReminderDetails(ctx, reminder.id, labels.reminders.editSaved());
         return;
       }
-      case 'reminders.schedule_back': {
+      case 'reminders.ics_export': {
+        await sendRemindersIcs(ctx);
+        return;
+      }
+      case 'reminders.ics_import': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
-          await renderReminders(ctx);
-          return;
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), icsImport: { awaiting: true } });
+        await renderIcsImportPrompt(ctx);
+        return;
+      }
+      case 'reminders.ics_cancel': {
+        if (ctx.from) {
+          const stateKey = String(ctx.from.id);
+          userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), icsImport: undefined });
         }
-        await renderReminderScheduleTypePrompt(ctx, flow.mode, getReminderIdFromFlow(flow));
+        await renderReminders(ctx);
         return;
       }
-      case 'reminders.weekly_day_set': {
+      case 'reminders.ics_import_confirm': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { day?: number } }).data;
-        const day = data?.day;
-        if (day === undefined) {
+        const stateKey = String(ctx.from.id);
+        const candidates = userStates.get(stateKey)?.icsImport?.candidates ?? [];
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), icsImport: undefined });
+        const fresh = candidates.filter((candidate) => !candidate.duplicate);
+        for (const candidate of fresh) {
+          await createReminder({
+            userId: user.id,
+            title: candidate.title,
+            description: candidate.description,
+            schedule: candidate.schedule,
+            nextRunAt: candidate.nextRunAt,
+            enabled: true,
+            isActive: true,
+            status: 'active'
+          });
+        }
+        await renderScreen(ctx, {
+          title: labels.reminders.icsImportTitle(),
+          bodyLines: [labels.reminders.icsImportDone({ count: String(fresh.length) })]
+        });
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.history': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+        await renderReminderHistory(ctx, reminder);
+        return;
+      }
+      case 'reminders.duplicate': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        setReminderFlow(stateKey, { ...flow, step: 'weekly_time', draft: { ...flow.draft, byWeekday: day } });
-        await renderReminderDailyTimePrompt(ctx);
+        const title = reminder.title?.trim() ? t('screens.reminders.duplicate_title', { title: reminder.title.trim() }) : null;
+        const copy = await createReminderFromSnapshot(user.id, await buildReminderSnapshot(reminder), { title });
+        await renderReminderDetails(ctx, copy.id, copy.next_run_at ? labels.reminders.duplicated() : labels.reminders.duplicatedInactive());
         return;
       }
-      case 'reminders.yearly_month_set': {
+      case 'reminders.preset_save': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { month?: number } }).data;
-        const month = data?.month;
-        if (!month) {
+        const stateKey = String(ctx.from.id);
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
+        clearReminderFlow(stateKey);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetInput: { reminderId: reminder.id } });
+        await renderReminderPresetNamePrompt(ctx, reminder);
+        return;
+      }
+      case 'reminders.preset_save_title': {
+        if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetInput: undefined });
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        setReminderFlow(stateKey, { ...flow, step: 'yearly_day', draft: { ...flow.draft, byMonth: month } });
-        await renderReminderMonthlyDayPrompt(ctx);
+        await saveReminderAsPreset(ctx, reminder, reminder.title ?? '');
         return;
       }
-      case 'reminders.date_select': {
+      case 'reminders.preset_save_cancel': {
         if (!ctx.from) break;
-        const data = (payload as { data?: { choice?: string; mode?: ReminderFlow['mode']; reminderId?: string } }).data;
-        const choice = (data?.choice ?? 'today') as ReminderDraft['dateSource'];
         const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetInput: undefined });
+        if (!reminderId) {
           await renderReminders(ctx);
           return;
         }
-        const mode = flow.mode;
-        const reminderId = getReminderIdFromFlow(flow);
-        const { user, settings } = await ensureUserAndSettings(ctx);
-        const timezone = user.timezone ?? config.defaultTimezone;
-
-        if (choice === 'custom') {
-          const local = formatLocalTime(timezone);
-          const draft: ReminderDraft = {
-            ...buildCustomDateDraft(local.date, 'gregorian'),
-            dateSource: 'custom',
-            scheduleType: flow.draft.scheduleType ?? 'once'
-          };
-          if (mode === 'edit') {
-            const editReminderId = reminderId as string;
-            setReminderFlow(stateKey, { mode: 'edit', reminderId: editReminderId, step: 'custom_date', draft });
-            await renderReminderCustomDatePicker(ctx, { mode: 'edit', reminderId: editReminderId, draft });
-          } else {
-            setReminderFlow(stateKey, { mode: 'create', step: 'custom_date', draft });
-            await renderReminderCustomDatePicker(ctx, { mode: 'create', draft });
-          }
-          return;
-        }
-
-        let localDate = formatLocalTime(timezone).date;
-        if (choice === 'tomorrow') {
-          localDate = addDaysToLocalDate(localDate, 1, timezone);
-        } else if (choice === 'weekend') {
-          const weekendDay = getWeekendDay(settings.settings_json as Record<string, unknown>);
-          localDate = getNextWeekendLocalDate(timezone, weekendDay);
-        }
-
-        const baseDraft: ReminderDraft = { localDate, dateSource: choice, scheduleType: flow.draft.scheduleType ?? 'once' };
-        const draft = ensureReminderTimeDraft(baseDraft, timezone);
-        if (mode === 'edit') {
-          const editReminderId = reminderId as string;
-          setReminderFlow(stateKey, { mode: 'edit', reminderId: editReminderId, step: 'time', draft });
-          await renderReminderTimePicker(ctx, { mode: 'edit', reminderId: editReminderId, draft });
-        } else {
-          setReminderFlow(stateKey, { mode: 'create', step: 'time', draft });
-          await renderReminderTimePicker(ctx, { mode: 'create', draft });
-        }
+        await renderReminderDetails(ctx, reminderId);
         return;
       }
-      case 'reminders.weekend_day': {
-        const data = (payload as { data?: { mode?: ReminderFlow['mode']; reminderId?: string } }).data;
-        const mode = data?.mode ?? 'create';
-        const reminderId = data?.reminderId;
-        const kb = new InlineKeyboard();
-        for (let idx = 0; idx < WEEKDAY_KEYS.length; idx += 1) {
-          const btn = await makeActionButton(ctx, {
-            label: getWeekdayLabel(idx),
-            action: 'reminders.weekend_day_set',
-            data: { day: idx, mode, reminderId }
-          });
-          kb.text(btn.text, btn.callback_data);
-          if ((idx + 1) % 3 === 0) kb.row();
-        }
-        const backBtn =
-          mode === 'edit'
-            ? await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.edit_date', data: { reminderId } })
-            : await makeActionButton(ctx, { label: labels.remindersButtons.back(), action: 'reminders.new' });
-        kb.row().text(backBtn.text, backBtn.callback_data);
-        await renderScreen(ctx, {
-          title: labels.reminders.newTitle(),
-          bodyLines: [labels.reminders.weekendDayPrompt()],
-          inlineKeyboard: kb
-        });
+      case 'reminders.presets': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetApply: undefined });
+        await renderReminderPresets(ctx);
         return;
       }
-      case 'reminders.weekend_day_set': {
-        const data = (payload as { data?: { day?: number; mode?: ReminderFlow['mode']; reminderId?: string } }).data;
-        const day = data?.day;
-        if (typeof day === 'number') {
-          const { user } = await ensureUserAndSettings(ctx);
-          await updateUserSettingsJson(user.id, { weekend_day: day });
+      case 'reminders.preset_delete': {
+        const presetId = (payload as { data?: { presetId?: string } }).data?.presetId;
+        if (presetId) await deleteReminderPreset(user.id, presetId);
+        await renderReminderPresets(ctx, presetId ? labels.reminders.presetDeleted() : undefined);
+        return;
+      }
+      case 'reminders.preset_apply': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const presetId = (payload as { data?: { presetId?: string } }).data?.presetId;
+        const preset = presetId ? await getReminderPreset(presetId) : null;
+        const snapshot = preset && preset.user_id === user.id ? parseReminderSnapshot(preset.payload) : null;
+        if (!preset || !snapshot) {
+          await renderReminderPresets(ctx);
+          return;
         }
-        await renderReminderDateSelect(ctx, { mode: data?.mode ?? 'create', reminderId: data?.reminderId });
+        clearReminderFlow(stateKey);
+        const flow: PresetApplyFlow = { presetId: preset.id, presetName: preset.name, step: 'title' };
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), presetApply: flow });
+        await renderPresetApplyStep(ctx, flow, snapshot);
         return;
       }
-      case 'reminders.date_adjust': {
+      case 'reminders.preset_keep': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
+        const flow = userStates.get(stateKey)?.presetApply;
         if (!flow) {
-          await renderReminders(ctx);
+          await renderReminderPresets(ctx);
           return;
         }
-        const data = (payload as { data?: { field?: 'year' | 'month' | 'day'; delta?: number } }).data;
-        if (!data?.field || typeof data.delta !== 'number') {
-          await renderReminders(ctx);
+        await advancePresetApply(ctx, stateKey, flow, {});
+        return;
+      }
+      case 'reminders.occasions': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), occasionInput: undefined });
+        await renderUpcomingOccasions(ctx);
+        return;
+      }
+      case 'reminders.occasion_new': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        const kind = (payload as { data?: { kind?: string } }).data?.kind;
+        if (!isReminderOccasionKind(kind)) {
+          await renderUpcomingOccasions(ctx);
           return;
         }
-        const draft = { ...(flow.draft ?? {}) };
-        if (data.field === 'year') draft.year = (draft.year ?? 0) + data.delta;
-        if (data.field === 'month') {
-          const month = (draft.month ?? 1) + data.delta;
-          draft.month = month < 1 ? 12 : month > 12 ? 1 : month;
-        }
-        if (data.field === 'day') draft.day = Math.max(1, (draft.day ?? 1) + data.delta);
-        const nextDraft = clampCustomDateDraft(draft);
-        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'custom_date' });
-        await renderReminderCustomDatePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
+        clearReminderFlow(stateKey);
+        const flow: OccasionFlow = { kind, calendar: 'gregorian', step: 'person' };
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), occasionInput: flow });
+        await renderOccasionStep(ctx, flow);
         return;
       }
-      case 'reminders.date_toggle': {
+      case 'reminders.occasion_calendar': {
         if (!ctx.from) break;
         const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
-          await renderReminders(ctx);
+        const calendar = (payload as { data?: { calendar?: string } }).data?.calendar === 'jalali' ? 'jalali' : 'gregorian';
+        const current = userStates.get(stateKey)?.occasionInput;
+        if (!current) {
+          await renderUpcomingOccasions(ctx);
           return;
         }
-        const draft = flow.draft;
-        const dateMode = draft.dateMode ?? 'gregorian';
-        let nextDraft: ReminderDraft = draft;
-        if (draft.year && draft.month && draft.day) {
-          if (dateMode === 'gregorian') {
-            const jalali = gregorianToJalali(draft.year, draft.month, draft.day);
-            nextDraft = { ...draft, dateMode: 'jalali', year: jalali.year, month: jalali.month, day: jalali.day };
-          } else {
-            const greg = jalaliToGregorian(draft.year, draft.month, draft.day);
-            nextDraft = { ...draft, dateMode: 'gregorian', year: greg.year, month: greg.month, day: greg.day };
-          }
-        }
-        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'custom_date' });
-        await renderReminderCustomDatePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
+        const flow: OccasionFlow = { ...current, calendar };
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), occasionInput: flow });
+        await renderOccasionStep(ctx, flow);
         return;
       }
-      case 'reminders.date_manual': {
-        await renderScreen(ctx, {
-          title: labels.reminders.newTitle(),
-          bodyLines: [labels.reminders.customDateManualPrompt()]
-        });
+      case 'reminders.share': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          await renderReminders(ctx);
+          return;
+        }
+        await renderReminderSharing(ctx, reminderId);
         return;
       }
-      case 'reminders.date_confirm': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+      case 'reminders.share_reset': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
           await renderReminders(ctx);
           return;
         }
-        const draft = flow.draft;
-        if (!draft.year || !draft.month || !draft.day || !draft.dateMode) {
+        await renderReminderSharing(ctx, reminderId, labels.reminders.shareLinkReset(), true);
+        return;
+      }
+      case 'reminders.share_remove': {
+        const data = (payload as { data?: { reminderId?: string; recipientId?: string } }).data;
+        const reminder = data?.reminderId ? await getReminderById(data.reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        let localDate = '';
-        if (draft.dateMode === 'gregorian') {
-          localDate = `${draft.year}-${String(draft.month).padStart(2, '0')}-${String(draft.day).padStart(2, '0')}`;
-        } else {
-          const greg = jalaliToGregorian(draft.year, draft.month, draft.day);
-          localDate = `${greg.year}-${String(greg.month).padStart(2, '0')}-${String(greg.day).padStart(2, '0')}`;
+        if (data?.recipientId) await removeReminderRecipient(reminder.id, data.recipientId);
+        await renderReminderSharing(ctx, reminder.id, labels.reminders.shareRemoved());
+        return;
+      }
+      case 'reminders.recipient_ack': {
+        const data = (payload as { data?: { reminderId?: string; deliveryKey?: string } }).data;
+        const recipient = data?.reminderId && ctx.chat ? await getReminderRecipientByChat(data.reminderId, ctx.chat.id) : null;
+        if (!data?.reminderId || !data.deliveryKey || !recipient || !ctx.from) {
+          await ctx.answerCallbackQuery({ text: labels.reminders.deliveryActionFailed(), show_alert: true });
+          return;
+        }
+        const actionBy = formatTelegramName(ctx.from);
+        await recordRecipientAck({ reminderId: data.reminderId, deliveryKey: data.deliveryKey, actionBy });
+        // The buttons stay so that other members of a group can acknowledge the same message too.
+        const messageText = ctx.callbackQuery.message?.text;
+        const ackLine = labels.reminders.recipientAcked({ name: actionBy });
+        if (messageText && !messageText.includes(ackLine)) {
+          await ctx.editMessageText(`${messageText}\n\n${ackLine}`, { reply_markup: ctx.callbackQuery.message?.reply_markup });
         }
-        const nextDraft = ensureReminderTimeDraft({ ...draft, localDate, dateSource: 'custom' }, (await ensureUserAndSettings(ctx)).user.timezone ?? config.defaultTimezone);
-        setReminderFlow(stateKey, { ...flow, step: 'time', draft: nextDraft });
-        await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
         return;
       }
-      case 'reminders.time_adjust': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
-          await renderReminders(ctx);
+      case 'reminders.share_leave': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const recipient = reminderId && ctx.chat ? await getReminderRecipientByChat(reminderId, ctx.chat.id) : null;
+        if (recipient && !(await canLeaveSharedReminder(ctx, recipient))) {
+          await ctx.answerCallbackQuery({ text: labels.reminders.shareLeaveNotAllowed(), show_alert: true });
           return;
         }
-        const delta = (payload as { data?: { delta?: number } }).data?.delta;
-        if (typeof delta !== 'number') {
+        const left = reminderId && ctx.chat ? await leaveSharedReminder(reminderId, ctx.chat.id) : false;
+        const messageText = ctx.callbackQuery.message?.text;
+        if (messageText) {
+          await ctx.editMessageText(`${messageText}\n\n${left ? labels.reminders.shareLeft() : labels.reminders.shareNotJoined()}`);
+        }
+        return;
+      }
+      case 'reminders.resume_paused': {
+        const { resumed, expired } = await resumePausedReminders(user.id);
+        const flashLines = [labels.reminders.resumedPaused({ count: String(resumed) })];
+        if (expired > 0) flashLines.push(t('screens.reminders.resumed_expired', { count: String(expired) }));
+        await renderReminders(ctx, flashLines.join('\n'));
+        return;
+      }
+      case 'reminders.list_page': {
+        const page = Number((payload as { data?: { page?: number } }).data?.page ?? 0);
+        setReminderListView(ctx, { page: Number.isInteger(page) && page > 0 ? page : 0 });
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.list_filters': {
+        await renderReminderListFilters(ctx);
+        return;
+      }
+      case 'reminders.list_set': {
+        const data = (payload as { data?: { status?: string; scheduleType?: string; sort?: string } }).data ?? {};
+        const patch: Partial<ReminderListView> = { page: 0 };
+        if (REMINDER_LIST_STATUS_FILTERS.includes(data.status as ReminderListStatusFilter)) patch.status = data.status as ReminderListStatusFilter;
+        if (data.scheduleType === 'all') patch.scheduleType = null;
+        if (REMINDER_LIST_SCHEDULE_TYPES.includes(data.scheduleType as ReminderScheduleType)) patch.scheduleType = data.scheduleType as ReminderScheduleType;
+        if (REMINDER_LIST_SORTS.includes(data.sort as ReminderListSort)) patch.sort = data.sort as ReminderListSort;
+        setReminderListView(ctx, patch);
+        await renderReminderListFilters(ctx);
+        return;
+      }
+      case 'reminders.select_mode': {
+        const on = Boolean((payload as { data?: { on?: boolean } }).data?.on);
+        setReminderListView(ctx, { selecting: on, selected: [] });
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.select_toggle': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const { selected } = getReminderListView(ctx);
+        if (reminderId) {
+          setReminderListView(ctx, {
+            selected: selected.includes(reminderId) ? selected.filter((id) => id !== reminderId) : [...selected, reminderId]
+          });
+        }
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.select_page': {
+        const reminderIds = (payload as { data?: { reminderIds?: string[] } }).data?.reminderIds ?? [];
+        const { selected } = getReminderListView(ctx);
+        setReminderListView(ctx, { selected: Array.from(new Set([...selected, ...reminderIds])) });
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.select_clear': {
+        setReminderListView(ctx, { selected: [] });
+        await renderReminders(ctx);
+        return;
+      }
+      case 'reminders.bulk': {
+        const op = (payload as { data?: { op?: 'pause' | 'resume' } }).data?.op;
+        const { selected } = getReminderListView(ctx);
+        if (op !== 'pause' && op !== 'resume') {
           await renderReminders(ctx);
           return;
         }
-        const draft = ensureReminderTimeDraft(flow.draft, (await ensureUserAndSettings(ctx)).user.timezone ?? config.defaultTimezone);
-        const nextMinutes = normalizeTimeMinutes((draft.timeMinutes ?? 0) + delta);
-        const nextDraft = { ...draft, timeMinutes: nextMinutes, localTime: minutesToHhmm(nextMinutes) };
-        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'time' });
-        await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
+        const changed = await setRemindersEnabled(user.id, selected, op === 'resume');
+        setReminderListView(ctx, { selecting: false, selected: [] });
+        await renderReminders(ctx, op === 'resume' ? labels.reminders.bulkResumed({ count: String(changed) }) : labels.reminders.bulkPaused({ count: String(changed) }));
         return;
       }
-      case 'reminders.time_preset': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+      case 'reminders.bulk_delete': {
+        const { selected } = getReminderListView(ctx);
+        if (selected.length === 0) {
           await renderReminders(ctx);
           return;
         }
-        const preset = (payload as { data?: { preset?: string } }).data?.preset;
-        const parsed = preset ? parseTimeHhmm(preset) : null;
-        if (!parsed) {
+        const confirmBtn = await makeActionButton(ctx, { label: t('buttons.confirm_delete'), action: 'reminders.bulk_delete_confirm' });
+        const cancelBtn = await makeActionButton(ctx, { label: t('buttons.cancel'), action: 'nav.reminders' });
+        await renderScreen(ctx, {
+          title: labels.reminders.title(),
+          bodyLines: [labels.reminders.bulkDeleteConfirm({ count: String(selected.length) })],
+          inlineKeyboard: new InlineKeyboard().text(confirmBtn.text, confirmBtn.callback_data).text(cancelBtn.text, cancelBtn.callback_data)
+        });
+        return;
+      }
+      case 'reminders.bulk_delete_confirm': {
+        const { selected } = getReminderListView(ctx);
+        const deletedIds = await deleteReminders(user.id, selected);
+        await markRemindersArchiveDeleted(ctx, deletedIds);
+        setReminderListView(ctx, { selecting: false, selected: [] });
+        await renderReminders(ctx, labels.reminders.bulkDeleted({ count: String(deletedIds.length) }));
+        return;
+      }
+      case 'reminders.reliability': {
+        await renderReminderReliability(ctx);
+        return;
+      }
+      case 'reminders.pre_alerts': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        const reminder = reminderId ? await getReminderById(reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        const nextDraft = { ...flow.draft, timeMinutes: parsed.minutes, localTime: parsed.hhmm };
-        setReminderFlow(stateKey, { ...flow, draft: nextDraft, step: 'time' });
-        await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
+        await renderReminderPreAlerts(ctx, reminder);
         return;
       }
-      case 'reminders.time_manual': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
+      case 'reminders.pre_alert_toggle': {
+        const data = (payload as { data?: { reminderId?: string; minutes?: number } }).data;
+        const reminder = data?.reminderId ? await getReminderById(data.reminderId) : null;
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        setReminderFlow(stateKey, { ...flow, step: 'time_manual' });
-        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.timeManualPrompt()] });
+        const minutes = Number(data?.minutes ?? 0);
+        const current = normalizePreAlertOffsets(reminder.pre_alert_offsets_minutes);
+        const next = minutes > 0 ? (current.includes(minutes) ? current.filter((value) => value !== minutes) : [...current, minutes]) : [];
+        const offsets = normalizePreAlertOffsets(next);
+        const updated = await updateReminder(reminder.id, { preAlertOffsetsMinutes: offsets.length ? offsets : null });
+        await renderReminderPreAlerts(ctx, updated);
         return;
       }
-      case 'reminders.time_confirm': {
-        if (!ctx.from) break;
-        const stateKey = String(ctx.from.id);
-        const flow = userStates.get(stateKey)?.reminderFlow;
-        if (!flow) {
-          await renderReminders(ctx);
+      case 'reminders.condition': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        if (!reminderId) {
+          const flow = ctx.from ? userStates.get(String(ctx.from.id))?.reminderFlow : undefined;
+          if (!flow || flow.mode !== 'create') {
+            await renderReminders(ctx);
+            return;
+          }
+          await renderReminderConditionPicker(ctx, { current: flow.draft.condition ?? null });
           return;
         }
-        const draft = flow.draft;
-        if (!draft.localDate || !draft.localTime) {
+        const reminder = await getReminderById(reminderId);
+        if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        await persistReminderSchedule(ctx, flow);
+        await renderReminderConditionPicker(ctx, { reminderId, current: parseReminderCondition(reminder.condition_json) });
         return;
       }
-      case 'reminders.toggle': {
-        const data = (payload as { data?: { reminderId?: string } }).data;
-        const reminderId = data?.reminderId;
-        if (!reminderId) {
+      case 'reminders.condition_item': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        await renderReminderConditionItems(ctx, { userId: user.id, reminderId });
+        return;
+      }
+      case 'reminders.condition_count': {
+        const reminderId = (payload as { data?: { reminderId?: string } }).data?.reminderId;
+        await renderReminderConditionCount(ctx, { userId: user.id, reminderId });
+        return;
+      }
+      case 'reminders.condition_set': {
+        const data = (payload as { data?: { reminderId?: string; type?: string; itemId?: string; count?: number } }).data;
+        const condition = data?.type === 'none' ? null : parseReminderCondition({ type: data?.type, item_id: data?.itemId, count: data?.count });
+        if (data?.type !== 'none' && !condition) {
           await renderReminders(ctx);
           return;
         }
-        const { user } = await ensureUserAndSettings(ctx);
-        const reminder = await getReminderById(reminderId);
+        if (!data?.reminderId) {
+          const flow = ctx.from ? userStates.get(String(ctx.from.id))?.reminderFlow : undefined;
+          if (!flow || flow.mode !== 'create') {
+            await renderReminders(ctx);
+            return;
+          }
+          await persistReminderSchedule(ctx, { ...flow, draft: { ...flow.draft, condition } });
+          return;
+        }
+        const reminder = await getReminderById(data.reminderId);
         if (!reminder || reminder.user_id !== user.id) {
           await renderReminders(ctx);
           return;
         }
-        await toggleReminderEnabled(reminderId);
-        await renderReminders(ctx);
+        await updateReminder(reminder.id, { condition });
+        await renderReminderDetails(ctx, reminder.id, labels.reminders.editSaved());
         return;
       }
       case 'reminders.delete': {
@@ -7102,6 +10434,159 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
       }
 
       /* --- Settings --- */
+      case 'settings.quiet_hours': {
+        if (ctx.from) {
+          const stateKey = String(ctx.from.id);
+          userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), quietHoursInput: undefined });
+        }
+        await renderQuietHoursSettings(ctx);
+        return;
+      }
+      case 'settings.quiet_hours_set': {
+        const data = (payload as { data?: { start?: string; end?: string; off?: boolean } }).data;
+        const next = data?.off ? null : { start: data?.start, end: data?.end };
+        if (next && !isValidQuietHours(next)) {
+          await renderQuietHoursSettings(ctx);
+          return;
+        }
+        const updatedSettings = await setUserQuietHours(user.id, next);
+        updateCachedUserContext(ctx, { settings: updatedSettings });
+        await renderQuietHoursSettings(ctx, t('screens.settings.quiet_hours_saved'));
+        return;
+      }
+      case 'settings.catch_up': {
+        await renderCatchUpSettings(ctx);
+        return;
+      }
+      case 'settings.catch_up_set': {
+        const data = (payload as { data?: { policy?: string; staleAfterMinutes?: number } }).data;
+        const { settings } = await ensureUserAndSettings(ctx);
+        const current = getCatchUpSettingsFromSettings(settings);
+        const staleAfterMinutes = data?.staleAfterMinutes;
+        const next = {
+          policy: isCatchUpPolicy(data?.policy) ? data.policy : current.policy,
+          staleAfterMinutes:
+            typeof staleAfterMinutes === 'number' && CATCH_UP_STALE_PRESETS_MINUTES.includes(staleAfterMinutes)
+              ? staleAfterMinutes
+              : current.staleAfterMinutes
+        };
+        const updatedSettings = await setUserCatchUpSettings(user.id, next);
+        updateCachedUserContext(ctx, { settings: updatedSettings });
+        await renderCatchUpSettings(ctx, t('screens.settings.catch_up_saved'));
+        return;
+      }
+      case 'settings.timezone': {
+        if (ctx.from) {
+          const stateKey = String(ctx.from.id);
+          userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), timezoneInput: undefined });
+        }
+        await renderTimezoneSettings(ctx);
+        return;
+      }
+      case 'settings.timezone_search': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), timezoneInput: 'search' });
+        const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'settings.timezone' });
+        await renderScreen(ctx, {
+          titleKey: t('screens.settings.timezone_title'),
+          bodyLines: [t('screens.settings.timezone_search_prompt')],
+          inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data)
+        });
+        return;
+      }
+      case 'settings.timezone_location': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), timezoneInput: 'location', locationInput: undefined });
+        // Telegram only offers location sharing on reply keyboards, so this goes out as a separate message.
+        await ctx.reply(t('screens.settings.timezone_location_prompt'), {
+          reply_markup: new Keyboard().requestLocation(t('buttons.settings_timezone_share_location')).resized().oneTime()
+        });
+        return;
+      }
+      case 'settings.timezone_pick': {
+        const timezone = (payload as { data?: { timezone?: string } }).data?.timezone;
+        if (!isValidTimezone(timezone)) {
+          await renderTimezoneSettings(ctx);
+          return;
+        }
+        await renderTimezonePreview(ctx, timezone);
+        return;
+      }
+      case 'settings.timezone_apply': {
+        const timezone = (payload as { data?: { timezone?: string } }).data?.timezone;
+        if (!isValidTimezone(timezone)) {
+          await renderTimezoneSettings(ctx);
+          return;
+        }
+        const currentTimezone = user.timezone ?? config.defaultTimezone;
+        const moves = await planReminderTimezoneMoves(user.id, currentTimezone, timezone);
+        await applyReminderTimezoneMoves(moves, timezone);
+        const updatedUser = await updateUserTimezone(user.id, timezone);
+        updateCachedUserContext(ctx, { user: updatedUser });
+        clearReportContextCache();
+        if (ctx.from) {
+          const stateKey = String(ctx.from.id);
+          userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), timezoneInput: undefined });
+        }
+        await renderTimezoneSettings(ctx, [
+          t('screens.settings.timezone_saved', { timezone }),
+          ...formatTimezoneMoveLines(moves, timezone)
+        ]);
+        return;
+      }
+      case 'settings.location': {
+        if (ctx.from) {
+          const stateKey = String(ctx.from.id);
+          userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), locationInput: undefined });
+        }
+        await renderLocationSettings(ctx);
+        return;
+      }
+      case 'settings.location_city': {
+        const city = findCityPreset((payload as { data?: { city?: string } }).data?.city);
+        if (!city) {
+          await renderLocationSettings(ctx);
+          return;
+        }
+        await saveUserLocation(ctx, { latitude: city.latitude, longitude: city.longitude, locationLabel: city.key });
+        return;
+      }
+      case 'settings.location_share': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), locationInput: true, timezoneInput: undefined });
+        await ctx.reply(t('screens.settings.location_share_prompt'), {
+          reply_markup: new Keyboard().requestLocation(t('buttons.settings_timezone_share_location')).resized().oneTime()
+        });
+        return;
+      }
+      case 'settings.prayer_method': {
+        await renderPrayerMethodSettings(ctx);
+        return;
+      }
+      case 'settings.prayer_method_set': {
+        const method = (payload as { data?: { method?: string } }).data?.method;
+        if (!isPrayerMethod(method)) {
+          await renderPrayerMethodSettings(ctx);
+          return;
+        }
+        await saveUserLocation(ctx, { prayerMethod: method });
+        return;
+      }
+      case 'settings.quiet_hours_custom': {
+        if (!ctx.from) break;
+        const stateKey = String(ctx.from.id);
+        userStates.set(stateKey, { ...(userStates.get(stateKey) ?? {}), quietHoursInput: true });
+        const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'settings.quiet_hours' });
+        await renderScreen(ctx, {
+          titleKey: t('screens.settings.quiet_hours_title'),
+          bodyLines: [t('screens.settings.quiet_hours_custom_prompt')],
+          inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data)
+        });
+        return;
+      }
       case 'settings.speed_test': {
         const startHandler = Date.now();
         const { user: u } = await ensureUserAndSettings(ctx);
@@ -7151,6 +10636,57 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
         return;
       }
 
+      case 'dr.quick_entry': {
+        const reportDayId = (payload as { data?: { reportDayId?: string } }).data?.reportDayId;
+        const context = reportDayId ? await ensureContextByReportDayId(ctx, reportDayId) : await ensureReportContext(ctx);
+        const reportDay = context.reportDay;
+        if (reportDay.locked) {
+          await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: isLockedMessageLines(reportDay), inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay) });
+          return;
+        }
+        const telegramId = String(ctx.from?.id ?? '');
+        const updated = { ...(userStates.get(telegramId) ?? {}) };
+        delete updated.awaitingValue;
+        delete updated.numericDraft;
+        delete updated.choiceDraft;
+        delete updated.timeDraft;
+        updated.quickEntry = { reportDayId: reportDay.id };
+        userStates.set(telegramId, updated);
+        await renderQuickEntryPrompt(ctx, reportDay.id);
+        return;
+      }
+
+      case 'dr.quick_entry_save': {
+        const reportDayId = (payload as { data?: { reportDayId?: string } }).data?.reportDayId;
+        const telegramId = String(ctx.from?.id ?? '');
+        const quickEntry = userStates.get(telegramId)?.quickEntry;
+        if (!reportDayId || !quickEntry?.entries?.length || quickEntry.reportDayId !== reportDayId) {
+          await renderDailyReportRoot(ctx);
+          return;
+        }
+        const { reportDay, items } = await ensureContextByReportDayId(ctx, reportDayId);
+        userStates.set(telegramId, { ...(userStates.get(telegramId) ?? {}), quickEntry: undefined });
+        if (reportDay.locked) {
+          await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: isLockedMessageLines(reportDay), inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay) });
+          return;
+        }
+        let saved = 0;
+        for (const entry of quickEntry.entries) {
+          const item = items.find((i) => i.id === entry.itemId);
+          if (!item) continue;
+          try {
+            await saveValue({ reportDayId: reportDay.id, item, valueJson: entry.valueJson, userId: reportDay.user_id });
+            saved += 1;
+          } catch (error) {
+            console.error({ scope: 'daily_report', event: 'quick_entry_save_failed', error, reportDayId, itemId: item.id });
+          }
+        }
+        const lines = [t('screens.daily_report.quick_entry_saved', { count: saved })];
+        if (saved < quickEntry.entries.length) lines.push(t('screens.daily_report.save_failed'));
+        await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: lines, inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay) });
+        return;
+      }
+
       case 'dr.open_date': {
         const localDate = (payload as { data?: { localDate?: string } }).data?.localDate;
         if (!localDate) {
@@ -7196,7 +10732,7 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
         }
 
         const statuses = await listCompletionStatus(reportDay.id, filterRoutineDisplayItems(items));
-        const next = statuses.find((s) => !s.filled && !s.skipped);
+        const next = statuses.find((s) => !s.filled && !s.skipped && s.item.item_type !== 'computed');
         if (!next) {
           await renderScreen(ctx, { titleKey: t('screens.daily_report.title'), bodyLines: [t('screens.daily_report.all_done')], inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay) });
           return;
@@ -7570,6 +11106,7 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
         const statusFilter = st.awaitingValue?.statusFilter;
         if (st.awaitingValue?.itemId === itemId && st.awaitingValue?.reportDayId === reportDayId) delete st.awaitingValue;
         delete st.numericDraft;
+        delete st.choiceDraft;
         delete st.timeDraft;
         userStates.set(telegramId, st);
 
@@ -7626,6 +11163,76 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
         return;
       }
 
+      case 'dr.choice':
+      case 'dr.rating':
+      case 'dr.choice_toggle':
+      case 'dr.choice_save': {
+        const data = (payload as { data?: { reportDayId?: string; itemId?: string; key?: string; value?: number } }).data;
+        const reportDayId = data?.reportDayId;
+        const itemId = data?.itemId;
+        if (!reportDayId || !itemId) {
+          await renderDailyReportRoot(ctx);
+          return;
+        }
+
+        const context = await ensureContextByReportDayId(ctx, reportDayId);
+        const reportDay = context.reportDay;
+        const item = context.items.find((i) => i.id === itemId);
+        if (!item) {
+          await renderDailyReportRoot(ctx);
+          return;
+        }
+        if (reportDay.locked) {
+          await renderScreen(ctx, {
+            titleKey: t('screens.daily_report.title'),
+            bodyLines: isLockedMessageLines(reportDay),
+            inlineKeyboard: await buildDailyReportKeyboard(ctx, reportDay, { items: context.items })
+          });
+          return;
+        }
+
+        const choices = getItemChoices(item);
+        if (action === 'dr.rating') {
+          const value = Number(data.value);
+          if (!Number.isInteger(value) || value < RATING_MIN || value > RATING_MAX) {
+            await renderRatingInput(ctx, reportDayId, item);
+            return;
+          }
+          await saveButtonValue(ctx, { reportDayId, item, reportDay, valueJson: { value } });
+          return;
+        }
+        if (action === 'dr.choice') {
+          if (!data.key || !choices.some((c) => c.key === data.key)) {
+            await renderChoiceInput(ctx, reportDayId, item);
+            return;
+          }
+          await saveButtonValue(ctx, { reportDayId, item, reportDay, valueJson: { value: data.key } });
+          return;
+        }
+
+        const telegramId = String(ctx.from?.id ?? '');
+        const current = userStates.get(telegramId)?.choiceDraft;
+        const draft: ChoiceDraftState =
+          current && current.reportDayId === reportDayId && current.itemId === itemId ? current : { reportDayId, itemId, selected: [] };
+        if (action === 'dr.choice_toggle') {
+          const key = data.key;
+          const selected =
+            !key || !choices.some((c) => c.key === key)
+              ? draft.selected
+              : draft.selected.includes(key)
+                ? draft.selected.filter((k) => k !== key)
+                : [...draft.selected, key];
+          const nextDraft = { ...draft, selected };
+          userStates.set(telegramId, { ...(userStates.get(telegramId) ?? {}), choiceDraft: nextDraft });
+          await renderMultiChoiceInput(ctx, reportDayId, item, nextDraft);
+          return;
+        }
+        // Keep the template's order rather than the order the options were tapped in.
+        const values = choices.filter((c) => draft.selected.includes(c.key)).map((c) => c.key);
+        await saveButtonValue(ctx, { reportDayId, item, reportDay, valueJson: { values } });
+        return;
+      }
+
       case 'dr.routine_open_tasks': {
         const data = (payload as { data?: { reportDayId?: string; routineId?: string; itemId?: string; origin?: 'next' | 'status'; statusFilter?: 'all' | 'not_filled' | 'filled' } }).data;
         if (!data?.reportDayId || !data.routineId) {
@@ -8303,6 +11910,16 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
         const telegramId = String(ctx.from?.id ?? '');
         const state = userStates.get(telegramId)?.templateItemFlow;
         if (state && state.mode === 'create' && state.templateId === data.templateId && state.step === 'type') {
+          if (isChoiceItemType(data.itemType)) {
+            setTemplateItemFlow(telegramId, { ...state, draft: { ...state.draft, itemType: data.itemType }, step: 'options' });
+            await promptChoiceOptionsInput(ctx, { templateId: data.templateId });
+            return;
+          }
+          if (data.itemType === 'computed') {
+            setTemplateItemFlow(telegramId, { ...state, draft: { ...state.draft, itemType: data.itemType }, step: 'formula' });
+            await promptFormulaInput(ctx, { templateId: data.templateId });
+            return;
+          }
           setTemplateItemFlow(telegramId, { ...state, draft: { ...state.draft, itemType: data.itemType }, step: 'category' });
           await promptCategorySelection(ctx, { templateId: data.templateId });
           return;
@@ -8315,13 +11932,88 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
             await renderTemplatesScreen(ctx);
             return;
           }
+          if (isChoiceItemType(data.itemType) && getItemChoices(item).length === 0) {
+            // The new type is saved together with its options once they are sent.
+            setTemplateItemFlow(telegramId, {
+              mode: 'edit',
+              templateId: data.templateId,
+              itemId: data.itemId,
+              step: 'options',
+              draft: { itemType: data.itemType, optionsJson: item.options_json ?? {} }
+            });
+            await promptChoiceOptionsInput(ctx, { templateId: data.templateId, itemId: data.itemId, backToItem: true });
+            return;
+          }
+          if (data.itemType === 'computed' && !getItemFormula(item)) {
+            setTemplateItemFlow(telegramId, {
+              mode: 'edit',
+              templateId: data.templateId,
+              itemId: data.itemId,
+              step: 'formula',
+              draft: { itemType: data.itemType, itemKey: item.item_key, optionsJson: item.options_json ?? {} }
+            });
+            await promptFormulaInput(ctx, { templateId: data.templateId, itemId: data.itemId, backToItem: true });
+            return;
+          }
           await updateItem(data.itemId, { item_type: data.itemType });
           clearTemplateItemFlow(telegramId);
           clearReportContextCache();
           await renderTemplateItemMenu(ctx, data.templateId, data.itemId, t('screens.daily_report.item_saved'));
           return;
         }
-        await renderTemplateEdit(ctx, data.templateId);
+        await renderTemplateEdit(ctx, data.templateId);
+        return;
+      }
+
+      case 'dr.template_item_edit_options': {
+        const data = (payload as { data?: { templateId?: string; itemId?: string } }).data;
+        if (!data?.templateId || !data.itemId) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const { user: u } = await ensureUserAndSettings(ctx);
+        const tpl = await getTemplateById(data.templateId);
+        const item = await getItemById(data.itemId);
+        if (!tpl || tpl.user_id !== u.id || !item || item.template_id !== tpl.id) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const telegramId = String(ctx.from?.id ?? '');
+        clearTemplateItemFlow(telegramId);
+        setTemplateItemFlow(telegramId, {
+          mode: 'edit',
+          templateId: data.templateId,
+          itemId: data.itemId,
+          step: 'options',
+          draft: { itemType: item.item_type, optionsJson: item.options_json ?? {} }
+        });
+        await promptChoiceOptionsInput(ctx, { templateId: data.templateId, itemId: data.itemId, backToItem: true });
+        return;
+      }
+
+      case 'dr.template_item_edit_formula': {
+        const data = (payload as { data?: { templateId?: string; itemId?: string } }).data;
+        if (!data?.templateId || !data.itemId) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const { user: u } = await ensureUserAndSettings(ctx);
+        const tpl = await getTemplateById(data.templateId);
+        const item = await getItemById(data.itemId);
+        if (!tpl || tpl.user_id !== u.id || !item || item.template_id !== tpl.id) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const telegramId = String(ctx.from?.id ?? '');
+        clearTemplateItemFlow(telegramId);
+        setTemplateItemFlow(telegramId, {
+          mode: 'edit',
+          templateId: data.templateId,
+          itemId: data.itemId,
+          step: 'formula',
+          draft: { itemType: item.item_type, itemKey: item.item_key, optionsJson: item.options_json ?? {} }
+        });
+        await promptFormulaInput(ctx, { templateId: data.templateId, itemId: data.itemId, backToItem: true });
         return;
       }
 
@@ -8462,7 +12154,7 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
               ? { ...(state?.draft.optionsJson ?? {}), per: 'minute' }
               : chosenMode === 'per_number'
                 ? { ...(state?.draft.optionsJson ?? {}), perNumber: 1, xpPerUnit: state?.draft.xpValue ?? 1 }
-                : {}
+                : keepItemOptions(state?.draft.optionsJson)
         };
 
         if (state && state.mode === 'create' && state.templateId === data.templateId) {
@@ -8488,7 +12180,7 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
           const normalizedForExisting = normalizeXpModeForItemType(item.item_type, normalizedXpMode);
 
           if (normalizedForExisting === 'none') {
-            await updateItem(data.itemId, { xp_mode: null, xp_value: null, xp_max_per_day: null, options_json: {} });
+            await updateItem(data.itemId, { xp_mode: null, xp_value: null, xp_max_per_day: null, options_json: keepItemOptions(item.options_json) });
             clearTemplateItemFlow(telegramId);
             clearReportContextCache();
             await renderTemplateItemMenu(ctx, data.templateId, data.itemId, t('screens.daily_report.item_saved'));
@@ -8509,6 +12201,100 @@ bot.callbackQuery(/^[A-Za-z0-9_-]{8,12}$/, async (ctx) => {
         return;
       }
 
+      case 'dr.template_item_edit_aliases': {
+        const data = (payload as { data?: { templateId?: string; itemId?: string } }).data;
+        if (!data?.templateId || !data.itemId) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const { user: u } = await ensureUserAndSettings(ctx);
+        const tpl = await getTemplateById(data.templateId);
+        const item = await getItemById(data.itemId);
+        if (!tpl || tpl.user_id !== u.id || !item || item.template_id !== tpl.id) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const telegramId = String(ctx.from?.id ?? '');
+        clearTemplateItemFlow(telegramId);
+        setTemplateItemFlow(telegramId, { mode: 'edit', templateId: data.templateId, itemId: data.itemId, step: 'aliases', draft: {} });
+        const backBtn = await makeActionButton(ctx, { label: t('buttons.back'), action: 'dr.template_item_menu', data: { templateId: data.templateId, itemId: data.itemId } });
+        const bodyLines = [t('screens.templates.ask_aliases', { max: MAX_ITEM_ALIASES }), t('screens.templates.aliases_hint')];
+        if (item.aliases?.length) bodyLines.push('', t('screens.templates.aliases_current', { aliases: item.aliases.join(', ') }));
+        await renderScreen(ctx, { titleKey: t('screens.daily_report.item_menu_title'), bodyLines, inlineKeyboard: new InlineKeyboard().text(backBtn.text, backBtn.callback_data) });
+        return;
+      }
+
+      case 'dr.template_item_edit_target': {
+        const data = (payload as { data?: { templateId?: string; itemId?: string } }).data;
+        if (!data?.templateId || !data.itemId) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const { user: u } = await ensureUserAndSettings(ctx);
+        const tpl = await getTemplateById(data.templateId);
+        const item = await getItemById(data.itemId);
+        if (!tpl || tpl.user_id !== u.id || !item || item.template_id !== tpl.id || !TARGET_ITEM_TYPES.includes(item.item_type)) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const telegramId = String(ctx.from?.id ?? '');
+        clearTemplateItemFlow(telegramId);
+        setTemplateItemFlow(telegramId, { mode: 'edit', templateId: data.templateId, itemId: data.itemId, step: 'target', draft: {} });
+        await promptItemTargetInput(ctx, { templateId: data.templateId, itemId: data.itemId, item, step: 'target' });
+        return;
+      }
+
+      case 'dr.template_item_schedule':
+      case 'dr.template_item_schedule_weekday':
+      case 'dr.template_item_schedule_prompt':
+      case 'dr.template_item_schedule_clear': {
+        const data = (payload as { data?: { templateId?: string; itemId?: string; day?: number; field?: 'every' | 'from' | 'until' } }).data;
+        if (!data?.templateId || !data.itemId) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        const { user: u } = await ensureUserAndSettings(ctx);
+        const tpl = await getTemplateById(data.templateId);
+        const item = await getItemById(data.itemId);
+        if (!tpl || tpl.user_id !== u.id || !item || item.template_id !== tpl.id) {
+          await renderTemplatesScreen(ctx);
+          return;
+        }
+        if (action === 'dr.template_item_schedule') {
+          await renderTemplateItemSchedule(ctx, data.templateId, data.itemId);
+          return;
+        }
+        if (action === 'dr.template_item_schedule_prompt') {
+          const field = data.field === 'from' || data.field === 'until' ? data.field : 'every';
+          const telegramId = String(ctx.from?.id ?? '');
+          clearTemplateItemFlow(telegramId);
+          setTemplateItemFlow(telegramId, {
+            mode: 'edit',
+            templateId: data.templateId,
+            itemId: data.itemId,
+            step: field === 'every' ? 'schedule_every' : field === 'from' ? 'schedule_from' : 'schedule_until',
+            draft: {}
+          });
+          await promptItemScheduleInput(ctx, { templateId: data.templateId, itemId: data.itemId, field });
+          return;
+        }
+        if (action === 'dr.template_item_schedule_weekday') {
+          const day = Number(data.day);
+          if (!Number.isInteger(day) || day < 0 || day > 6) {
+            await renderTemplateItemSchedule(ctx, data.templateId, data.itemId);
+            return;
+          }
+          const current = item.schedule_weekdays ?? [];
+          const weekdays = current.includes(day) ? current.filter((d) => d !== day) : [...current, day].sort((a, b) => a - b);
+          await updateItem(item.id, { schedule_weekdays: weekdays.length ? weekdays : null });
+        } else {
+          await updateItem(item.id, { schedule_weekdays: null, schedule_every_days: null, active_from: null, active_until: null });
+        }
+        clearReportContextCache();
+        await renderTemplateItemSchedule(ctx, data.templateId, data.itemId, t('screens.daily_report.item_saved'));
+        return;
+      }
+
       case 'dr.template_item_toggle_enabled': {
         const data = (payload as { data?: { templateId?: string; itemId?: string } }).data;
         if (!data?.templateId || !data.itemId) {
@@ -8947,6 +12733,103 @@ bot.on('message:text', async (ctx: Context) => {
     return;
   }
 
+  if (state.timezoneInput === 'search') {
+    const query = text.trim();
+    if (isValidTimezone(query) && query.includes('/')) {
+      userStates.set(stateKey, { ...state, timezoneInput: undefined });
+      await renderTimezonePreview(ctx, query);
+      return;
+    }
+    await renderTimezoneSearchResults(ctx, query);
+    return;
+  }
+
+  if (state.quietHoursInput) {
+    const match = text.trim().match(/^(\d{1,2}:\d{2})\s*[-–]\s*(\d{1,2}:\d{2})$/);
+    const next = match ? { start: match[1].padStart(5, '0'), end: match[2].padStart(5, '0') } : null;
+    if (!next || !isValidQuietHours(next)) {
+      await renderScreen(ctx, {
+        titleKey: t('screens.settings.quiet_hours_title'),
+        bodyLines: [t('screens.settings.quiet_hours_invalid'), t('screens.settings.quiet_hours_custom_prompt')]
+      });
+      return;
+    }
+    const { user } = await ensureUserAndSettings(ctx);
+    const updatedSettings = await setUserQuietHours(user.id, next);
+    updateCachedUserContext(ctx, { settings: updatedSettings });
+    userStates.set(stateKey, { ...state, quietHoursInput: undefined });
+    await renderQuietHoursSettings(ctx, t('screens.settings.quiet_hours_saved'));
+    return;
+  }
+
+  if (state.presetInput) {
+    const { user } = await ensureUserAndSettings(ctx);
+    const reminder = await getReminderById(state.presetInput.reminderId);
+    userStates.set(stateKey, { ...state, presetInput: undefined });
+    if (!reminder || reminder.user_id !== user.id) {
+      await renderReminders(ctx);
+      return;
+    }
+    await saveReminderAsPreset(ctx, reminder, text);
+    return;
+  }
+
+  if (state.presetApply) {
+    const flow = state.presetApply;
+    const raw = text.trim();
+    if (flow.step === 'title') {
+      await advancePresetApply(ctx, stateKey, flow, { title: raw || null });
+      return;
+    }
+    const preset = await getReminderPreset(flow.presetId);
+    const snapshot = preset ? parseReminderSnapshot(preset.payload) : null;
+    if (!snapshot) {
+      userStates.set(stateKey, { ...state, presetApply: undefined });
+      await renderReminderPresets(ctx);
+      return;
+    }
+    if (flow.step === 'time') {
+      const parsed = parseTimeHhmm(raw);
+      if (!parsed) {
+        await renderPresetApplyStep(ctx, flow, snapshot, labels.reminders.newInvalidTime());
+        return;
+      }
+      await advancePresetApply(ctx, stateKey, flow, { atTime: parsed.hhmm });
+      return;
+    }
+    const { user } = await ensureUserAndSettings(ctx);
+    const match = raw.match(/^(\d{4}-\d{2}-\d{2})\s+(\d{1,2}:\d{2})$/);
+    const parsedTime = match ? parseTimeHhmm(match[2]) : null;
+    if (!match || !isValidLocalDate(match[1]) || !parsedTime) {
+      await renderPresetApplyStep(ctx, flow, snapshot, t('screens.reminders.preset_apply_datetime_invalid'));
+      return;
+    }
+    const onceAtUtc = localDateTimeToUtcIso(match[1], parsedTime.hhmm, user.timezone ?? config.defaultTimezone);
+    if (new Date(onceAtUtc).getTime() <= Date.now()) {
+      await renderPresetApplyStep(ctx, flow, snapshot, t('screens.reminders.preset_apply_datetime_past'));
+      return;
+    }
+    await advancePresetApply(ctx, stateKey, flow, { onceAtUtc });
+    return;
+  }
+
+  if (state.occasionInput) {
+    const flow = state.occasionInput;
+    const raw = text.trim();
+    if (flow.step === 'person') {
+      if (!raw) {
+        await renderOccasionStep(ctx, flow);
+        return;
+      }
+      const nextFlow: OccasionFlow = { ...flow, step: 'date', person: raw.slice(0, 64) };
+      userStates.set(stateKey, { ...state, occasionInput: nextFlow });
+      await renderOccasionStep(ctx, nextFlow);
+      return;
+    }
+    await saveOccasion(ctx, stateKey, flow, raw);
+    return;
+  }
+
   if (state.reminderFlow) {
     const flow = state.reminderFlow;
     const raw = text.trim();
@@ -8966,6 +12849,11 @@ bot.on('message:text', async (ctx: Context) => {
         const greg = jalaliToGregorian(year, month, day);
         const localDate = `${greg.year}-${String(greg.month).padStart(2, '0')}-${String(greg.day).padStart(2, '0')}`;
         const nextDraft = ensureReminderTimeDraft({ ...flow.draft, localDate, dateSource: 'custom', scheduleType: flow.draft.scheduleType ?? 'once' }, timezone);
+        if (isQuickReminderFlow(flow)) {
+          setReminderFlow(stateKey, { ...flow, step: 'quick_confirm', draft: nextDraft });
+          await renderReminderQuickConfirm(ctx, nextDraft);
+          return;
+        }
         setReminderFlow(stateKey, { ...flow, step: 'time', draft: nextDraft });
         await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
         return;
@@ -8979,6 +12867,11 @@ bot.on('message:text', async (ctx: Context) => {
         return;
       }
       const nextDraft = ensureReminderTimeDraft({ ...flow.draft, localDate: raw, dateSource: 'custom', scheduleType: flow.draft.scheduleType ?? 'once' }, timezone);
+      if (isQuickReminderFlow(flow)) {
+        setReminderFlow(stateKey, { ...flow, step: 'quick_confirm', draft: nextDraft });
+        await renderReminderQuickConfirm(ctx, nextDraft);
+        return;
+      }
       setReminderFlow(stateKey, { ...flow, step: 'time', draft: nextDraft });
       await renderReminderTimePicker(ctx, { mode: flow.mode, reminderId: getReminderIdFromFlow(flow), draft: nextDraft });
       return;
@@ -8994,11 +12887,28 @@ bot.on('message:text', async (ctx: Context) => {
         return;
       }
       const nextDraft = { ...flow.draft, localTime: parsed.hhmm, timeMinutes: parsed.minutes };
+      if (isQuickReminderFlow(flow)) {
+        setReminderFlow(stateKey, { ...flow, step: 'quick_confirm', draft: nextDraft });
+        await renderReminderQuickConfirm(ctx, nextDraft);
+        return;
+      }
       setReminderFlow(stateKey, { ...flow, draft: nextDraft });
       await persistReminderSchedule(ctx, { ...flow, draft: nextDraft });
       return;
     }
 
+    if (flow.step === 'quick_text' && flow.mode === 'create') {
+      const parsed = parseReminderText(raw, { timezone });
+      if (!parsed) {
+        await renderReminderQuickPrompt(ctx, labels.reminders.quickNotUnderstood());
+        return;
+      }
+      const draft = buildQuickReminderDraft(parsed);
+      setReminderFlow(stateKey, { ...flow, step: 'quick_confirm', draft });
+      await renderReminderQuickConfirm(ctx, draft);
+      return;
+    }
+
     if (flow.step === 'title') {
       const title = raw;
       if (!title) {
@@ -9086,6 +12996,18 @@ bot.on('message:text', async (ctx: Context) => {
       return;
     }
 
+    if (flow.step === 'anchor_offset' && flow.draft.anchorEvent) {
+      const minutes = /^[+-]?\d+$/.test(raw) ? Number(raw) : NaN;
+      if (!Number.isInteger(minutes) || Math.abs(minutes) > MAX_ANCHOR_OFFSET_MINUTES) {
+        await renderReminderAnchorOffsetPrompt(ctx, flow.draft.anchorEvent);
+        return;
+      }
+      const nextDraft = { ...flow.draft, anchorOffsetMinutes: minutes };
+      setReminderFlow(stateKey, { ...flow, draft: nextDraft });
+      await persistReminderSchedule(ctx, { ...flow, draft: nextDraft });
+      return;
+    }
+
     if (flow.step === 'interval_minutes') {
       const interval = Number(raw);
       if (!Number.isInteger(interval) || interval <= 0) {
@@ -9098,7 +13020,13 @@ bot.on('message:text', async (ctx: Context) => {
       return;
     }
 
-    if (flow.step === 'daily_time' || flow.step === 'weekly_time' || flow.step === 'monthly_time' || flow.step === 'yearly_time') {
+    if (
+      flow.step === 'daily_time' ||
+      flow.step === 'weekly_time' ||
+      flow.step === 'monthly_time' ||
+      flow.step === 'yearly_time' ||
+      flow.step === 'rrule_time'
+    ) {
       const parsed = parseTimeHhmm(raw);
       if (!parsed) {
         await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.newInvalidTime()] });
@@ -9122,6 +13050,57 @@ bot.on('message:text', async (ctx: Context) => {
       return;
     }
 
+    if (flow.step === 'rrule_interval' && flow.draft.rrule) {
+      const interval = Number(raw);
+      if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rruleIntervalInvalid()] });
+        return;
+      }
+      await continueReminderRRuleFlow(ctx, stateKey, flow, { ...flow.draft.rrule, interval });
+      return;
+    }
+
+    if (flow.step === 'rrule_monthday' && flow.draft.rrule) {
+      const day = Number(raw);
+      if (!Number.isInteger(day) || day < 1 || day > 31) {
+        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.monthlyDayInvalid()] });
+        return;
+      }
+      const rule: RRule = { ...flow.draft.rrule, byMonthDay: [day] };
+      setReminderFlow(stateKey, { ...flow, step: 'rrule_end', draft: { ...flow.draft, rrule: rule } });
+      await renderReminderRRuleEndPrompt(ctx, rule);
+      return;
+    }
+
+    if (flow.step === 'rrule_until' && flow.draft.rrule) {
+      const jalaliMatch = raw.match(/^J(\d{4})-(\d{2})-(\d{2})$/i);
+      let untilDate: string | null = isValidLocalDate(raw) ? raw : null;
+      if (jalaliMatch && isValidJalaliDate(Number(jalaliMatch[1]), Number(jalaliMatch[2]), Number(jalaliMatch[3]))) {
+        const greg = jalaliToGregorian(Number(jalaliMatch[1]), Number(jalaliMatch[2]), Number(jalaliMatch[3]));
+        untilDate = `${greg.year}-${String(greg.month).padStart(2, '0')}-${String(greg.day).padStart(2, '0')}`;
+      }
+      if (!untilDate) {
+        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.newInvalidDate(), labels.reminders.rruleUntilPrompt()] });
+        return;
+      }
+      const rule: RRule = { ...flow.draft.rrule, untilDate };
+      setReminderFlow(stateKey, { ...flow, step: 'rrule_time', draft: { ...flow.draft, rrule: rule } });
+      await renderReminderRRuleTimePrompt(ctx, rule);
+      return;
+    }
+
+    if (flow.step === 'rrule_count' && flow.draft.rrule) {
+      const count = Number(raw);
+      if (!Number.isInteger(count) || count < 1 || count > 999) {
+        await renderScreen(ctx, { title: labels.reminders.newTitle(), bodyLines: [labels.reminders.rruleCountInvalid()] });
+        return;
+      }
+      const rule: RRule = { ...flow.draft.rrule, count };
+      setReminderFlow(stateKey, { ...flow, step: 'rrule_time', draft: { ...flow.draft, rrule: rule } });
+      await renderReminderRRuleTimePrompt(ctx, rule);
+      return;
+    }
+
     if (flow.step === 'yearly_day') {
       const day = Number(raw);
       if (!Number.isInteger(day) || day < 1 || day > 31) {
@@ -9283,7 +13262,9 @@ bot.on('message:text', async (ctx: Context) => {
   if (routineTaskFlow) {
     const telegramId = stateKey;
     const saveTask = async (draft: RoutineTaskFlow['draft']): Promise<void> => {
-      const xpMode = normalizeXpModeForItemType(draft.itemType, draft.xpMode ?? null) ?? 'none';
+      const normalizedXpMode = normalizeXpModeForItemType(draft.itemType, draft.xpMode ?? null);
+      // Routine tasks are never choice items, so per-option XP cannot come up here.
+      const xpMode = normalizedXpMode && normalizedXpMode !== 'per_option' ? normalizedXpMode : 'none';
       const ratioOpts = draft.optionsJson ?? {};
       const ratioPerRaw = Number((ratioOpts as { per?: unknown; perNumber?: unknown }).per ?? (ratioOpts as { perNumber?: unknown }).perNumber);
       const ratioXpRaw = Number((ratioOpts as { xp?: unknown; xpPerUnit?: unknown }).xp ?? (ratioOpts as { xpPerUnit?: unknown }).xpPerUnit);
@@ -9401,6 +13382,166 @@ bot.on('message:text', async (ctx: Context) => {
         return;
       }
 
+      if (templateFlow.step === 'options') {
+        const choices = parseChoiceOptions(text);
+        const minOptions = templateFlow.draft.itemType === 'checklist' ? 1 : 2;
+        if (!choices || choices.length < minOptions) {
+          await ctx.reply(t('screens.templates.invalid_choice_options', { min: minOptions, max: MAX_CHOICE_OPTIONS }));
+          return;
+        }
+        const optionsJson = { ...(templateFlow.draft.optionsJson ?? {}), choices };
+        if (templateFlow.mode === 'create') {
+          setTemplateItemFlow(telegramId, { ...templateFlow, draft: { ...templateFlow.draft, optionsJson }, step: 'category' });
+          await promptCategorySelection(ctx, { templateId: templateFlow.templateId });
+          return;
+        }
+        if (!templateFlow.itemId) {
+          clearTemplateItemFlow(telegramId);
+          await renderTemplateEdit(ctx, templateFlow.templateId);
+          return;
+        }
+        await updateItem(templateFlow.itemId, { item_type: templateFlow.draft.itemType, options_json: optionsJson });
+        clearTemplateItemFlow(telegramId);
+        clearReportContextCache();
+        await renderTemplateItemMenu(ctx, templateFlow.templateId, templateFlow.itemId, t('screens.daily_report.item_saved'));
+        return;
+      }
+
+      if (templateFlow.step === 'formula') {
+        const formula = text.trim().toLowerCase();
+        const items = await listAllItems(templateFlow.templateId);
+        const check = validateItemFormula(formula, items, templateFlow.draft.itemKey);
+        if (!check.ok) {
+          const reply =
+            check.reason === 'syntax'
+              ? t('screens.templates.formula_invalid')
+              : check.reason === 'cycle'
+                ? t('screens.templates.formula_cycle')
+                : t('screens.templates.formula_unknown_keys', { keys: (check.keys ?? []).join(', ') });
+          await ctx.reply(reply);
+          return;
+        }
+        const optionsJson = { ...(templateFlow.draft.optionsJson ?? {}), formula };
+        if (templateFlow.mode === 'create') {
+          setTemplateItemFlow(telegramId, { ...templateFlow, draft: { ...templateFlow.draft, optionsJson }, step: 'category' });
+          await promptCategorySelection(ctx, { templateId: templateFlow.templateId });
+          return;
+        }
+        if (!templateFlow.itemId) {
+          clearTemplateItemFlow(telegramId);
+          await renderTemplateEdit(ctx, templateFlow.templateId);
+          return;
+        }
+        await updateItem(templateFlow.itemId, { item_type: 'computed', options_json: optionsJson });
+        clearTemplateItemFlow(telegramId);
+        clearReportContextCache();
+        await renderTemplateItemMenu(ctx, templateFlow.templateId, templateFlow.itemId, t('screens.daily_report.item_saved'));
+        return;
+      }
+
+      if (templateFlow.step === 'aliases') {
+        const itemId = templateFlow.itemId;
+        if (!itemId) {
+          clearTemplateItemFlow(telegramId);
+          await renderTemplateEdit(ctx, templateFlow.templateId);
+          return;
+        }
+        const aliases = text.trim() === '-' ? [] : [...new Set(text.split(/[,،\n]+/).map((part) => part.trim()).filter(Boolean))];
+        if (aliases.length > MAX_ITEM_ALIASES || aliases.some((alias) => alias.length > MAX_ITEM_ALIAS_LENGTH || !normalizeItemName(alias))) {
+          await ctx.reply(t('screens.templates.aliases_invalid', { max: MAX_ITEM_ALIASES, length: MAX_ITEM_ALIAS_LENGTH }));
+          return;
+        }
+        // An alias that another item already answers to would make quick entry ambiguous.
+        const otherNames = new Set((await listAllItems(templateFlow.templateId)).filter((i) => i.id !== itemId).flatMap((i) => listItemNames(i)));
+        const taken = aliases.filter((alias) => otherNames.has(normalizeItemName(alias)));
+        if (taken.length) {
+          await ctx.reply(t('screens.templates.aliases_taken', { aliases: taken.join(', ') }));
+          return;
+        }
+        await updateItem(itemId, { aliases: aliases.length ? aliases : null });
+        clearTemplateItemFlow(telegramId);
+        clearReportContextCache();
+        await renderTemplateItemMenu(ctx, templateFlow.templateId, itemId, t('screens.daily_report.item_saved'));
+        return;
+      }
+
+      if (templateFlow.step === 'target' || templateFlow.step === 'target_bonus') {
+        const itemId = templateFlow.itemId;
+        const item = itemId ? await getItemById(itemId) : null;
+        if (!itemId || !item) {
+          clearTemplateItemFlow(telegramId);
+          await renderTemplateEdit(ctx, templateFlow.templateId);
+          return;
+        }
+        const raw = text.trim().replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+        const cleared = raw === '-' || raw === '0';
+        if (templateFlow.step === 'target') {
+          if (cleared) {
+            await updateItem(itemId, { target_value: null, target_bonus_xp: null });
+            clearTemplateItemFlow(telegramId);
+            clearReportContextCache();
+            await renderTemplateItemMenu(ctx, templateFlow.templateId, itemId, t('screens.daily_report.item_saved'));
+            return;
+          }
+          const target = Number(raw);
+          if (!Number.isFinite(target) || target <= 0) {
+            await ctx.reply(t('screens.templates.target_invalid'));
+            return;
+          }
+          setTemplateItemFlow(telegramId, { ...templateFlow, step: 'target_bonus', draft: { ...templateFlow.draft, targetValue: target } });
+          await promptItemTargetInput(ctx, { templateId: templateFlow.templateId, itemId, item, step: 'target_bonus' });
+          return;
+        }
+        const bonus = cleared ? 0 : Number(raw);
+        if (!Number.isInteger(bonus) || bonus < 0) {
+          await ctx.reply(t('screens.templates.target_bonus_invalid'));
+          return;
+        }
+        await updateItem(itemId, { target_value: templateFlow.draft.targetValue ?? null, target_bonus_xp: bonus > 0 ? bonus : null });
+        clearTemplateItemFlow(telegramId);
+        clearReportContextCache();
+        await renderTemplateItemMenu(ctx, templateFlow.templateId, itemId, t('screens.daily_report.item_saved'));
+        return;
+      }
+
+      if (templateFlow.step === 'schedule_every' || templateFlow.step === 'schedule_from' || templateFlow.step === 'schedule_until') {
+        const itemId = templateFlow.itemId;
+        const item = itemId ? await getItemById(itemId) : null;
+        if (!itemId || !item) {
+          clearTemplateItemFlow(telegramId);
+          await renderTemplateEdit(ctx, templateFlow.templateId);
+          return;
+        }
+        const raw = text.trim().replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0));
+        if (templateFlow.step === 'schedule_every') {
+          const days = Number(raw);
+          if (!Number.isInteger(days) || days < 1 || days > MAX_SCHEDULE_EVERY_DAYS) {
+            await ctx.reply(t('screens.templates.schedule_every_invalid', { max: MAX_SCHEDULE_EVERY_DAYS }));
+            return;
+          }
+          // Every 1 day is the same as no repeat rule, so it is stored as a cleared one.
+          await updateItem(itemId, { schedule_every_days: days > 1 ? days : null });
+        } else {
+          const cleared = raw === '-' || raw === '0';
+          if (!cleared && !isValidLocalDate(raw)) {
+            await ctx.reply(t('screens.templates.schedule_date_invalid'));
+            return;
+          }
+          const date = cleared ? null : raw;
+          const from = templateFlow.step === 'schedule_from' ? date : item.active_from;
+          const until = templateFlow.step === 'schedule_until' ? date : item.active_until;
+          if (from && until && until < from) {
+            await ctx.reply(t('screens.templates.schedule_range_invalid'));
+            return;
+          }
+          await updateItem(itemId, templateFlow.step === 'schedule_from' ? { active_from: date } : { active_until: date });
+        }
+        clearTemplateItemFlow(telegramId);
+        clearReportContextCache();
+        await renderTemplateItemSchedule(ctx, templateFlow.templateId, itemId, t('screens.daily_report.item_saved'));
+        return;
+      }
+
       if (templateFlow.step === 'category_custom') {
         const customName = text.trim();
         if (!customName) {
@@ -9477,7 +13618,7 @@ bot.on('message:text', async (ctx: Context) => {
           await ctx.reply(t('screens.daily_report.invalid_number'));
           return;
         }
-        if (xpMode === 'per_minute') {
+        if (xpMode === 'per_minute' || xpMode === 'per_option') {
           const draft = { ...templateFlow.draft, xpValue: xpVal };
           setTemplateItemFlow(telegramId, { ...templateFlow, draft, step: 'xp_max' });
           await promptXpMaxInput(ctx, { templateId: templateFlow.templateId, itemId: templateFlow.itemId });
@@ -9625,7 +13766,31 @@ bot.on('message:text', async (ctx: Context) => {
 
     userStates.set(stateKey, { ...state, rewardEdit: undefined });
     await renderRewardStoreEditorRoot(ctx);
+    return;
+  }
+
+  // 4) Quick entry reads only text that no other flow claimed
+  if (state.quickEntry) {
+    await handleQuickEntryText(ctx, text);
+  }
+});
+
+bot.on('message:location', async (ctx: Context) => {
+  const location = ctx.message?.location;
+  if (!location || !ctx.from) return;
+  const stateKey = String(ctx.from.id);
+  const state = userStates.get(stateKey) ?? {};
+  if (state.locationInput) {
+    userStates.set(stateKey, { ...state, locationInput: undefined });
+    await ctx.reply(t('screens.settings.location_received'), { reply_markup: { remove_keyboard: true } });
+    await saveUserLocation(ctx, { latitude: location.latitude, longitude: location.longitude, locationLabel: null });
+    return;
   }
+  if (state.timezoneInput !== 'location') return;
+  userStates.set(stateKey, { ...state, timezoneInput: undefined });
+  const timezone = detectTimezoneFromLocation(location.latitude, location.longitude);
+  await ctx.reply(t('screens.settings.timezone_location_detected', { timezone }), { reply_markup: { remove_keyboard: true } });
+  await renderTimezonePreview(ctx, timezone);
 });
 
 bot.on('message:photo', async (ctx: Context) => {
@@ -9683,6 +13848,14 @@ bot.on('message:voice', async (ctx: Context) => {
 bot.on('message:document', async (ctx: Context) => {
   const document = ctx.message?.document;
   if (!document) return;
+  if (ctx.from && isIcsDocument(document)) {
+    const state = userStates.get(String(ctx.from.id)) ?? {};
+    // Calendar files go to the importer unless the user is attaching files to a note or reminder.
+    if (state.icsImport?.awaiting || (!state.reminderFlow && !state.notesFlow)) {
+      await handleIcsDocument(ctx, document.file_id);
+      return;
+    }
+  }
   await handleNoteAttachmentMessage(ctx, {
     kind: 'document',
     fileId: document.file_id,
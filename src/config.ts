@@ -23,6 +23,18 @@ const envSchema = z.object({
   CRON_MAX_BATCH: z.coerce.number().int().positive().default(20),
   CRON_MAX_RUNTIME_MS: z.coerce.number().int().positive().default(20000),
   TELEGRAM_SEND_DELAY_MS: z.coerce.number().int().nonnegative().default(0),
+  CRON_MAX_SEND_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  // Opt-in: only "true" starts the in-process scheduler; z.coerce.boolean() would read "false" as true.
+  CRON_INTERNAL_ENABLED: z
+    .preprocess((value: unknown) => {
+      if (typeof value !== 'string') return undefined;
+      const trimmed = value.trim().toLowerCase();
+      return trimmed.length === 0 ? undefined : trimmed;
+    }, z.enum(['true', 'false']).default('false'))
+    .transform((value) => value === 'true'),
+  CRON_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+  CRON_JITTER_MS: z.coerce.number().int().nonnegative().default(5000),
+  CRON_MAX_BACKOFF_MS: z.coerce.number().int().positive().default(900000),
   SUPABASE_URL: z.string().url('SUPABASE_URL must be a valid URL'),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1, 'SUPABASE_SERVICE_ROLE_KEY is required'),
   SUPABASE_DB_CONNECTION: z.string().optional(),
@@ -115,7 +127,14 @@ export const config = {
     secret: env.CRON_SECRET,
     maxBatch: env.CRON_MAX_BATCH,
     maxRuntimeMs: env.CRON_MAX_RUNTIME_MS,
-    telegramSendDelayMs: env.TELEGRAM_SEND_DELAY_MS
+    telegramSendDelayMs: env.TELEGRAM_SEND_DELAY_MS,
+    maxSendAttempts: env.CRON_MAX_SEND_ATTEMPTS,
+    internal: {
+      enabled: env.CRON_INTERNAL_ENABLED,
+      intervalMs: env.CRON_INTERVAL_MS,
+      jitterMs: env.CRON_JITTER_MS,
+      maxBackoffMs: env.CRON_MAX_BACKOFF_MS
+    }
   },
   supabase: {
     url: env.SUPABASE_URL,
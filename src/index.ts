@@ -6,8 +6,11 @@ import { getDbPool, getSupabaseClient } from './db';
 import { schemaSync } from './db/schemaSync';
 import { resolveArchiveChatId, setArchiveRuntimeStatus, validateArchiveChannel } from './services/archive';
 import { getCronHealth, isCronAuthorized, runCronTick } from './services/cron.service';
+import { getCronSchedulerStatus, startCronScheduler, stopCronScheduler } from './services/cronScheduler';
 import { initLogReporter } from './services/log_reporter';
-import { backfillReminderAttachmentFileIds } from './services/reminders';
+import { getUserDeliveryDebug } from './services/reminderHistory';
+import { backfillReminderAttachmentFileIds, loadUser } from './services/reminders';
+import { getUserByTelegramId } from './services/users';
 import { logError } from './utils/logger';
 
 const server = Fastify({ logger: true });
@@ -111,9 +114,46 @@ server.get(
 
 server.get('/cron/health', async () => {
   const health = await getCronHealth();
-  return { ok: true, ...health };
+  const scheduler = getCronSchedulerStatus();
+  return { ok: true, mode: scheduler.mode, ...health, scheduler };
 });
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Admin-only: the user is looked up by internal id or Telegram id and the cron secret is required.
+server.get(
+  '/cron/health/users/:userId',
+  async (
+    request: FastifyRequest<{ Params: { userId: string }; Querystring: { key?: string } }>,
+    reply: FastifyReply
+  ) => {
+    if (!config.cron.secret?.trim() || !isCronAuthorized(request.query.key)) {
+      reply.code(401);
+      return { ok: false, error: 'unauthorized', time: new Date().toISOString() };
+    }
+
+    const { userId } = request.params;
+    // Anything that is neither a Telegram id nor a uuid cannot name a user, and would fail the uuid lookup.
+    const user = /^\d+$/.test(userId)
+      ? await getUserByTelegramId(userId)
+      : UUID_REGEX.test(userId)
+        ? await loadUser(userId)
+        : null;
+    if (!user) {
+      reply.code(404);
+      return { ok: false, error: 'user_not_found', time: new Date().toISOString() };
+    }
+
+    const debug = await getUserDeliveryDebug(user.id);
+    return {
+      ok: true,
+      user: { id: user.id, telegram_id: user.telegram_id, timezone: user.timezone },
+      ...debug,
+      time: new Date().toISOString()
+    };
+  }
+);
+
 const isTelegramTooManyRequests = (error: unknown): boolean => {
   if (error instanceof GrammyError) {
     return error.error_code === 429;
@@ -186,6 +226,12 @@ const start = async () => {
     await server.listen({ host, port });
     server.log.info({ host, port }, 'HTTP server is listening');
 
+    // Started before polling because bot.start() only resolves when the bot stops.
+    if (config.cron.internal.enabled) {
+      startCronScheduler(bot);
+      server.log.info({ interval_ms: config.cron.internal.intervalMs }, 'Internal cron scheduler enabled.');
+    }
+
     if (config.telegram.devPolling) {
       server.log.info('Running in DEV_POLLING mode: starting bot via long polling.');
       await bot.start();
@@ -221,4 +267,18 @@ const start = async () => {
   }
 };
 
+const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+  server.log.info({ signal }, 'Shutting down');
+  try {
+    await stopCronScheduler();
+    await server.close();
+  } catch (error) {
+    server.log.error({ err: error }, 'Error during shutdown.');
+  }
+  process.exit(0);
+};
+
+process.once('SIGTERM', (signal) => void shutdown(signal));
+process.once('SIGINT', (signal) => void shutdown(signal));
+
 void start();
@@ -398,6 +398,24 @@ export const getArchiveItemByEntity = async (
   return (data as ArchiveItemRow | null) ?? null;
 };
 
+export const listArchiveItemsByEntities = async (
+  params: { kind: ArchiveItemKind; entityIds: string[] },
+  client = getSupabaseClient()
+): Promise<ArchiveItemRow[]> => {
+  if (params.entityIds.length === 0) return [];
+  const { data, error } = await client
+    .from(ARCHIVE_ITEMS_TABLE)
+    .select('*')
+    .eq('kind', params.kind)
+    .in('entity_id', params.entityIds);
+
+  if (error) {
+    throw new Error(`Failed to load archive items: ${error.message}`);
+  }
+
+  return (data as ArchiveItemRow[] | null) ?? [];
+};
+
 export const upsertArchiveItem = async (
   params: {
     existing?: ArchiveItemRow | null;
@@ -12,6 +12,7 @@ export async function createCallbackToken(params: {
   userId?: string; // must be users.id uuid, not telegram id
   payload: any;
   ttlMinutes?: number;
+  reusable?: boolean; // stays valid until it expires, for buttons that several people may press
 }): Promise<string> {
   const client = getSupabaseClient();
   const ttl = params.ttlMinutes ?? DEFAULT_TTL_MINUTES;
@@ -27,7 +28,8 @@ export async function createCallbackToken(params: {
       token,
       user_id: dbUserId,
       payload_json: params.payload as Record<string, unknown>,
-      expires_at: expiresAt
+      expires_at: expiresAt,
+      reusable: params.reusable ?? false
     };
 
     const { error } = await client.from(CALLBACK_TOKENS_TABLE).insert(row);
@@ -48,6 +50,7 @@ export async function consumeCallbackToken(token: string): Promise<any | null> {
     .from(CALLBACK_TOKENS_TABLE)
     .delete()
     .eq('token', token)
+    .eq('reusable', false)
     .gt('expires_at', new Date().toISOString())
     .select('payload_json')
     .maybeSingle();
@@ -56,6 +59,20 @@ export async function consumeCallbackToken(token: string): Promise<any | null> {
     console.error({ scope: 'callback_tokens', event: 'consume_error', token, error });
     throw new Error(`Failed to consume callback token: ${error.message}`);
   }
+  if (data) return data.payload_json ?? null;
 
-  return data?.payload_json ?? null;
+  const { data: reusable, error: reusableError } = await client
+    .from(CALLBACK_TOKENS_TABLE)
+    .select('payload_json')
+    .eq('token', token)
+    .eq('reusable', true)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (reusableError) {
+    console.error({ scope: 'callback_tokens', event: 'consume_error', token, error: reusableError });
+    throw new Error(`Failed to consume callback token: ${reusableError.message}`);
+  }
+
+  return reusable?.payload_json ?? null;
 }
@@ -0,0 +1,83 @@
+import type { UserSettingsRow } from '../types/supabase';
+import { updateUserSettingsJson } from './userSettings';
+import { computeNextRunAt, type ReminderSchedule } from './reminders';
+
+export type CatchUpPolicy = 'skip' | 'latest' | 'summary';
+
+export type CatchUpSettings = {
+  policy: CatchUpPolicy;
+  staleAfterMinutes: number;
+};
+
+export type CatchUpPlan =
+  | { kind: 'on_time' }
+  | { kind: 'skip'; missed: Date[] }
+  | { kind: 'send'; missed: Date[] };
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'latest', 'summary'];
+export const CATCH_UP_STALE_PRESETS_MINUTES = [60, 180, 360, 720, 1440];
+
+// Deliveries later than this are treated as missed rather than merely slow.
+const CATCH_UP_GRACE_MINUTES = 10;
+const MAX_MISSED_OCCURRENCES = 50;
+
+const DEFAULT_CATCH_UP_SETTINGS: CatchUpSettings = { policy: 'latest', staleAfterMinutes: 720 };
+
+export const isCatchUpPolicy = (value: unknown): value is CatchUpPolicy =>
+  value === 'skip' || value === 'latest' || value === 'summary';
+
+export const getCatchUpSettingsFromSettings = (settings: UserSettingsRow | null | undefined): CatchUpSettings => {
+  const raw = ((settings?.settings_json ?? {}) as { catch_up?: { policy?: unknown; stale_after_minutes?: unknown } }).catch_up;
+  const staleAfterMinutes = Number(raw?.stale_after_minutes);
+  return {
+    policy: isCatchUpPolicy(raw?.policy) ? raw.policy : DEFAULT_CATCH_UP_SETTINGS.policy,
+    staleAfterMinutes:
+      Number.isInteger(staleAfterMinutes) && staleAfterMinutes > 0 ? staleAfterMinutes : DEFAULT_CATCH_UP_SETTINGS.staleAfterMinutes
+  };
+};
+
+export const setUserCatchUpSettings = async (userId: string, catchUp: CatchUpSettings): Promise<UserSettingsRow> => {
+  return await updateUserSettingsJson(userId, {
+    catch_up: { policy: catchUp.policy, stale_after_minutes: catchUp.staleAfterMinutes }
+  });
+};
+
+/**
+ * Decides what to do with an occurrence that was due at dueUtc. Every occurrence between dueUtc and nowUtc
+ * counts as missed once the grace period has passed; occurrences older than the staleness threshold are dropped.
+ */
+export const planCatchUp = (params: {
+  schedule: ReminderSchedule;
+  dueUtc: Date;
+  nowUtc: Date;
+  policy: CatchUpPolicy;
+  staleAfterMinutes: number;
+}): CatchUpPlan => {
+  const { schedule, dueUtc, nowUtc } = params;
+  if (nowUtc.getTime() - dueUtc.getTime() <= CATCH_UP_GRACE_MINUTES * 60 * 1000) {
+    return { kind: 'on_time' };
+  }
+
+  // Calendar schedules resolve to the minute, so an occurrence can be its own "next" run.
+  const nextAfter = (cursor: Date): Date | null => {
+    const next = computeNextRunAt(schedule, cursor);
+    if (next && next.getTime() > cursor.getTime()) return next;
+    return computeNextRunAt(schedule, new Date(cursor.getTime() + 60 * 1000));
+  };
+
+  const occurrences: Date[] = [dueUtc];
+  if (schedule.scheduleType !== 'once') {
+    let cursor = nextAfter(dueUtc);
+    while (cursor && cursor.getTime() <= nowUtc.getTime() && occurrences.length < MAX_MISSED_OCCURRENCES) {
+      occurrences.push(cursor);
+      cursor = nextAfter(cursor);
+    }
+  }
+
+  const staleBefore = nowUtc.getTime() - params.staleAfterMinutes * 60 * 1000;
+  const fresh = occurrences.filter((occurrence) => occurrence.getTime() >= staleBefore);
+  if (fresh.length === 0 || params.policy === 'skip') {
+    return { kind: 'skip', missed: occurrences };
+  }
+  return { kind: 'send', missed: params.policy === 'latest' ? [fresh[fresh.length - 1]] : fresh };
+};
@@ -1,27 +1,44 @@
-import type { Bot } from 'grammy';
+import { InlineKeyboard, type Bot } from 'grammy';
 import crypto from 'node:crypto';
 import os from 'node:os';
 
 import { config } from '../config';
 import { getSupabaseClient, queryDb } from '../db';
-import type { ReminderRow } from '../types/supabase';
+import type { ReminderRecipientRow, ReminderRow } from '../types/supabase';
 import {
   computeNextRunAt as computeNextRunAtFromSchedule,
   loadUser,
   listReminderAttachments,
   sendReminderMessage,
+  type ReminderCalendarSystem,
   type ReminderSchedule,
   type ReminderScheduleType
 } from './reminders';
 import { getArchiveItemByEntity, markArchiveItemStatus } from './archive';
-import { parseTelegramError } from './telegramSend';
+import { createCallbackToken } from './callbackTokens';
+import { parseTelegramError, type TelegramSendFailure } from './telegramSend';
 import { sendAttachmentsWithApi } from './telegram-media';
+import { getLanguageFromSettings, getOrCreateUserSettings } from './userSettings';
+import { getQuietHoursEnd, getQuietHoursFromSettings } from './quietHours';
+import { getCatchUpSettingsFromSettings, isCatchUpPolicy, planCatchUp, type CatchUpPlan } from './catchUp';
+import { evaluateReminderCondition, type ReminderConditionResult } from './reminderConditions';
+import { formatPreAlertLead, PRE_ALERT_GRACE_MINUTES } from './preAlerts';
+import { buildRecipientDeliveryKey, listReminderRecipients, removeReminderRecipient } from './reminderRecipients';
+import { withLocale } from '../i18n';
+import { labels } from '../ui/labels';
 import { logError, logInfo, logWarn } from '../utils/logger';
+import type { PrayerMethod, PrayerTimeName } from '../utils/prayerTimes';
+import { formatInstantToLocal, localDateTimeToUtcIso } from '../utils/time';
 import { getLogReporter } from './log_reporter';
 
 const REMINDERS_TABLE = 'reminders';
 const REMINDER_DELIVERIES_TABLE = 'reminder_deliveries';
 const CRON_RUNS_TABLE = 'cron_runs';
+const REMINDER_ACTION_TTL_MINUTES = 7 * 24 * 60;
+const SNOOZE_MORNING_TIME = '09:00';
+const SNOOZE_NIGHT_END_TIME = '05:00';
+// A snooze that came due while the bot was down for longer than this is dropped instead of arriving late.
+const SNOOZE_GRACE_MINUTES = 24 * 60;
 
 const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
 
@@ -52,10 +69,54 @@ type CronTickResult = CronTickSummary | CronUnauthorized;
 type ReminderDeliveryRow = {
   id: string;
   ok: boolean;
+  sent_at_utc: string | null;
+  snoozed_until_utc: string | null;
 };
 
-const buildDeliveryKey = (reminder: ReminderRow, occurrenceIso: string): string => {
-  return `${reminder.id}:${occurrenceIso}`;
+type DeliveryTarget = {
+  occurrenceIso: string;
+  deliveryKey: string;
+  repeatIndex: number;
+};
+
+export type ReminderDeliveryAction = 'snooze_10m' | 'snooze_1h' | 'snooze_morning' | 'done' | 'skip' | 'ack';
+
+const SNOOZE_ACTIONS: ReminderDeliveryAction[] = ['snooze_10m', 'snooze_1h', 'snooze_morning'];
+
+export const isReminderDeliveryAction = (value: unknown): value is ReminderDeliveryAction =>
+  value === 'snooze_10m' ||
+  value === 'snooze_1h' ||
+  value === 'snooze_morning' ||
+  value === 'done' ||
+  value === 'skip' ||
+  value === 'ack';
+
+const buildDeliveryKey = (reminder: ReminderRow, occurrenceIso: string, repeatIndex = 0): string => {
+  return repeatIndex > 0 ? `${reminder.id}:${occurrenceIso}:r${repeatIndex}` : `${reminder.id}:${occurrenceIso}`;
+};
+
+// Pre-alerts get their own key per offset so they never collide with the occurrence they announce.
+const buildPreAlertDeliveryKey = (reminder: ReminderRow, occurrenceIso: string, offsetMinutes: number): string =>
+  `${reminder.id}:${occurrenceIso}:p${offsetMinutes}`;
+
+// A snooze is its own one-off delivery, keyed by the time it rings so that snoozing it again gets a new key.
+const buildSnoozeDeliveryKey = (reminder: ReminderRow, snoozedUntilIso: string): string => `${reminder.id}:${snoozedUntilIso}:s`;
+
+const isNaggingEnabled = (reminder: ReminderRow): boolean =>
+  (reminder.nag_interval_minutes ?? 0) > 0 && (reminder.nag_max_repeats ?? 0) > 0;
+
+// Nag repeats are numbered sub-deliveries of the occurrence that started them.
+const resolveDeliveryTarget = (reminder: ReminderRow): DeliveryTarget => {
+  if (reminder.nag_occurrence_utc && isNaggingEnabled(reminder)) {
+    const repeatIndex = (reminder.nag_count ?? 0) + 1;
+    return {
+      occurrenceIso: reminder.nag_occurrence_utc,
+      deliveryKey: buildDeliveryKey(reminder, reminder.nag_occurrence_utc, repeatIndex),
+      repeatIndex
+    };
+  }
+  const occurrenceIso = reminder.next_run_at_utc ?? reminder.next_run_at ?? new Date().toISOString();
+  return { occurrenceIso, deliveryKey: buildDeliveryKey(reminder, occurrenceIso), repeatIndex: 0 };
 };
 
 const CRON_SECRET_PATTERN = /^[A-Za-z0-9_-]+$/;
@@ -80,6 +141,15 @@ export const isCronAuthorized = (key: string | undefined): boolean => {
 
 const asIsoString = (value: Date): string => value.toISOString();
 
+// Rows read through queryDb come from node-postgres, which parses date columns into local-midnight Dates;
+// supabase-js returns the same columns as YYYY-MM-DD strings.
+const toDateOnlyString = (value: string | Date | null): string | null => {
+  if (!value) return null;
+  if (!(value instanceof Date)) return String(value).slice(0, 10);
+  const pad = (part: number): string => String(part).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
 const toScheduleFromReminder = (reminder: ReminderRow): ReminderSchedule => {
   return {
     scheduleType: reminder.schedule_type as ReminderScheduleType,
@@ -89,7 +159,15 @@ const toScheduleFromReminder = (reminder: ReminderRow): ReminderSchedule => {
     atTime: reminder.at_time,
     byWeekday: reminder.by_weekday,
     byMonthday: reminder.by_monthday,
-    byMonth: reminder.by_month
+    byMonth: reminder.by_month,
+    calendarSystem: reminder.calendar_system as ReminderCalendarSystem,
+    rrule: reminder.rrule,
+    rruleStartDate: toDateOnlyString(reminder.rrule_start_date as string | Date | null),
+    anchorEvent: reminder.anchor_event as PrayerTimeName | null,
+    anchorOffsetMinutes: reminder.anchor_offset_minutes,
+    latitude: reminder.anchor_latitude,
+    longitude: reminder.anchor_longitude,
+    prayerMethod: reminder.anchor_method as PrayerMethod | null
   };
 };
 
@@ -122,11 +200,12 @@ const claimDueReminders = async (tickId: string, batchLimit: number): Promise<Re
       select id
       from public.reminders
       where enabled = true
-        and status = 'active'
+        and status in ('active', 'failed')
         and is_active = true
         and deleted_at is null
         and coalesce(next_run_at_utc, next_run_at) is not null
         and coalesce(next_run_at_utc, next_run_at) <= now()
+        and (retry_after_utc is null or retry_after_utc <= now())
       order by coalesce(next_run_at_utc, next_run_at) asc
       limit $1
       for update skip locked
@@ -154,7 +233,7 @@ const findExistingDelivery = async (
   const client = getSupabaseClient();
   const { data, error } = await client
     .from(REMINDER_DELIVERIES_TABLE)
-    .select('id, ok')
+    .select('id, ok, sent_at_utc, snoozed_until_utc')
     .eq('reminder_id', reminderId)
     .eq('delivery_key', deliveryKey)
     .maybeSingle();
@@ -173,6 +252,9 @@ const upsertDelivery = async (params: {
   ok: boolean;
   error?: string | null;
   sentAtUtc: Date;
+  action?: string | null;
+  postponedUntilUtc?: Date | null;
+  recipientId?: string | null;
 }): Promise<void> => {
   const client = getSupabaseClient();
   const { error } = await client
@@ -184,7 +266,10 @@ const upsertDelivery = async (params: {
         delivery_key: params.deliveryKey,
         ok: params.ok,
         error: params.error ?? null,
-        sent_at_utc: asIsoString(params.sentAtUtc)
+        sent_at_utc: asIsoString(params.sentAtUtc),
+        ...(params.recipientId ? { recipient_id: params.recipientId } : {}),
+        ...(params.action ? { action: params.action, action_at_utc: asIsoString(params.sentAtUtc) } : {}),
+        ...(params.postponedUntilUtc ? { postponed_until_utc: asIsoString(params.postponedUntilUtc) } : {})
       },
       { onConflict: 'reminder_id,delivery_key' }
     );
@@ -194,6 +279,75 @@ const upsertDelivery = async (params: {
   }
 };
 
+type PreAlertCandidate = ReminderRow & { pre_alert_offset_minutes: number };
+
+const listDuePreAlerts = async (batchLimit: number): Promise<PreAlertCandidate[]> => {
+  const { rows } = await queryDb<PreAlertCandidate>(
+    `
+    select r.*, o.offset_minutes as pre_alert_offset_minutes
+    from public.reminders r
+    cross join lateral unnest(r.pre_alert_offsets_minutes) as o(offset_minutes)
+    where r.enabled = true
+      and r.status = 'active'
+      and r.is_active = true
+      and r.deleted_at is null
+      and r.nag_occurrence_utc is null
+      and o.offset_minutes > 0
+      and coalesce(r.next_run_at_utc, r.next_run_at) > now()
+      and coalesce(r.next_run_at_utc, r.next_run_at) - make_interval(mins => o.offset_minutes) <= now()
+      and coalesce(r.next_run_at_utc, r.next_run_at) - make_interval(mins => o.offset_minutes) > now() - make_interval(mins => $2)
+    order by coalesce(r.next_run_at_utc, r.next_run_at) - make_interval(mins => o.offset_minutes) asc
+    limit $1
+    `,
+    [batchLimit, PRE_ALERT_GRACE_MINUTES]
+  );
+
+  return rows ?? [];
+};
+
+type SnoozeCandidate = ReminderRow & { snooze_delivery_key: string; snooze_until_utc: string };
+
+// Snoozes are recorded on the delivery that was snoozed; done or skip on it clears them again.
+const listDueSnoozes = async (batchLimit: number): Promise<SnoozeCandidate[]> => {
+  const { rows } = await queryDb<SnoozeCandidate>(
+    `
+    select r.*, d.delivery_key as snooze_delivery_key, d.snoozed_until_utc as snooze_until_utc
+    from public.reminder_deliveries d
+    join public.reminders r on r.id = d.reminder_id
+    where d.snoozed_until_utc is not null
+      and d.snoozed_until_utc <= now()
+      and d.snoozed_until_utc > now() - make_interval(mins => $2)
+      and r.deleted_at is null
+      and (r.enabled = true or r.status = 'ringed')
+      and not exists (
+        select 1
+        from public.reminder_deliveries s
+        where s.reminder_id = d.reminder_id
+          and s.delivery_key = r.id || ':' || to_char(d.snoozed_until_utc at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"') || ':s'
+      )
+    order by d.snoozed_until_utc asc
+    limit $1
+    `,
+    [batchLimit, SNOOZE_GRACE_MINUTES]
+  );
+
+  return rows ?? [];
+};
+
+// Inserting the delivery row first claims a pre-alert or snooze, so overlapping ticks cannot both send it.
+const claimDelivery = async (params: { reminderId: string; tickId: string; deliveryKey: string; action: string | null }): Promise<boolean> => {
+  const { rows } = await queryDb<{ id: string }>(
+    `
+    insert into public.reminder_deliveries (reminder_id, tick_id, delivery_key, ok, action, action_at_utc)
+    values ($1, $2, $3, false, $4, case when $4::text is null then null else now() end)
+    on conflict (reminder_id, delivery_key) do nothing
+    returning id
+    `,
+    [params.reminderId, params.tickId, params.deliveryKey, params.action]
+  );
+  return rows.length > 0;
+};
+
 const releaseUnprocessedReminders = async (reminderIds: string[]): Promise<void> => {
   if (reminderIds.length === 0) return;
   try {
@@ -214,16 +368,109 @@ const releaseUnprocessedReminders = async (reminderIds: string[]): Promise<void>
   }
 };
 
+const resolveQuietHoursEnd = async (reminder: ReminderRow, nowUtc: Date): Promise<Date | null> => {
+  if (reminder.ignore_quiet_hours) return null;
+  const user = await loadUser(reminder.user_id);
+  if (!user) return null;
+  const settings = await getOrCreateUserSettings(user.id);
+  const quietHours = getQuietHoursFromSettings(settings);
+  if (!quietHours) return null;
+  return getQuietHoursEnd(quietHours, user.timezone ?? reminder.timezone ?? config.defaultTimezone, nowUtc);
+};
+
+// The occurrence is recorded as a postponed delivery and the reminder is re-armed for the end of the window.
+const postponeReminderForQuietHours = async (
+  reminder: ReminderRow,
+  params: { tickId: string; deliveryKey: string; untilUtc: Date }
+): Promise<void> => {
+  await upsertDelivery({
+    reminderId: reminder.id,
+    tickId: params.tickId,
+    deliveryKey: params.deliveryKey,
+    ok: false,
+    sentAtUtc: new Date(),
+    action: 'quiet_hours',
+    postponedUntilUtc: params.untilUtc
+  });
+
+  await queryDb(
+    `
+    update public.reminders
+    set next_run_at_utc = $2,
+        next_run_at = $2,
+        status = 'active',
+        locked_at = null,
+        locked_by = null,
+        last_tick_id = $3,
+        updated_at = now()
+    where id = $1
+    `,
+    [reminder.id, asIsoString(params.untilUtc), params.tickId]
+  );
+};
+
+const resolveCatchUpPlan = async (reminder: ReminderRow, dueUtc: Date, nowUtc: Date): Promise<CatchUpPlan> => {
+  const settings = await getOrCreateUserSettings(reminder.user_id);
+  const defaults = getCatchUpSettingsFromSettings(settings);
+  return planCatchUp({
+    schedule: toScheduleFromReminder(reminder),
+    dueUtc,
+    nowUtc,
+    policy: isCatchUpPolicy(reminder.catch_up_policy) ? reminder.catch_up_policy : defaults.policy,
+    staleAfterMinutes: defaults.staleAfterMinutes
+  });
+};
+
+// Skipped occurrences (missed, or no longer needed per the reminder's condition) are recorded as a single
+// unsent delivery and the recurrence moves on from now.
+const skipDueOccurrence = async (
+  reminder: ReminderRow,
+  params: { tickId: string; deliveryKey: string; nowUtc: Date; action: 'missed' | 'condition_met' }
+): Promise<void> => {
+  await upsertDelivery({
+    reminderId: reminder.id,
+    tickId: params.tickId,
+    deliveryKey: params.deliveryKey,
+    ok: false,
+    sentAtUtc: params.nowUtc,
+    action: params.action
+  });
+
+  const isOnce = reminder.schedule_type === 'once';
+  const nextRunAt = isOnce ? null : computeNextRunAt(reminder, params.nowUtc);
+  await queryDb(
+    `
+    update public.reminders
+    set next_run_at_utc = $2,
+        next_run_at = $2,
+        status = $3,
+        enabled = $4,
+        is_active = $4,
+        nag_occurrence_utc = null,
+        nag_count = 0,
+        locked_at = null,
+        locked_by = null,
+        last_tick_id = $5,
+        updated_at = now()
+    where id = $1
+    `,
+    [reminder.id, nextRunAt ? asIsoString(nextRunAt) : null, nextRunAt ? 'active' : 'ringed', Boolean(nextRunAt), params.tickId]
+  );
+};
+
 const updateReminderAfterSuccess = async (
   reminder: ReminderRow,
   sentAtUtc: Date,
   tickId: string
 ): Promise<void> => {
   const isOnce = reminder.schedule_type === 'once';
+  // Prayer and sun anchors have no fixed time of day; computeNextRunAt works out the next day's time from the stored coordinates.
   const nextRunAt = isOnce ? null : computeNextRunAt(reminder, sentAtUtc);
-  const status = isOnce ? 'ringed' : 'active';
-  const enabled = !isOnce;
-  const isActive = !isOnce;
+  // A rule whose COUNT or UNTIL has run out, or an anchor with no next time, ends like a one-off reminder.
+  const finished = !nextRunAt;
+  const status = finished ? 'ringed' : 'active';
+  const enabled = !finished;
+  const isActive = !finished;
 
   await queryDb(
     `
@@ -237,6 +484,8 @@ const updateReminderAfterSuccess = async (
         send_attempt_count = 0,
         last_error = null,
         retry_after_utc = null,
+        nag_occurrence_utc = null,
+        nag_count = 0,
         locked_at = null,
         locked_by = null,
         last_tick_id = $7,
@@ -255,11 +504,134 @@ const updateReminderAfterSuccess = async (
   );
 };
 
+// While nagging, next_run_at follows the repeat timer; the recurrence only moves on once the
+// occurrence is acknowledged or the repeats run out.
+const updateReminderAfterNag = async (
+  reminder: ReminderRow,
+  params: { target: DeliveryTarget; sentAtUtc: Date; tickId: string }
+): Promise<void> => {
+  if (params.target.repeatIndex >= (reminder.nag_max_repeats ?? 0)) {
+    await updateReminderAfterSuccess(reminder, params.sentAtUtc, params.tickId);
+    return;
+  }
+
+  const nextNagAt = new Date(params.sentAtUtc.getTime() + (reminder.nag_interval_minutes ?? 0) * 60 * 1000);
+  await queryDb(
+    `
+    update public.reminders
+    set last_sent_at_utc = $2,
+        next_run_at_utc = $3,
+        next_run_at = $3,
+        status = 'active',
+        nag_occurrence_utc = $4,
+        nag_count = $5,
+        send_attempt_count = 0,
+        last_error = null,
+        retry_after_utc = null,
+        locked_at = null,
+        locked_by = null,
+        last_tick_id = $6,
+        updated_at = now()
+    where id = $1
+    `,
+    [
+      reminder.id,
+      asIsoString(params.sentAtUtc),
+      asIsoString(nextNagAt),
+      params.target.occurrenceIso,
+      params.target.repeatIndex,
+      params.tickId
+    ]
+  );
+};
+
+export const REMINDER_PAUSED_BLOCKED = 'blocked';
+
+// Telegram answers 403 once the user has blocked the bot or deleted their account; no retry will get through.
+const isBotBlockedFailure = (failure: TelegramSendFailure): boolean => failure.kind === 'telegram_error' && failure.code === 403;
+
+/**
+ * Marks the user inactive and pauses every reminder that is still on, including ones claimed by this tick.
+ * paused_reason tells these apart from reminders the user turned off, so only they are offered for resume.
+ */
+const pauseRemindersForBlockedUser = async (userId: string, errorMessage: string): Promise<number> => {
+  await queryDb(
+    `
+    update public.users
+    set is_active = false,
+        inactive_reason = $2,
+        inactive_since_utc = now(),
+        updated_at = now()
+    where id = $1
+      and is_active = true
+    `,
+    [userId, errorMessage]
+  );
+
+  const { rows } = await queryDb<{ id: string }>(
+    `
+    update public.reminders
+    set status = 'paused',
+        enabled = false,
+        is_active = false,
+        paused_reason = $2,
+        last_error = $3,
+        retry_after_utc = null,
+        locked_at = null,
+        locked_by = null,
+        updated_at = now()
+    where user_id = $1
+      and deleted_at is null
+      and enabled = true
+    returning id
+    `,
+    [userId, REMINDER_PAUSED_BLOCKED, errorMessage]
+  );
+  return rows.length;
+};
+
+const notifyReminderDead = async (reminder: ReminderRow, botClient: Bot, errorMessage: string): Promise<void> => {
+  try {
+    const user = await loadUser(reminder.user_id);
+    if (!user?.telegram_id) return;
+    const settings = await getOrCreateUserSettings(user.id);
+    await withLocale(getLanguageFromSettings(settings), async () => {
+      const title = reminder.title?.trim() || labels.reminders.untitled();
+      await botClient.api.sendMessage(Number(user.telegram_id), labels.reminders.deadNotice({ title, error: errorMessage }));
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarn('Failed to notify user about dead reminder', { scope: 'cron', reminderId: reminder.id, error: message });
+  }
+};
+
+// After config.cron.maxSendAttempts failures in a row the reminder is parked as dead instead of retrying forever.
 const updateReminderAfterFailure = async (
   reminder: ReminderRow,
   params: { tickId: string; errorMessage: string; retryAfterSeconds?: number | null }
-): Promise<void> => {
+): Promise<{ dead: boolean }> => {
   const attemptCount = (reminder.send_attempt_count ?? 0) + 1;
+  if (attemptCount >= config.cron.maxSendAttempts && !params.retryAfterSeconds) {
+    await queryDb(
+      `
+      update public.reminders
+      set status = 'dead',
+          enabled = false,
+          is_active = false,
+          send_attempt_count = $2,
+          last_error = $3,
+          retry_after_utc = null,
+          locked_at = null,
+          locked_by = null,
+          last_tick_id = $4,
+          updated_at = now()
+      where id = $1
+      `,
+      [reminder.id, attemptCount, params.errorMessage, params.tickId]
+    );
+    return { dead: true };
+  }
+
   const fallbackRetrySeconds = Math.min(2 ** attemptCount * 30, 3600);
   const retryAfterSeconds =
     params.retryAfterSeconds && params.retryAfterSeconds > 0
@@ -283,16 +655,89 @@ const updateReminderAfterFailure = async (
     `,
     [reminder.id, attemptCount, params.errorMessage, asIsoString(retryAfterUtc), params.tickId]
   );
+  return { dead: false };
+};
+
+export const buildReminderActionKeyboard = async (
+  reminder: ReminderRow,
+  deliveryKey: string,
+  actions: ReminderDeliveryAction[] = [...SNOOZE_ACTIONS, 'done', 'skip']
+): Promise<InlineKeyboard> => {
+  const buttonLabels: Record<ReminderDeliveryAction, () => string> = {
+    snooze_10m: labels.remindersButtons.snooze10m,
+    snooze_1h: labels.remindersButtons.snooze1h,
+    snooze_morning: labels.remindersButtons.snoozeMorning,
+    done: labels.remindersButtons.deliveryDone,
+    skip: labels.remindersButtons.deliverySkip,
+    ack: labels.remindersButtons.deliveryAck
+  };
+  const kb = new InlineKeyboard();
+  const rows = [actions.filter((action) => SNOOZE_ACTIONS.includes(action)), actions.filter((action) => !SNOOZE_ACTIONS.includes(action))];
+  for (const row of rows) {
+    if (row.length === 0) continue;
+    for (const action of row) {
+      const token = await createCallbackToken({
+        userId: reminder.user_id,
+        payload: { action: 'reminders.delivery_action', data: { reminderId: reminder.id, deliveryKey, kind: action } },
+        ttlMinutes: REMINDER_ACTION_TTL_MINUTES
+      });
+      kb.text(buttonLabels[action](), token);
+    }
+    kb.row();
+  }
+  return kb;
 };
 
-const sendReminderWithAttachments = async (reminder: ReminderRow, botClient: Bot): Promise<void> => {
+const formatMissedTimes = (missed: Date[], timezone: string, nowUtc: Date): string[] => {
+  const today = formatInstantToLocal(nowUtc.toISOString(), timezone).date;
+  return missed.map((occurrence) => {
+    const local = formatInstantToLocal(occurrence.toISOString(), timezone);
+    return local.date === today ? local.time : `${local.date} ${local.time}`;
+  });
+};
+
+const sendReminderWithAttachments = async (
+  reminder: ReminderRow,
+  botClient: Bot,
+  target: DeliveryTarget,
+  extras: { missed?: Date[]; condition?: ReminderConditionResult | null } = {}
+): Promise<void> => {
+  const { missed, condition } = extras;
   const user = await loadUser(reminder.user_id);
   if (!user || !user.telegram_id) {
     throw new Error('Missing user or telegram id');
   }
+  const missedTimes = missed
+    ? formatMissedTimes(missed, user.timezone ?? reminder.timezone ?? config.defaultTimezone, new Date())
+    : undefined;
+
+  const settings = await getOrCreateUserSettings(user.id);
+  const nagging = isNaggingEnabled(reminder);
+  await withLocale(getLanguageFromSettings(settings), async () => {
+    const replyMarkup = await buildReminderActionKeyboard(
+      reminder,
+      target.deliveryKey,
+      nagging ? [...SNOOZE_ACTIONS, 'ack', 'skip'] : undefined
+    );
+    const repeat = target.repeatIndex > 0 ? { index: target.repeatIndex, total: reminder.nag_max_repeats ?? target.repeatIndex } : undefined;
+    await sendReminderMessage({
+      reminder,
+      user,
+      botClient,
+      replyMarkup,
+      repeat,
+      missedTimes,
+      condition: condition ?? undefined,
+      occurrenceUtc: new Date(target.occurrenceIso)
+    });
+  });
 
-  await sendReminderMessage({ reminder, user, botClient });
+  if (target.repeatIndex > 0) return;
 
+  await sendStoredAttachments(reminder, botClient, Number(user.telegram_id));
+};
+
+const sendStoredAttachments = async (reminder: ReminderRow, botClient: Bot, chatId: number): Promise<void> => {
   const attachments = await listReminderAttachments({ reminderId: reminder.id });
   if (!attachments.length) return;
   const stored = attachments
@@ -314,7 +759,269 @@ const sendReminderWithAttachments = async (reminder: ReminderRow, botClient: Bot
       available: stored.length
     });
   }
-  await sendAttachmentsWithApi(botClient.api, Number(user.telegram_id), stored);
+  await sendAttachmentsWithApi(botClient.api, chatId, stored);
+};
+
+// Recipients can only acknowledge or leave; snoozing and done/skip move the owner's schedule. The tokens
+// are reusable because in a group every member sees, and may press, the same buttons.
+const buildRecipientActionKeyboard = async (reminder: ReminderRow, recipient: ReminderRecipientRow, deliveryKey: string): Promise<InlineKeyboard> => {
+  const ackToken = await createCallbackToken({
+    userId: recipient.user_id ?? undefined,
+    payload: { action: 'reminders.recipient_ack', data: { reminderId: reminder.id, deliveryKey } },
+    ttlMinutes: REMINDER_ACTION_TTL_MINUTES,
+    reusable: true
+  });
+  const leaveToken = await createCallbackToken({
+    userId: recipient.user_id ?? undefined,
+    payload: { action: 'reminders.share_leave', data: { reminderId: reminder.id } },
+    ttlMinutes: REMINDER_ACTION_TTL_MINUTES,
+    reusable: true
+  });
+  return new InlineKeyboard().text(labels.remindersButtons.deliveryAck(), ackToken).text(labels.remindersButtons.shareLeave(), leaveToken);
+};
+
+/**
+ * Fans an occurrence the owner just received out to everyone the reminder is shared with. Each recipient
+ * has its own delivery row, so a chat that already got this occurrence is skipped on a re-run and one
+ * failing chat never holds up the others or the owner's schedule. Nag repeats and pre-alerts stay with
+ * the owner. A chat that answers 403 (blocked the bot, or removed it from the group) is dropped.
+ */
+const deliverToRecipients = async (
+  reminder: ReminderRow,
+  botClient: Bot,
+  params: { target: DeliveryTarget; tickId: string; condition?: ReminderConditionResult | null }
+): Promise<{ sent: number; failed: number }> => {
+  const result = { sent: 0, failed: 0 };
+  let recipients: ReminderRecipientRow[];
+  try {
+    recipients = await listReminderRecipients(reminder.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarn('Failed to list reminder recipients', { scope: 'cron', tickId: params.tickId, reminderId: reminder.id, error: message });
+    return result;
+  }
+  if (!recipients.length) return result;
+
+  const owner = await loadUser(reminder.user_id);
+  if (!owner) return result;
+  const ownerSettings = await getOrCreateUserSettings(owner.id);
+
+  for (const recipient of recipients) {
+    const deliveryKey = buildRecipientDeliveryKey(params.target.deliveryKey, recipient.id);
+    try {
+      const existing = await findExistingDelivery(reminder.id, deliveryKey);
+      if (existing?.ok) continue;
+
+      // People read it in their own language; groups get the owner's.
+      const settings = recipient.user_id ? await getOrCreateUserSettings(recipient.user_id) : ownerSettings;
+      await withLocale(getLanguageFromSettings(settings), async () => {
+        const replyMarkup = await buildRecipientActionKeyboard(reminder, recipient, deliveryKey);
+        await sendReminderMessage({
+          reminder,
+          user: owner,
+          botClient,
+          replyMarkup,
+          condition: params.condition ?? undefined,
+          occurrenceUtc: new Date(params.target.occurrenceIso),
+          chatId: recipient.chat_id,
+          sharedBy: owner.username ? `@${owner.username}` : labels.reminders.sharedByUnknown()
+        });
+      });
+      await sendStoredAttachments(reminder, botClient, recipient.chat_id);
+      await upsertDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, ok: true, sentAtUtc: new Date(), recipientId: recipient.id });
+      result.sent += 1;
+    } catch (error) {
+      const parsed = parseTelegramError(error);
+      const errorMessage = parsed.kind === 'rate_limit' ? `rate_limited:${parsed.retryAfterSeconds}` : parsed.message;
+      result.failed += 1;
+      await upsertDelivery({
+        reminderId: reminder.id,
+        tickId: params.tickId,
+        deliveryKey,
+        ok: false,
+        error: errorMessage,
+        sentAtUtc: new Date(),
+        recipientId: recipient.id
+      });
+      if (isBotBlockedFailure(parsed)) {
+        await removeReminderRecipient(reminder.id, recipient.id);
+        logWarn('Reminder recipient unreachable; removed', { scope: 'cron', tickId: params.tickId, reminderId: reminder.id, recipientId: recipient.id });
+        continue;
+      }
+      logWarn('Reminder recipient send failed', {
+        scope: 'cron',
+        tickId: params.tickId,
+        reminderId: reminder.id,
+        recipientId: recipient.id,
+        error: errorMessage
+      });
+      if (parsed.kind === 'rate_limit') break;
+    }
+
+    if (config.cron.telegramSendDelayMs > 0) {
+      await sleep(config.cron.telegramSendDelayMs);
+    }
+  }
+
+  return result;
+};
+
+const sendPreAlert = async (reminder: ReminderRow, botClient: Bot, params: { occurrenceUtc: Date; offsetMinutes: number }): Promise<void> => {
+  const user = await loadUser(reminder.user_id);
+  if (!user || !user.telegram_id) {
+    throw new Error('Missing user or telegram id');
+  }
+  const timezone = user.timezone ?? reminder.timezone ?? config.defaultTimezone;
+  const [time] = formatMissedTimes([params.occurrenceUtc], timezone, new Date());
+
+  const settings = await getOrCreateUserSettings(user.id);
+  await withLocale(getLanguageFromSettings(settings), async () => {
+    await sendReminderMessage({
+      reminder,
+      user,
+      botClient,
+      preAlert: { lead: formatPreAlertLead(params.offsetMinutes), time },
+      occurrenceUtc: params.occurrenceUtc
+    });
+  });
+};
+
+/**
+ * Sends the pre-alerts that came due since the last tick. They are best effort: a failed or stale
+ * pre-alert is recorded but never retried, and the main occurrence is left untouched.
+ */
+const deliverDuePreAlerts = async (params: {
+  tickId: string;
+  botClient: Bot;
+  deadline: number;
+}): Promise<{ sent: number; failed: number; skipped: number }> => {
+  const counts = { sent: 0, failed: 0, skipped: 0 };
+  const candidates = await listDuePreAlerts(config.cron.maxBatch);
+
+  for (const candidate of candidates) {
+    if (Date.now() > params.deadline) break;
+    const { pre_alert_offset_minutes: offsetMinutes, ...reminder } = candidate;
+    const occurrenceUtc = new Date((reminder.next_run_at_utc ?? reminder.next_run_at) as string);
+    const deliveryKey = buildPreAlertDeliveryKey(reminder, asIsoString(occurrenceUtc), offsetMinutes);
+
+    try {
+      const claimed = await claimDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, action: 'pre_alert' });
+      if (!claimed) continue;
+
+      const nowUtc = new Date();
+      const quietUntilUtc = await resolveQuietHoursEnd(reminder, nowUtc);
+      const condition = quietUntilUtc ? null : await evaluateReminderCondition(reminder, nowUtc);
+      if (quietUntilUtc || (condition && !condition.holds)) {
+        counts.skipped += 1;
+        await upsertDelivery({
+          reminderId: reminder.id,
+          tickId: params.tickId,
+          deliveryKey,
+          ok: false,
+          sentAtUtc: nowUtc,
+          action: quietUntilUtc ? 'quiet_hours' : 'condition_met'
+        });
+        continue;
+      }
+
+      await sendPreAlert(reminder, params.botClient, { occurrenceUtc, offsetMinutes });
+      await upsertDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, ok: true, sentAtUtc: new Date(), action: 'pre_alert' });
+      counts.sent += 1;
+      logInfo('Reminder pre-alert sent', { scope: 'cron', tickId: params.tickId, reminderId: reminder.id, offsetMinutes });
+
+      if (config.cron.telegramSendDelayMs > 0) {
+        await sleep(config.cron.telegramSendDelayMs);
+      }
+    } catch (error) {
+      const parsed = parseTelegramError(error);
+      const errorMessage = parsed.kind === 'rate_limit' ? `rate_limited:${parsed.retryAfterSeconds}` : parsed.message;
+      counts.failed += 1;
+      await upsertDelivery({
+        reminderId: reminder.id,
+        tickId: params.tickId,
+        deliveryKey,
+        ok: false,
+        error: errorMessage,
+        sentAtUtc: new Date(),
+        action: 'pre_alert'
+      });
+      logError('Reminder pre-alert failed', { scope: 'cron', tickId: params.tickId, reminderId: reminder.id, offsetMinutes, error: errorMessage });
+      if (isBotBlockedFailure(parsed)) {
+        await pauseRemindersForBlockedUser(reminder.user_id, errorMessage);
+      }
+      if (parsed.kind === 'rate_limit') break;
+    }
+  }
+
+  return counts;
+};
+
+/**
+ * Sends the snoozed deliveries that came due. They leave the reminder's own schedule alone; quiet hours
+ * push a snooze to their end, and a met condition drops it like it would drop the occurrence.
+ */
+const deliverDueSnoozes = async (params: {
+  tickId: string;
+  botClient: Bot;
+  deadline: number;
+}): Promise<{ sent: number; failed: number; skipped: number }> => {
+  const counts = { sent: 0, failed: 0, skipped: 0 };
+  const candidates = await listDueSnoozes(config.cron.maxBatch);
+
+  for (const candidate of candidates) {
+    if (Date.now() > params.deadline) break;
+    const { snooze_delivery_key: snoozedKey, snooze_until_utc: snoozeUntilUtc, ...reminder } = candidate;
+    const snoozedUntilIso = asIsoString(new Date(snoozeUntilUtc));
+    const deliveryKey = buildSnoozeDeliveryKey(reminder, snoozedUntilIso);
+
+    try {
+      const nowUtc = new Date();
+      const quietUntilUtc = await resolveQuietHoursEnd(reminder, nowUtc);
+      if (quietUntilUtc) {
+        counts.skipped += 1;
+        await postponeSnooze({ reminderId: reminder.id, deliveryKey: snoozedKey, untilUtc: quietUntilUtc });
+        logInfo('Reminder snooze postponed for quiet hours', {
+          scope: 'cron',
+          tickId: params.tickId,
+          reminderId: reminder.id,
+          deliveryKey: snoozedKey,
+          postponedUntil: asIsoString(quietUntilUtc)
+        });
+        continue;
+      }
+
+      const claimed = await claimDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, action: null });
+      if (!claimed) continue;
+
+      const condition = await evaluateReminderCondition(reminder, nowUtc);
+      if (condition && !condition.holds) {
+        counts.skipped += 1;
+        await upsertDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, ok: false, sentAtUtc: nowUtc, action: 'condition_met' });
+        continue;
+      }
+
+      await sendReminderWithAttachments(reminder, params.botClient, { occurrenceIso: snoozedUntilIso, deliveryKey, repeatIndex: 0 }, { condition });
+      await upsertDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, ok: true, sentAtUtc: new Date() });
+      counts.sent += 1;
+      logInfo('Reminder snooze sent', { scope: 'cron', tickId: params.tickId, reminderId: reminder.id, deliveryKey });
+
+      if (config.cron.telegramSendDelayMs > 0) {
+        await sleep(config.cron.telegramSendDelayMs);
+      }
+    } catch (error) {
+      const parsed = parseTelegramError(error);
+      const errorMessage = parsed.kind === 'rate_limit' ? `rate_limited:${parsed.retryAfterSeconds}` : parsed.message;
+      counts.failed += 1;
+      await upsertDelivery({ reminderId: reminder.id, tickId: params.tickId, deliveryKey, ok: false, error: errorMessage, sentAtUtc: new Date() });
+      logError('Reminder snooze failed', { scope: 'cron', tickId: params.tickId, reminderId: reminder.id, deliveryKey, error: errorMessage });
+      if (isBotBlockedFailure(parsed)) {
+        await pauseRemindersForBlockedUser(reminder.user_id, errorMessage);
+      }
+      if (parsed.kind === 'rate_limit') break;
+    }
+  }
+
+  return counts;
 };
 
 const markReminderArchiveRinged = async (reminder: ReminderRow, botClient: Bot): Promise<void> => {
@@ -332,6 +1039,162 @@ const markReminderArchiveRinged = async (reminder: ReminderRow, botClient: Bot):
   });
 };
 
+const finishDelivery = async (
+  reminder: ReminderRow,
+  params: { target: DeliveryTarget; sentAtUtc: Date; tickId: string; botClient: Bot }
+): Promise<void> => {
+  if (isNaggingEnabled(reminder)) {
+    await updateReminderAfterNag(reminder, params);
+  } else {
+    await updateReminderAfterSuccess(reminder, params.sentAtUtc, params.tickId);
+  }
+  if (reminder.schedule_type === 'once' && params.target.repeatIndex === 0) {
+    await markReminderArchiveRinged(reminder, params.botClient);
+  }
+};
+
+const computeSnoozeUntil = (action: ReminderDeliveryAction, timezone: string, nowUtc: Date): Date | null => {
+  if (action === 'snooze_10m') {
+    return computeNextRunAtFromSchedule({ scheduleType: 'hourly', timezone, intervalMinutes: 10 }, nowUtc);
+  }
+  if (action === 'snooze_1h') {
+    return computeNextRunAtFromSchedule({ scheduleType: 'hourly', timezone, intervalMinutes: 60 }, nowUtc);
+  }
+  // After the night is over, "tomorrow morning" means the next calendar day.
+  const localNow = formatInstantToLocal(nowUtc.toISOString(), timezone);
+  const fromUtc = localNow.time < SNOOZE_NIGHT_END_TIME ? nowUtc : new Date(localDateTimeToUtcIso(localNow.date, '23:59', timezone));
+  return computeNextRunAtFromSchedule({ scheduleType: 'daily', timezone, atTime: SNOOZE_MORNING_TIME }, fromUtc);
+};
+
+const recordDeliveryAction = async (params: {
+  reminderId: string;
+  deliveryKey: string;
+  action: ReminderDeliveryAction;
+  actionAtUtc: Date;
+  snoozedUntilUtc: Date | null;
+}): Promise<void> => {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from(REMINDER_DELIVERIES_TABLE)
+    .update({
+      action: params.action,
+      action_at_utc: asIsoString(params.actionAtUtc),
+      snoozed_until_utc: params.snoozedUntilUtc ? asIsoString(params.snoozedUntilUtc) : null
+    })
+    .eq('reminder_id', params.reminderId)
+    .eq('delivery_key', params.deliveryKey);
+
+  if (error) {
+    throw new Error(`Failed to record delivery action: ${error.message}`);
+  }
+};
+
+const postponeSnooze = async (params: { reminderId: string; deliveryKey: string; untilUtc: Date }): Promise<void> => {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from(REMINDER_DELIVERIES_TABLE)
+    .update({ snoozed_until_utc: asIsoString(params.untilUtc) })
+    .eq('reminder_id', params.reminderId)
+    .eq('delivery_key', params.deliveryKey);
+
+  if (error) {
+    throw new Error(`Failed to postpone snooze: ${error.message}`);
+  }
+};
+
+// The owner's most recent message for the reminder; pre-alerts and recipients' copies carry no schedule actions.
+const findLatestOwnerDelivery = async (reminderId: string): Promise<{ delivery_key: string; sent_at_utc: string } | null> => {
+  const { rows } = await queryDb<{ delivery_key: string; sent_at_utc: string }>(
+    `
+    select delivery_key, sent_at_utc
+    from public.reminder_deliveries
+    where reminder_id = $1
+      and ok = true
+      and recipient_id is null
+      and sent_at_utc is not null
+      and action is distinct from 'pre_alert'
+    order by sent_at_utc desc
+    limit 1
+    `,
+    [reminderId]
+  );
+  return rows[0] ?? null;
+};
+
+// Nag repeats belong to the occurrence that started them, so any of its messages can still answer it.
+const toOccurrenceDeliveryKey = (deliveryKey: string): string => deliveryKey.replace(/:r\d+$/, '');
+
+/**
+ * Moves the schedule on after an answered occurrence and stops any nagging. The next run is counted through
+ * computeNextRunAt from the last regular send, like after the send itself, so interval schedules keep their
+ * rhythm however late the button is pressed. A reminder paused in the meantime stays paused.
+ */
+const rescheduleAfterAnswer = async (reminder: ReminderRow, nowUtc: Date): Promise<Date | null> => {
+  const fromUtc = reminder.last_sent_at_utc ? new Date(reminder.last_sent_at_utc) : nowUtc;
+  const nextRunAt = reminder.schedule_type === 'once' ? null : computeNextRunAt(reminder, fromUtc);
+  await queryDb(
+    `
+    update public.reminders
+    set next_run_at_utc = $2,
+        next_run_at = $2,
+        status = case when $2::timestamptz is null then 'ringed' else status end,
+        enabled = enabled and $2::timestamptz is not null,
+        is_active = is_active and $2::timestamptz is not null,
+        nag_occurrence_utc = null,
+        nag_count = 0,
+        updated_at = now()
+    where id = $1
+      and deleted_at is null
+    `,
+    [reminder.id, nextRunAt ? asIsoString(nextRunAt) : null]
+  );
+  return nextRunAt;
+};
+
+/**
+ * Applies a button pressed on a delivered reminder. Done, skip and ack close the occurrence and reschedule
+ * through computeNextRunAt. Snoozing sends the message again later as a delivery of its own and only touches
+ * the schedule to stop nagging. Snooze times are worked out in the given timezone, which the caller also
+ * shows them in. Buttons on a message that a later delivery has replaced are rejected as stale.
+ */
+export const applyReminderDeliveryAction = async (params: {
+  reminder: ReminderRow;
+  deliveryKey: string;
+  action: ReminderDeliveryAction;
+  timezone?: string | null;
+  nowUtc?: Date;
+}): Promise<{ nextRunAt: Date | null; stale: boolean }> => {
+  const { reminder, deliveryKey, action } = params;
+  const nowUtc = params.nowUtc ?? new Date();
+  const timezone = params.timezone ?? reminder.timezone ?? config.defaultTimezone;
+  const currentNextRun = reminder.next_run_at_utc ?? reminder.next_run_at;
+
+  const delivery = await findExistingDelivery(reminder.id, deliveryKey);
+  const latest = await findLatestOwnerDelivery(reminder.id);
+  const stale =
+    Boolean(delivery?.sent_at_utc && latest) &&
+    new Date(delivery?.sent_at_utc as string).getTime() < new Date(latest?.sent_at_utc as string).getTime() &&
+    toOccurrenceDeliveryKey(latest?.delivery_key as string) !== toOccurrenceDeliveryKey(deliveryKey);
+  if (stale) {
+    logInfo('Reminder delivery action rejected as stale', { scope: 'cron', reminderId: reminder.id, deliveryKey, action, latestDeliveryKey: latest?.delivery_key });
+    return { nextRunAt: currentNextRun ? new Date(currentNextRun) : null, stale: true };
+  }
+
+  if (SNOOZE_ACTIONS.includes(action)) {
+    // While an occurrence is nagged, next_run_at holds the next repeat; the snooze replaces the repeats.
+    if (reminder.nag_occurrence_utc) await rescheduleAfterAnswer(reminder, nowUtc);
+    const snoozeUntil = computeSnoozeUntil(action, timezone, nowUtc);
+    await recordDeliveryAction({ reminderId: reminder.id, deliveryKey, action, actionAtUtc: nowUtc, snoozedUntilUtc: snoozeUntil });
+    logInfo('Reminder snoozed', { scope: 'cron', reminderId: reminder.id, deliveryKey, action, snoozeUntil: snoozeUntil?.toISOString() });
+    return { nextRunAt: snoozeUntil, stale: false };
+  }
+
+  const nextRunAt = await rescheduleAfterAnswer(reminder, nowUtc);
+  await recordDeliveryAction({ reminderId: reminder.id, deliveryKey, action, actionAtUtc: nowUtc, snoozedUntilUtc: null });
+  logInfo('Reminder delivery acknowledged', { scope: 'cron', reminderId: reminder.id, deliveryKey, action, nextRunAt: nextRunAt?.toISOString() });
+  return { nextRunAt, stale: false };
+};
+
 export const runCronTick = async (params: {
   key?: string;
   botClient: Bot;
@@ -358,6 +1221,7 @@ export const runCronTick = async (params: {
   try {
     const reminders = await claimDueReminders(tickId, config.cron.maxBatch);
     counts.claimed = reminders.length;
+    const blockedUserIds = new Set<string>();
 
     for (let index = 0; index < reminders.length; index += 1) {
       if (Date.now() - start > config.cron.maxRuntimeMs) {
@@ -368,18 +1232,26 @@ export const runCronTick = async (params: {
       }
 
       const reminder = reminders[index];
-      const occurrenceIso = reminder.next_run_at_utc ?? reminder.next_run_at;
-      const occurrenceKey = occurrenceIso ?? new Date().toISOString();
-      const deliveryKey = buildDeliveryKey(reminder, occurrenceKey);
+      // Already paused together with the rest of this user's reminders earlier in the tick.
+      if (blockedUserIds.has(reminder.user_id)) {
+        counts.skipped += 1;
+        continue;
+      }
+      const dueIso = reminder.next_run_at_utc ?? reminder.next_run_at;
+      const target = resolveDeliveryTarget(reminder);
+      const { deliveryKey } = target;
 
       try {
         const existingDelivery = await findExistingDelivery(reminder.id, deliveryKey);
         if (existingDelivery?.ok) {
           counts.skipped += 1;
-          const sentAtUtc = occurrenceIso ? new Date(occurrenceIso) : new Date();
-          await updateReminderAfterSuccess(reminder, sentAtUtc, tickId);
-          if (reminder.schedule_type === 'once') {
-            await markReminderArchiveRinged(reminder, params.botClient);
+          const sentAtUtc = dueIso ? new Date(dueIso) : new Date();
+          await finishDelivery(reminder, { target, sentAtUtc, tickId, botClient: params.botClient });
+          if (target.repeatIndex === 0) {
+            // A tick that stopped after the owner's send still owes the recipients their copies.
+            const shared = await deliverToRecipients(reminder, params.botClient, { target, tickId });
+            counts.sent += shared.sent;
+            counts.failed += shared.failed;
           }
           logInfo('Reminder skipped due to idempotency', {
             scope: 'cron',
@@ -390,7 +1262,54 @@ export const runCronTick = async (params: {
           continue;
         }
 
-        await sendReminderWithAttachments(reminder, params.botClient);
+        let missed: Date[] | undefined;
+        if (target.repeatIndex === 0 && dueIso) {
+          const nowUtc = new Date();
+          const catchUp = await resolveCatchUpPlan(reminder, new Date(dueIso), nowUtc);
+          if (catchUp.kind === 'skip') {
+            counts.skipped += 1;
+            await skipDueOccurrence(reminder, { tickId, deliveryKey, nowUtc, action: 'missed' });
+            logInfo('Reminder missed occurrences skipped', {
+              scope: 'cron',
+              tickId,
+              reminderId: reminder.id,
+              deliveryKey,
+              missed: catchUp.missed.length
+            });
+            continue;
+          }
+          missed = catchUp.kind === 'send' ? catchUp.missed : undefined;
+        }
+
+        const quietUntilUtc = await resolveQuietHoursEnd(reminder, new Date());
+        if (quietUntilUtc) {
+          counts.skipped += 1;
+          await postponeReminderForQuietHours(reminder, { tickId, deliveryKey, untilUtc: quietUntilUtc });
+          logInfo('Reminder postponed for quiet hours', {
+            scope: 'cron',
+            tickId,
+            reminderId: reminder.id,
+            deliveryKey,
+            postponedUntil: asIsoString(quietUntilUtc)
+          });
+          continue;
+        }
+
+        const condition = await evaluateReminderCondition(reminder, new Date());
+        if (condition && !condition.holds) {
+          counts.skipped += 1;
+          await skipDueOccurrence(reminder, { tickId, deliveryKey, nowUtc: new Date(), action: 'condition_met' });
+          logInfo('Reminder skipped because its condition is met', {
+            scope: 'cron',
+            tickId,
+            reminderId: reminder.id,
+            deliveryKey,
+            conditionType: condition.type
+          });
+          continue;
+        }
+
+        await sendReminderWithAttachments(reminder, params.botClient, target, { missed, condition });
 
         const sentAtUtc = new Date();
         await upsertDelivery({
@@ -400,18 +1319,22 @@ export const runCronTick = async (params: {
           ok: true,
           sentAtUtc
         });
-        await updateReminderAfterSuccess(reminder, sentAtUtc, tickId);
-        if (reminder.schedule_type === 'once') {
-          await markReminderArchiveRinged(reminder, params.botClient);
-        }
+        await finishDelivery(reminder, { target, sentAtUtc, tickId, botClient: params.botClient });
         counts.sent += 1;
 
+        if (target.repeatIndex === 0) {
+          const shared = await deliverToRecipients(reminder, params.botClient, { target, tickId, condition });
+          counts.sent += shared.sent;
+          counts.failed += shared.failed;
+        }
+
         logInfo('Reminder sent', {
           scope: 'cron',
           tickId,
           reminderId: reminder.id,
           userId: reminder.user_id,
-          scheduleType: reminder.schedule_type
+          scheduleType: reminder.schedule_type,
+          repeatIndex: target.repeatIndex
         });
 
         if (config.cron.telegramSendDelayMs > 0) {
@@ -436,11 +1359,22 @@ export const runCronTick = async (params: {
           sentAtUtc: new Date()
         });
 
-        await updateReminderAfterFailure(reminder, {
+        if (isBotBlockedFailure(parsed)) {
+          blockedUserIds.add(reminder.user_id);
+          const paused = await pauseRemindersForBlockedUser(reminder.user_id, errorMessage);
+          logWarn('User blocked the bot; reminders paused', { scope: 'cron', tickId, userId: reminder.user_id, paused });
+          continue;
+        }
+
+        const { dead } = await updateReminderAfterFailure(reminder, {
           tickId,
           errorMessage,
           retryAfterSeconds
         });
+        if (dead) {
+          logWarn('Reminder moved to dead after repeated failures', { scope: 'cron', tickId, reminderId: reminder.id, error: errorMessage });
+          await notifyReminderDead(reminder, params.botClient, errorMessage);
+        }
 
         logError('Reminder send failed', {
           scope: 'cron',
@@ -463,6 +1397,16 @@ export const runCronTick = async (params: {
         }
       }
     }
+
+    const preAlerts = await deliverDuePreAlerts({ tickId, botClient: params.botClient, deadline: start + config.cron.maxRuntimeMs });
+    counts.sent += preAlerts.sent;
+    counts.failed += preAlerts.failed;
+    counts.skipped += preAlerts.skipped;
+
+    const snoozes = await deliverDueSnoozes({ tickId, botClient: params.botClient, deadline: start + config.cron.maxRuntimeMs });
+    counts.sent += snoozes.sent;
+    counts.failed += snoozes.failed;
+    counts.skipped += snoozes.skipped;
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logError('Cron tick failed', { scope: 'cron', tickId, error: message });
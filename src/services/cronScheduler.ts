@@ -0,0 +1,183 @@
+import type { Bot } from 'grammy';
+import type { PoolClient } from 'pg';
+
+import { config } from '../config';
+import { getDbPool } from '../db';
+import { logError, logInfo, logWarn } from '../utils/logger';
+import { runCronTick } from './cron.service';
+
+export type CronMode = 'internal' | 'external';
+
+type SchedulerRole = 'leader' | 'follower' | 'stopped';
+
+type SchedulerState = {
+  botClient: Bot | null;
+  timer: NodeJS.Timeout | null;
+  lockClient: PoolClient | null;
+  inFlight: Promise<void> | null;
+  role: SchedulerRole;
+  consecutiveFailures: number;
+  lastTickAt: string | null;
+  lastError: string | null;
+  nextTickAt: string | null;
+};
+
+// Shared by every instance so only one of them holds the lock.
+const LEADER_LOCK_KEY = 842_517_301;
+
+const state: SchedulerState = {
+  botClient: null,
+  timer: null,
+  lockClient: null,
+  inFlight: null,
+  role: 'stopped',
+  consecutiveFailures: 0,
+  lastTickAt: null,
+  lastError: null,
+  nextTickAt: null
+};
+
+export const getCronMode = (): CronMode => (config.cron.internal.enabled ? 'internal' : 'external');
+
+const computeDelayMs = (): number => {
+  const { intervalMs, jitterMs, maxBackoffMs } = config.cron.internal;
+  const base =
+    state.consecutiveFailures > 0 ? Math.min(intervalMs * 2 ** state.consecutiveFailures, maxBackoffMs) : intervalMs;
+  return base + Math.floor(Math.random() * (jitterMs + 1));
+};
+
+const releaseLeadership = async (): Promise<void> => {
+  const client = state.lockClient;
+  state.lockClient = null;
+  if (!client) return;
+  try {
+    await client.query('select pg_advisory_unlock($1)', [LEADER_LOCK_KEY]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarn('Failed to release cron leader lock', { scope: 'cron_scheduler', error: message });
+  } finally {
+    client.release();
+  }
+};
+
+// Advisory locks belong to the session, so the leader keeps a dedicated connection for as long as it leads.
+const ensureLeadership = async (): Promise<boolean> => {
+  if (state.lockClient) {
+    try {
+      await state.lockClient.query('select 1');
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logWarn('Cron leader connection lost', { scope: 'cron_scheduler', error: message });
+      state.lockClient.release(true);
+      state.lockClient = null;
+    }
+  }
+
+  const client = await getDbPool().connect();
+  try {
+    const { rows } = await client.query<{ locked: boolean }>('select pg_try_advisory_lock($1) as locked', [LEADER_LOCK_KEY]);
+    if (rows[0]?.locked) {
+      state.lockClient = client;
+      logInfo('Cron scheduler elected leader', { scope: 'cron_scheduler' });
+      return true;
+    }
+  } catch (error) {
+    client.release();
+    throw error;
+  }
+  client.release();
+  return false;
+};
+
+const runScheduledTick = async (): Promise<void> => {
+  const botClient = state.botClient;
+  if (!botClient) return;
+
+  try {
+    const isLeader = await ensureLeadership();
+    state.role = isLeader ? 'leader' : 'follower';
+    if (!isLeader) {
+      state.consecutiveFailures = 0;
+      return;
+    }
+
+    const result = await runCronTick({ key: config.cron.secret, botClient });
+    state.lastTickAt = new Date().toISOString();
+    if (result.ok) {
+      state.consecutiveFailures = 0;
+      state.lastError = null;
+      return;
+    }
+    state.consecutiveFailures += 1;
+    state.lastError = result.error ?? 'unknown';
+    logWarn('Scheduled cron tick failed', { scope: 'cron_scheduler', error: state.lastError, failures: state.consecutiveFailures });
+  } catch (error) {
+    state.consecutiveFailures += 1;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    logError('Scheduled cron tick crashed', { scope: 'cron_scheduler', error: state.lastError, failures: state.consecutiveFailures });
+  }
+};
+
+const scheduleNextTick = (): void => {
+  if (!state.botClient) return;
+  const delayMs = computeDelayMs();
+  state.nextTickAt = new Date(Date.now() + delayMs).toISOString();
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    state.inFlight = runScheduledTick().finally(() => {
+      state.inFlight = null;
+      scheduleNextTick();
+    });
+  }, delayMs);
+};
+
+export const startCronScheduler = (botClient: Bot): void => {
+  if (state.botClient) return;
+  state.botClient = botClient;
+  state.role = 'follower';
+  logInfo('Cron scheduler started', {
+    scope: 'cron_scheduler',
+    intervalMs: config.cron.internal.intervalMs,
+    jitterMs: config.cron.internal.jitterMs
+  });
+  scheduleNextTick();
+};
+
+/**
+ * Stops scheduling, waits for a running tick to finish and gives up the leader lock so another
+ * instance can take over right away.
+ */
+export const stopCronScheduler = async (): Promise<void> => {
+  if (!state.botClient) return;
+  state.botClient = null;
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+  if (state.inFlight) {
+    await state.inFlight;
+  }
+  await releaseLeadership();
+  state.role = 'stopped';
+  state.nextTickAt = null;
+  logInfo('Cron scheduler stopped', { scope: 'cron_scheduler' });
+};
+
+export const getCronSchedulerStatus = (): {
+  mode: CronMode;
+  role: SchedulerRole;
+  interval_ms: number | null;
+  consecutive_failures: number;
+  last_tick_at: string | null;
+  next_tick_at: string | null;
+  last_error: string | null;
+} => ({
+  mode: getCronMode(),
+  role: state.role,
+  interval_ms: getCronMode() === 'internal' ? config.cron.internal.intervalMs : null,
+  consecutive_failures: state.consecutiveFailures,
+  last_tick_at: state.lastTickAt,
+  next_tick_at: state.nextTickAt,
+  last_error: state.lastError
+});
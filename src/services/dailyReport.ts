@@ -1,6 +1,9 @@
 import { getSupabaseClient } from '../db';
 import type { ReportDayRow, ReportItemRow, ReportValueRow } from '../types/supabase';
-import { addXpDelta } from './xpLedger';
+import { evaluateFormula, parseFormula, type FormulaValue } from '../utils/formula';
+import { formatInstantToLocal } from '../utils/time';
+import { loadUser } from './reminders';
+import { addXpDelta, deleteXpEntries } from './xpLedger';
 
 const REPORT_DAYS_TABLE = 'report_days';
 const REPORT_VALUES_TABLE = 'report_values';
@@ -28,6 +31,41 @@ export async function getOrCreateReportDay(
   return data as ReportDayRow;
 }
 
+export type ReportItemSchedule = Pick<ReportItemRow, 'schedule_weekdays' | 'schedule_every_days' | 'active_from' | 'active_until' | 'created_at'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const localDateToUtc = (localDate: string): Date => {
+  const [year, month, day] = localDate.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+/**
+ * Whether an item is due on localDate (YYYY-MM-DD). Items without a schedule apply every day. Weekdays use
+ * 0 for Sunday, like reminders do; every N days counts from active_from, or from the day the item was created
+ * in the owner's timezone.
+ */
+export const isItemScheduledOn = (item: ReportItemSchedule, localDate: string, timezone?: string | null): boolean => {
+  if (item.active_from && localDate < item.active_from) return false;
+  if (item.active_until && localDate > item.active_until) return false;
+  const date = localDateToUtc(localDate);
+  const weekdays = item.schedule_weekdays ?? [];
+  if (weekdays.length && !weekdays.includes(date.getUTCDay())) return false;
+  const everyDays = item.schedule_every_days ?? 0;
+  if (everyDays > 1) {
+    const start = localDateToUtc(item.active_from ?? formatInstantToLocal(item.created_at, timezone).date);
+    const offset = Math.round((date.getTime() - start.getTime()) / DAY_MS);
+    if (((offset % everyDays) + everyDays) % everyDays !== 0) return false;
+  }
+  return true;
+};
+
+export const filterScheduledItems = <T extends ReportItemSchedule>(items: T[], localDate: string, timezone?: string | null): T[] =>
+  items.filter((item) => isItemScheduledOn(item, localDate, timezone));
+
+export const hasItemSchedule = (item: ReportItemSchedule): boolean =>
+  Boolean(item.schedule_weekdays?.length || (item.schedule_every_days ?? 0) > 1 || item.active_from || item.active_until);
+
 export async function listCompletionStatus(
   reportDayId: string,
   items: ReportItemRow[],
@@ -54,7 +92,34 @@ export async function listCompletionStatus(
 
 const shouldApplyXp = (existing: ReportValueRow | null): boolean => !existing || existing.xp_delta_applied === false;
 
-type XpMode = 'fixed' | 'per_minute' | 'per_number' | 'none';
+type XpMode = 'fixed' | 'per_minute' | 'per_number' | 'per_option' | 'none';
+
+export type ReportItemChoice = { key: string; label: string; xp?: number | null };
+
+// Items picked from a list keep their options in options_json.choices; a rating is always 1..10.
+export const CHOICE_ITEM_TYPES = ['choice', 'multi_choice', 'checklist'] as const;
+export const RATING_MIN = 1;
+export const RATING_MAX = 10;
+
+export const isChoiceItemType = (itemType: string | null | undefined): boolean =>
+  (CHOICE_ITEM_TYPES as readonly string[]).includes(itemType ?? '');
+
+export const getItemChoices = (item: Pick<ReportItemRow, 'options_json'>): ReportItemChoice[] => {
+  const raw = ((item.options_json ?? {}) as { choices?: unknown }).choices;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((c): c is ReportItemChoice => Boolean(c) && typeof (c as ReportItemChoice).key === 'string' && typeof (c as ReportItemChoice).label === 'string')
+    .map((c) => ({ key: c.key, label: c.label, xp: typeof c.xp === 'number' && Number.isFinite(c.xp) ? c.xp : null }));
+};
+
+/** The option keys in a stored value: `{ value: key }` for a single choice, `{ values: [...] }` otherwise. */
+export const extractSelectedKeys = (valueJson: Record<string, unknown> | null): string[] => {
+  if (!valueJson) return [];
+  const values = (valueJson as { values?: unknown }).values;
+  if (Array.isArray(values)) return values.filter((v): v is string => typeof v === 'string');
+  const value = (valueJson as { value?: unknown }).value;
+  return typeof value === 'string' ? [value] : [];
+};
 
 const extractRoutineMeta = (
   item: ReportItemRow
@@ -73,6 +138,7 @@ const resolveXpMode = (xpMode?: string | null): XpMode => {
   if (xpMode === 'fixed') return 'fixed';
   if (xpMode === 'per_minute' || xpMode === 'time') return 'per_minute';
   if (xpMode === 'per_number') return 'per_number';
+  if (xpMode === 'per_option') return 'per_option';
   return 'none';
 };
 
@@ -122,6 +188,70 @@ const isBooleanTrue = (valueJson: Record<string, unknown> | null): boolean => {
   return false;
 };
 
+export const getItemFormula = (item: Pick<ReportItemRow, 'options_json'>): string | null => {
+  const formula = ((item.options_json ?? {}) as { formula?: unknown }).formula;
+  return typeof formula === 'string' && formula.trim() ? formula.trim() : null;
+};
+
+// Item types a formula can read, and how each one turns into a number.
+export const FORMULA_INPUT_TYPES = ['boolean', 'number', 'duration_minutes', 'time_hhmm', 'rating', 'multi_choice', 'checklist', 'computed'];
+
+export const TARGET_ITEM_TYPES = ['number', 'duration_minutes'];
+
+export type ItemTargetProgress = { current: number; target: number; reached: boolean };
+
+/** Progress of a value toward the item's daily target, or null when the item has none. Skipped counts as 0. */
+export const getItemTargetProgress = (item: ReportItemRow, valueJson: Record<string, unknown> | null): ItemTargetProgress | null => {
+  const target = Number(item.target_value ?? 0);
+  if (!TARGET_ITEM_TYPES.includes(item.item_type) || !Number.isFinite(target) || target <= 0) return null;
+  const skipped = (valueJson as { skipped?: boolean } | null)?.skipped === true;
+  const current = skipped ? 0 : item.item_type === 'duration_minutes' ? extractMinutes(item, valueJson) : extractNumber(valueJson);
+  return { current, target, reached: current >= target };
+};
+
+const toFormulaValue = (item: ReportItemRow, valueJson: Record<string, unknown> | null): FormulaValue | null => {
+  if (!valueJson || (valueJson as { skipped?: boolean }).skipped) return null;
+  switch (item.item_type) {
+    case 'time_hhmm': {
+      const minutes = Number((valueJson as { minutes?: unknown }).minutes);
+      if (Number.isFinite(minutes)) return { value: minutes, kind: 'time' };
+      const match = String((valueJson as { value?: unknown }).value ?? '').match(/^(\d{1,2}):(\d{2})$/);
+      return match ? { value: Number(match[1]) * 60 + Number(match[2]), kind: 'time' } : null;
+    }
+    case 'duration_minutes':
+      return { value: extractMinutes(item, valueJson), kind: 'duration' };
+    case 'boolean':
+      return { value: isBooleanTrue(valueJson) ? 1 : 0, kind: 'number' };
+    case 'multi_choice':
+    case 'checklist':
+      return { value: extractSelectedKeys(valueJson).length, kind: 'number' };
+    case 'computed': {
+      const kind = (valueJson as { kind?: FormulaValue['kind'] }).kind ?? 'number';
+      const raw = Number(kind === 'number' ? (valueJson as { number?: unknown }).number : (valueJson as { minutes?: unknown }).minutes);
+      return Number.isFinite(raw) ? { value: raw, kind } : null;
+    }
+    default: {
+      const raw = Number((valueJson as { value?: unknown }).value);
+      return Number.isFinite(raw) ? { value: raw, kind: 'number' } : null;
+    }
+  }
+};
+
+/**
+ * Stores a formula result in the same shapes the entered types use, so XP and displays read it as usual.
+ * value is always numeric for XP; a time also keeps its hh:mm text in display.
+ */
+const toComputedValueJson = (result: FormulaValue): Record<string, unknown> => {
+  const value = Math.round(result.value * 100) / 100;
+  if (result.kind === 'time') {
+    const minutes = Math.round(result.value);
+    const hhmm = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    return { value: minutes, minutes, display: hhmm, kind: 'time' };
+  }
+  if (result.kind === 'duration') return { value, minutes: value, kind: 'duration' };
+  return { value, number: value, kind: 'number' };
+};
+
 const computeXpDelta = (item: ReportItemRow, valueJson: Record<string, unknown> | null): { delta: number; minutes: number; units: number } => {
   const xpMode = resolveXpMode(item.xp_mode);
   const ratio = getXpRatio(item);
@@ -134,6 +264,21 @@ const computeXpDelta = (item: ReportItemRow, valueJson: Record<string, unknown>
     return { delta: fixed > 0 ? fixed : 0, minutes: 0, units: 0 };
   }
 
+  if (isChoiceItemType(item.item_type)) {
+    const choices = getItemChoices(item);
+    const selected = choices.filter((c) => extractSelectedKeys(valueJson).includes(c.key));
+    // A checklist only counts as done once every entry is ticked.
+    const completed = item.item_type === 'checklist' ? choices.length > 0 && selected.length === choices.length : selected.length > 0;
+    if (xpMode === 'fixed') {
+      const fixed = item.xp_value ?? 0;
+      return { delta: completed && fixed > 0 ? fixed : 0, minutes: 0, units: selected.length };
+    }
+    if (xpMode !== 'per_option') return { delta: 0, minutes: 0, units: selected.length };
+    const raw = selected.reduce((sum, c) => sum + Math.max(0, c.xp ?? item.xp_value ?? 0), 0);
+    const capped = item.xp_max_per_day != null && item.xp_max_per_day > 0 ? Math.min(raw, item.xp_max_per_day) : raw;
+    return { delta: Math.max(0, Math.floor(capped)), minutes: 0, units: selected.length };
+  }
+
   if (xpMode === 'none') return { delta: 0, minutes: 0, units: 0 };
   if (xpMode === 'fixed') {
     const fixed = item.xp_value ?? 0;
@@ -231,15 +376,156 @@ export async function saveValue(
     }
   }
 
+  await applyTargetBonus({ reportDayId: params.reportDayId, item: params.item, valueRow, userId: params.userId }, client);
+
+  // A computed item's value is derived from the values saved above, so it never triggers this itself.
+  if (params.item.item_type !== 'computed') {
+    await recalculateComputedItems({ reportDayId: params.reportDayId, templateId: params.item.template_id, userId: params.userId }, client);
+  }
+
   return valueRow;
 }
 
+/**
+ * Grants the item's bonus XP when the day's value reaches its target and withdraws it when the value
+ * drops below it again, so the bonus is held at most once per day. Withdrawing deletes the grant's ledger
+ * row instead of booking a negative one, which would count as XP spent.
+ */
+async function applyTargetBonus(
+  params: { reportDayId: string; item: ReportItemRow; valueRow: ReportValueRow; userId: string },
+  client: Client = getSupabaseClient()
+): Promise<void> {
+  const { item, valueRow } = params;
+  const progress = getItemTargetProgress(item, valueRow.value_json);
+  const applied = valueRow.target_bonus_applied ?? 0;
+  const bonus = Math.max(0, Math.floor(item.target_bonus_xp ?? 0));
+  const reached = Boolean(progress?.reached);
+  if (reached ? applied > 0 || bonus === 0 : applied === 0) return;
+
+  const reason = `report_target:${params.reportDayId}:${item.id}`;
+  try {
+    if (reached) {
+      await addXpDelta({
+        userId: params.userId,
+        delta: bonus,
+        reason,
+        refType: 'daily_report',
+        refId: item.id,
+        metadata: {
+          source_type: 'target',
+          report_day_id: params.reportDayId,
+          item_id: item.id,
+          target: progress?.target ?? null,
+          current: progress?.current ?? null
+        }
+      });
+    } else {
+      await deleteXpEntries({ userId: params.userId, reason }, client);
+    }
+    await client
+      .from(REPORT_VALUES_TABLE)
+      .update({ target_bonus_applied: reached ? bonus : 0 })
+      .eq('id', valueRow.id);
+  } catch (xpError) {
+    console.error({ scope: 'daily_report', event: 'target_bonus_error', params, error: xpError });
+  }
+}
+
+/**
+ * Re-evaluates the computed items of the template scheduled on one report day and saves the results
+ * that changed. An input that has no value yet leaves the result empty; an input that was skipped marks the
+ * result skipped too. Computed items may read other computed items; a cycle evaluates to empty. XP already
+ * granted for a changed result is withdrawn and granted again for the new result, if it has one.
+ */
+async function recalculateComputedItems(
+  params: { reportDayId: string; templateId: string; userId: string },
+  client: Client = getSupabaseClient()
+): Promise<void> {
+  const { data: itemsData, error: itemsError } = await client
+    .from('report_items')
+    .select('*')
+    .eq('template_id', params.templateId)
+    .eq('enabled', true);
+
+  if (itemsError) {
+    console.error({ scope: 'daily_report', event: 'computed_items_error', params, error: itemsError });
+    return;
+  }
+
+  const items = (itemsData as ReportItemRow[]) ?? [];
+  if (!items.some((i) => i.item_type === 'computed')) return;
+
+  // Like entered items, a computed item is only evaluated on the days its schedule includes.
+  const reportDay = await getReportDayById(params.reportDayId, client).catch(() => null);
+  if (!reportDay) return;
+  const owner = await loadUser(params.userId, client).catch(() => null);
+  const computedItems = filterScheduledItems(items.filter((i) => i.item_type === 'computed'), reportDay.local_date, owner?.timezone);
+  if (!computedItems.length) return;
+
+  const { data: valuesData, error: valuesError } = await client.from(REPORT_VALUES_TABLE).select('*').eq('report_day_id', params.reportDayId);
+  if (valuesError) {
+    console.error({ scope: 'daily_report', event: 'computed_values_error', params, error: valuesError });
+    return;
+  }
+
+  const values = new Map<string, ReportValueRow>();
+  ((valuesData as ReportValueRow[]) ?? []).forEach((v) => values.set(v.item_id, v));
+  const byKey = new Map(items.map((i) => [i.item_key, i]));
+
+  const evaluate = (item: ReportItemRow, visiting: Set<string>): { result: FormulaValue | null; skipped: boolean } => {
+    const node = parseFormula(getItemFormula(item));
+    if (!node || visiting.has(item.id)) return { result: null, skipped: false };
+    const nextVisiting = new Set(visiting).add(item.id);
+    let skipped = false;
+    const result = evaluateFormula(node, (key) => {
+      const input = byKey.get(key);
+      if (!input) return null;
+      if (input.item_type === 'computed') {
+        const inner = evaluate(input, nextVisiting);
+        skipped = skipped || inner.skipped;
+        return inner.result;
+      }
+      const valueJson = (values.get(input.id)?.value_json as Record<string, unknown> | null) ?? null;
+      if ((valueJson as { skipped?: boolean } | null)?.skipped) skipped = true;
+      return toFormulaValue(input, valueJson);
+    });
+    return { result, skipped: !result && skipped };
+  };
+
+  for (const item of computedItems) {
+    const { result, skipped } = evaluate(item, new Set());
+    const nextJson = result ? toComputedValueJson(result) : skipped ? { skipped: true } : null;
+    const currentJson = (values.get(item.id)?.value_json as Record<string, unknown> | null) ?? null;
+    if (JSON.stringify(nextJson) === JSON.stringify(currentJson)) continue;
+    if (!nextJson && !values.has(item.id)) continue;
+    try {
+      const xpApplied = values.get(item.id)?.xp_delta_applied === true;
+      if (xpApplied) {
+        await deleteXpEntries({ userId: params.userId, reason: `report:${params.reportDayId}:${item.id}` }, client);
+      }
+      await saveValue(
+        {
+          reportDayId: params.reportDayId,
+          item,
+          valueJson: nextJson,
+          userId: params.userId,
+          applyXp: Boolean(result),
+          resetXpApplied: xpApplied
+        },
+        client
+      );
+    } catch (error) {
+      console.error({ scope: 'daily_report', event: 'computed_save_error', params, itemId: item.id, error });
+    }
+  }
+}
+
 export type ReportDayRowWithCompletion = { day: ReportDayRow; completed: number; total: number; skipped: number };
 
 const formatDate = (d: Date): string => d.toISOString().slice(0, 10);
 
 export async function listRecentReportDays(
-  params: { userId: string; range: '7d' | '30d' },
+  params: { userId: string; range: '7d' | '30d'; timezone?: string | null },
   client: Client = getSupabaseClient()
 ): Promise<ReportDayRowWithCompletion[]> {
   const days = params.range === '30d' ? 30 : 7;
@@ -275,7 +561,7 @@ export async function listRecentReportDays(
       continue;
     }
 
-    const items = (itemsData as ReportItemRow[]) ?? [];
+    const items = filterScheduledItems((itemsData as ReportItemRow[]) ?? [], day.local_date, params.timezone);
     const displayItems = items.filter((i) => {
       const opts = (i.options_json ?? {}) as { routine_role?: string; routine_task_id?: string };
       return opts.routine_role !== 'task' && !opts.routine_task_id;
@@ -376,12 +662,12 @@ export async function getReportDayByDate(
 }
 
 export async function autoLockIfCompleted(
-  params: { reportDay: ReportDayRow; items: ReportItemRow[] },
+  params: { reportDay: ReportDayRow; items: ReportItemRow[]; timezone?: string | null },
   client: Client = getSupabaseClient()
 ): Promise<ReportDayRow> {
   const { reportDay, items } = params;
   if (reportDay.locked) return reportDay;
-  const statuses = await listCompletionStatus(reportDay.id, items, client);
+  const statuses = await listCompletionStatus(reportDay.id, filterScheduledItems(items, reportDay.local_date, params.timezone), client);
   const openCount = statuses.filter((s) => !s.filled && !s.skipped).length;
   if (openCount === 0) {
     return lockReportDay({ reportDayId: reportDay.id, userId: reportDay.user_id, reason: 'auto_midnight' }, client);
@@ -0,0 +1,235 @@
+import type { ReminderRow } from '../types/supabase';
+import { formatRRule, parseRRule } from '../utils/rrule';
+import { formatInstantToLocal, localDateTimeToUtcIso } from '../utils/time';
+import { normalizePreAlertOffsets } from './preAlerts';
+import { computeNextRunAt, type ReminderSchedule } from './reminders';
+import { isValidTimezone } from './timezones';
+
+export type IcsEvent = {
+  uid: string | null;
+  title: string;
+  description: string | null;
+  startUtc: Date;
+  rrule: string | null;
+};
+
+export type IcsImportCandidate = {
+  title: string;
+  description: string | null;
+  schedule: ReminderSchedule;
+  nextRunAt: Date;
+  duplicate: boolean;
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const EVENT_DURATION = 'PT15M';
+const MAX_IMPORT_EVENTS = 50;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a single space.
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatUtcStamp = (value: Date): string => value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatLocalStamp = (localDate: string, localTime: string): string => `${localDate.replace(/-/g, '')}T${localTime.replace(':', '')}00`;
+
+/**
+ * Derives an RRULE from the reminder's schedule fields. Jalali month/year rules and prayer or sun
+ * anchors have no RRULE equivalent, so those reminders (and one-off ones) are exported as their next
+ * occurrence only.
+ */
+const buildReminderRRule = (reminder: ReminderRow): string | null => {
+  const isJalali = reminder.calendar_system === 'jalali';
+  switch (reminder.schedule_type) {
+    case 'hourly': {
+      const interval = reminder.interval_minutes && reminder.interval_minutes > 0 ? reminder.interval_minutes : 60;
+      return interval % 60 === 0 ? `FREQ=HOURLY;INTERVAL=${interval / 60}` : `FREQ=MINUTELY;INTERVAL=${interval}`;
+    }
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[reminder.by_weekday ?? 0]}`;
+    case 'monthly':
+      return isJalali ? null : `FREQ=MONTHLY;BYMONTHDAY=${reminder.by_monthday ?? 1}`;
+    case 'yearly':
+      return isJalali ? null : `FREQ=YEARLY;BYMONTH=${reminder.by_month ?? 1};BYMONTHDAY=${reminder.by_monthday ?? 1}`;
+    case 'rrule': {
+      const rule = parseRRule(reminder.rrule);
+      return rule ? formatRRule(rule) : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const buildReminderEvent = (reminder: ReminderRow, nowUtc: Date): string[] => {
+  const timezone = reminder.timezone;
+  const nextRun = new Date((reminder.next_run_at_utc ?? reminder.next_run_at) as string);
+  const local = formatInstantToLocal(nextRun.toISOString(), timezone);
+  const rrule = buildReminderRRule(reminder);
+  // Custom rules count their interval from the start date, so the series has to start there too.
+  const startDate = reminder.schedule_type === 'rrule' && rrule && reminder.rrule_start_date ? reminder.rrule_start_date : local.date;
+  const startTime = reminder.schedule_type === 'hourly' ? local.time : reminder.at_time?.slice(0, 5) ?? local.time;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${reminder.id}@daily-system`,
+    `DTSTAMP:${formatUtcStamp(nowUtc)}`,
+    `DTSTART;TZID=${timezone}:${formatLocalStamp(startDate, startTime)}`,
+    `DURATION:${EVENT_DURATION}`,
+    `SUMMARY:${escapeText(reminder.title?.trim() || 'Reminder')}`
+  ];
+  if (reminder.description?.trim()) lines.push(`DESCRIPTION:${escapeText(reminder.description.trim())}`);
+  if (rrule) lines.push(`RRULE:${rrule}`);
+
+  for (const offsetMinutes of [0, ...normalizePreAlertOffsets(reminder.pre_alert_offsets_minutes)]) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(reminder.title?.trim() || 'Reminder')}`,
+      `TRIGGER:-PT${offsetMinutes}M`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const buildRemindersIcs = (reminders: ReminderRow[], nowUtc: Date = new Date()): string => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//daily-system//reminders//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  for (const reminder of reminders) {
+    if (!reminder.next_run_at_utc && !reminder.next_run_at) continue;
+    lines.push(...buildReminderEvent(reminder, nowUtc));
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+const parseDateTimeValue = (value: string, params: Record<string, string>, fallbackTimezone: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, , zulu] = match;
+  const localDate = `${y}-${m}-${d}`;
+  // All-day events have no time of their own; they are imported at the reminder default of 09:00.
+  const localTime = hh ? `${hh}:${mm}` : '09:00';
+  if (zulu) return new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm)));
+  const tzid = params.TZID?.replace(/^"|"$/g, '');
+  const timezone = tzid && isValidTimezone(tzid) ? tzid : fallbackTimezone;
+  return new Date(localDateTimeToUtcIso(localDate, localTime, timezone));
+};
+
+/**
+ * Reads the VEVENTs of an iCalendar file. Floating times and unknown TZIDs are read in fallbackTimezone;
+ * events without a usable DTSTART are dropped.
+ */
+export const parseIcsEvents = (input: string, fallbackTimezone: string): IcsEvent[] => {
+  const lines = input.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let alarmDepth = 0;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const [name, ...rawParams] = line.slice(0, separator).split(';');
+    const key = name.toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (key === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      current = { uid: null, description: null, rrule: null };
+      continue;
+    }
+    if (!current) continue;
+    if (key === 'BEGIN') {
+      alarmDepth += 1;
+      continue;
+    }
+    if (key === 'END' && value.toUpperCase() !== 'VEVENT') {
+      alarmDepth = Math.max(0, alarmDepth - 1);
+      continue;
+    }
+    if (key === 'END') {
+      if (current.title && current.startUtc && events.length < MAX_IMPORT_EVENTS) {
+        events.push(current as IcsEvent);
+      }
+      current = null;
+      alarmDepth = 0;
+      continue;
+    }
+    if (alarmDepth > 0) continue;
+
+    const params: Record<string, string> = {};
+    for (const raw of rawParams) {
+      const [paramKey, paramValue] = raw.split('=');
+      if (paramKey && paramValue) params[paramKey.toUpperCase()] = paramValue;
+    }
+    if (key === 'UID') current.uid = value.trim();
+    else if (key === 'SUMMARY') current.title = unescapeText(value).trim();
+    else if (key === 'DESCRIPTION') current.description = unescapeText(value).trim() || null;
+    else if (key === 'RRULE') current.rrule = value.trim();
+    else if (key === 'DTSTART') current.startUtc = parseDateTimeValue(value, params, fallbackTimezone) ?? undefined;
+  }
+
+  return events;
+};
+
+const normalizeTitle = (value: string | null | undefined): string => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Turns parsed events into reminder schedules in the user's timezone. Events with a supported RRULE
+ * become custom-rule reminders; the rest are one-off reminders and are dropped once they are in the past.
+ * An event is a duplicate when an existing reminder has the same title and the same next run.
+ */
+export const buildIcsImportCandidates = (
+  events: IcsEvent[],
+  params: { timezone: string; existing: ReminderRow[]; nowUtc?: Date }
+): IcsImportCandidate[] => {
+  const nowUtc = params.nowUtc ?? new Date();
+  const existingKeys = new Set(
+    params.existing
+      .filter((reminder) => reminder.next_run_at_utc ?? reminder.next_run_at)
+      .map((reminder) => `${normalizeTitle(reminder.title)}|${new Date((reminder.next_run_at_utc ?? reminder.next_run_at) as string).getTime()}`)
+  );
+
+  const candidates: IcsImportCandidate[] = [];
+  for (const event of events) {
+    const local = formatInstantToLocal(event.startUtc.toISOString(), params.timezone);
+    const rule = parseRRule(event.rrule);
+    const schedule: ReminderSchedule = rule
+      ? { scheduleType: 'rrule', timezone: params.timezone, atTime: local.time, rrule: formatRRule(rule), rruleStartDate: local.date }
+      : { scheduleType: 'once', timezone: params.timezone, onceAt: event.startUtc };
+    const nextRunAt = computeNextRunAt(schedule, nowUtc);
+    if (!nextRunAt || nextRunAt.getTime() <= nowUtc.getTime()) continue;
+    candidates.push({
+      title: event.title,
+      description: event.description,
+      schedule,
+      nextRunAt,
+      duplicate: existingKeys.has(`${normalizeTitle(event.title)}|${nextRunAt.getTime()}`)
+    });
+  }
+  return candidates;
+};
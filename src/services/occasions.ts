@@ -0,0 +1,63 @@
+import { queryDb } from '../db';
+import type { ReminderRow } from '../types/supabase';
+import { formatInstantToLocal, localDateTimeToUtcIso } from '../utils/time';
+import { computeNextRunAt } from './cron.service';
+import { computeOccasionYears, getReminderOccasion, type ReminderOccasion } from './reminders';
+
+export const UPCOMING_OCCASIONS_DAYS = 30;
+
+export type UpcomingOccasion = {
+  reminder: ReminderRow;
+  occasion: ReminderOccasion;
+  nextRunAtUtc: Date;
+  localDate: string;
+  daysLeft: number;
+  years: number | null;
+};
+
+const daysBetweenLocalDates = (from: string, to: string): number => {
+  const toUtcDay = (localDate: string): number => {
+    const [year, month, day] = localDate.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtcDay(to) - toUtcDay(from)) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * The user's birthdays and anniversaries that fall within the next `days` days, soonest first. Paused
+ * occasions are listed too: the date is worked out from the schedule, not from next_run_at_utc. The search
+ * starts at local midnight so today's occasions stay on the list after their reminder has gone out.
+ */
+export const listUpcomingOccasions = async (
+  userId: string,
+  timezone: string,
+  days = UPCOMING_OCCASIONS_DAYS,
+  nowUtc: Date = new Date()
+): Promise<UpcomingOccasion[]> => {
+  const { rows } = await queryDb<ReminderRow>(
+    `
+    select *
+    from public.reminders
+    where user_id = $1
+      and deleted_at is null
+      and schedule_type = 'yearly'
+      and occasion_kind is not null
+    `,
+    [userId]
+  );
+
+  const today = formatInstantToLocal(nowUtc.toISOString(), timezone).date;
+  const fromUtc = new Date(localDateTimeToUtcIso(today, '00:00', timezone));
+  const upcoming: UpcomingOccasion[] = [];
+  for (const reminder of rows) {
+    const occasion = getReminderOccasion(reminder);
+    const nextRunAtUtc = occasion ? computeNextRunAt(reminder, fromUtc) : null;
+    if (!occasion || !nextRunAtUtc) continue;
+    const localDate = formatInstantToLocal(nextRunAtUtc.toISOString(), timezone).date;
+    const daysLeft = daysBetweenLocalDates(today, localDate);
+    if (daysLeft > days) continue;
+    upcoming.push({ reminder, occasion, nextRunAtUtc, localDate, daysLeft, years: computeOccasionYears(reminder, nextRunAtUtc) });
+  }
+
+  return upcoming.sort((a, b) => a.nextRunAtUtc.getTime() - b.nextRunAtUtc.getTime());
+};
@@ -0,0 +1,79 @@
+import { queryDb } from '../db';
+import type { ReminderRow } from '../types/supabase';
+import { computeNextRunAt, REMINDER_PAUSED_BLOCKED } from './cron.service';
+
+export type PausedRemindersSummary = {
+  blocked: ReminderRow[];
+  dead: ReminderRow[];
+};
+
+export const listPausedReminders = async (userId: string): Promise<PausedRemindersSummary> => {
+  const { rows } = await queryDb<ReminderRow>(
+    `
+    select *
+    from public.reminders
+    where user_id = $1
+      and deleted_at is null
+      and (paused_reason = $2 or status = 'dead')
+    order by created_at asc
+    `,
+    [userId, REMINDER_PAUSED_BLOCKED]
+  );
+  return {
+    blocked: rows.filter((reminder) => reminder.paused_reason === REMINDER_PAUSED_BLOCKED),
+    dead: rows.filter((reminder) => reminder.paused_reason !== REMINDER_PAUSED_BLOCKED)
+  };
+};
+
+export const reactivateUser = async (userId: string): Promise<void> => {
+  await queryDb(
+    `
+    update public.users
+    set is_active = true,
+        inactive_reason = null,
+        inactive_since_utc = null,
+        updated_at = now()
+    where id = $1
+    `,
+    [userId]
+  );
+};
+
+/**
+ * Turns the paused and dead reminders back on from nowUtc, so occurrences that fell in the pause are not
+ * replayed. One-off reminders whose time has passed are only cleared and stay off.
+ */
+export const resumePausedReminders = async (userId: string, nowUtc: Date = new Date()): Promise<{ resumed: number; expired: number }> => {
+  const { blocked, dead } = await listPausedReminders(userId);
+  let resumed = 0;
+  let expired = 0;
+
+  for (const reminder of [...blocked, ...dead]) {
+    const candidate = computeNextRunAt(reminder, nowUtc);
+    const nextRunAt = candidate && candidate.getTime() > nowUtc.getTime() ? candidate : null;
+    const active = Boolean(nextRunAt);
+    await queryDb(
+      `
+      update public.reminders
+      set next_run_at_utc = $2,
+          next_run_at = $2,
+          status = $3,
+          enabled = $4,
+          is_active = $4,
+          paused_reason = null,
+          send_attempt_count = 0,
+          last_error = null,
+          retry_after_utc = null,
+          nag_occurrence_utc = null,
+          nag_count = 0,
+          updated_at = now()
+      where id = $1
+      `,
+      [reminder.id, nextRunAt ? nextRunAt.toISOString() : null, active ? 'active' : 'inactive', active]
+    );
+    if (active) resumed += 1;
+    else expired += 1;
+  }
+
+  return { resumed, expired };
+};
@@ -0,0 +1,125 @@
+import { queryDb } from '../db';
+import type { ReminderRow } from '../types/supabase';
+import {
+  computePrayerTimes,
+  DEFAULT_PRAYER_METHOD,
+  isPrayerMethod,
+  type PrayerMethod,
+  type PrayerTimeName,
+  type PrayerTimes
+} from '../utils/prayerTimes';
+import { formatInstantToLocal } from '../utils/time';
+import { computeNextRunAt } from './cron.service';
+import type { UserRecord } from './users';
+
+export type CityPreset = { key: string; latitude: number; longitude: number };
+
+export type UserLocation = { latitude: number; longitude: number; label: string | null; method: PrayerMethod };
+
+export const PRAYER_METHOD_KEYS: PrayerMethod[] = ['tehran', 'jafari', 'mwl', 'isna', 'egypt', 'makkah', 'karachi'];
+
+export const CITY_PRESETS: CityPreset[] = [
+  { key: 'tehran', latitude: 35.6892, longitude: 51.389 },
+  { key: 'mashhad', latitude: 36.2605, longitude: 59.6168 },
+  { key: 'isfahan', latitude: 32.6546, longitude: 51.668 },
+  { key: 'shiraz', latitude: 29.5918, longitude: 52.5837 },
+  { key: 'tabriz', latitude: 38.08, longitude: 46.2919 },
+  { key: 'qom', latitude: 34.6416, longitude: 50.8746 },
+  { key: 'karaj', latitude: 35.84, longitude: 50.9391 },
+  { key: 'ahvaz', latitude: 31.3183, longitude: 48.6706 },
+  { key: 'kermanshah', latitude: 34.3142, longitude: 47.065 },
+  { key: 'rasht', latitude: 37.2808, longitude: 49.5832 },
+  { key: 'yazd', latitude: 31.8974, longitude: 54.3569 },
+  { key: 'kerman', latitude: 30.2839, longitude: 57.0834 },
+  { key: 'urmia', latitude: 37.5527, longitude: 45.0761 },
+  { key: 'zahedan', latitude: 29.4963, longitude: 60.8629 },
+  { key: 'bandar_abbas', latitude: 27.1832, longitude: 56.2666 },
+  { key: 'hamadan', latitude: 34.799, longitude: 48.515 }
+];
+
+export const findCityPreset = (key: string | null | undefined): CityPreset | null =>
+  CITY_PRESETS.find((preset) => preset.key === key) ?? null;
+
+export const getUserLocation = (user: UserRecord): UserLocation | null => {
+  if (typeof user.latitude !== 'number' || typeof user.longitude !== 'number') return null;
+  return {
+    latitude: user.latitude,
+    longitude: user.longitude,
+    label: user.location_label,
+    method: isPrayerMethod(user.prayer_method) ? user.prayer_method : DEFAULT_PRAYER_METHOD
+  };
+};
+
+export const getPrayerTimesForDate = (location: UserLocation, localDate: string): PrayerTimes =>
+  computePrayerTimes({ localDate, latitude: location.latitude, longitude: location.longitude, method: location.method });
+
+const nextCalendarDate = (localDate: string): string => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+/**
+ * Today's and tomorrow's times of an anchored reminder in its own timezone, offset included, from the
+ * coordinates stored on the reminder. Either is null when the sun does not reach the anchor that day.
+ */
+export const getAnchoredReminderTimes = (reminder: ReminderRow, nowUtc: Date = new Date()): { today: Date | null; tomorrow: Date | null } => {
+  if (!reminder.anchor_event || reminder.anchor_latitude === null || reminder.anchor_longitude === null) {
+    return { today: null, tomorrow: null };
+  }
+  const offsetMs = reminder.anchor_offset_minutes * 60 * 1000;
+  const timeOn = (localDate: string): Date | null => {
+    const anchor = computePrayerTimes({
+      localDate,
+      latitude: reminder.anchor_latitude as number,
+      longitude: reminder.anchor_longitude as number,
+      method: isPrayerMethod(reminder.anchor_method) ? reminder.anchor_method : null
+    })[reminder.anchor_event as PrayerTimeName];
+    return anchor ? new Date(anchor.getTime() + offsetMs) : null;
+  };
+  const today = formatInstantToLocal(nowUtc.toISOString(), reminder.timezone).date;
+  return { today: timeOn(today), tomorrow: timeOn(nextCalendarDate(today)) };
+};
+
+/**
+ * Anchored reminders keep their own copy of the coordinates and method, like they do with the timezone, so
+ * the cron never needs the user row. This copies a changed location onto them and reschedules the running
+ * ones from nowUtc. Returns how many reminders were updated.
+ */
+export const syncAnchoredReminders = async (userId: string, location: UserLocation, nowUtc: Date = new Date()): Promise<number> => {
+  const { rows } = await queryDb<ReminderRow>(
+    `
+    select *
+    from public.reminders
+    where user_id = $1
+      and deleted_at is null
+      and anchor_event is not null
+    `,
+    [userId]
+  );
+
+  for (const reminder of rows) {
+    const moved: ReminderRow = {
+      ...reminder,
+      anchor_latitude: location.latitude,
+      anchor_longitude: location.longitude,
+      anchor_method: location.method
+    };
+    const running = moved.enabled && (moved.status === 'active' || moved.status === 'failed');
+    const nextRunAt = running ? computeNextRunAt(moved, nowUtc) : null;
+    await queryDb(
+      `
+      update public.reminders
+      set anchor_latitude = $2,
+          anchor_longitude = $3,
+          anchor_method = $4,
+          next_run_at_utc = case when $5 then $6::timestamptz else next_run_at_utc end,
+          next_run_at = case when $5 then $6::timestamptz else next_run_at end,
+          updated_at = now()
+      where id = $1
+      `,
+      [reminder.id, location.latitude, location.longitude, location.method, running, nextRunAt ? nextRunAt.toISOString() : null]
+    );
+  }
+
+  return rows.length;
+};
@@ -0,0 +1,41 @@
+import { t } from '../i18n';
+import type { ReminderRow } from '../types/supabase';
+
+export type PreAlert = {
+  offsetMinutes: number;
+  atUtc: Date;
+};
+
+export const PRE_ALERT_PRESETS_MINUTES = [10, 30, 60, 180, 1440, 2880, 10080];
+
+// Pre-alerts that come due while the bot is down are dropped after this long instead of arriving late.
+export const PRE_ALERT_GRACE_MINUTES = 10;
+
+const MAX_PRE_ALERTS = 5;
+
+export const normalizePreAlertOffsets = (value: unknown): number[] => {
+  if (!Array.isArray(value)) return [];
+  const offsets = value.map(Number).filter((minutes) => Number.isInteger(minutes) && minutes > 0);
+  return Array.from(new Set(offsets))
+    .sort((a, b) => b - a)
+    .slice(0, MAX_PRE_ALERTS);
+};
+
+export const formatPreAlertLead = (minutes: number): string => {
+  if (minutes % 1440 === 0) return t('screens.reminders.pre_alert_lead_days', { count: String(minutes / 1440) });
+  if (minutes % 60 === 0) return t('screens.reminders.pre_alert_lead_hours', { count: String(minutes / 60) });
+  return t('screens.reminders.pre_alert_lead_minutes', { count: String(minutes) });
+};
+
+/**
+ * Lists the pre-alerts of the reminder's next occurrence that are still ahead of nowUtc, earliest first.
+ * Nag repeats reuse next_run_at for their timer, so a reminder that is nagging has none.
+ */
+export const listUpcomingPreAlerts = (reminder: ReminderRow, nowUtc: Date): PreAlert[] => {
+  const nextRun = reminder.next_run_at_utc ?? reminder.next_run_at;
+  if (!nextRun || reminder.nag_occurrence_utc) return [];
+  const occurrenceMs = new Date(nextRun).getTime();
+  return normalizePreAlertOffsets(reminder.pre_alert_offsets_minutes)
+    .map((offsetMinutes) => ({ offsetMinutes, atUtc: new Date(occurrenceMs - offsetMinutes * 60 * 1000) }))
+    .filter((preAlert) => preAlert.atUtc.getTime() > nowUtc.getTime());
+};
@@ -0,0 +1,55 @@
+import type { UserSettingsRow } from '../types/supabase';
+import { updateUserSettingsJson } from './userSettings';
+import { formatInstantToLocal, localDateTimeToUtcIso } from '../utils/time';
+
+export type QuietHours = {
+  start: string;
+  end: string;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (value: string): number => {
+  const [hh, mm] = value.split(':').map(Number);
+  return hh * 60 + mm;
+};
+
+const addOneDay = (localDate: string): string => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return next.toISOString().slice(0, 10);
+};
+
+export const isValidQuietHours = (value: unknown): value is QuietHours => {
+  const candidate = value as QuietHours | null | undefined;
+  if (!candidate || typeof candidate.start !== 'string' || typeof candidate.end !== 'string') return false;
+  if (!TIME_PATTERN.test(candidate.start) || !TIME_PATTERN.test(candidate.end)) return false;
+  return candidate.start !== candidate.end;
+};
+
+export const getQuietHoursFromSettings = (settings: UserSettingsRow | null | undefined): QuietHours | null => {
+  const raw = ((settings?.settings_json ?? {}) as { quiet_hours?: unknown }).quiet_hours;
+  return isValidQuietHours(raw) ? { start: raw.start, end: raw.end } : null;
+};
+
+export const setUserQuietHours = async (userId: string, quietHours: QuietHours | null): Promise<UserSettingsRow> => {
+  return await updateUserSettingsJson(userId, { quiet_hours: quietHours });
+};
+
+/**
+ * Returns when the quiet window that contains nowUtc ends, or null when nowUtc is outside it.
+ * Windows may wrap past midnight (e.g. 23:00-07:00).
+ */
+export const getQuietHoursEnd = (quietHours: QuietHours, timezone: string, nowUtc: Date): Date | null => {
+  const local = formatInstantToLocal(nowUtc.toISOString(), timezone);
+  const now = toMinutes(local.time);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  const wraps = start > end;
+  const inside = wraps ? now >= start || now < end : now >= start && now < end;
+  if (!inside) return null;
+
+  const endDate = wraps && now >= start ? addOneDay(local.date) : local.date;
+  return new Date(localDateTimeToUtcIso(endDate, quietHours.end, timezone));
+};
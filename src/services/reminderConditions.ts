@@ -0,0 +1,86 @@
+import { config } from '../config';
+import type { ReminderRow, ReportItemRow } from '../types/supabase';
+import { formatInstantToLocal } from '../utils/time';
+import { filterScheduledItems, getReportDayByDate, listCompletionStatus } from './dailyReport';
+import { loadUser } from './reminders';
+import { ensureDefaultTemplate, getTemplateById, listItems } from './reportTemplates';
+import { getOrCreateUserSettings } from './userSettings';
+
+export type ReminderCondition =
+  | { type: 'item_not_filled'; item_id: string }
+  | { type: 'completed_below'; count: number };
+
+export type ReminderConditionResult = {
+  type: ReminderCondition['type'];
+  holds: boolean;
+  done: number;
+  total: number;
+  missing: string[];
+};
+
+export const parseReminderCondition = (value: unknown): ReminderCondition | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as { type?: unknown; item_id?: unknown; count?: unknown };
+  if (raw.type === 'item_not_filled' && typeof raw.item_id === 'string' && raw.item_id.length > 0) {
+    return { type: 'item_not_filled', item_id: raw.item_id };
+  }
+  const count = Number(raw.count);
+  if (raw.type === 'completed_below' && Number.isInteger(count) && count > 0) {
+    return { type: 'completed_below', count };
+  }
+  return null;
+};
+
+// Routine tasks are reported through their parent item, so they are left out of the counts.
+const isRoutineTaskItem = (item: ReportItemRow): boolean => {
+  const opts = (item.options_json ?? {}) as { is_routine?: boolean; routine_role?: string; routine_task_id?: string };
+  const isRoutine = Boolean(opts.is_routine || item.item_key?.startsWith('routine_'));
+  return isRoutine && (opts.routine_role === 'task' || Boolean(opts.routine_task_id));
+};
+
+export const listConditionItems = async (userId: string): Promise<{ templateId: string; items: ReportItemRow[] }> => {
+  const settings = await getOrCreateUserSettings(userId);
+  const defaultTemplate = await ensureDefaultTemplate(userId);
+  const activeTemplateId = (settings.settings_json as { active_template_id?: string | null } | null)?.active_template_id ?? defaultTemplate.id;
+  const candidate = activeTemplateId === defaultTemplate.id ? defaultTemplate : await getTemplateById(activeTemplateId);
+  const template = candidate && candidate.user_id === userId ? candidate : defaultTemplate;
+  const items = await listItems(template.id);
+  return { templateId: template.id, items: items.filter((item) => !isRoutineTaskItem(item)) };
+};
+
+/**
+ * Checks the condition against the owner's report for the local day of nowUtc. Returns null when the
+ * reminder has no condition or its item no longer exists, in which case it is delivered as usual.
+ */
+export const evaluateReminderCondition = async (reminder: ReminderRow, nowUtc: Date): Promise<ReminderConditionResult | null> => {
+  const condition = parseReminderCondition(reminder.condition_json);
+  if (!condition) return null;
+
+  const user = await loadUser(reminder.user_id);
+  if (!user) return null;
+  const timezone = user.timezone ?? reminder.timezone ?? config.defaultTimezone;
+  const localDate = formatInstantToLocal(nowUtc.toISOString(), timezone).date;
+
+  const { templateId, items: allItems } = await listConditionItems(user.id);
+  // An item that is not scheduled for the day is neither pending nor counted.
+  const items = filterScheduledItems(allItems, localDate, timezone);
+  const reportDay = await getReportDayByDate({ userId: user.id, templateId, localDate });
+  const statuses = reportDay
+    ? await listCompletionStatus(reportDay.id, items)
+    : items.map((item) => ({ item, filled: false, skipped: false }));
+
+  if (condition.type === 'item_not_filled') {
+    const status = statuses.find((entry) => entry.item.id === condition.item_id);
+    if (!status) {
+      return allItems.some((item) => item.id === condition.item_id)
+        ? { type: condition.type, holds: false, done: 0, total: 0, missing: [] }
+        : null;
+    }
+    const pending = !status.filled && !status.skipped;
+    return { type: condition.type, holds: pending, done: status.filled ? 1 : 0, total: 1, missing: pending ? [status.item.label] : [] };
+  }
+
+  const done = statuses.filter((entry) => entry.filled).length;
+  const missing = statuses.filter((entry) => !entry.filled && !entry.skipped).map((entry) => entry.item.label);
+  return { type: condition.type, holds: done < condition.count, done, total: statuses.length, missing };
+};
@@ -0,0 +1,182 @@
+import { getSupabaseClient, queryDb } from '../db';
+import type { Database, ReminderRow } from '../types/supabase';
+
+type ReminderDeliveryRow = Database['public']['Tables']['reminder_deliveries']['Row'];
+
+export type ReminderDeliveryKind = 'occurrence' | 'nag' | 'pre_alert';
+
+export type ReminderDeliveryEntry = {
+  id: string;
+  kind: ReminderDeliveryKind;
+  sentAtUtc: string;
+  ok: boolean;
+  error: string | null;
+  action: string | null;
+  actionAtUtc: string | null;
+  snoozedUntilUtc: string | null;
+  postponedUntilUtc: string | null;
+};
+
+export type ReminderReliabilitySummary = {
+  days: number;
+  total: number;
+  delivered: number;
+  failed: number;
+  skipped: number;
+  postponed: number;
+  preAlerts: number;
+  snoozed: number;
+  acknowledged: number;
+  topErrors: Array<{ error: string; count: number }>;
+};
+
+export const REMINDER_HISTORY_LIMIT = 15;
+export const RELIABILITY_WINDOW_DAYS = 30;
+
+// Skipped and quiet-hours rows are written with ok = false but no error, so they never count as attempts.
+const SKIP_ACTIONS = ['missed', 'condition_met'];
+const SNOOZE_ACTIONS = ['snooze_10m', 'snooze_1h', 'snooze_morning'];
+const ACK_ACTIONS = ['done', 'skip', 'ack'];
+
+// Delivery keys are `${reminderId}:${occurrence}` with an `:r<n>` suffix for nag repeats and `:p<n>` for pre-alerts.
+// Copies sent to the people a reminder is shared with carry a recipient_id and are left out of the owner's history.
+const resolveDeliveryKind = (deliveryKey: string): ReminderDeliveryKind => {
+  if (/:p\d+$/.test(deliveryKey)) return 'pre_alert';
+  if (/:r\d+$/.test(deliveryKey)) return 'nag';
+  return 'occurrence';
+};
+
+export const listReminderDeliveries = async (reminderId: string, limit = REMINDER_HISTORY_LIMIT): Promise<ReminderDeliveryEntry[]> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('reminder_deliveries')
+    .select('*')
+    .eq('reminder_id', reminderId)
+    .is('recipient_id', null)
+    .order('sent_at_utc', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list reminder deliveries: ${error.message}`);
+  }
+
+  return ((data ?? []) as ReminderDeliveryRow[]).map((row) => ({
+    id: row.id,
+    kind: resolveDeliveryKind(row.delivery_key),
+    sentAtUtc: row.sent_at_utc,
+    ok: row.ok,
+    error: row.error,
+    action: row.action,
+    actionAtUtc: row.action_at_utc,
+    snoozedUntilUtc: row.snoozed_until_utc,
+    postponedUntilUtc: row.postponed_until_utc
+  }));
+};
+
+export const getUserReliabilitySummary = async (userId: string, days = RELIABILITY_WINDOW_DAYS): Promise<ReminderReliabilitySummary> => {
+  const { rows } = await queryDb<{
+    total: number;
+    delivered: number;
+    failed: number;
+    skipped: number;
+    postponed: number;
+    pre_alerts: number;
+    snoozed: number;
+    acknowledged: number;
+  }>(
+    `
+    select
+      count(*) filter (where d.ok or d.error is not null)::int as total,
+      count(*) filter (where d.ok)::int as delivered,
+      count(*) filter (where not d.ok and d.error is not null)::int as failed,
+      count(*) filter (where not d.ok and d.action = any($3::text[]))::int as skipped,
+      count(*) filter (where d.action = 'quiet_hours')::int as postponed,
+      count(*) filter (where d.ok and d.delivery_key ~ ':p[0-9]+$')::int as pre_alerts,
+      count(*) filter (where d.action = any($4::text[]))::int as snoozed,
+      count(*) filter (where d.action = any($5::text[]))::int as acknowledged
+    from public.reminder_deliveries d
+    join public.reminders r on r.id = d.reminder_id
+    where r.user_id = $1
+      and d.sent_at_utc >= now() - make_interval(days => $2)
+      and d.recipient_id is null
+    `,
+    [userId, days, SKIP_ACTIONS, SNOOZE_ACTIONS, ACK_ACTIONS]
+  );
+
+  const { rows: errorRows } = await queryDb<{ error: string; count: number }>(
+    `
+    select d.error, count(*)::int as count
+    from public.reminder_deliveries d
+    join public.reminders r on r.id = d.reminder_id
+    where r.user_id = $1
+      and d.sent_at_utc >= now() - make_interval(days => $2)
+      and d.recipient_id is null
+      and not d.ok
+      and d.error is not null
+    group by d.error
+    order by count desc
+    limit 3
+    `,
+    [userId, days]
+  );
+
+  const summary = rows?.[0];
+  return {
+    days,
+    total: summary?.total ?? 0,
+    delivered: summary?.delivered ?? 0,
+    failed: summary?.failed ?? 0,
+    skipped: summary?.skipped ?? 0,
+    postponed: summary?.postponed ?? 0,
+    preAlerts: summary?.pre_alerts ?? 0,
+    snoozed: summary?.snoozed ?? 0,
+    acknowledged: summary?.acknowledged ?? 0,
+    topErrors: errorRows ?? []
+  };
+};
+
+/**
+ * Everything needed to answer "I never got my reminder" for one user: each reminder's scheduling state,
+ * its most recent deliveries and the 30-day summary. Meant for the admin debug endpoint only.
+ */
+export const getUserDeliveryDebug = async (userId: string): Promise<{
+  reminders: Array<
+    Pick<
+      ReminderRow,
+      | 'id'
+      | 'title'
+      | 'schedule_type'
+      | 'timezone'
+      | 'status'
+      | 'enabled'
+      | 'is_active'
+      | 'next_run_at_utc'
+      | 'last_sent_at_utc'
+      | 'send_attempt_count'
+      | 'last_error'
+      | 'retry_after_utc'
+      | 'locked_at'
+    > & { recent_deliveries: ReminderDeliveryEntry[] }
+  >;
+  reliability: ReminderReliabilitySummary;
+}> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('reminders')
+    .select(
+      'id, title, schedule_type, timezone, status, enabled, is_active, next_run_at_utc, last_sent_at_utc, send_attempt_count, last_error, retry_after_utc, locked_at'
+    )
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('next_run_at_utc', { ascending: true, nullsFirst: false });
+
+  if (error) {
+    throw new Error(`Failed to list reminders for delivery debug: ${error.message}`);
+  }
+
+  const reminders = [];
+  for (const reminder of data ?? []) {
+    reminders.push({ ...reminder, recent_deliveries: await listReminderDeliveries(reminder.id, 5) });
+  }
+  return { reminders, reliability: await getUserReliabilitySummary(userId) };
+};
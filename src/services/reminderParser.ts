@@ -0,0 +1,343 @@
+import { gregorianToJalali, isValidJalaliDate, jalaliToGregorian } from '../utils/jalali';
+import { formatInstantToLocal } from '../utils/time';
+
+export type ParsedReminderScheduleType = 'once' | 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+export type ParsedReminderText = {
+  title: string | null;
+  scheduleType: ParsedReminderScheduleType;
+  localDate?: string;
+  localTime?: string;
+  intervalMinutes?: number;
+  byWeekday?: number;
+  byMonthday?: number;
+};
+
+type Working = { text: string };
+
+const DEFAULT_TIME = '09:00';
+
+const EN_WEEKDAY = '(sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs|rsday)?|fri(?:day)?|sat(?:urday)?)';
+const EN_WEEKDAY_FULL = '(sunday|monday|tuesday|wednesday|thursday|friday|saturday)';
+const EN_WEEKDAY_INDEX: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+// Longer names first so "یکشنبه" is not read as "شنبه".
+const FA_WEEKDAY = '(یک\\s*شنبه|دو\\s*شنبه|سه\\s*شنبه|چهار\\s*شنبه|پنج\\s*شنبه|شنبه|جمعه|آدینه)';
+const FA_WEEKDAY_INDEX: Record<string, number> = {
+  یکشنبه: 0,
+  دوشنبه: 1,
+  سهشنبه: 2,
+  چهارشنبه: 3,
+  پنجشنبه: 4,
+  جمعه: 5,
+  آدینه: 5,
+  شنبه: 6
+};
+
+const EN_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const FA_MONTHS = ['فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور', 'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'];
+
+const FA_DAY_PART = '(صبح|ظهر|بعد\\s*از\\s*ظهر|بعدازظهر|عصر|شب)';
+const DAY_PART_DEFAULTS: Record<string, string> = {
+  morning: '08:00',
+  noon: '12:00',
+  afternoon: '15:00',
+  evening: '18:00',
+  night: '21:00'
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const normalizeText = (input: string): string =>
+  input
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/ي/g, 'ی')
+    .replace(/ك/g, 'ک')
+    .replace(/‌/g, ' ');
+
+const consume = (working: Working, pattern: RegExp): RegExpMatchArray | null => {
+  const match = working.text.match(pattern);
+  if (!match || match.index === undefined) return null;
+  working.text = `${working.text.slice(0, match.index)} ${working.text.slice(match.index + match[0].length)}`;
+  return match;
+};
+
+const addDays = (localDate: string, days: number): string => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const weekdayOf = (localDate: string): number => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const toGregorianDate = (year: number, month: number, day: number): string | null => {
+  const probe = new Date(Date.UTC(year, month - 1, day));
+  if (probe.getUTCFullYear() !== year || probe.getUTCMonth() !== month - 1 || probe.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const fromJalaliDate = (year: number, month: number, day: number): string | null => {
+  if (!isValidJalaliDate(year, month, day)) return null;
+  const greg = jalaliToGregorian(year, month, day);
+  return `${greg.year}-${pad(greg.month)}-${pad(greg.day)}`;
+};
+
+const faWeekdayIndex = (raw: string): number => FA_WEEKDAY_INDEX[raw.replace(/\s+/g, '')] ?? 0;
+
+const applyMeridiem = (hours: number, marker: string | undefined): number => {
+  if (!marker) return hours;
+  const normalized = marker.replace(/[\s.]/g, '').toLowerCase();
+  if (normalized === 'am' || normalized === 'صبح') return hours === 12 ? 0 : hours;
+  if (normalized === 'شب') {
+    if (hours === 12) return 0;
+    return hours >= 5 && hours < 12 ? hours + 12 : hours;
+  }
+  if (normalized === 'ظهر') return hours < 5 ? hours + 12 : hours;
+  return hours < 12 ? hours + 12 : hours;
+};
+
+const buildTime = (hours: number, minutes: number): string | null => {
+  if (!Number.isInteger(hours) || !Number.isInteger(minutes)) return null;
+  if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}`;
+};
+
+const dayPartKey = (raw: string): string => {
+  const normalized = raw.replace(/\s+/g, '').toLowerCase();
+  if (normalized === 'morning' || normalized === 'صبح') return 'morning';
+  if (normalized === 'noon' || normalized === 'midday' || normalized === 'ظهر') return 'noon';
+  if (normalized === 'afternoon' || normalized === 'بعدازظهر') return 'afternoon';
+  if (normalized === 'evening' || normalized === 'عصر') return 'evening';
+  return 'night';
+};
+
+// A date without a year means its next occurrence, so "5 Aban" said in Azar is next year's.
+const resolveYearlessDate = (today: string, build: (yearOffset: number) => string | null): string | null => {
+  const thisYear = build(0);
+  if (thisYear && thisYear >= today) return thisYear;
+  return build(1);
+};
+
+const cleanTitle = (value: string): string | null => {
+  let title = value.replace(/\s+/g, ' ').trim();
+  for (let pass = 0; pass < 2; pass += 1) {
+    title = title
+      .replace(/^[,.:;!\-–—\s]+|[,.:;!\-–—\s]+$/g, '')
+      .replace(/^(?:to|that|about|for|on|at)\s+/i, '')
+      .replace(/\s+(?:to|at|on)$/i, '')
+      .replace(/^(?:که|برای|تا)\s+/u, '')
+      .replace(/\s+(?:را|رو|که)$/u, '')
+      .trim();
+  }
+  return title.length > 0 ? title : null;
+};
+
+/**
+ * Parses a one-line reminder request in English or Persian, e.g. "remind me tomorrow at 9 to call mom",
+ * "every Monday 18:00 gym" or "فردا ساعت ۸ دارو". Returns null when no date, time or repeat is found.
+ */
+export const parseReminderText = (input: string, params: { timezone: string; nowUtc?: Date }): ParsedReminderText | null => {
+  const now = formatInstantToLocal((params.nowUtc ?? new Date()).toISOString(), params.timezone);
+  const today = now.date;
+  const working: Working = { text: normalizeText(input) };
+
+  consume(working, /^\s*(?:please\s+)?remind\s+me\s+/i);
+  consume(working, /(?:لطفا\s*)?(?:به\s*من\s*)?(?:یادم\s*(?:بندازی|بنداز|بیار)|یادآوری\s*کن)/u);
+
+  let scheduleType: ParsedReminderScheduleType | null = null;
+  let intervalMinutes: number | undefined;
+  let byWeekday: number | undefined;
+  let byMonthday: number | undefined;
+  let localDate: string | undefined;
+  let localTime: string | undefined;
+  let defaultTime: string | undefined;
+
+  // Repeats
+  let match = consume(working, /\bevery\s+(\d+)\s*(minutes?|mins?|hours?|hrs?)\b/i) ?? consume(working, /هر\s*(\d+)\s*(دقیقه|ساعت)/u);
+  if (match) {
+    const amount = Number(match[1]);
+    const isMinutes = /^(min|دقیقه)/i.test(match[2]);
+    if (amount > 0) {
+      scheduleType = 'hourly';
+      intervalMinutes = isMinutes ? amount : amount * 60;
+    }
+  } else if (consume(working, /\b(?:every\s+hour|hourly)\b/i) ?? consume(working, /هر\s*ساعت(?!\s*\d)/u)) {
+    scheduleType = 'hourly';
+    intervalMinutes = 60;
+  }
+
+  if (!scheduleType) {
+    match = consume(working, new RegExp(`\\bevery\\s+${EN_WEEKDAY}s?\\b`, 'i'));
+    if (match) {
+      scheduleType = 'weekly';
+      byWeekday = EN_WEEKDAY_INDEX[match[1].slice(0, 3).toLowerCase()];
+    } else {
+      match = consume(working, new RegExp(`هر\\s*${FA_WEEKDAY}`, 'u'));
+      if (match) {
+        scheduleType = 'weekly';
+        byWeekday = faWeekdayIndex(match[1]);
+      }
+    }
+  }
+
+  if (!scheduleType) {
+    match =
+      consume(working, /\bon\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\s+of\s+every\s+month\b/i) ??
+      consume(working, /\b(?:every\s+month|monthly)(?:\s+on\s+(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\b)?/i) ??
+      consume(working, /(?:روز\s*)?(\d{1,2})\s*(?:ام|م)\s*هر\s*ماه/u) ??
+      consume(working, /هر\s*ماه(?:\s*(?:روز\s*)?(\d{1,2})\s*(?:ام|م)?(?!\p{L}))?/u);
+    if (match) {
+      scheduleType = 'monthly';
+      const day = match[1] ? Number(match[1]) : Number(today.slice(8, 10));
+      byMonthday = Math.min(Math.max(1, day), 31);
+    }
+  }
+
+  if (!scheduleType) {
+    match = consume(working, /\bevery\s+(morning|evening|night)\b/i) ?? consume(working, /هر\s*(صبح|عصر|شب)/u);
+    if (match || consume(working, /\b(?:every\s*day|everyday|daily|each\s+day)\b/i) || consume(working, /هر\s*روز(?!\s*\d)/u)) {
+      scheduleType = 'daily';
+      if (match) defaultTime = DAY_PART_DEFAULTS[dayPartKey(match[1])];
+    }
+  }
+
+  // Relative offsets ("in 2 hours", "۳ روز دیگه")
+  match =
+    consume(working, /\bin\s+(\d+)\s*(minutes?|mins?|hours?|hrs?|days?|weeks?)\b/i) ??
+    consume(working, /(\d+)\s*(دقیقه|ساعت|روز|هفته)\s*(?:دیگه|دیگر|بعد)/u);
+  if (match && !scheduleType) {
+    const amount = Number(match[1]);
+    const unit = match[2].toLowerCase();
+    if (/^(min|hour|hr|دقیقه|ساعت)/.test(unit)) {
+      const minutes = /^(min|دقیقه)/.test(unit) ? amount : amount * 60;
+      const target = formatInstantToLocal(
+        new Date((params.nowUtc ?? new Date()).getTime() + minutes * 60 * 1000).toISOString(),
+        params.timezone
+      );
+      localDate = target.date;
+      localTime = target.time;
+    } else {
+      localDate = addDays(today, /^(week|هفته)/.test(unit) ? amount * 7 : amount);
+    }
+  }
+
+  // Explicit dates
+  if (!localDate) {
+    match = consume(working, /\bj(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/i);
+    if (match) {
+      localDate = fromJalaliDate(Number(match[1]), Number(match[2]), Number(match[3])) ?? undefined;
+    }
+  }
+  if (!localDate) {
+    match = consume(working, /\b(\d{4})[-/](\d{1,2})[-/](\d{1,2})\b/);
+    if (match) {
+      const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      localDate = (year < 1700 ? fromJalaliDate(year, month, day) : toGregorianDate(year, month, day)) ?? undefined;
+    }
+  }
+  if (!localDate) {
+    match = consume(working, new RegExp(`(\\d{1,2})\\s*(${FA_MONTHS.join('|')})(?:\\s*ماه)?(?:\\s*(\\d{4}))?(?!\\p{L})`, 'u'));
+    if (match) {
+      const day = Number(match[1]);
+      const month = FA_MONTHS.indexOf(match[2]) + 1;
+      const jalaliToday = gregorianToJalali(...(today.split('-').map(Number) as [number, number, number]));
+      localDate =
+        (match[3]
+          ? fromJalaliDate(Number(match[3]), month, day)
+          : resolveYearlessDate(today, (offset) => fromJalaliDate(jalaliToday.year + offset, month, day))) ?? undefined;
+    }
+  }
+  if (!localDate) {
+    const monthPattern = `(${EN_MONTHS.join('|')})[a-z]*`;
+    match =
+      consume(working, new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${monthPattern}\\b(?:,?\\s+(\\d{4}))?`, 'i')) ??
+      consume(working, new RegExp(`\\b${monthPattern}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, 'i'));
+    if (match) {
+      const dayFirst = /^\d/.test(match[1]);
+      const day = Number(dayFirst ? match[1] : match[2]);
+      const month = EN_MONTHS.indexOf((dayFirst ? match[2] : match[1]).slice(0, 3).toLowerCase()) + 1;
+      const currentYear = Number(today.slice(0, 4));
+      localDate =
+        (match[3]
+          ? toGregorianDate(Number(match[3]), month, day)
+          : resolveYearlessDate(today, (offset) => toGregorianDate(currentYear + offset, month, day))) ?? undefined;
+    }
+  }
+
+  // Day keywords
+  if (!localDate) {
+    if (consume(working, /\bday\s+after\s+tomorrow\b/i) ?? consume(working, /پس\s*فردا/u)) {
+      localDate = addDays(today, 2);
+    } else if (consume(working, /\btomorrow\b/i) ?? consume(working, /(?<!\p{L})فردا(?!\p{L})/u)) {
+      localDate = addDays(today, 1);
+    } else if (consume(working, /\btonight\b/i) ?? consume(working, /(?<!\p{L})امشب(?!\p{L})/u)) {
+      localDate = today;
+      defaultTime = DAY_PART_DEFAULTS.night;
+    } else if (consume(working, /\btoday\b/i) ?? consume(working, /(?<!\p{L})امروز(?!\p{L})/u)) {
+      localDate = today;
+    }
+  }
+
+  // A bare weekday means its next occurrence
+  if (!localDate && !scheduleType) {
+    match = consume(working, new RegExp(`\\b(?:(?:next|this|on)\\s+)?${EN_WEEKDAY_FULL}\\b`, 'i'));
+    let weekday: number | null = match ? EN_WEEKDAY_INDEX[match[1].slice(0, 3).toLowerCase()] : null;
+    if (weekday === null) {
+      match = consume(working, new RegExp(`(?<!\\p{L})${FA_WEEKDAY}(?:\\s*(?:آینده|بعد))?(?!\\p{L})`, 'u'));
+      weekday = match ? faWeekdayIndex(match[1]) : null;
+    }
+    if (weekday !== null) {
+      const delta = (weekday - weekdayOf(today) + 7) % 7 || 7;
+      localDate = addDays(today, delta);
+    }
+  }
+
+  // Times
+  if (!localTime) {
+    match =
+      consume(working, /(?:\bat\s+)?\b(\d{1,2}):(\d{2})\s*(am|pm|a\.m\.|p\.m\.)?(?![a-z])/i) ??
+      consume(working, /(?:\bat\s+)?\b(\d{1,2})()\s*(am|pm|a\.m\.|p\.m\.)(?![a-z])/i) ??
+      consume(working, /\bat\s+(\d{1,2})()\b/i) ??
+      consume(working, new RegExp(`ساعت\\s*(\\d{1,2})(?:[:.](\\d{2})|(\\s*و\\s*نیم))?(?:\\s*${FA_DAY_PART})?`, 'u')) ??
+      consume(working, new RegExp(`(?<!\\d)(\\d{1,2})(?::(\\d{2}))?\\s*${FA_DAY_PART}`, 'u'));
+    if (match) {
+      const hours = Number(match[1]);
+      const half = match.length > 4 && match[3] !== undefined && /نیم/.test(match[3]);
+      const minutes = half ? 30 : match[2] ? Number(match[2]) : 0;
+      const marker = match.length > 4 ? match[4] : match[3];
+      localTime = buildTime(applyMeridiem(hours, marker), minutes) ?? undefined;
+    } else if (consume(working, /\b(?:noon|midday)\b/i)) {
+      localTime = '12:00';
+    } else if (consume(working, /\bmidnight\b/i)) {
+      localTime = '00:00';
+    }
+  }
+
+  if (!localTime && !defaultTime) {
+    match =
+      consume(working, /\b(?:(?:this|in\s+the)\s+)?(morning|afternoon|evening|night)\b/i) ??
+      consume(working, new RegExp(`(?<!\\p{L})${FA_DAY_PART}(?!\\p{L})`, 'u'));
+    if (match) defaultTime = DAY_PART_DEFAULTS[dayPartKey(match[1])];
+  }
+
+  if (!scheduleType && !localDate && !localTime && !defaultTime) {
+    return null;
+  }
+
+  const title = cleanTitle(working.text);
+
+  if (scheduleType === 'hourly') {
+    return { title, scheduleType, intervalMinutes };
+  }
+
+  const time = localTime ?? defaultTime ?? DEFAULT_TIME;
+  if (scheduleType) {
+    return { title, scheduleType, localTime: time, byWeekday, byMonthday };
+  }
+
+  const date = localDate ?? (time > now.time ? today : addDays(today, 1));
+  return { title, scheduleType: 'once', localDate: date, localTime: time };
+};
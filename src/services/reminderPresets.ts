@@ -0,0 +1,245 @@
+import { getSupabaseClient } from '../db';
+import type { ReminderPresetRow, ReminderRow } from '../types/supabase';
+import type { PrayerMethod, PrayerTimeName } from '../utils/prayerTimes';
+import type { CatchUpPolicy } from './catchUp';
+import { normalizePreAlertOffsets } from './preAlerts';
+import { parseReminderCondition } from './reminderConditions';
+import {
+  computeNextRunAt,
+  createReminder,
+  createReminderAttachment,
+  isReminderOccasionKind,
+  listReminderAttachments,
+  updateReminder,
+  type ReminderAttachmentRow,
+  type ReminderCalendarSystem,
+  type ReminderSchedule,
+  type ReminderScheduleType
+} from './reminders';
+
+const REMINDER_PRESETS_TABLE = 'reminder_presets';
+
+export const MAX_REMINDER_PRESETS = 20;
+
+type SnapshotAttachment = Pick<
+  ReminderAttachmentRow,
+  'kind' | 'file_id' | 'caption' | 'archive_chat_id' | 'archive_message_id' | 'file_unique_id' | 'mime_type'
+>;
+
+/**
+ * Everything that makes up a reminder except its identity and delivery state. Attachments are kept by
+ * file_id and archive message, so copies resend the same files without uploading them again.
+ */
+export type ReminderSnapshot = Pick<
+  ReminderRow,
+  | 'title'
+  | 'description'
+  | 'desc_group_key'
+  | 'schedule_type'
+  | 'timezone'
+  | 'once_at'
+  | 'interval_minutes'
+  | 'at_time'
+  | 'by_weekday'
+  | 'by_monthday'
+  | 'by_month'
+  | 'calendar_system'
+  | 'rrule'
+  | 'rrule_start_date'
+  | 'anchor_event'
+  | 'anchor_offset_minutes'
+  | 'anchor_latitude'
+  | 'anchor_longitude'
+  | 'anchor_method'
+  | 'occasion_kind'
+  | 'occasion_person'
+  | 'occasion_year'
+  | 'ignore_quiet_hours'
+  | 'nag_interval_minutes'
+  | 'nag_max_repeats'
+  | 'catch_up_policy'
+  | 'condition_json'
+  | 'pre_alert_offsets_minutes'
+> & { attachments: SnapshotAttachment[] };
+
+export type ReminderSnapshotOverrides = {
+  title?: string | null;
+  atTime?: string | null;
+  onceAt?: Date | null;
+};
+
+export const buildReminderSnapshot = async (reminder: ReminderRow): Promise<ReminderSnapshot> => {
+  const attachments = await listReminderAttachments({ reminderId: reminder.id });
+  return {
+    title: reminder.title,
+    description: reminder.description,
+    desc_group_key: reminder.desc_group_key,
+    schedule_type: reminder.schedule_type,
+    timezone: reminder.timezone,
+    once_at: reminder.once_at,
+    interval_minutes: reminder.interval_minutes,
+    at_time: reminder.at_time,
+    by_weekday: reminder.by_weekday,
+    by_monthday: reminder.by_monthday,
+    by_month: reminder.by_month,
+    calendar_system: reminder.calendar_system,
+    rrule: reminder.rrule,
+    rrule_start_date: reminder.rrule_start_date,
+    anchor_event: reminder.anchor_event,
+    anchor_offset_minutes: reminder.anchor_offset_minutes,
+    anchor_latitude: reminder.anchor_latitude,
+    anchor_longitude: reminder.anchor_longitude,
+    anchor_method: reminder.anchor_method,
+    occasion_kind: reminder.occasion_kind,
+    occasion_person: reminder.occasion_person,
+    occasion_year: reminder.occasion_year,
+    ignore_quiet_hours: reminder.ignore_quiet_hours,
+    nag_interval_minutes: reminder.nag_interval_minutes,
+    nag_max_repeats: reminder.nag_max_repeats,
+    catch_up_policy: reminder.catch_up_policy,
+    condition_json: reminder.condition_json,
+    pre_alert_offsets_minutes: reminder.pre_alert_offsets_minutes,
+    attachments: attachments
+      .filter((attachment) => Boolean(attachment.file_id))
+      .map((attachment) => ({
+        kind: attachment.kind,
+        file_id: attachment.file_id,
+        caption: attachment.caption,
+        archive_chat_id: attachment.archive_chat_id,
+        archive_message_id: attachment.archive_message_id,
+        file_unique_id: attachment.file_unique_id,
+        mime_type: attachment.mime_type
+      }))
+  };
+};
+
+export const toScheduleFromSnapshot = (snapshot: ReminderSnapshot, overrides: ReminderSnapshotOverrides = {}): ReminderSchedule => ({
+  scheduleType: snapshot.schedule_type as ReminderScheduleType,
+  timezone: snapshot.timezone,
+  onceAt: typeof overrides.onceAt !== 'undefined' ? overrides.onceAt : snapshot.once_at ? new Date(snapshot.once_at) : null,
+  intervalMinutes: snapshot.interval_minutes,
+  atTime: typeof overrides.atTime !== 'undefined' ? overrides.atTime : snapshot.at_time,
+  byWeekday: snapshot.by_weekday,
+  byMonthday: snapshot.by_monthday,
+  byMonth: snapshot.by_month,
+  calendarSystem: snapshot.calendar_system as ReminderCalendarSystem,
+  rrule: snapshot.rrule,
+  rruleStartDate: snapshot.rrule_start_date,
+  anchorEvent: snapshot.anchor_event as PrayerTimeName | null,
+  anchorOffsetMinutes: snapshot.anchor_offset_minutes,
+  latitude: snapshot.anchor_latitude,
+  longitude: snapshot.anchor_longitude,
+  prayerMethod: snapshot.anchor_method as PrayerMethod | null
+});
+
+/**
+ * Creates a reminder for userId from a snapshot (a duplicated reminder or a preset). It is turned on only
+ * when the schedule still has an occurrence after nowUtc.
+ */
+export const createReminderFromSnapshot = async (
+  userId: string,
+  snapshot: ReminderSnapshot,
+  overrides: ReminderSnapshotOverrides = {},
+  nowUtc: Date = new Date()
+): Promise<ReminderRow> => {
+  const schedule = toScheduleFromSnapshot(snapshot, overrides);
+  const candidate = computeNextRunAt(schedule, nowUtc);
+  const nextRunAt = candidate && candidate.getTime() > nowUtc.getTime() ? candidate : null;
+  const enabled = Boolean(nextRunAt);
+
+  const created = await createReminder({
+    userId,
+    title: typeof overrides.title !== 'undefined' ? overrides.title : snapshot.title,
+    description: snapshot.description,
+    descGroupKey: snapshot.desc_group_key,
+    schedule,
+    nextRunAt,
+    enabled,
+    isActive: enabled,
+    status: enabled ? 'active' : 'inactive',
+    condition: parseReminderCondition(snapshot.condition_json),
+    occasion: isReminderOccasionKind(snapshot.occasion_kind) && snapshot.occasion_person
+      ? { kind: snapshot.occasion_kind, person: snapshot.occasion_person, year: snapshot.occasion_year ?? null }
+      : null
+  });
+  const reminder = await updateReminder(created.id, {
+    ignoreQuietHours: Boolean(snapshot.ignore_quiet_hours),
+    nagIntervalMinutes: snapshot.nag_interval_minutes,
+    nagMaxRepeats: snapshot.nag_max_repeats,
+    catchUpPolicy: snapshot.catch_up_policy as CatchUpPolicy | null,
+    preAlertOffsetsMinutes: normalizePreAlertOffsets(snapshot.pre_alert_offsets_minutes)
+  });
+
+  for (const attachment of snapshot.attachments) {
+    await createReminderAttachment({
+      reminderId: reminder.id,
+      archiveChatId: attachment.archive_chat_id,
+      archiveMessageId: attachment.archive_message_id,
+      kind: attachment.kind,
+      fileId: attachment.file_id,
+      caption: attachment.caption,
+      fileUniqueId: attachment.file_unique_id,
+      mimeType: attachment.mime_type
+    });
+  }
+
+  return reminder;
+};
+
+export const parseReminderSnapshot = (value: unknown): ReminderSnapshot | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<ReminderSnapshot>;
+  if (typeof raw.schedule_type !== 'string' || typeof raw.timezone !== 'string') return null;
+  return { ...(raw as ReminderSnapshot), attachments: Array.isArray(raw.attachments) ? raw.attachments : [] };
+};
+
+export const listReminderPresets = async (userId: string): Promise<ReminderPresetRow[]> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from(REMINDER_PRESETS_TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+    .limit(MAX_REMINDER_PRESETS);
+
+  if (error) {
+    throw new Error(`Failed to list reminder presets: ${error.message}`);
+  }
+
+  return (data as ReminderPresetRow[]) ?? [];
+};
+
+export const getReminderPreset = async (presetId: string): Promise<ReminderPresetRow | null> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client.from(REMINDER_PRESETS_TABLE).select('*').eq('id', presetId).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load reminder preset: ${error.message}`);
+  }
+
+  return (data as ReminderPresetRow | null) ?? null;
+};
+
+export const createReminderPreset = async (params: { userId: string; name: string; snapshot: ReminderSnapshot }): Promise<ReminderPresetRow> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from(REMINDER_PRESETS_TABLE)
+    .insert({ user_id: params.userId, name: params.name, payload: params.snapshot as unknown as Record<string, unknown> })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save reminder preset: ${error.message}`);
+  }
+
+  return data as ReminderPresetRow;
+};
+
+export const deleteReminderPreset = async (userId: string, presetId: string): Promise<void> => {
+  const client = getSupabaseClient();
+  const { error } = await client.from(REMINDER_PRESETS_TABLE).delete().eq('id', presetId).eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to delete reminder preset: ${error.message}`);
+  }
+};
@@ -0,0 +1,229 @@
+import crypto from 'node:crypto';
+import { getSupabaseClient, queryDb } from '../db';
+import type { ReminderRecipientRow, ReminderRow } from '../types/supabase';
+
+const REMINDER_RECIPIENTS_TABLE = 'reminder_recipients';
+
+export const MAX_REMINDER_RECIPIENTS = 20;
+
+// Deep links carry `share_<code>` as the /start payload, both for people (?start=) and groups (?startgroup=).
+export const REMINDER_SHARE_PAYLOAD_PREFIX = 'share_';
+
+export type ReminderRecipientStatus = {
+  recipient: ReminderRecipientRow;
+  lastSentAtUtc: string | null;
+  ok: boolean | null;
+  error: string | null;
+  action: string | null;
+  actionAtUtc: string | null;
+  actionBy: string | null;
+};
+
+const generateShareCode = (): string => crypto.randomBytes(8).toString('base64url');
+
+const toIso = (value: string | Date | null): string | null => (value instanceof Date ? value.toISOString() : value);
+
+// pg returns bigint as a string and timestamptz as a Date; rows read through queryDb are normalised to the row type.
+const toRecipientRow = (row: ReminderRecipientRow): ReminderRecipientRow => ({
+  id: row.id,
+  reminder_id: row.reminder_id,
+  chat_id: Number(row.chat_id),
+  chat_type: row.chat_type,
+  user_id: row.user_id,
+  display_name: row.display_name,
+  added_by_telegram_id: row.added_by_telegram_id === null ? null : Number(row.added_by_telegram_id),
+  created_at: toIso(row.created_at as string | Date) as string
+});
+
+// Recipient deliveries hang off the owner's key, so each occurrence is sent at most once per chat.
+export const buildRecipientDeliveryKey = (deliveryKey: string, recipientId: string): string => `${deliveryKey}:u${recipientId}`;
+
+export const parseReminderSharePayload = (payload: string | null | undefined): string | null => {
+  const trimmed = payload?.trim() ?? '';
+  if (!trimmed.startsWith(REMINDER_SHARE_PAYLOAD_PREFIX)) return null;
+  const code = trimmed.slice(REMINDER_SHARE_PAYLOAD_PREFIX.length);
+  return /^[A-Za-z0-9_-]{6,32}$/.test(code) ? code : null;
+};
+
+/**
+ * Returns the reminder's invite code, creating one on first use. Passing rotate replaces it, which stops
+ * the old links from working without removing anyone who already joined.
+ */
+export const ensureReminderShareCode = async (reminder: ReminderRow, rotate = false): Promise<string> => {
+  if (reminder.share_code && !rotate) return reminder.share_code;
+  const code = generateShareCode();
+  const { rows } = await queryDb<{ share_code: string }>(
+    `
+    update public.reminders
+    set share_code = $2,
+        updated_at = now()
+    where id = $1
+    returning share_code
+    `,
+    [reminder.id, code]
+  );
+  return rows[0]?.share_code ?? code;
+};
+
+export const findReminderByShareCode = async (code: string): Promise<ReminderRow | null> => {
+  const { rows } = await queryDb<ReminderRow>(
+    `
+    select *
+    from public.reminders
+    where share_code = $1
+      and deleted_at is null
+    limit 1
+    `,
+    [code]
+  );
+  return rows[0] ?? null;
+};
+
+export const listReminderRecipients = async (reminderId: string): Promise<ReminderRecipientRow[]> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from(REMINDER_RECIPIENTS_TABLE)
+    .select('*')
+    .eq('reminder_id', reminderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list reminder recipients: ${error.message}`);
+  }
+
+  return (data as ReminderRecipientRow[]) ?? [];
+};
+
+export const getReminderRecipientByChat = async (reminderId: string, chatId: number): Promise<ReminderRecipientRow | null> => {
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from(REMINDER_RECIPIENTS_TABLE)
+    .select('*')
+    .eq('reminder_id', reminderId)
+    .eq('chat_id', chatId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load reminder recipient: ${error.message}`);
+  }
+
+  return (data as ReminderRecipientRow | null) ?? null;
+};
+
+/**
+ * Adds a person or group chat to a shared reminder. Joining again only refreshes the display name; the
+ * member who first added a group is kept, since they may remove it again. Returns null when the reminder already has MAX_REMINDER_RECIPIENTS other recipients.
+ */
+export const addReminderRecipient = async (params: {
+  reminderId: string;
+  chatId: number;
+  chatType: string;
+  userId: string | null;
+  displayName: string | null;
+  addedByTelegramId: number | null;
+}): Promise<{ recipient: ReminderRecipientRow; joined: boolean } | null> => {
+  const existing = await getReminderRecipientByChat(params.reminderId, params.chatId);
+  if (!existing) {
+    const { rows } = await queryDb<{ count: number }>(
+      'select count(*)::int as count from public.reminder_recipients where reminder_id = $1',
+      [params.reminderId]
+    );
+    if ((rows[0]?.count ?? 0) >= MAX_REMINDER_RECIPIENTS) return null;
+  }
+
+  const { rows } = await queryDb<ReminderRecipientRow>(
+    `
+    insert into public.reminder_recipients (reminder_id, chat_id, chat_type, user_id, display_name, added_by_telegram_id)
+    values ($1, $2, $3, $4, $5, $6)
+    on conflict (reminder_id, chat_id) do update
+      set display_name = excluded.display_name,
+          added_by_telegram_id = coalesce(reminder_recipients.added_by_telegram_id, excluded.added_by_telegram_id)
+    returning *
+    `,
+    [params.reminderId, params.chatId, params.chatType, params.userId, params.displayName, params.addedByTelegramId]
+  );
+  return { recipient: toRecipientRow(rows[0]), joined: !existing };
+};
+
+export const removeReminderRecipient = async (reminderId: string, recipientId: string): Promise<void> => {
+  const client = getSupabaseClient();
+  const { error } = await client.from(REMINDER_RECIPIENTS_TABLE).delete().eq('reminder_id', reminderId).eq('id', recipientId);
+
+  if (error) {
+    throw new Error(`Failed to remove reminder recipient: ${error.message}`);
+  }
+};
+
+export const leaveSharedReminder = async (reminderId: string, chatId: number): Promise<boolean> => {
+  const { rows } = await queryDb<{ id: string }>(
+    `
+    delete from public.reminder_recipients
+    where reminder_id = $1
+      and chat_id = $2
+    returning id
+    `,
+    [reminderId, chatId]
+  );
+  return rows.length > 0;
+};
+
+/**
+ * Each recipient with the outcome of their latest delivery, for the owner's sharing screen: whether it
+ * went out and whether, when and by whom it was acknowledged.
+ */
+export const listReminderRecipientStatuses = async (reminderId: string): Promise<ReminderRecipientStatus[]> => {
+  const { rows } = await queryDb<
+    ReminderRecipientRow & {
+      last_sent_at_utc: string | Date | null;
+      last_ok: boolean | null;
+      last_error: string | null;
+      last_action: string | null;
+      last_action_at_utc: string | Date | null;
+      last_action_by: string | null;
+    }
+  >(
+    `
+    select r.*,
+           d.sent_at_utc as last_sent_at_utc,
+           d.ok as last_ok,
+           d.error as last_error,
+           d.action as last_action,
+           d.action_at_utc as last_action_at_utc,
+           d.action_by as last_action_by
+    from public.reminder_recipients r
+    left join lateral (
+      select sent_at_utc, ok, error, action, action_at_utc, action_by
+      from public.reminder_deliveries
+      where recipient_id = r.id
+      order by sent_at_utc desc
+      limit 1
+    ) d on true
+    where r.reminder_id = $1
+    order by r.created_at asc
+    `,
+    [reminderId]
+  );
+
+  return rows.map((row) => ({
+    recipient: toRecipientRow(row),
+    lastSentAtUtc: toIso(row.last_sent_at_utc),
+    ok: row.last_ok,
+    error: row.last_error,
+    action: row.last_action,
+    actionAtUtc: toIso(row.last_action_at_utc),
+    actionBy: row.last_action_by
+  }));
+};
+
+export const recordRecipientAck = async (params: { reminderId: string; deliveryKey: string; actionBy: string | null }): Promise<void> => {
+  const client = getSupabaseClient();
+  const { error } = await client
+    .from('reminder_deliveries')
+    .update({ action: 'ack', action_at_utc: new Date().toISOString(), action_by: params.actionBy })
+    .eq('reminder_id', params.reminderId)
+    .eq('delivery_key', params.deliveryKey);
+
+  if (error) {
+    throw new Error(`Failed to record recipient acknowledgement: ${error.message}`);
+  }
+};
@@ -1,13 +1,18 @@
-import type { Bot } from 'grammy';
+import type { Bot, InlineKeyboard } from 'grammy';
 
 import { config } from '../config';
 import { listArchiveMessagesByGroupKey } from './archive';
 import { getSupabaseClient, queryDb } from '../db';
 import type { Database, ReminderRow } from '../types/supabase';
 import { sendAttachmentsWithApi } from './telegram-media';
+import type { CatchUpPolicy } from './catchUp';
+import type { ReminderCondition, ReminderConditionResult } from './reminderConditions';
 import { logWarn } from '../utils/logger';
 import { safeTruncate } from '../utils/safe_truncate';
 import { labels } from '../ui/labels';
+import { getJalaliMonthLength, gregorianToJalali, jalaliToGregorian } from '../utils/jalali';
+import { computePrayerTimes, type PrayerMethod, type PrayerTimeName } from '../utils/prayerTimes';
+import { computeNextRRuleOccurrence, parseRRule } from '../utils/rrule';
 import { formatInstantToLocal, localDateTimeToUtcIso } from '../utils/time';
 
 const REMINDERS_TABLE = 'reminders';
@@ -17,17 +22,64 @@ const ARCHIVE_COPY_DELAY_MS = 200;
 
 const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
 
-export type ReminderScheduleType = 'once' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type ReminderScheduleType = 'once' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'rrule' | 'prayer' | 'solar';
+
+export type ReminderPrayerAnchor = Extract<PrayerTimeName, 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha'>;
+
+export type ReminderSolarAnchor = Extract<PrayerTimeName, 'sunrise' | 'sunset'>;
+
+export const REMINDER_PRAYER_ANCHORS: ReminderPrayerAnchor[] = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+export const REMINDER_SOLAR_ANCHORS: ReminderSolarAnchor[] = ['sunrise', 'sunset'];
+
+export const isAnchoredScheduleType = (scheduleType: string): scheduleType is 'prayer' | 'solar' =>
+  scheduleType === 'prayer' || scheduleType === 'solar';
+
+export const listScheduleAnchors = (scheduleType: 'prayer' | 'solar'): PrayerTimeName[] =>
+  scheduleType === 'solar' ? REMINDER_SOLAR_ANCHORS : REMINDER_PRAYER_ANCHORS;
+
+export type ReminderCalendarSystem = 'gregorian' | 'jalali';
+
+export type ReminderOccasionKind = 'birthday' | 'anniversary';
+
+export const REMINDER_OCCASION_KINDS: ReminderOccasionKind[] = ['birthday', 'anniversary'];
+
+// year is the birth or wedding year in the reminder's own calendar, so Jalali occasions count Jalali years.
+export type ReminderOccasion = {
+  kind: ReminderOccasionKind;
+  person: string;
+  year: number | null;
+};
 
 export type ReminderSchedule = {
   scheduleType: ReminderScheduleType;
   timezone: string;
+  calendarSystem?: ReminderCalendarSystem | null;
   onceAt?: Date | null;
   intervalMinutes?: number | null;
   atTime?: string | null;
   byWeekday?: number | null;
   byMonthday?: number | null;
   byMonth?: number | null;
+  rrule?: string | null;
+  rruleStartDate?: string | null;
+  anchorEvent?: PrayerTimeName | null;
+  anchorOffsetMinutes?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  prayerMethod?: PrayerMethod | null;
+};
+
+export type ReminderListStatusFilter = 'all' | 'active' | 'paused' | 'ringed';
+
+export type ReminderListSort = 'next_run' | 'created' | 'title';
+
+export type ReminderListQuery = {
+  status: ReminderListStatusFilter;
+  scheduleType: ReminderScheduleType | null;
+  sort: ReminderListSort;
+  page: number;
+  pageSize: number;
 };
 
 export type UserRow = Database['public']['Tables']['users']['Row'];
@@ -87,20 +139,80 @@ const computeNextLocalDateForMonthly = (localDate: string, dayOfMonth: number):
   return `${nextYear}-${String(nextMonth).padStart(2, '0')}-${String(nextDay).padStart(2, '0')}`;
 };
 
-const computeNextLocalDateForYearly = (localDate: string, byMonth: number, byMonthday: number): string => {
-  const [year] = localDate.split('-').map(Number);
-  const currentMonth = Number(localDate.split('-')[1]);
-  const currentDay = Number(localDate.split('-')[2]);
+// The day is clamped against the year it lands in, not the current one, so a Feb 29 date falls on Feb 28 in
+// common years and is back on Feb 29 in the next leap year.
+const computeNextLocalDateForYearly = (localDate: string, byMonth: number, byMonthday: number, includeToday: boolean): string => {
+  const [year, currentMonth, currentDay] = localDate.split('-').map(Number);
   const targetMonth = Math.min(Math.max(1, byMonth), 12);
-  const lastDayTarget = getLastDayOfMonth(year, targetMonth);
-  const targetDay = Math.min(Math.max(1, byMonthday), lastDayTarget);
-  if (currentMonth < targetMonth || (currentMonth === targetMonth && currentDay <= targetDay)) {
+  const clampDay = (candidateYear: number): number => Math.min(Math.max(1, byMonthday), getLastDayOfMonth(candidateYear, targetMonth));
+  const targetDay = clampDay(year);
+  if (
+    currentMonth < targetMonth ||
+    (currentMonth === targetMonth && (currentDay < targetDay || (currentDay === targetDay && includeToday)))
+  ) {
     return `${year}-${String(targetMonth).padStart(2, '0')}-${String(targetDay).padStart(2, '0')}`;
   }
   const nextYear = year + 1;
-  const lastDayNext = getLastDayOfMonth(nextYear, targetMonth);
-  const nextDay = Math.min(Math.max(1, byMonthday), lastDayNext);
-  return `${nextYear}-${String(targetMonth).padStart(2, '0')}-${String(nextDay).padStart(2, '0')}`;
+  return `${nextYear}-${String(targetMonth).padStart(2, '0')}-${String(clampDay(nextYear)).padStart(2, '0')}`;
+};
+
+const jalaliToLocalDate = (year: number, month: number, day: number): string => {
+  const greg = jalaliToGregorian(year, month, day);
+  return `${greg.year}-${String(greg.month).padStart(2, '0')}-${String(greg.day).padStart(2, '0')}`;
+};
+
+const toJalaliParts = (localDate: string): { year: number; month: number; day: number } => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return gregorianToJalali(year, month, day);
+};
+
+// Jalali counterparts of the Gregorian helpers above: the day is clamped to the month length,
+// so "30 Esfand" falls on 29 Esfand outside leap years.
+const computeNextLocalDateForJalaliMonthly = (localDate: string, dayOfMonth: number, includeToday: boolean): string => {
+  const today = toJalaliParts(localDate);
+  const clampDay = (year: number, month: number): number => Math.min(Math.max(1, dayOfMonth), getJalaliMonthLength(year, month));
+  const currentDay = clampDay(today.year, today.month);
+  if (today.day < currentDay || (today.day === currentDay && includeToday)) {
+    return jalaliToLocalDate(today.year, today.month, currentDay);
+  }
+  const nextMonth = today.month === 12 ? 1 : today.month + 1;
+  const nextYear = today.month === 12 ? today.year + 1 : today.year;
+  return jalaliToLocalDate(nextYear, nextMonth, clampDay(nextYear, nextMonth));
+};
+
+const computeNextLocalDateForJalaliYearly = (localDate: string, byMonth: number, byMonthday: number, includeToday: boolean): string => {
+  const today = toJalaliParts(localDate);
+  const targetMonth = Math.min(Math.max(1, byMonth), 12);
+  const clampDay = (year: number): number => Math.min(Math.max(1, byMonthday), getJalaliMonthLength(year, targetMonth));
+  const targetDay = clampDay(today.year);
+  if (
+    today.month < targetMonth ||
+    (today.month === targetMonth && (today.day < targetDay || (today.day === targetDay && includeToday)))
+  ) {
+    return jalaliToLocalDate(today.year, targetMonth, targetDay);
+  }
+  return jalaliToLocalDate(today.year + 1, targetMonth, clampDay(today.year + 1));
+};
+
+// Anchored times move every day, so each candidate day is computed on its own. Yesterday is included
+// because a large negative offset can pull its occurrence past midnight into today.
+const computeNextAnchoredRunAt = (schedule: ReminderSchedule, timezone: string, nowUtc: Date): Date | null => {
+  if (!schedule.anchorEvent || typeof schedule.latitude !== 'number' || typeof schedule.longitude !== 'number') return null;
+  const offsetMs = (schedule.anchorOffsetMinutes ?? 0) * 60 * 1000;
+  const localToday = formatInstantToLocal(nowUtc.toISOString(), timezone).date;
+  for (let dayOffset = -1; dayOffset <= 2; dayOffset += 1) {
+    const localDate = addDaysToLocalDate(localToday, dayOffset, timezone);
+    const anchor = computePrayerTimes({
+      localDate,
+      latitude: schedule.latitude,
+      longitude: schedule.longitude,
+      method: schedule.prayerMethod
+    })[schedule.anchorEvent];
+    if (!anchor) continue;
+    const candidate = new Date(anchor.getTime() + offsetMs);
+    if (candidate.getTime() > nowUtc.getTime()) return candidate;
+  }
+  return null;
 };
 
 export const computeNextRunAt = (schedule: ReminderSchedule, nowUtc: Date): Date | null => {
@@ -115,11 +227,27 @@ export const computeNextRunAt = (schedule: ReminderSchedule, nowUtc: Date): Date
     return new Date(nowUtc.getTime() + interval * 60 * 1000);
   }
 
+  if (isAnchoredScheduleType(schedule.scheduleType)) {
+    return computeNextAnchoredRunAt(schedule, timezone, nowUtc);
+  }
+
   const atMinutes = parseTimeToMinutes(schedule.atTime) ?? 9 * 60;
   const atTime = formatMinutesToTime(atMinutes);
   const localNow = formatInstantToLocal(nowUtc.toISOString(), timezone);
   const nowMinutes = parseTimeToMinutes(localNow.time) ?? 0;
 
+  if (schedule.scheduleType === 'rrule') {
+    const rule = parseRRule(schedule.rrule);
+    if (!rule) return null;
+    return computeNextRRuleOccurrence({
+      rule,
+      startDate: schedule.rruleStartDate ?? localNow.date,
+      atTime,
+      timezone,
+      nowUtc
+    });
+  }
+
   if (schedule.scheduleType === 'daily') {
     const nextDate = nowMinutes <= atMinutes ? localNow.date : addDaysToLocalDate(localNow.date, 1, timezone);
     return new Date(localDateTimeToUtcIso(nextDate, atTime, timezone));
@@ -136,6 +264,21 @@ export const computeNextRunAt = (schedule: ReminderSchedule, nowUtc: Date): Date
     return new Date(localDateTimeToUtcIso(nextDate, atTime, timezone));
   }
 
+  if (schedule.scheduleType === 'monthly' && schedule.calendarSystem === 'jalali') {
+    const nextDate = computeNextLocalDateForJalaliMonthly(localNow.date, schedule.byMonthday ?? 1, nowMinutes <= atMinutes);
+    return new Date(localDateTimeToUtcIso(nextDate, atTime, timezone));
+  }
+
+  if (schedule.scheduleType === 'yearly' && schedule.calendarSystem === 'jalali') {
+    const nextDate = computeNextLocalDateForJalaliYearly(
+      localNow.date,
+      schedule.byMonth ?? 1,
+      schedule.byMonthday ?? 1,
+      nowMinutes <= atMinutes
+    );
+    return new Date(localDateTimeToUtcIso(nextDate, atTime, timezone));
+  }
+
   if (schedule.scheduleType === 'monthly') {
     const desiredDay = schedule.byMonthday ?? 1;
     const nextDate = computeNextLocalDateForMonthly(localNow.date, desiredDay);
@@ -153,23 +296,35 @@ export const computeNextRunAt = (schedule: ReminderSchedule, nowUtc: Date): Date
   }
 
   if (schedule.scheduleType === 'yearly') {
-    const targetMonth = schedule.byMonth ?? 1;
-    const targetDay = schedule.byMonthday ?? 1;
-    let nextDate = computeNextLocalDateForYearly(localNow.date, targetMonth, targetDay);
-    const isToday = nextDate === localNow.date;
-    if (isToday && nowMinutes > atMinutes) {
-      const [year] = localNow.date.split('-').map(Number);
-      const nextYear = year + 1;
-      const lastDay = getLastDayOfMonth(nextYear, Math.min(Math.max(1, targetMonth), 12));
-      const nextDay = Math.min(Math.max(1, targetDay), lastDay);
-      nextDate = `${nextYear}-${String(targetMonth).padStart(2, '0')}-${String(nextDay).padStart(2, '0')}`;
-    }
+    const nextDate = computeNextLocalDateForYearly(localNow.date, schedule.byMonth ?? 1, schedule.byMonthday ?? 1, nowMinutes <= atMinutes);
     return new Date(localDateTimeToUtcIso(nextDate, atTime, timezone));
   }
 
   return null;
 };
 
+export const isReminderOccasionKind = (value: unknown): value is ReminderOccasionKind =>
+  typeof value === 'string' && (REMINDER_OCCASION_KINDS as string[]).includes(value);
+
+// Occasions only make sense on a yearly schedule; a reminder moved to another schedule keeps its columns but stops being one.
+export const getReminderOccasion = (reminder: ReminderRow): ReminderOccasion | null => {
+  if (reminder.schedule_type !== 'yearly' || !isReminderOccasionKind(reminder.occasion_kind) || !reminder.occasion_person) return null;
+  return { kind: reminder.occasion_kind, person: reminder.occasion_person, year: reminder.occasion_year };
+};
+
+/**
+ * How many years an occasion reaches on the local day of occurrenceUtc: the age for birthdays, the
+ * anniversary count otherwise. Null when the original year is unknown or not before that day's year.
+ */
+export const computeOccasionYears = (reminder: ReminderRow, occurrenceUtc: Date): number | null => {
+  const occasion = getReminderOccasion(reminder);
+  if (!occasion || occasion.year === null) return null;
+  const localDate = formatInstantToLocal(occurrenceUtc.toISOString(), reminder.timezone || config.defaultTimezone).date;
+  const year = reminder.calendar_system === 'jalali' ? toJalaliParts(localDate).year : Number(localDate.slice(0, 4));
+  const years = year - occasion.year;
+  return years > 0 ? years : null;
+};
+
 export async function findDueReminders(
   nowUtc: Date,
   client = getSupabaseClient()
@@ -206,6 +361,38 @@ export async function listRemindersForUser(userId: string, client = getSupabaseC
   return (data as ReminderRow[]) ?? [];
 }
 
+export async function listRemindersPage(
+  userId: string,
+  query: ReminderListQuery,
+  client = getSupabaseClient()
+): Promise<{ reminders: ReminderRow[]; total: number }> {
+  let request = client
+    .from(REMINDERS_TABLE)
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId)
+    .neq('status', 'draft')
+    .is('deleted_at', null);
+
+  if (query.status === 'active') request = request.eq('enabled', true);
+  if (query.status === 'paused') request = request.eq('enabled', false).neq('status', 'ringed');
+  if (query.status === 'ringed') request = request.eq('status', 'ringed');
+  if (query.scheduleType) request = request.eq('schedule_type', query.scheduleType);
+
+  if (query.sort === 'title') request = request.order('title', { ascending: true });
+  else if (query.sort === 'created') request = request.order('created_at', { ascending: false });
+  else request = request.order('next_run_at', { ascending: true, nullsFirst: false });
+  request = request.order('id', { ascending: true });
+
+  const from = query.page * query.pageSize;
+  const { data, error, count } = await request.range(from, from + query.pageSize - 1);
+
+  if (error) {
+    throw new Error(`Failed to list reminders: ${error.message}`);
+  }
+
+  return { reminders: (data as ReminderRow[]) ?? [], total: count ?? 0 };
+}
+
 export async function getReminderById(reminderId: string, client = getSupabaseClient()): Promise<ReminderRow | null> {
   const { data, error } = await client.from(REMINDERS_TABLE).select('*').eq('id', reminderId).maybeSingle();
 
@@ -235,6 +422,9 @@ export async function createReminderDraft(
       by_weekday: null,
       by_monthday: null,
       by_month: null,
+      calendar_system: 'gregorian',
+      rrule: null,
+      rrule_start_date: null,
       is_active: false,
       enabled: false,
       status: 'draft'
@@ -261,10 +451,12 @@ export async function createReminder(
     isActive?: boolean;
     enabled?: boolean;
     archiveItemId?: string | null;
+    condition?: ReminderCondition | null;
+    occasion?: ReminderOccasion | null;
   },
   client = getSupabaseClient()
 ): Promise<ReminderRow> {
-  const { userId, title, description, descGroupKey, schedule, nextRunAt, status, isActive, enabled, archiveItemId } = params;
+  const { userId, title, description, descGroupKey, schedule, nextRunAt, status, isActive, enabled, archiveItemId, condition, occasion } = params;
   const { data, error } = await client
     .from(REMINDERS_TABLE)
     .insert({
@@ -273,6 +465,7 @@ export async function createReminder(
       description: description ?? null,
       desc_group_key: descGroupKey ?? null,
       archive_item_id: archiveItemId ?? null,
+      condition_json: condition ?? null,
       schedule_type: schedule.scheduleType,
       timezone: schedule.timezone,
       next_run_at: nextRunAt ? toIsoString(nextRunAt) : null,
@@ -282,6 +475,17 @@ export async function createReminder(
       by_weekday: schedule.byWeekday ?? null,
       by_monthday: schedule.byMonthday ?? null,
       by_month: schedule.byMonth ?? null,
+      calendar_system: schedule.calendarSystem ?? 'gregorian',
+      rrule: schedule.rrule ?? null,
+      rrule_start_date: schedule.rruleStartDate ?? null,
+      anchor_event: schedule.anchorEvent ?? null,
+      anchor_offset_minutes: schedule.anchorOffsetMinutes ?? 0,
+      anchor_latitude: schedule.latitude ?? null,
+      anchor_longitude: schedule.longitude ?? null,
+      anchor_method: schedule.prayerMethod ?? null,
+      occasion_kind: occasion?.kind ?? null,
+      occasion_person: occasion?.person ?? null,
+      occasion_year: occasion?.year ?? null,
       is_active: isActive ?? true,
       last_sent_at_utc: null,
       enabled: enabled ?? true,
@@ -309,6 +513,15 @@ export async function updateReminder(
     enabled?: boolean;
     status?: string;
     archiveItemId?: string | null;
+    ignoreQuietHours?: boolean;
+    nagIntervalMinutes?: number | null;
+    nagMaxRepeats?: number | null;
+    catchUpPolicy?: CatchUpPolicy | null;
+    condition?: ReminderCondition | null;
+    preAlertOffsetsMinutes?: number[] | null;
+    pausedReason?: string | null;
+    sendAttemptCount?: number;
+    occasion?: ReminderOccasion | null;
   },
   client = getSupabaseClient()
 ): Promise<ReminderRow> {
@@ -323,6 +536,19 @@ export async function updateReminder(
   if (typeof patch.descGroupKey !== 'undefined') updates.desc_group_key = patch.descGroupKey;
   if (typeof patch.status !== 'undefined') updates.status = patch.status;
   if (typeof patch.archiveItemId !== 'undefined') updates.archive_item_id = patch.archiveItemId;
+  if (typeof patch.ignoreQuietHours !== 'undefined') updates.ignore_quiet_hours = patch.ignoreQuietHours;
+  if (typeof patch.nagIntervalMinutes !== 'undefined') updates.nag_interval_minutes = patch.nagIntervalMinutes;
+  if (typeof patch.nagMaxRepeats !== 'undefined') updates.nag_max_repeats = patch.nagMaxRepeats;
+  if (typeof patch.catchUpPolicy !== 'undefined') updates.catch_up_policy = patch.catchUpPolicy;
+  if (typeof patch.condition !== 'undefined') updates.condition_json = patch.condition;
+  if (typeof patch.preAlertOffsetsMinutes !== 'undefined') updates.pre_alert_offsets_minutes = patch.preAlertOffsetsMinutes;
+  if (typeof patch.pausedReason !== 'undefined') updates.paused_reason = patch.pausedReason;
+  if (typeof patch.sendAttemptCount !== 'undefined') updates.send_attempt_count = patch.sendAttemptCount;
+  if (typeof patch.occasion !== 'undefined') {
+    updates.occasion_kind = patch.occasion?.kind ?? null;
+    updates.occasion_person = patch.occasion?.person ?? null;
+    updates.occasion_year = patch.occasion?.year ?? null;
+  }
   if ('nextRunAt' in patch) updates.next_run_at = patch.nextRunAt ? toIsoString(patch.nextRunAt) : null;
   if (patch.schedule) {
     updates.schedule_type = patch.schedule.scheduleType;
@@ -333,6 +559,14 @@ export async function updateReminder(
     updates.by_weekday = patch.schedule.byWeekday ?? null;
     updates.by_monthday = patch.schedule.byMonthday ?? null;
     updates.by_month = patch.schedule.byMonth ?? null;
+    updates.calendar_system = patch.schedule.calendarSystem ?? 'gregorian';
+    updates.rrule = patch.schedule.rrule ?? null;
+    updates.rrule_start_date = patch.schedule.rruleStartDate ?? null;
+    updates.anchor_event = patch.schedule.anchorEvent ?? null;
+    updates.anchor_offset_minutes = patch.schedule.anchorOffsetMinutes ?? 0;
+    updates.anchor_latitude = patch.schedule.latitude ?? null;
+    updates.anchor_longitude = patch.schedule.longitude ?? null;
+    updates.anchor_method = patch.schedule.prayerMethod ?? null;
   }
 
   const { data, error } = await client
@@ -362,7 +596,9 @@ export async function toggleReminderEnabled(reminderId: string, client = getSupa
   const nextEnabled = !current.enabled;
   const isActive = nextEnabled && Boolean(current.next_run_at);
   const status = isActive ? 'active' : 'inactive';
-  return updateReminder(reminderId, { enabled: nextEnabled, isActive, status }, client);
+  // Turning a paused or dead reminder back on gives it a fresh set of delivery attempts.
+  const recovery = nextEnabled ? { pausedReason: null, sendAttemptCount: 0 } : {};
+  return updateReminder(reminderId, { enabled: nextEnabled, isActive, status, ...recovery }, client);
 }
 
 export async function createReminderAttachment(
@@ -444,7 +680,7 @@ export async function listReminderAttachmentCounts(
 export async function loadUser(userId: string, client = getSupabaseClient()): Promise<UserRow | null> {
   const { data, error } = await client
     .from(USERS_TABLE)
-    .select('id, telegram_id, username, timezone, home_chat_id, home_message_id, settings_json, created_at, updated_at')
+    .select('id, telegram_id, username, timezone, home_chat_id, home_message_id, settings_json, is_active, inactive_reason, inactive_since_utc, latitude, longitude, location_label, prayer_method, created_at, updated_at')
     .eq('id', userId)
     .maybeSingle();
 
@@ -455,9 +691,22 @@ export async function loadUser(userId: string, client = getSupabaseClient()): Pr
   return data ?? null;
 }
 
-export async function sendReminderMessage(params: { reminder: ReminderRow; user: UserRow; botClient: Bot }): Promise<void> {
-  const { reminder, user, botClient } = params;
-  const chatId = user.telegram_id;
+export async function sendReminderMessage(params: {
+  reminder: ReminderRow;
+  user: UserRow;
+  botClient: Bot;
+  replyMarkup?: InlineKeyboard;
+  repeat?: { index: number; total: number };
+  missedTimes?: string[];
+  condition?: ReminderConditionResult;
+  preAlert?: { lead: string; time: string };
+  occurrenceUtc?: Date;
+  // Shared reminders go to a recipient's chat instead of the owner's, with a line naming the owner.
+  chatId?: number;
+  sharedBy?: string;
+}): Promise<void> {
+  const { reminder, user, botClient, replyMarkup, repeat, missedTimes, condition, preAlert, occurrenceUtc, sharedBy } = params;
+  const chatId = params.chatId ?? user.telegram_id;
 
   if (!chatId) {
     console.log({ scope: 'reminders', event: 'reminder_skipped', reason: 'missing_telegram_id', reminderId: reminder.id, userId: user.id });
@@ -465,7 +714,29 @@ export async function sendReminderMessage(params: { reminder: ReminderRow; user:
   }
 
   const title = reminder.title?.trim().length ? reminder.title : labels.reminders.untitled();
-  const lines = [labels.reminders.messageTitle({ title })];
+  const lines = [preAlert ? labels.reminders.messagePreAlert({ title, ...preAlert }) : labels.reminders.messageTitle({ title })];
+  const occasion = getReminderOccasion(reminder);
+  if (occasion) {
+    const years = computeOccasionYears(reminder, occurrenceUtc ?? new Date());
+    lines.push(labels.reminders.messageOccasion({ kind: occasion.kind, name: occasion.person, years, upcoming: Boolean(preAlert) }));
+  }
+  if (sharedBy) {
+    lines.push(labels.reminders.messageSharedBy({ name: sharedBy }));
+  }
+  if (repeat) {
+    lines.push(labels.reminders.messageRepeat({ index: String(repeat.index), total: String(repeat.total) }));
+  }
+  if (missedTimes && missedTimes.length === 1) {
+    lines.push(labels.reminders.messageMissedAt({ time: missedTimes[0] }));
+  } else if (missedTimes && missedTimes.length > 1) {
+    lines.push(labels.reminders.messageMissedSummary({ count: String(missedTimes.length), times: missedTimes.join(', ') }));
+  }
+  if (condition?.type === 'completed_below') {
+    lines.push(labels.reminders.messageConditionProgress({ done: String(condition.done), total: String(condition.total) }));
+  }
+  if (condition && condition.missing.length > 0) {
+    lines.push(labels.reminders.messageConditionMissing({ items: condition.missing.join(', ') }));
+  }
   const description = reminder.description?.trim() ?? '';
   if (description.length > 0) {
     const preview = description.length > 600 ? `${description.slice(0, 600)}…` : description;
@@ -477,9 +748,10 @@ export async function sendReminderMessage(params: { reminder: ReminderRow; user:
 
   const text = safeTruncate(lines.join('\n'), 3500);
 
-  await botClient.api.sendMessage(chatId, text);
+  await botClient.api.sendMessage(chatId, text, replyMarkup ? { reply_markup: replyMarkup } : undefined);
 
-  if (reminder.desc_group_key) {
+  // Repeats and pre-alerts only ping; the archived description is copied with the main delivery.
+  if (reminder.desc_group_key && !repeat && !preAlert) {
     const entries = await listArchiveMessagesByGroupKey({ groupKey: reminder.desc_group_key });
     for (const entry of entries) {
       await botClient.api.copyMessage(chatId, entry.archive_chat_id, entry.archive_message_id);
@@ -543,18 +815,26 @@ export async function processDueReminders(
         atTime: reminder.at_time,
         byWeekday: reminder.by_weekday,
         byMonthday: reminder.by_monthday,
-        byMonth: reminder.by_month
+        byMonth: reminder.by_month,
+        calendarSystem: reminder.calendar_system as ReminderCalendarSystem,
+        rrule: reminder.rrule,
+        rruleStartDate: reminder.rrule_start_date,
+        anchorEvent: reminder.anchor_event as PrayerTimeName | null,
+        anchorOffsetMinutes: reminder.anchor_offset_minutes,
+        latitude: reminder.anchor_latitude,
+        longitude: reminder.anchor_longitude,
+        prayerMethod: reminder.anchor_method as PrayerMethod | null
       };
 
       const nextRunAt = computeNextRunAt(schedule, nowUtc);
-      const isOnce = schedule.scheduleType === 'once';
 
       await client
         .from(REMINDERS_TABLE)
         .update({
           last_sent_at_utc: toIsoString(nowUtc),
           next_run_at: nextRunAt ? toIsoString(nextRunAt) : null,
-          is_active: isOnce ? false : true,
+          // An exhausted RRULE or anchor has no next run and finishes like a one-off reminder.
+          ...(nextRunAt ? { is_active: true } : { is_active: false, enabled: false, status: 'ringed' }),
           updated_at: toIsoString(nowUtc)
         })
         .eq('id', reminder.id);
@@ -598,6 +878,50 @@ export async function listUpcomingRemindersForUser(
   return data ?? [];
 }
 
+export async function deleteReminders(userId: string, reminderIds: string[], client = getSupabaseClient()): Promise<string[]> {
+  if (reminderIds.length === 0) return [];
+  const { data, error } = await client
+    .from(REMINDERS_TABLE)
+    .update({ deleted_at: toIsoString(new Date()), deleted_by: 'user', is_active: false })
+    .eq('user_id', userId)
+    .in('id', reminderIds)
+    .is('deleted_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete reminders: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => row.id);
+}
+
+/**
+ * Bulk pause/resume with the same rules as toggleReminderEnabled. Ringed one-off reminders are left alone
+ * because they have nothing left to run.
+ */
+export async function setRemindersEnabled(userId: string, reminderIds: string[], enabled: boolean): Promise<number> {
+  if (reminderIds.length === 0) return 0;
+  const { rows } = await queryDb<{ id: string }>(
+    `
+    update public.reminders
+    set enabled = $3,
+        is_active = $3 and next_run_at is not null,
+        status = case when $3 and next_run_at is not null then 'active' else 'inactive' end,
+        paused_reason = case when $3 then null else paused_reason end,
+        send_attempt_count = case when $3 then 0 else send_attempt_count end,
+        updated_at = now()
+    where user_id = $1
+      and id = any($2::uuid[])
+      and deleted_at is null
+      and status <> 'ringed'
+      and enabled <> $3
+    returning id
+    `,
+    [userId, reminderIds, enabled]
+  );
+  return rows.length;
+}
+
 export async function deleteReminder(reminderId: string, client = getSupabaseClient()): Promise<void> {
   const { error } = await client
     .from(REMINDERS_TABLE)
@@ -0,0 +1,89 @@
+import type { ReportItemRow } from '../types/supabase';
+
+export type QuickEntrySegment = { item: ReportItemRow; raw: string };
+
+export type QuickEntryParse = { segments: QuickEntrySegment[]; unmatched: string[] };
+
+export const MAX_ITEM_ALIASES = 10;
+export const MAX_ITEM_ALIAS_LENGTH = 40;
+
+const normalizeText = (input: string): string =>
+  input
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/٫/g, '.')
+    .replace(/ي/g, 'ی')
+    .replace(/ك/g, 'ک')
+    .replace(/‌/g, ' ');
+
+// Separators around a name ("bed:", "study,") are ignored when matching, but kept inside values such as 23:40.
+const cleanToken = (token: string): string => token.toLowerCase().replace(/^[,،;:=.!?]+|[,،;:=.!?]+$/g, '');
+
+const toWords = (name: string): string[] =>
+  normalizeText(name)
+    .toLowerCase()
+    .replace(/[_()]/g, ' ')
+    .split(/\s+/)
+    .map(cleanToken)
+    .filter(Boolean);
+
+export const normalizeItemName = (name: string): string => toWords(name).join(' ');
+
+/** The names an item answers to in quick entry: its key, its label with and without a bracketed note, and its aliases. */
+export const listItemNames = (item: Pick<ReportItemRow, 'item_key' | 'label' | 'aliases'>): string[] => {
+  const names = [item.item_key, item.label ?? '', (item.label ?? '').replace(/\(.*?\)/g, ''), ...(item.aliases ?? [])].map(normalizeItemName);
+  return [...new Set(names.filter(Boolean))];
+};
+
+/**
+ * Splits one message such as "bed 23:40 wake 7:10 study 95 routine yes" into a raw value per item. A
+ * name is the longest item name found at a token; failing that, a word that starts the names of exactly
+ * one item, so "study" finds study_minutes. Everything up to the next name is that item's value, and
+ * tokens starting with a digit are never read as names. Tokens before the first name are unmatched.
+ * An item mentioned twice keeps its last value.
+ */
+export const parseQuickEntry = (input: string, items: ReportItemRow[]): QuickEntryParse => {
+  const tokens = normalizeText(input).replace(/_/g, ' ').split(/\s+/).filter(Boolean);
+  const names = items
+    .flatMap((item) => listItemNames(item).map((name) => ({ item, words: name.split(' ') })))
+    .sort((a, b) => b.words.length - a.words.length);
+  const firstWordOwners = new Map<string, Set<ReportItemRow>>();
+  for (const name of names) {
+    const owners = firstWordOwners.get(name.words[0]) ?? new Set<ReportItemRow>();
+    owners.add(name.item);
+    firstWordOwners.set(name.words[0], owners);
+  }
+
+  const matchAt = (index: number): { item: ReportItemRow; length: number } | null => {
+    if (/^\d/.test(tokens[index])) return null;
+    const name = names.find((entry) => entry.words.every((word, offset) => cleanToken(tokens[index + offset] ?? '') === word));
+    if (name) return { item: name.item, length: name.words.length };
+    const owners = firstWordOwners.get(cleanToken(tokens[index]));
+    return owners && owners.size === 1 ? { item: [...owners][0], length: 1 } : null;
+  };
+
+  const values = new Map<string, QuickEntrySegment>();
+  const unmatched: string[] = [];
+  let current: { item: ReportItemRow; tokens: string[] } | null = null;
+  const flush = (): void => {
+    if (!current) return;
+    values.delete(current.item.id);
+    values.set(current.item.id, { item: current.item, raw: current.tokens.join(' ').replace(/^[:=]\s*/, '').replace(/[,،;]+$/, '') });
+  };
+
+  for (let index = 0; index < tokens.length; ) {
+    const match = matchAt(index);
+    if (match) {
+      flush();
+      current = { item: match.item, tokens: [] };
+      index += match.length;
+      continue;
+    }
+    if (current) current.tokens.push(tokens[index]);
+    else unmatched.push(tokens[index]);
+    index += 1;
+  }
+  flush();
+
+  return { segments: [...values.values()], unmatched };
+};
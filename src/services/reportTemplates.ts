@@ -8,7 +8,17 @@ const REPORT_ITEMS_TABLE = 'report_items';
 
 type Client = ReturnType<typeof getSupabaseClient>;
 
-const defaultItems = (templateId: string): Omit<ReportItemRow, 'id' | 'created_at' | 'updated_at'>[] => [
+// Seeded items apply every day and have no target or aliases, so those columns are left to their null defaults.
+type UnseededItemColumn =
+  | 'schedule_weekdays'
+  | 'schedule_every_days'
+  | 'active_from'
+  | 'active_until'
+  | 'target_value'
+  | 'target_bonus_xp'
+  | 'aliases';
+
+const defaultItems = (templateId: string): Omit<ReportItemRow, 'id' | 'created_at' | 'updated_at' | UnseededItemColumn>[] => [
   {
     template_id: templateId,
     label: 'Bed Time',
@@ -166,6 +176,13 @@ type ReportItemPatch = Partial<{
   options_json: Record<string, unknown>;
   sort_order: number;
   enabled: boolean;
+  schedule_weekdays: number[] | null;
+  schedule_every_days: number | null;
+  active_from: string | null;
+  active_until: string | null;
+  target_value: number | null;
+  target_bonus_xp: number | null;
+  aliases: string[] | null;
 }>;
 
 export async function updateItem(id: string, patch: ReportItemPatch, client: Client = getSupabaseClient()): Promise<ReportItemRow> {
@@ -396,7 +413,14 @@ export async function duplicateTemplate(
     xp_max_per_day: (item as ReportItemRow & { xp_max_per_day?: number | null }).xp_max_per_day ?? null,
     options_json: item.options_json ?? {},
     sort_order: item.sort_order,
-    enabled: item.enabled
+    enabled: item.enabled,
+    schedule_weekdays: item.schedule_weekdays ?? null,
+    schedule_every_days: item.schedule_every_days ?? null,
+    active_from: item.active_from ?? null,
+    active_until: item.active_until ?? null,
+    target_value: item.target_value ?? null,
+    target_bonus_xp: item.target_bonus_xp ?? null,
+    aliases: item.aliases ?? null
   }));
 
   if (itemsPayload.length > 0) {
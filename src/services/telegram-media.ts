@@ -1,5 +1,6 @@
 import { type Api, type Context } from 'grammy';
 import type { InputMediaPhoto, InputMediaVideo } from 'grammy/types';
+import { config } from '../config';
 import { logWarn } from '../utils/logger';
 
 export type MediaKind = 'photo' | 'video' | 'voice' | 'document' | 'video_note' | 'animation' | 'audio';
@@ -181,3 +182,18 @@ function safeCaption(text: string, max = 900): string {
   const cleaned = text.replace(/\u0000/g, '');
   return cleaned.length > max ? `${cleaned.slice(0, max - 1)}…` : cleaned;
 }
+
+export async function downloadTelegramFile(api: Api, fileId: string, maxBytes: number): Promise<Buffer> {
+  const file = await api.getFile(fileId);
+  if (!file.file_path) {
+    throw new Error('Telegram returned no file path');
+  }
+  if (typeof file.file_size === 'number' && file.file_size > maxBytes) {
+    throw new Error(`File is too large (${file.file_size} bytes)`);
+  }
+  const response = await fetch(`https://api.telegram.org/file/bot${config.telegram.botToken}/${file.file_path}`);
+  if (!response.ok) {
+    throw new Error(`Failed to download file: HTTP ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
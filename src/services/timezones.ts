@@ -0,0 +1,225 @@
+import { getSupabaseClient } from '../db';
+import type { ReminderRow } from '../types/supabase';
+import { formatInstantToLocal, localDateTimeToUtcIso } from '../utils/time';
+import { computeNextRunAt } from './cron.service';
+import { listRemindersForUser } from './reminders';
+
+export type ReminderTimezoneMove = {
+  reminder: ReminderRow;
+  fromUtc: Date | null;
+  toUtc: Date | null;
+  onceAt: Date | null;
+};
+
+const REMINDERS_TABLE = 'reminders';
+
+export const TIMEZONE_PRESETS = [
+  'Asia/Tehran',
+  'Asia/Dubai',
+  'Europe/Istanbul',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles',
+  'America/Toronto',
+  'Australia/Sydney',
+  'UTC'
+];
+
+// Offline reference points for location detection: the nearest one wins, which is good enough to
+// suggest a zone that the user then confirms.
+const TIMEZONE_REFERENCE_POINTS: Array<{ timezone: string; lat: number; lon: number }> = [
+  { timezone: 'Asia/Tehran', lat: 35.69, lon: 51.39 },
+  { timezone: 'Asia/Tehran', lat: 29.59, lon: 52.58 },
+  { timezone: 'Asia/Tehran', lat: 38.08, lon: 46.29 },
+  { timezone: 'Asia/Tehran', lat: 36.3, lon: 59.6 },
+  { timezone: 'Asia/Tehran', lat: 27.18, lon: 56.27 },
+  { timezone: 'Asia/Kabul', lat: 34.53, lon: 69.17 },
+  { timezone: 'Asia/Baghdad', lat: 33.31, lon: 44.36 },
+  { timezone: 'Asia/Baku', lat: 40.41, lon: 49.87 },
+  { timezone: 'Asia/Yerevan', lat: 40.18, lon: 44.51 },
+  { timezone: 'Asia/Tbilisi', lat: 41.72, lon: 44.79 },
+  { timezone: 'Asia/Ashgabat', lat: 37.95, lon: 58.38 },
+  { timezone: 'Asia/Karachi', lat: 24.86, lon: 67.0 },
+  { timezone: 'Asia/Dubai', lat: 25.2, lon: 55.27 },
+  { timezone: 'Asia/Muscat', lat: 23.59, lon: 58.41 },
+  { timezone: 'Asia/Qatar', lat: 25.29, lon: 51.53 },
+  { timezone: 'Asia/Riyadh', lat: 24.71, lon: 46.68 },
+  { timezone: 'Asia/Kuwait', lat: 29.38, lon: 47.99 },
+  { timezone: 'Asia/Jerusalem', lat: 31.77, lon: 35.21 },
+  { timezone: 'Asia/Beirut', lat: 33.89, lon: 35.5 },
+  { timezone: 'Asia/Damascus', lat: 33.51, lon: 36.29 },
+  { timezone: 'Asia/Amman', lat: 31.95, lon: 35.93 },
+  { timezone: 'Asia/Tashkent', lat: 41.3, lon: 69.24 },
+  { timezone: 'Asia/Almaty', lat: 43.24, lon: 76.89 },
+  { timezone: 'Asia/Kolkata', lat: 28.61, lon: 77.21 },
+  { timezone: 'Asia/Kolkata', lat: 19.08, lon: 72.88 },
+  { timezone: 'Asia/Dhaka', lat: 23.81, lon: 90.41 },
+  { timezone: 'Asia/Bangkok', lat: 13.76, lon: 100.5 },
+  { timezone: 'Asia/Singapore', lat: 1.35, lon: 103.82 },
+  { timezone: 'Asia/Jakarta', lat: -6.21, lon: 106.85 },
+  { timezone: 'Asia/Shanghai', lat: 31.23, lon: 121.47 },
+  { timezone: 'Asia/Shanghai', lat: 39.9, lon: 116.4 },
+  { timezone: 'Asia/Hong_Kong', lat: 22.32, lon: 114.17 },
+  { timezone: 'Asia/Seoul', lat: 37.57, lon: 126.98 },
+  { timezone: 'Asia/Tokyo', lat: 35.68, lon: 139.69 },
+  { timezone: 'Europe/Istanbul', lat: 41.01, lon: 28.98 },
+  { timezone: 'Europe/Istanbul', lat: 39.93, lon: 32.86 },
+  { timezone: 'Europe/Moscow', lat: 55.76, lon: 37.62 },
+  { timezone: 'Europe/Kyiv', lat: 50.45, lon: 30.52 },
+  { timezone: 'Europe/Athens', lat: 37.98, lon: 23.73 },
+  { timezone: 'Europe/Bucharest', lat: 44.43, lon: 26.1 },
+  { timezone: 'Europe/Warsaw', lat: 52.23, lon: 21.01 },
+  { timezone: 'Europe/Vienna', lat: 48.21, lon: 16.37 },
+  { timezone: 'Europe/Berlin', lat: 52.52, lon: 13.4 },
+  { timezone: 'Europe/Berlin', lat: 48.14, lon: 11.58 },
+  { timezone: 'Europe/Stockholm', lat: 59.33, lon: 18.07 },
+  { timezone: 'Europe/Oslo', lat: 59.91, lon: 10.75 },
+  { timezone: 'Europe/Copenhagen', lat: 55.68, lon: 12.57 },
+  { timezone: 'Europe/Amsterdam', lat: 52.37, lon: 4.9 },
+  { timezone: 'Europe/Brussels', lat: 50.85, lon: 4.35 },
+  { timezone: 'Europe/Paris', lat: 48.86, lon: 2.35 },
+  { timezone: 'Europe/Zurich', lat: 47.38, lon: 8.54 },
+  { timezone: 'Europe/Rome', lat: 41.9, lon: 12.5 },
+  { timezone: 'Europe/Madrid', lat: 40.42, lon: -3.7 },
+  { timezone: 'Europe/Lisbon', lat: 38.72, lon: -9.14 },
+  { timezone: 'Europe/London', lat: 51.51, lon: -0.13 },
+  { timezone: 'Europe/Dublin', lat: 53.35, lon: -6.26 },
+  { timezone: 'Africa/Cairo', lat: 30.04, lon: 31.24 },
+  { timezone: 'Africa/Lagos', lat: 6.52, lon: 3.38 },
+  { timezone: 'Africa/Nairobi', lat: -1.29, lon: 36.82 },
+  { timezone: 'Africa/Johannesburg', lat: -26.2, lon: 28.05 },
+  { timezone: 'Africa/Casablanca', lat: 33.57, lon: -7.59 },
+  { timezone: 'America/New_York', lat: 40.71, lon: -74.01 },
+  { timezone: 'America/Toronto', lat: 43.65, lon: -79.38 },
+  { timezone: 'America/Chicago', lat: 41.88, lon: -87.63 },
+  { timezone: 'America/Denver', lat: 39.74, lon: -104.99 },
+  { timezone: 'America/Phoenix', lat: 33.45, lon: -112.07 },
+  { timezone: 'America/Los_Angeles', lat: 34.05, lon: -118.24 },
+  { timezone: 'America/Vancouver', lat: 49.28, lon: -123.12 },
+  { timezone: 'America/Mexico_City', lat: 19.43, lon: -99.13 },
+  { timezone: 'America/Bogota', lat: 4.71, lon: -74.07 },
+  { timezone: 'America/Lima', lat: -12.05, lon: -77.04 },
+  { timezone: 'America/Sao_Paulo', lat: -23.55, lon: -46.63 },
+  { timezone: 'America/Argentina/Buenos_Aires', lat: -34.6, lon: -58.38 },
+  { timezone: 'Australia/Perth', lat: -31.95, lon: 115.86 },
+  { timezone: 'Australia/Sydney', lat: -33.87, lon: 151.21 },
+  { timezone: 'Australia/Melbourne', lat: -37.81, lon: 144.96 },
+  { timezone: 'Pacific/Auckland', lat: -36.85, lon: 174.76 }
+];
+
+let cachedTimezones: string[] | null = null;
+
+export const isValidTimezone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || value.trim().length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const listTimezones = (): string[] => {
+  if (cachedTimezones) return cachedTimezones;
+  const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  cachedTimezones = Array.from(new Set([...zones, ...TIMEZONE_PRESETS])).sort();
+  return cachedTimezones;
+};
+
+export const searchTimezones = (query: string, limit = 12): string[] => {
+  const needle = query.trim().toLowerCase().replace(/\s+/g, '_');
+  if (needle.length < 2) return [];
+  const zones = listTimezones();
+  const exact = zones.filter((zone) => zone.toLowerCase() === needle);
+  const cityMatches = zones.filter((zone) => !exact.includes(zone) && (zone.split('/').pop() ?? '').toLowerCase().startsWith(needle));
+  const otherMatches = zones.filter((zone) => !exact.includes(zone) && !cityMatches.includes(zone) && zone.toLowerCase().includes(needle));
+  return [...exact, ...cityMatches, ...otherMatches].slice(0, limit);
+};
+
+export const formatUtcOffset = (timezone: string, atUtc: Date = new Date()): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'longOffset' })
+    .formatToParts(atUtc)
+    .find((entry) => entry.type === 'timeZoneName');
+  const value = part?.value ?? 'GMT';
+  return value === 'GMT' ? 'UTC+00:00' : value.replace('GMT', 'UTC');
+};
+
+export const detectTimezoneFromLocation = (latitude: number, longitude: number): string => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  let best = TIMEZONE_REFERENCE_POINTS[0];
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const point of TIMEZONE_REFERENCE_POINTS) {
+    const dLat = toRadians(point.lat - latitude);
+    const dLon = toRadians(point.lon - longitude);
+    const a =
+      Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(latitude)) * Math.cos(toRadians(point.lat)) * Math.sin(dLon / 2) ** 2;
+    const distance = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    if (distance < bestDistance) {
+      best = point;
+      bestDistance = distance;
+    }
+  }
+  return best.timezone;
+};
+
+const isSchedulable = (reminder: ReminderRow): boolean =>
+  reminder.enabled && reminder.is_active && reminder.status === 'active' && Boolean(reminder.next_run_at_utc ?? reminder.next_run_at);
+
+/**
+ * Works out where each of the user's reminders lands when their timezone changes. Reminders keep their
+ * local wall-clock time: a daily 09:00 reminder stays at 09:00 in the new zone. Interval reminders and
+ * reminders that are mid-nag keep their current next run.
+ */
+export const planReminderTimezoneMoves = async (
+  userId: string,
+  fromTimezone: string,
+  toTimezone: string,
+  nowUtc: Date = new Date()
+): Promise<ReminderTimezoneMove[]> => {
+  const reminders = await listRemindersForUser(userId);
+  return reminders
+    .filter((reminder) => (reminder.timezone ?? fromTimezone) === fromTimezone)
+    .map((reminder) => {
+      const currentRun = reminder.next_run_at_utc ?? reminder.next_run_at;
+      const fromUtc = currentRun ? new Date(currentRun) : null;
+      let onceAt = reminder.once_at ? new Date(reminder.once_at) : null;
+      if (reminder.schedule_type === 'once' && onceAt) {
+        const local = formatInstantToLocal(onceAt.toISOString(), fromTimezone);
+        onceAt = new Date(localDateTimeToUtcIso(local.date, local.time, toTimezone));
+      }
+      if (!isSchedulable(reminder) || reminder.schedule_type === 'hourly' || reminder.nag_occurrence_utc) {
+        return { reminder, fromUtc, toUtc: fromUtc, onceAt };
+      }
+      const toUtc =
+        reminder.schedule_type === 'once'
+          ? onceAt
+          : computeNextRunAt({ ...reminder, timezone: toTimezone }, nowUtc);
+      return { reminder, fromUtc, toUtc, onceAt };
+    });
+};
+
+export const applyReminderTimezoneMoves = async (
+  moves: ReminderTimezoneMove[],
+  toTimezone: string,
+  client = getSupabaseClient()
+): Promise<void> => {
+  for (const move of moves) {
+    const nextRunIso = move.toUtc ? move.toUtc.toISOString() : null;
+    const { error } = await client
+      .from(REMINDERS_TABLE)
+      .update({
+        timezone: toTimezone,
+        once_at: move.onceAt ? move.onceAt.toISOString() : null,
+        next_run_at: nextRunIso,
+        next_run_at_utc: nextRunIso,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', move.reminder.id);
+
+    if (error) {
+      throw new Error(`Failed to reschedule reminder ${move.reminder.id}: ${error.message}`);
+    }
+  }
+};
@@ -6,7 +6,7 @@ export type UserRecord = Database['public']['Tables']['users']['Row'];
 
 const USERS_TABLE = 'users';
 const USERS_SELECT_FIELDS =
-  'id, telegram_id, username, timezone, home_chat_id, home_message_id, settings_json, created_at, updated_at';
+  'id, telegram_id, username, timezone, home_chat_id, home_message_id, settings_json, is_active, inactive_reason, inactive_since_utc, latitude, longitude, location_label, prayer_method, created_at, updated_at';
 
 const handleSupabaseError = (error: PostgrestError, action: string): never => {
   console.error({
@@ -122,6 +122,58 @@ export async function updateUserSettings(
   return (data as UserRecord | null) ?? null;
 }
 
+export async function updateUserTimezone(
+  userId: string,
+  timezone: string,
+  supabaseClient: SupabaseClient<Database> = getSupabaseClient()
+): Promise<UserRecord> {
+  const { data, error } = await supabaseClient
+    .from(USERS_TABLE)
+    .update({ timezone, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+    .select(USERS_SELECT_FIELDS)
+    .single();
+
+  if (error) {
+    handleSupabaseError(error, 'update user timezone');
+  }
+
+  if (!data) {
+    throw new Error('Failed to update user timezone: no data returned');
+  }
+
+  return data as UserRecord;
+}
+
+export async function updateUserLocation(
+  userId: string,
+  patch: { latitude?: number; longitude?: number; locationLabel?: string | null; prayerMethod?: string },
+  supabaseClient: SupabaseClient<Database> = getSupabaseClient()
+): Promise<UserRecord> {
+  const updates: Database['public']['Tables']['users']['Update'] = { updated_at: new Date().toISOString() };
+  if (typeof patch.latitude !== 'undefined') updates.latitude = patch.latitude;
+  if (typeof patch.longitude !== 'undefined') updates.longitude = patch.longitude;
+  if (typeof patch.locationLabel !== 'undefined') updates.location_label = patch.locationLabel;
+  if (typeof patch.prayerMethod !== 'undefined') updates.prayer_method = patch.prayerMethod;
+
+  const { data, error } = await supabaseClient
+    .from(USERS_TABLE)
+    .update(updates)
+    .eq('id', userId)
+    .select(USERS_SELECT_FIELDS)
+    .single();
+
+  if (error) {
+    handleSupabaseError(error, 'update user location');
+  }
+
+  if (!data) {
+    throw new Error('Failed to update user location: no data returned');
+  }
+
+  return data as UserRecord;
+}
+
 export type UserSettingsRecord = Database['public']['Tables']['user_settings']['Row'];
 
 export async function ensureUserSettings(
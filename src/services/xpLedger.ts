@@ -38,6 +38,20 @@ export async function addXpDelta(
   }
 }
 
+/** Removes a user's ledger rows with the given reason, for grants that are withdrawn rather than spent. */
+export async function deleteXpEntries(params: { userId: string; reason: string }, client: Client = getSupabaseClient()): Promise<void> {
+  const { error } = await client.from(XP_LEDGER_TABLE).delete().eq('user_id', params.userId).eq('reason', params.reason);
+
+  if (error) {
+    if (isMissingTable(error)) {
+      handleMissing(error, { action: 'delete', params });
+      return;
+    }
+    console.error({ scope: 'xp_ledger', event: 'delete_error', params, error });
+    throw new Error(`Failed to delete XP entries: ${error.message}`);
+  }
+}
+
 export async function getXpBalance(userId: string, client: Client = getSupabaseClient()): Promise<number> {
   const { data, error } = await client.from(XP_LEDGER_TABLE).select('delta').eq('user_id', userId);
 
@@ -18,6 +18,13 @@ export type Database = {
           home_chat_id: string | null;
           home_message_id: string | null;
           settings_json: Record<string, unknown>;
+          is_active: boolean;
+          inactive_reason: string | null;
+          inactive_since_utc: string | null;
+          latitude: number | null;
+          longitude: number | null;
+          location_label: string | null;
+          prayer_method: string;
           created_at: string;
           updated_at: string;
         };
@@ -29,6 +36,13 @@ export type Database = {
           home_chat_id?: string | null;
           home_message_id?: string | null;
           settings_json?: Record<string, unknown>;
+          is_active?: boolean;
+          inactive_reason?: string | null;
+          inactive_since_utc?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          location_label?: string | null;
+          prayer_method?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -40,6 +54,13 @@ export type Database = {
           home_chat_id?: string | null;
           home_message_id?: string | null;
           settings_json?: Record<string, unknown>;
+          is_active?: boolean;
+          inactive_reason?: string | null;
+          inactive_since_utc?: string | null;
+          latitude?: number | null;
+          longitude?: number | null;
+          location_label?: string | null;
+          prayer_method?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -187,6 +208,27 @@ export type Database = {
           by_weekday: number | null;
           by_monthday: number | null;
           by_month: number | null;
+          calendar_system: string;
+          ignore_quiet_hours: boolean;
+          nag_interval_minutes: number | null;
+          nag_max_repeats: number | null;
+          nag_occurrence_utc: string | null;
+          nag_count: number;
+          catch_up_policy: string | null;
+          condition_json: Record<string, unknown> | null;
+          pre_alert_offsets_minutes: number[] | null;
+          paused_reason: string | null;
+          rrule: string | null;
+          rrule_start_date: string | null;
+          anchor_event: string | null;
+          anchor_offset_minutes: number;
+          anchor_latitude: number | null;
+          anchor_longitude: number | null;
+          anchor_method: string | null;
+          occasion_kind: string | null;
+          occasion_person: string | null;
+          occasion_year: number | null;
+          share_code: string | null;
           enabled: boolean;
           created_at: string;
           updated_at: string;
@@ -220,6 +262,27 @@ export type Database = {
           by_weekday?: number | null;
           by_monthday?: number | null;
           by_month?: number | null;
+          calendar_system?: string;
+          ignore_quiet_hours?: boolean;
+          nag_interval_minutes?: number | null;
+          nag_max_repeats?: number | null;
+          nag_occurrence_utc?: string | null;
+          nag_count?: number;
+          catch_up_policy?: string | null;
+          condition_json?: Record<string, unknown> | null;
+          pre_alert_offsets_minutes?: number[] | null;
+          paused_reason?: string | null;
+          rrule?: string | null;
+          rrule_start_date?: string | null;
+          anchor_event?: string | null;
+          anchor_offset_minutes?: number;
+          anchor_latitude?: number | null;
+          anchor_longitude?: number | null;
+          anchor_method?: string | null;
+          occasion_kind?: string | null;
+          occasion_person?: string | null;
+          occasion_year?: number | null;
+          share_code?: string | null;
           enabled?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -253,6 +316,27 @@ export type Database = {
           by_weekday?: number | null;
           by_monthday?: number | null;
           by_month?: number | null;
+          calendar_system?: string;
+          ignore_quiet_hours?: boolean;
+          nag_interval_minutes?: number | null;
+          nag_max_repeats?: number | null;
+          nag_occurrence_utc?: string | null;
+          nag_count?: number;
+          catch_up_policy?: string | null;
+          condition_json?: Record<string, unknown> | null;
+          pre_alert_offsets_minutes?: number[] | null;
+          paused_reason?: string | null;
+          rrule?: string | null;
+          rrule_start_date?: string | null;
+          anchor_event?: string | null;
+          anchor_offset_minutes?: number;
+          anchor_latitude?: number | null;
+          anchor_longitude?: number | null;
+          anchor_method?: string | null;
+          occasion_kind?: string | null;
+          occasion_person?: string | null;
+          occasion_year?: number | null;
+          share_code?: string | null;
           enabled?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -268,6 +352,12 @@ export type Database = {
           delivery_key: string;
           ok: boolean;
           error: string | null;
+          action: string | null;
+          action_at_utc: string | null;
+          snoozed_until_utc: string | null;
+          postponed_until_utc: string | null;
+          recipient_id: string | null;
+          action_by: string | null;
         };
         Insert: {
           id?: string;
@@ -277,6 +367,12 @@ export type Database = {
           delivery_key: string;
           ok: boolean;
           error?: string | null;
+          action?: string | null;
+          action_at_utc?: string | null;
+          snoozed_until_utc?: string | null;
+          postponed_until_utc?: string | null;
+          recipient_id?: string | null;
+          action_by?: string | null;
         };
         Update: {
           id?: string;
@@ -286,6 +382,12 @@ export type Database = {
           delivery_key?: string;
           ok?: boolean;
           error?: string | null;
+          action?: string | null;
+          action_at_utc?: string | null;
+          snoozed_until_utc?: string | null;
+          postponed_until_utc?: string | null;
+          recipient_id?: string | null;
+          action_by?: string | null;
         };
         Relationships: [
           {
@@ -296,6 +398,86 @@ export type Database = {
           }
         ];
       };
+      reminder_recipients: {
+        Row: {
+          id: string;
+          reminder_id: string;
+          chat_id: number;
+          chat_type: string;
+          user_id: string | null;
+          display_name: string | null;
+          added_by_telegram_id: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          reminder_id: string;
+          chat_id: number;
+          chat_type?: string;
+          user_id?: string | null;
+          display_name?: string | null;
+          added_by_telegram_id?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          reminder_id?: string;
+          chat_id?: number;
+          chat_type?: string;
+          user_id?: string | null;
+          display_name?: string | null;
+          added_by_telegram_id?: number | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reminder_recipients_reminder_id_fkey';
+            columns: ['reminder_id'];
+            referencedRelation: 'reminders';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reminder_recipients_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      reminder_presets: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          payload: Record<string, unknown>;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          payload?: Record<string, unknown>;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          payload?: Record<string, unknown>;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reminder_presets_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       cron_runs: {
         Row: {
           tick_id: string;
@@ -755,6 +937,7 @@ export type Database = {
           created_at: string;
           expires_at: string;
           used_at: string | null;
+          reusable: boolean;
         };
         Insert: {
           token: string;
@@ -763,6 +946,7 @@ export type Database = {
           created_at?: string;
           expires_at: string;
           used_at?: string | null;
+          reusable?: boolean;
         };
         Update: {
           token?: string;
@@ -771,6 +955,7 @@ export type Database = {
           created_at?: string;
           expires_at?: string;
           used_at?: string | null;
+          reusable?: boolean;
         };
         Relationships: [
           {
@@ -853,6 +1038,13 @@ export type Database = {
           options_json: Record<string, unknown>;
           sort_order: number;
           enabled: boolean;
+          schedule_weekdays: number[] | null;
+          schedule_every_days: number | null;
+          active_from: string | null;
+          active_until: string | null;
+          target_value: number | null;
+          target_bonus_xp: number | null;
+          aliases: string[] | null;
           created_at: string;
           updated_at: string;
         };
@@ -869,6 +1061,13 @@ export type Database = {
           options_json?: Record<string, unknown>;
           sort_order?: number;
           enabled?: boolean;
+          schedule_weekdays?: number[] | null;
+          schedule_every_days?: number | null;
+          active_from?: string | null;
+          active_until?: string | null;
+          target_value?: number | null;
+          target_bonus_xp?: number | null;
+          aliases?: string[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -885,6 +1084,13 @@ export type Database = {
           options_json?: Record<string, unknown>;
           sort_order?: number;
           enabled?: boolean;
+          schedule_weekdays?: number[] | null;
+          schedule_every_days?: number | null;
+          active_from?: string | null;
+          active_until?: string | null;
+          target_value?: number | null;
+          target_bonus_xp?: number | null;
+          aliases?: string[] | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -930,6 +1136,7 @@ export type Database = {
           item_id: string;
           value_json: Record<string, unknown> | null;
           xp_delta_applied: boolean;
+          target_bonus_applied: number;
           created_at_utc: string;
           updated_at_utc: string;
         };
@@ -939,6 +1146,7 @@ export type Database = {
           item_id: string;
           value_json?: Record<string, unknown> | null;
           xp_delta_applied?: boolean;
+          target_bonus_applied?: number;
           created_at_utc?: string;
           updated_at_utc?: string;
         };
@@ -948,6 +1156,7 @@ export type Database = {
           item_id?: string;
           value_json?: Record<string, unknown> | null;
           xp_delta_applied?: boolean;
+          target_bonus_applied?: number;
           created_at_utc?: string;
           updated_at_utc?: string;
         };
@@ -1145,6 +1354,8 @@ export type Database = {
 };
 
 export type ReminderRow = Database['public']['Tables']['reminders']['Row'];
+export type ReminderPresetRow = Database['public']['Tables']['reminder_presets']['Row'];
+export type ReminderRecipientRow = Database['public']['Tables']['reminder_recipients']['Row'];
 export type NoteRow = Database['public']['Tables']['notes']['Row'];
 export type NoteAttachmentRow = Database['public']['Tables']['note_attachments']['Row'];
 export type ArchiveMessageRow = Database['public']['Tables']['archive_messages']['Row'];
@@ -39,7 +39,8 @@ export const EMOJI = {
   id: '🆔',
   type: '🧩',
   items: '📎',
-  view: '👀'
+  view: '👀',
+  occasion: '🎉'
 } as const;
 
 const CLOCK_HOURS = ['🕛', '🕐', '🕑', '🕒', '🕓', '🕔', '🕕', '🕖', '🕗', '🕘', '🕙', '🕚'] as const;
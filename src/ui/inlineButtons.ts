@@ -4,11 +4,11 @@ import { createCallbackToken } from '../services/callbackTokens';
 
 export async function makeActionButton(
   ctx: Context,
-  params: { label: string; action: string; data?: any; ttlMinutes?: number }
+  params: { label: string; action: string; data?: any; ttlMinutes?: number; reusable?: boolean }
 ): Promise<{ text: string; callback_data: string }> {
   const userId = (ctx as unknown as { session?: { userId?: string } }).session?.userId;
   const payload = { action: params.action, data: params.data ?? null };
-  const token = await createCallbackToken({ userId, payload, ttlMinutes: params.ttlMinutes });
+  const token = await createCallbackToken({ userId, payload, ttlMinutes: params.ttlMinutes, reusable: params.reusable });
   if (token.length > 32) {
     console.warn({ scope: 'inline_buttons', event: 'token_length_warning', length: token.length, action: params.action });
   }
@@ -20,6 +20,16 @@ const attachmentKindEmojiKey = (kind: NoteAttachmentKind): EmojiKey => {
   return 'file';
 };
 
+// English ordinals need the 1st/2nd/3rd/nth split, with 11th-13th as exceptions; other locales use one form.
+const ordinalKey = (value: number): 'one' | 'two' | 'few' | 'other' => {
+  const lastTwo = value % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return 'other';
+  if (value % 10 === 1) return 'one';
+  if (value % 10 === 2) return 'two';
+  if (value % 10 === 3) return 'few';
+  return 'other';
+};
+
 export const labels = {
   nav: {
     notes: (locale?: Locale) => btn('notes', t('buttons.notes', undefined, locale)),
@@ -167,6 +177,9 @@ export const labels = {
     scheduleWeekly: () => withEmoji('calendar', t('screens.reminders.schedule_weekly')),
     scheduleMonthly: () => withEmoji('calendar', t('screens.reminders.schedule_monthly')),
     scheduleYearly: () => withEmoji('calendar', t('screens.reminders.schedule_yearly')),
+    scheduleCustom: () => withEmoji('calendar', t('screens.reminders.schedule_custom')),
+    schedulePrayer: () => withEmoji('clock', t('screens.reminders.schedule_prayer')),
+    scheduleSolar: () => withEmoji('clock', t('screens.reminders.schedule_solar')),
     scheduleTypeLabel: (key: string) => t(`screens.reminders.schedule_type_${key}`),
     intervalPrompt: () => withEmoji('clock', t('screens.reminders.interval_prompt')),
     intervalInvalid: () => withEmoji('warning', t('screens.reminders.interval_invalid')),
@@ -175,6 +188,20 @@ export const labels = {
     monthlyDayPrompt: () => withEmoji('calendar', t('screens.reminders.monthly_day_prompt')),
     monthlyDayInvalid: () => withEmoji('warning', t('screens.reminders.monthly_day_invalid')),
     yearlyMonthPrompt: () => withEmoji('calendar', t('screens.reminders.yearly_month_prompt')),
+    calendarSystemPrompt: () => withEmoji('calendar', t('screens.reminders.calendar_system_prompt')),
+    rruleFreqPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_freq_prompt')),
+    rruleIntervalPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_interval_prompt')),
+    rruleIntervalInvalid: () => withEmoji('warning', t('screens.reminders.rrule_interval_invalid')),
+    rruleWeekdaysPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_weekdays_prompt')),
+    rruleWeekdaysEmpty: () => withEmoji('warning', t('screens.reminders.rrule_weekdays_empty')),
+    rruleMonthlyModePrompt: () => withEmoji('calendar', t('screens.reminders.rrule_monthly_mode_prompt')),
+    rruleMonthdayPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_monthday_prompt')),
+    rrulePositionPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_position_prompt')),
+    rruleEndPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_end_prompt')),
+    rruleUntilPrompt: () => withEmoji('calendar', t('screens.reminders.rrule_until_prompt')),
+    rruleCountPrompt: () => withEmoji('edit', t('screens.reminders.rrule_count_prompt')),
+    rruleCountInvalid: () => withEmoji('warning', t('screens.reminders.rrule_count_invalid')),
+    rruleSummaryLine: (params: { summary: string }) => withEmoji('info', t('screens.reminders.rrule_summary_line', params)),
     attachmentsPrompt: () => withEmoji('attach', t('screens.reminders.attachments_prompt')),
     attachmentsFailed: () => withEmoji('warning', t('screens.reminders.attachments_failed')),
     untitled: () => t('screens.reminders.untitled'),
@@ -187,7 +214,112 @@ export const labels = {
     timeCurrent: (params: { time: string }) => withEmoji('clock', t('screens.reminders.time_current', params)),
     timeManualPrompt: () => withEmoji('edit', t('screens.reminders.time_manual_prompt')),
     messageTitle: (params: { title: string }) => withEmoji('reminders', t('screens.reminders.message_title', params)),
-    messageArchivedNotice: () => withEmoji('file', t('screens.reminders.message_archived_notice'))
+    messageArchivedNotice: () => withEmoji('file', t('screens.reminders.message_archived_notice')),
+    deliverySnoozed: (params: { time: string }) => withEmoji('clock', t('screens.reminders.delivery_snoozed', params)),
+    deliveryDone: () => withEmoji('ok', t('screens.reminders.delivery_done')),
+    deliverySkipped: () => withEmoji('cancel', t('screens.reminders.delivery_skipped')),
+    deliveryActionFailed: () => withEmoji('warning', t('screens.reminders.delivery_action_failed')),
+    deliveryActionStale: () => withEmoji('warning', t('screens.reminders.delivery_action_stale')),
+    quickPrompt: () => withEmoji('edit', t('screens.reminders.quick_prompt')),
+    quickNotUnderstood: () => withEmoji('warning', t('screens.reminders.quick_not_understood')),
+    quickConfirmPrompt: () => withEmoji('info', t('screens.reminders.quick_confirm_prompt')),
+    messageRepeat: (params: { index: string; total: string }) => withEmoji('clock', t('screens.reminders.message_repeat', params)),
+    naggingTitle: () => withEmoji('reminders', t('screens.reminders.nag_title')),
+    naggingPrompt: () => withEmoji('info', t('screens.reminders.nag_prompt')),
+    detailsNaggingLine: (params: { nagging: string }) => withEmoji('clock', t('screens.reminders.details_nag_line', params)),
+    messageMissedAt: (params: { time: string }) => withEmoji('warning', t('screens.reminders.message_missed_at', params)),
+    messageMissedSummary: (params: { count: string; times: string }) =>
+      withEmoji('warning', t('screens.reminders.message_missed_summary', params)),
+    messageConditionProgress: (params: { done: string; total: string }) =>
+      withEmoji('items', t('screens.reminders.message_condition_progress', params)),
+    messageConditionMissing: (params: { items: string }) => withEmoji('warning', t('screens.reminders.message_condition_missing', params)),
+    conditionTitle: () => withEmoji('reminders', t('screens.reminders.condition_title')),
+    conditionPrompt: () => withEmoji('info', t('screens.reminders.condition_prompt')),
+    conditionItemPrompt: () => withEmoji('items', t('screens.reminders.condition_item_prompt')),
+    conditionCountPrompt: (params: { total: string }) => withEmoji('items', t('screens.reminders.condition_count_prompt', params)),
+    conditionNoItems: () => withEmoji('warning', t('screens.reminders.condition_no_items')),
+    detailsConditionLine: (params: { condition: string }) => withEmoji('info', t('screens.reminders.details_condition_line', params)),
+    messagePreAlert: (params: { title: string; lead: string; time: string }) =>
+      withEmoji('processing', t('screens.reminders.message_pre_alert', params)),
+    preAlertsTitle: () => withEmoji('reminders', t('screens.reminders.pre_alerts_title')),
+    preAlertsPrompt: () => withEmoji('info', t('screens.reminders.pre_alerts_prompt')),
+    detailsPreAlertsLine: (params: { pre_alerts: string }) => withEmoji('processing', t('screens.reminders.details_pre_alerts_line', params)),
+    detailsPreAlertItem: (params: { lead: string; time: string }) => t('screens.reminders.details_pre_alert_item', params),
+    icsExportEmpty: () => withEmoji('info', t('screens.reminders.ics_export_empty')),
+    icsExportCaption: (params: { count: string }) => withEmoji('calendar', t('screens.reminders.ics_export_caption', params)),
+    icsImportTitle: () => withEmoji('calendar', t('screens.reminders.ics_import_title')),
+    icsImportPrompt: () => withEmoji('file', t('screens.reminders.ics_import_prompt')),
+    icsImportFailed: () => withEmoji('warning', t('screens.reminders.ics_import_failed')),
+    icsImportEmpty: () => withEmoji('warning', t('screens.reminders.ics_import_empty')),
+    icsImportSummary: (params: { total: string; fresh: string }) => withEmoji('info', t('screens.reminders.ics_import_summary', params)),
+    icsImportLine: (params: { title: string; time: string; schedule: string; duplicate: string }) =>
+      t('screens.reminders.ics_import_line', params),
+    icsImportDone: (params: { count: string }) => withEmoji('ok', t('screens.reminders.ics_import_done', params)),
+    historyTitle: () => withEmoji('history', t('screens.reminders.history_title')),
+    historyLine: (params: { ok: boolean; time: string; kind: string; outcome: string }) =>
+      withEmoji(params.ok ? 'success' : 'warning', t('screens.reminders.history_line', { time: params.time, kind: params.kind, outcome: params.outcome })),
+    historyRetrying: (params: { count: string; error: string }) => withEmoji('processing', t('screens.reminders.history_retrying', params)),
+    reliabilityTitle: () => withEmoji('info', t('screens.reminders.reliability_title')),
+    deadNotice: (params: { title: string; error: string }) => withEmoji('warning', t('screens.reminders.dead_notice', params)),
+    detailsDeadLine: (params: { count: string; error: string }) => withEmoji('warning', t('screens.reminders.details_dead_line', params)),
+    detailsPausedBlockedLine: () => withEmoji('warning', t('screens.reminders.details_paused_blocked_line')),
+    pausedTitle: () => withEmoji('reminders', t('screens.reminders.paused_title')),
+    resumedPaused: (params: { count: string }) => withEmoji('ok', t('screens.reminders.resumed_paused', params)),
+    listFilterLine: (params: { status: string; type: string; sort: string }) => withEmoji('view', t('screens.reminders.list_filter_line', params)),
+    listFiltersTitle: () => withEmoji('view', t('screens.reminders.list_filters_title')),
+    selectHint: (params: { count: string }) => withEmoji('info', t('screens.reminders.select_hint', params)),
+    bulkPaused: (params: { count: string }) => withEmoji('toggleOff', t('screens.reminders.bulk_paused', params)),
+    bulkResumed: (params: { count: string }) => withEmoji('toggleOn', t('screens.reminders.bulk_resumed', params)),
+    bulkDeleteConfirm: (params: { count: string }) => withEmoji('warning', t('screens.reminders.bulk_delete_confirm', params)),
+    bulkDeleted: (params: { count: string }) => withEmoji('delete', t('screens.reminders.bulk_deleted', params)),
+    duplicated: () => withEmoji('success', t('screens.reminders.duplicated')),
+    duplicatedInactive: () => withEmoji('warning', t('screens.reminders.duplicated_inactive')),
+    presetsTitle: () => withEmoji('save', t('screens.reminders.presets_title')),
+    presetSaved: (params: { name: string }) => withEmoji('save', t('screens.reminders.preset_saved', params)),
+    presetLimit: (params: { max: string }) => withEmoji('warning', t('screens.reminders.preset_limit', params)),
+    presetDeleted: () => withEmoji('delete', t('screens.reminders.preset_deleted')),
+    presetApplyTitle: (params: { name: string }) => withEmoji('new', t('screens.reminders.preset_apply_title', params)),
+    presetApplied: (params: { name: string }) => withEmoji('success', t('screens.reminders.preset_applied', params)),
+    presetAppliedInactive: (params: { name: string }) => withEmoji('warning', t('screens.reminders.preset_applied_inactive', params)),
+    locationRequired: () => withEmoji('warning', t('screens.reminders.location_required')),
+    prayerAnchorPrompt: () => withEmoji('clock', t('screens.reminders.prayer_anchor_prompt')),
+    solarAnchorPrompt: () => withEmoji('clock', t('screens.reminders.solar_anchor_prompt')),
+    detailsAnchorTimesLine: (params: { today: string; tomorrow: string }) => withEmoji('calendar', t('screens.reminders.details_anchor_times_line', params)),
+    anchorOffsetPrompt: (params: { anchor: string; max: string }) => withEmoji('clock', t('screens.reminders.anchor_offset_prompt', params)),
+    ordinal: (value: number) => t(`screens.reminders.ordinal_${ordinalKey(value)}`, { n: value }),
+    occasionText: (params: { kind: 'birthday' | 'anniversary'; name: string; years: number | null; upcoming: boolean }) => {
+      const key = `screens.reminders.message_${params.kind}_${params.upcoming ? 'upcoming' : 'today'}${params.years === null ? '_no_year' : ''}`;
+      const years = params.years ?? 0;
+      return t(key, { name: params.name, age: years, ordinal: labels.reminders.ordinal(years) });
+    },
+    messageOccasion: (params: { kind: 'birthday' | 'anniversary'; name: string; years: number | null; upcoming: boolean }) =>
+      withEmoji('occasion', labels.reminders.occasionText(params)),
+    occasionsTitle: () => withEmoji('occasion', t('screens.reminders.occasions_title')),
+    occasionLine: (params: { date: string; days: string; occasion: string }) => withEmoji('calendar', t('screens.reminders.occasion_line', params)),
+    occasionPersonPrompt: (params: { kind: string }) => withEmoji('user', t('screens.reminders.occasion_person_prompt', params)),
+    occasionDatePrompt: (params: { calendar: string; example: string }) => withEmoji('calendar', t('screens.reminders.occasion_date_prompt', params)),
+    occasionDateInvalid: () => withEmoji('warning', t('screens.reminders.occasion_date_invalid')),
+    occasionYearFuture: () => withEmoji('warning', t('screens.reminders.occasion_year_future')),
+    occasionCreated: () => withEmoji('success', t('screens.reminders.occasion_created')),
+    detailsOccasionLine: (params: { occasion: string }) => withEmoji('occasion', t('screens.reminders.details_occasion_line', params)),
+    shareTitle: () => withEmoji('user', t('screens.reminders.share_title')),
+    sharePersonLink: (params: { link: string }) => t('screens.reminders.share_person_link', params),
+    shareGroupLink: (params: { link: string }) => t('screens.reminders.share_group_link', params),
+    shareRecipientsHeader: (params: { count: string }) => t('screens.reminders.share_recipients_header', params),
+    shareRecipientLine: (params: { name: string; status: string }) => withEmoji('user', t('screens.reminders.share_recipient_line', params)),
+    shareLinkReset: () => withEmoji('success', t('screens.reminders.share_link_reset')),
+    shareRemoved: () => withEmoji('success', t('screens.reminders.share_removed')),
+    shareInvalid: () => withEmoji('warning', t('screens.reminders.share_invalid')),
+    shareOwnReminder: () => withEmoji('info', t('screens.reminders.share_own_reminder')),
+    shareLimit: (params: { max: string }) => withEmoji('warning', t('screens.reminders.share_limit', params)),
+    shareJoined: (params: { title: string; owner: string }) => withEmoji('success', t('screens.reminders.share_joined', params)),
+    shareAlreadyJoined: (params: { title: string }) => withEmoji('info', t('screens.reminders.share_already_joined', params)),
+    shareLeft: () => withEmoji('success', t('screens.reminders.share_left')),
+    shareNotJoined: () => withEmoji('info', t('screens.reminders.share_not_joined')),
+    shareLeaveNotAllowed: () => withEmoji('warning', t('screens.reminders.share_leave_not_allowed')),
+    sharedByUnknown: () => t('screens.reminders.shared_by_unknown'),
+    messageSharedBy: (params: { name: string }) => withEmoji('user', t('screens.reminders.message_shared_by', params)),
+    recipientAcked: (params: { name: string }) => withEmoji('confirm', t('screens.reminders.recipient_acked', params))
   },
   remindersButtons: {
     new: () => btn('new', t('buttons.reminders_new')),
@@ -214,7 +346,71 @@ export const labels = {
     typeDate: () => btn('edit', t('buttons.reminders_type_date')),
     dateConfirm: () => btn('ok', t('buttons.reminders_date_confirm')),
     typeTime: () => btn('edit', t('buttons.reminders_type_time')),
-    timeConfirm: () => btn('ok', t('buttons.reminders_time_confirm'))
+    timeConfirm: () => btn('ok', t('buttons.reminders_time_confirm')),
+    snooze10m: () => btn('clock', t('buttons.reminders_snooze_10m')),
+    snooze1h: () => btn('clock', t('buttons.reminders_snooze_1h')),
+    snoozeMorning: () => btn('calendar', t('buttons.reminders_snooze_morning')),
+    deliveryDone: () => btn('ok', t('buttons.reminders_delivery_done')),
+    deliverySkip: () => btn('cancel', t('buttons.reminders_delivery_skip')),
+    rruleNext: () => btn('ok', t('buttons.reminders_rrule_next')),
+    rruleModeDay: () => btn('calendar', t('buttons.reminders_rrule_mode_day')),
+    rruleModePosition: () => btn('calendar', t('buttons.reminders_rrule_mode_position')),
+    rruleLastDay: () => btn('calendar', t('buttons.reminders_rrule_last_day')),
+    rruleEndNever: () => btn('calendar', t('buttons.reminders_rrule_end_never')),
+    rruleEndUntil: () => btn('calendar', t('buttons.reminders_rrule_end_until')),
+    rruleEndCount: () => btn('edit', t('buttons.reminders_rrule_end_count')),
+    ignoreQuietHours: (enabled: boolean) =>
+      btn(enabled ? 'toggleOn' : 'toggleOff', t(enabled ? 'buttons.reminders_ignore_quiet_on' : 'buttons.reminders_ignore_quiet_off')),
+    quickAdd: () => btn('edit', t('buttons.reminders_quick_add')),
+    quickSave: () => btn('save', t('buttons.reminders_quick_save')),
+    quickRetype: () => btn('edit', t('buttons.reminders_quick_retype')),
+    deliveryAck: () => btn('ok', t('buttons.reminders_delivery_ack')),
+    nagging: () => btn('clock', t('buttons.reminders_nagging')),
+    naggingOff: () => btn('toggleOff', t('buttons.reminders_nagging_off')),
+    catchUp: (params: { value: string }) => btn('clock', t('buttons.reminders_catch_up', params)),
+    condition: () => btn('items', t('buttons.reminders_condition')),
+    conditionItem: () => btn('items', t('buttons.reminders_condition_item')),
+    conditionCount: () => btn('items', t('buttons.reminders_condition_count')),
+    conditionNone: () => btn('toggleOff', t('buttons.reminders_condition_none')),
+    preAlerts: () => btn('processing', t('buttons.reminders_pre_alerts')),
+    preAlertOption: (params: { lead: string; selected: boolean }) =>
+      btn(params.selected ? 'toggleOn' : 'toggleOff', t('buttons.reminders_pre_alert_option', { lead: params.lead })),
+    preAlertsClear: () => btn('delete', t('buttons.reminders_pre_alerts_clear')),
+    icsExport: () => btn('calendar', t('buttons.reminders_ics_export')),
+    icsImport: () => btn('file', t('buttons.reminders_ics_import')),
+    icsImportConfirm: (params: { count: string }) => btn('save', t('buttons.reminders_ics_import_confirm', params)),
+    history: () => btn('history', t('buttons.reminders_history')),
+    reliability: () => btn('info', t('buttons.reminders_reliability')),
+    resumePaused: (params: { count: string }) => btn('toggleOn', t('buttons.reminders_resume_paused', params)),
+    openList: () => btn('reminders', t('buttons.reminders_open_list')),
+    notNow: () => btn('back', t('buttons.reminders_not_now')),
+    listFilters: () => btn('view', t('buttons.reminders_list_filters')),
+    listOption: (params: { label: string; selected: boolean }) => btn(params.selected ? 'toggleOn' : 'toggleOff', params.label),
+    select: () => btn('items', t('buttons.reminders_select')),
+    selectDone: () => btn('ok', t('buttons.reminders_select_done')),
+    selectItem: (params: { title: string; selected: boolean }) => btn(params.selected ? 'toggleOn' : 'toggleOff', params.title),
+    duplicate: () => btn('new', t('buttons.reminders_duplicate')),
+    presetSave: () => btn('save', t('buttons.reminders_preset_save')),
+    presetUseTitle: (params: { title: string }) => btn('title', t('buttons.reminders_preset_use_title', params)),
+    fromPreset: (params: { count: string }) => btn('save', t('buttons.reminders_from_preset', params)),
+    presetApply: (params: { name: string }) => btn('new', params.name),
+    presetKeep: (params: { value: string }) => btn('ok', t('buttons.reminders_preset_keep', params)),
+    setLocation: () => btn('settings', t('buttons.reminders_set_location')),
+    prayerAnchor: (params: { name: string; time: string }) => btn('clock', t('buttons.reminders_prayer_anchor', params)),
+    anchorOffset: (params: { offset: string }) => btn('clock', params.offset),
+    selectPage: () => btn('items', t('buttons.reminders_select_page')),
+    selectClear: () => btn('cancel', t('buttons.reminders_select_clear')),
+    bulkPause: (params: { count: string }) => btn('toggleOff', t('buttons.reminders_bulk_pause', params)),
+    bulkResume: (params: { count: string }) => btn('toggleOn', t('buttons.reminders_bulk_resume', params)),
+    bulkDelete: (params: { count: string }) => btn('delete', t('buttons.reminders_bulk_delete', params)),
+    occasions: () => btn('occasion', t('buttons.reminders_occasions')),
+    occasionNew: (params: { kind: string }) => btn('new', params.kind),
+    occasionOpen: (params: { name: string }) => btn('occasion', params.name),
+    occasionCalendar: (params: { label: string; selected: boolean }) => btn(params.selected ? 'toggleOn' : 'toggleOff', params.label),
+    share: () => btn('user', t('buttons.reminders_share')),
+    shareReset: () => btn('edit', t('buttons.reminders_share_reset')),
+    shareRemove: (params: { name: string }) => btn('delete', params.name),
+    shareLeave: () => btn('cancel', t('buttons.reminders_share_leave'))
   },
   settings: {
     title: () => withEmoji('settings', t('screens.settings.title')),
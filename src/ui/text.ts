@@ -17,3 +17,9 @@ export function ensureMaxMessage(text: string, max = DEFAULT_MAX): string {
 export function formatLines(lines: string[]): string {
   return safePlain(lines.join('\n'));
 }
+
+export function formatProgressBar(current: number, target: number, width = 10): string {
+  const ratio = target > 0 ? Math.min(1, Math.max(0, current / target)) : 0;
+  const filled = Math.round(ratio * width);
+  return `${'▰'.repeat(filled)}${'▱'.repeat(width - filled)}`;
+}
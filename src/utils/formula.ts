@@ -0,0 +1,144 @@
+// Arithmetic over report item keys, e.g. `wake_time - bed_time` or `(deep_work + reading) / 60`.
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'ref'; key: string }
+  | { type: 'neg'; operand: FormulaNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode };
+
+// A time of day is minutes since midnight; a duration is a length in minutes.
+export type FormulaValueKind = 'time' | 'duration' | 'number';
+
+export type FormulaValue = { value: number; kind: FormulaValueKind };
+
+const DAY_MINUTES = 24 * 60;
+
+type Token = { type: 'number'; value: number } | { type: 'ref'; key: string } | { type: 'op'; op: string };
+
+const tokenize = (input: string): Token[] | null => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?)|([a-z_][a-z0-9_]*)|([-+*/()]))/y;
+  let index = 0;
+  while (index < input.length) {
+    if (!input.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(input);
+    if (!match) return null;
+    if (match[1]) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2]) tokens.push({ type: 'ref', key: match[2] });
+    else tokens.push({ type: 'op', op: match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+/** Parses a formula with the usual precedence and parentheses. Returns null when it is not well formed. */
+export const parseFormula = (input: string | null | undefined): FormulaNode | null => {
+  const tokens = tokenize((input ?? '').trim().toLowerCase());
+  if (!tokens || !tokens.length) return null;
+  let pos = 0;
+  const peekOp = (): string | null => {
+    const token = tokens[pos];
+    return token?.type === 'op' ? token.op : null;
+  };
+
+  const parseExpression = (): FormulaNode | null => {
+    let left = parseTerm();
+    while (left && (peekOp() === '+' || peekOp() === '-')) {
+      const op = peekOp() as '+' | '-';
+      pos += 1;
+      const right = parseTerm();
+      left = right ? { type: 'binary', op, left, right } : null;
+    }
+    return left;
+  };
+
+  const parseTerm = (): FormulaNode | null => {
+    let left = parseFactor();
+    while (left && (peekOp() === '*' || peekOp() === '/')) {
+      const op = peekOp() as '*' | '/';
+      pos += 1;
+      const right = parseFactor();
+      left = right ? { type: 'binary', op, left, right } : null;
+    }
+    return left;
+  };
+
+  const parseFactor = (): FormulaNode | null => {
+    const token = tokens[pos];
+    if (!token) return null;
+    pos += 1;
+    if (token.type === 'number') return { type: 'number', value: token.value };
+    if (token.type === 'ref') return { type: 'ref', key: token.key };
+    if (token.op === '-') {
+      const operand = parseFactor();
+      return operand ? { type: 'neg', operand } : null;
+    }
+    if (token.op === '(') {
+      const inner = parseExpression();
+      if (!inner || peekOp() !== ')') return null;
+      pos += 1;
+      return inner;
+    }
+    return null;
+  };
+
+  const node = parseExpression();
+  return node && pos === tokens.length ? node : null;
+};
+
+export const listFormulaRefs = (node: FormulaNode): string[] => {
+  const refs = new Set<string>();
+  const walk = (current: FormulaNode): void => {
+    if (current.type === 'ref') refs.add(current.key);
+    else if (current.type === 'neg') walk(current.operand);
+    else if (current.type === 'binary') {
+      walk(current.left);
+      walk(current.right);
+    }
+  };
+  walk(node);
+  return [...refs];
+};
+
+const combine = (op: '+' | '-' | '*' | '/', left: FormulaValue, right: FormulaValue): FormulaValue | null => {
+  if (op === '-' && left.kind === 'time' && right.kind === 'time') {
+    // Times of day wrap at midnight: 07:00 - 23:30 is 7h30m, not a negative span.
+    return { value: (((left.value - right.value) % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES, kind: 'duration' };
+  }
+  if (op === '+' || op === '-') {
+    const value = op === '+' ? left.value + right.value : left.value - right.value;
+    if (left.kind === 'time' || right.kind === 'time') {
+      return { value: ((value % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES, kind: 'time' };
+    }
+    return { value, kind: left.kind === 'number' ? right.kind : left.kind };
+  }
+  if (op === '*') {
+    const scaled = left.kind === 'number' ? right.kind : right.kind === 'number' ? left.kind : 'number';
+    return { value: left.value * right.value, kind: scaled === 'time' ? 'number' : scaled };
+  }
+  // Division yields a plain number: a ratio, or minutes turned into hours by `/ 60`.
+  if (right.value === 0) return null;
+  return { value: left.value / right.value, kind: 'number' };
+};
+
+/**
+ * Evaluates a parsed formula. resolve returns the value of an item key, or null when that item has no
+ * value yet; any missing input, or a division by zero, makes the whole result null.
+ */
+export const evaluateFormula = (node: FormulaNode, resolve: (key: string) => FormulaValue | null): FormulaValue | null => {
+  switch (node.type) {
+    case 'number':
+      return { value: node.value, kind: 'number' };
+    case 'ref':
+      return resolve(node.key);
+    case 'neg': {
+      const operand = evaluateFormula(node.operand, resolve);
+      return operand ? { value: -operand.value, kind: operand.kind } : null;
+    }
+    case 'binary': {
+      const left = evaluateFormula(node.left, resolve);
+      const right = left ? evaluateFormula(node.right, resolve) : null;
+      return left && right ? combine(node.op, left, right) : null;
+    }
+  }
+};
@@ -5,7 +5,7 @@ const breaks = [
   -61, 9, 38, 199, 426, 686, 756, 818, 1111, 1181, 1210, 1635, 2060, 2097, 2192, 2262, 2324, 2394, 2456, 3178
 ];
 
-const div = (a: number, b: number): number => Math.floor(a / b);
+const div = (a: number, b: number): number => Math.trunc(a / b);
 
 const g2d = (gy: number, gm: number, gd: number): number => {
   const d =
@@ -101,14 +101,19 @@ const d2j = (jdn: number): JalaliDate => {
   return { year: jy, month: jm, day: jd };
 };
 
+// jalCal reports leap === 0 for leap years, which is when Esfand has 30 days.
+export const getJalaliMonthLength = (year: number, month: number): number => {
+  if (month <= 6) return 31;
+  if (month <= 11) return 30;
+  const { leap } = jalCal(year);
+  return leap === 0 ? 30 : 29;
+};
+
 export const isValidJalaliDate = (year: number, month: number, day: number): boolean => {
   if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return false;
   if (month < 1 || month > 12) return false;
   if (day < 1) return false;
-  if (month <= 6) return day <= 31;
-  if (month <= 11) return day <= 30;
-  const { leap } = jalCal(year);
-  return day <= (leap === 0 ? 29 : 30);
+  return day <= getJalaliMonthLength(year, month);
 };
 
 export const jalaliToGregorian = (year: number, month: number, day: number): GregorianDate => {
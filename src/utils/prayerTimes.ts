@@ -0,0 +1,144 @@
+export type PrayerMethod = 'tehran' | 'jafari' | 'mwl' | 'isna' | 'egypt' | 'makkah' | 'karachi';
+
+export type PrayerTimeName = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'sunset' | 'maghrib' | 'isha';
+
+export type PrayerTimes = Record<PrayerTimeName, Date | null>;
+
+type PrayerMethodParams = {
+  fajrAngle: number;
+  ishaAngle?: number;
+  ishaMinutes?: number;
+  // Shia methods wait for the eastern redness to pass; the others pray Maghrib at sunset.
+  maghribAngle?: number;
+};
+
+export const PRAYER_METHODS: Record<PrayerMethod, PrayerMethodParams> = {
+  tehran: { fajrAngle: 17.7, ishaAngle: 14, maghribAngle: 4.5 },
+  jafari: { fajrAngle: 16, ishaAngle: 14, maghribAngle: 4 },
+  mwl: { fajrAngle: 18, ishaAngle: 17 },
+  isna: { fajrAngle: 15, ishaAngle: 15 },
+  egypt: { fajrAngle: 19.5, ishaAngle: 17.5 },
+  makkah: { fajrAngle: 18.5, ishaMinutes: 90 },
+  karachi: { fajrAngle: 18, ishaAngle: 18 }
+};
+
+export const DEFAULT_PRAYER_METHOD: PrayerMethod = 'tehran';
+
+export const isPrayerMethod = (value: unknown): value is PrayerMethod => typeof value === 'string' && value in PRAYER_METHODS;
+
+// Apparent sunrise/sunset: refraction plus the sun's semi-diameter, at sea level.
+const RISE_SET_ANGLE = 0.833;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+const sin = (degrees: number): number => Math.sin(toRadians(degrees));
+const cos = (degrees: number): number => Math.cos(toRadians(degrees));
+const tan = (degrees: number): number => Math.tan(toRadians(degrees));
+const arcsin = (value: number): number => toDegrees(Math.asin(value));
+const arccos = (value: number): number => toDegrees(Math.acos(value));
+const arctan2 = (y: number, x: number): number => toDegrees(Math.atan2(y, x));
+const arccot = (value: number): number => toDegrees(Math.atan(1 / value));
+
+const fix = (value: number, range: number): number => {
+  const result = value - range * Math.floor(value / range);
+  return result < 0 ? result + range : result;
+};
+const fixAngle = (value: number): number => fix(value, 360);
+const fixHour = (value: number): number => fix(value, 24);
+const timeDiff = (from: number, to: number): number => fixHour(to - from);
+
+const julianDate = (year: number, month: number, day: number): number => {
+  let y = year;
+  let m = month;
+  if (m <= 2) {
+    y -= 1;
+    m += 12;
+  }
+  const a = Math.floor(y / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (y + 4716)) + Math.floor(30.6001 * (m + 1)) + day + b - 1524.5;
+};
+
+// Low-precision solar coordinates (about one arc-minute until 2050), from the U.S. Naval Observatory.
+const sunPosition = (jd: number): { declination: number; equation: number } => {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * sin(g) + 0.02 * sin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return { declination: arcsin(sin(e) * sin(l)), equation: q / 15 - fixHour(ra) };
+};
+
+/**
+ * Computes the prayer times, sunrise and sunset of one calendar day at the given coordinates, with no
+ * network calls. At high latitudes Fajr, Maghrib and Isha are capped to a share of the night (the
+ * angle-based rule); times that do not happen at all that day, as under the midnight sun, are null.
+ */
+export const computePrayerTimes = (params: {
+  localDate: string;
+  latitude: number;
+  longitude: number;
+  method?: PrayerMethod | null;
+}): PrayerTimes => {
+  const [year, month, day] = params.localDate.split('-').map(Number);
+  const { latitude, longitude } = params;
+  const method = PRAYER_METHODS[params.method && isPrayerMethod(params.method) ? params.method : DEFAULT_PRAYER_METHOD];
+  const jDate = julianDate(year, month, day) - longitude / (15 * 24);
+
+  const midDay = (portion: number): number => fixHour(12 - sunPosition(jDate + portion).equation);
+  const sunAngleTime = (angle: number, portion: number, beforeNoon = false): number => {
+    const { declination } = sunPosition(jDate + portion);
+    const hours = arccos((-sin(angle) - sin(declination) * sin(latitude)) / (cos(declination) * cos(latitude))) / 15;
+    return midDay(portion) + (beforeNoon ? -hours : hours);
+  };
+  const asrTime = (shadowFactor: number, portion: number): number => {
+    const { declination } = sunPosition(jDate + portion);
+    return sunAngleTime(-arccot(shadowFactor + tan(Math.abs(latitude - declination))), portion);
+  };
+
+  // A single refinement pass from rough guesses is within a minute of the fixed point.
+  const fajr = sunAngleTime(method.fajrAngle, 5 / 24, true);
+  const sunrise = sunAngleTime(RISE_SET_ANGLE, 6 / 24, true);
+  const dhuhr = midDay(12 / 24);
+  const asr = asrTime(1, 13 / 24);
+  const sunset = sunAngleTime(RISE_SET_ANGLE, 18 / 24);
+  let maghrib = method.maghribAngle ? sunAngleTime(method.maghribAngle, 18 / 24) : sunset;
+  let isha = method.ishaAngle ? sunAngleTime(method.ishaAngle, 18 / 24) : maghrib + (method.ishaMinutes ?? 0) / 60;
+  let adjustedFajr = fajr;
+
+  const night = timeDiff(sunset, sunrise);
+  if (Number.isFinite(night)) {
+    const fajrPortion = (method.fajrAngle / 60) * night;
+    if (!Number.isFinite(adjustedFajr) || timeDiff(adjustedFajr, sunrise) > fajrPortion) adjustedFajr = sunrise - fajrPortion;
+    if (method.maghribAngle) {
+      const maghribPortion = (method.maghribAngle / 60) * night;
+      if (!Number.isFinite(maghrib) || timeDiff(sunset, maghrib) > maghribPortion) maghrib = sunset + maghribPortion;
+    }
+    if (method.ishaAngle) {
+      const ishaPortion = (method.ishaAngle / 60) * night;
+      if (!Number.isFinite(isha) || timeDiff(sunset, isha) > ishaPortion) isha = sunset + ishaPortion;
+    } else {
+      isha = maghrib + (method.ishaMinutes ?? 0) / 60;
+    }
+  }
+
+  // The hours above are local mean solar time; shifting by the longitude turns them into UTC on the same day.
+  const dayStartUtc = Date.UTC(year, month - 1, day);
+  const toInstant = (hours: number): Date | null => {
+    if (!Number.isFinite(hours)) return null;
+    const utcMinutes = Math.round((hours - longitude / 15) * 60);
+    return new Date(dayStartUtc + utcMinutes * 60 * 1000);
+  };
+
+  return {
+    fajr: toInstant(adjustedFajr),
+    sunrise: toInstant(sunrise),
+    dhuhr: toInstant(dhuhr),
+    asr: toInstant(asr),
+    sunset: toInstant(sunset),
+    maghrib: toInstant(maghrib),
+    isha: toInstant(isha)
+  };
+};
@@ -0,0 +1,288 @@
+import { localDateTimeToUtcIso, formatInstantToLocal } from './time';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// weekday uses the same 0=Sunday..6=Saturday index as the rest of the reminder code.
+export type RRuleWeekday = { weekday: number; ordinal?: number };
+
+export type RRule = {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  count?: number;
+  untilDate?: string;
+  untilUtc?: Date;
+  wkst?: number;
+};
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PERIODS = 5000;
+
+const pad = (value: number, size = 2): string => String(value).padStart(size, '0');
+
+const toDayNumber = (localDate: string): number => {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+const fromDayNumber = (dayNumber: number): string => {
+  const date = new Date(dayNumber * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// 1970-01-01 was a Thursday.
+const weekdayOf = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const parseIntList = (value: string): number[] | null => {
+  const parts = value.split(',').map((part) => Number(part.trim()));
+  if (parts.length === 0 || parts.some((part) => !Number.isInteger(part) || part === 0)) return null;
+  return parts;
+};
+
+const parseWeekdayList = (value: string): RRuleWeekday[] | null => {
+  const result: RRuleWeekday[] = [];
+  for (const raw of value.split(',')) {
+    const match = raw.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return null;
+    const weekday = WEEKDAY_CODES.indexOf(match[2] as (typeof WEEKDAY_CODES)[number]);
+    const ordinal = match[1] ? Number(match[1]) : undefined;
+    if (ordinal === 0 || (ordinal !== undefined && Math.abs(ordinal) > 53)) return null;
+    result.push(ordinal === undefined ? { weekday } : { weekday, ordinal });
+  }
+  return result;
+};
+
+const parseUntil = (value: string): Pick<RRule, 'untilDate' | 'untilUtc'> | null => {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly) {
+    return { untilDate: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` };
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (dateTime) {
+    const [, y, m, d, hh, mm, ss] = dateTime.map(Number);
+    return { untilUtc: new Date(Date.UTC(y, m - 1, d, hh, mm, ss)) };
+  }
+  return null;
+};
+
+/**
+ * Parses an RFC 5545 RRULE value (with or without the "RRULE:" prefix).
+ * Only the parts reminders can schedule on are accepted; anything else returns null.
+ */
+export const parseRRule = (input: string | null | undefined): RRule | null => {
+  if (!input) return null;
+  const body = input.trim().replace(/^RRULE:/i, '');
+  if (!body) return null;
+
+  const rule: Partial<RRule> = { interval: 1 };
+  for (const part of body.split(';')) {
+    if (!part.trim()) continue;
+    const [rawKey, rawValue] = part.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const value = rawValue?.trim() ?? '';
+    if (!key || !value) return null;
+
+    if (key === 'FREQ') {
+      const freq = value.toUpperCase() as RRuleFrequency;
+      if (!FREQUENCIES.includes(freq)) return null;
+      rule.freq = freq;
+    } else if (key === 'INTERVAL') {
+      const interval = Number(value);
+      if (!Number.isInteger(interval) || interval < 1) return null;
+      rule.interval = interval;
+    } else if (key === 'COUNT') {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 1) return null;
+      rule.count = count;
+    } else if (key === 'UNTIL') {
+      const until = parseUntil(value.toUpperCase());
+      if (!until) return null;
+      Object.assign(rule, until);
+    } else if (key === 'BYDAY') {
+      const byDay = parseWeekdayList(value);
+      if (!byDay) return null;
+      rule.byDay = byDay;
+    } else if (key === 'BYMONTHDAY') {
+      const byMonthDay = parseIntList(value);
+      if (!byMonthDay || byMonthDay.some((day) => Math.abs(day) > 31)) return null;
+      rule.byMonthDay = byMonthDay;
+    } else if (key === 'BYMONTH') {
+      const byMonth = parseIntList(value);
+      if (!byMonth || byMonth.some((month) => month < 1 || month > 12)) return null;
+      rule.byMonth = byMonth;
+    } else if (key === 'BYSETPOS') {
+      const bySetPos = parseIntList(value);
+      if (!bySetPos || bySetPos.some((pos) => Math.abs(pos) > 366)) return null;
+      rule.bySetPos = bySetPos;
+    } else if (key === 'WKST') {
+      const wkst = WEEKDAY_CODES.indexOf(value.toUpperCase() as (typeof WEEKDAY_CODES)[number]);
+      if (wkst < 0) return null;
+      rule.wkst = wkst;
+    } else {
+      return null;
+    }
+  }
+
+  if (!rule.freq) return null;
+  return rule as RRule;
+};
+
+export const formatRRule = (rule: RRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((entry) => `${entry.ordinal ?? ''}${WEEKDAY_CODES[entry.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (typeof rule.wkst === 'number') parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+  if (rule.untilDate) parts.push(`UNTIL=${rule.untilDate.replace(/-/g, '')}`);
+  if (rule.untilUtc) parts.push(`UNTIL=${rule.untilUtc.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+const applySetPos = (days: number[], bySetPos?: number[]): number[] => {
+  if (!bySetPos?.length) return days;
+  const picked = new Set<number>();
+  for (const pos of bySetPos) {
+    const index = pos > 0 ? pos - 1 : days.length + pos;
+    if (index >= 0 && index < days.length) picked.add(days[index]);
+  }
+  return [...picked].sort((a, b) => a - b);
+};
+
+const expandWeekdays = (firstDay: number, lastDay: number, byDay: RRuleWeekday[]): number[] => {
+  const result: number[] = [];
+  for (const entry of byDay) {
+    const matches: number[] = [];
+    const offset = (entry.weekday - weekdayOf(firstDay) + 7) % 7;
+    for (let day = firstDay + offset; day <= lastDay; day += 7) {
+      matches.push(day);
+    }
+    if (entry.ordinal === undefined) {
+      result.push(...matches);
+      continue;
+    }
+    const index = entry.ordinal > 0 ? entry.ordinal - 1 : matches.length + entry.ordinal;
+    if (index >= 0 && index < matches.length) result.push(matches[index]);
+  }
+  return result;
+};
+
+const expandMonth = (rule: RRule, year: number, month: number, defaultDay: number): number[] => {
+  const first = toDayNumber(`${year}-${pad(month)}-01`);
+  const length = daysInMonth(year, month);
+  const last = first + length - 1;
+
+  const fromMonthDays = rule.byMonthDay
+    ?.map((day) => (day > 0 ? day : length + day + 1))
+    .filter((day) => day >= 1 && day <= length)
+    .map((day) => first + day - 1);
+  const fromWeekdays = rule.byDay?.length ? expandWeekdays(first, last, rule.byDay) : undefined;
+
+  if (fromMonthDays && fromWeekdays) {
+    const allowed = new Set(fromWeekdays);
+    return fromMonthDays.filter((day) => allowed.has(day));
+  }
+  if (fromMonthDays) return fromMonthDays;
+  if (fromWeekdays) return fromWeekdays;
+  return defaultDay <= length ? [first + defaultDay - 1] : [];
+};
+
+const expandPeriod = (rule: RRule, startDay: number, periodIndex: number): number[] => {
+  const [startYear, startMonth, startDate] = fromDayNumber(startDay).split('-').map(Number);
+  const matchesMonth = (day: number): boolean => {
+    if (!rule.byMonth?.length) return true;
+    return rule.byMonth.includes(Number(fromDayNumber(day).split('-')[1]));
+  };
+  let days: number[] = [];
+
+  if (rule.freq === 'DAILY') {
+    const day = startDay + periodIndex * rule.interval;
+    const [year, month, date] = fromDayNumber(day).split('-').map(Number);
+    const length = daysInMonth(year, month);
+    const monthDayOk = !rule.byMonthDay?.length || rule.byMonthDay.some((entry) => (entry > 0 ? entry : length + entry + 1) === date);
+    const weekdayOk = !rule.byDay?.length || rule.byDay.some((entry) => entry.weekday === weekdayOf(day));
+    days = monthDayOk && weekdayOk ? [day] : [];
+  } else if (rule.freq === 'WEEKLY') {
+    const wkst = rule.wkst ?? 1;
+    const firstWeekStart = startDay - ((weekdayOf(startDay) - wkst + 7) % 7);
+    const weekStart = firstWeekStart + periodIndex * rule.interval * 7;
+    const weekdays = rule.byDay?.length ? rule.byDay.map((entry) => entry.weekday) : [weekdayOf(startDay)];
+    for (let day = weekStart; day < weekStart + 7; day += 1) {
+      if (weekdays.includes(weekdayOf(day))) days.push(day);
+    }
+  } else if (rule.freq === 'MONTHLY') {
+    const monthIndex = startYear * 12 + (startMonth - 1) + periodIndex * rule.interval;
+    days = expandMonth(rule, Math.floor(monthIndex / 12), (monthIndex % 12) + 1, startDate);
+  } else {
+    const year = startYear + periodIndex * rule.interval;
+    if (rule.byMonth?.length) {
+      for (const month of rule.byMonth) days.push(...expandMonth(rule, year, month, startDate));
+    } else if (rule.byDay?.length && !rule.byMonthDay?.length) {
+      days = expandWeekdays(toDayNumber(`${year}-01-01`), toDayNumber(`${year}-12-31`), rule.byDay);
+    } else if (rule.byMonthDay?.length) {
+      for (let month = 1; month <= 12; month += 1) days.push(...expandMonth(rule, year, month, startDate));
+    } else {
+      days = expandMonth(rule, year, startMonth, startDate);
+    }
+  }
+
+  const sorted = [...new Set(days.filter(matchesMonth))].sort((a, b) => a - b);
+  return applySetPos(sorted, rule.bySetPos);
+};
+
+// Without COUNT there is no need to walk from the start date: jump to just before "now".
+const firstUsefulPeriod = (rule: RRule, startDay: number, nowDay: number): number => {
+  if (rule.count || nowDay <= startDay) return 0;
+  const [startYear, startMonth] = fromDayNumber(startDay).split('-').map(Number);
+  const [nowYear, nowMonth] = fromDayNumber(nowDay).split('-').map(Number);
+  let elapsed = 0;
+  if (rule.freq === 'DAILY') elapsed = (nowDay - startDay) / rule.interval;
+  if (rule.freq === 'WEEKLY') elapsed = (nowDay - startDay) / (rule.interval * 7);
+  if (rule.freq === 'MONTHLY') elapsed = (nowYear * 12 + nowMonth - (startYear * 12 + startMonth)) / rule.interval;
+  if (rule.freq === 'YEARLY') elapsed = (nowYear - startYear) / rule.interval;
+  return Math.max(0, Math.floor(elapsed) - 1);
+};
+
+/**
+ * Returns the first occurrence strictly after nowUtc, evaluated on local calendar days of the
+ * given timezone with the reminder's time of day. Null once UNTIL/COUNT are exhausted.
+ */
+export const computeNextRRuleOccurrence = (params: {
+  rule: RRule;
+  startDate: string;
+  atTime: string;
+  timezone: string;
+  nowUtc: Date;
+}): Date | null => {
+  const { rule, startDate, atTime, timezone, nowUtc } = params;
+  const startDay = toDayNumber(startDate);
+  const nowDay = toDayNumber(formatInstantToLocal(nowUtc.toISOString(), timezone).date);
+  const untilDay = rule.untilDate ? toDayNumber(rule.untilDate) : null;
+
+  let seen = 0;
+  const firstPeriod = firstUsefulPeriod(rule, startDay, nowDay);
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period += 1) {
+    for (const day of expandPeriod(rule, startDay, period)) {
+      if (day < startDay) continue;
+      if (untilDay !== null && day > untilDay) return null;
+      const occurrence = new Date(localDateTimeToUtcIso(fromDayNumber(day), atTime, timezone));
+      if (rule.untilUtc && occurrence.getTime() > rule.untilUtc.getTime()) return null;
+      seen += 1;
+      if (rule.count && seen > rule.count) return null;
+      if (occurrence.getTime() > nowUtc.getTime()) return occurrence;
+    }
+  }
+
+  return null;
+};